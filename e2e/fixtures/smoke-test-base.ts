@@ -128,6 +128,11 @@ function createSmokeDbFixture(groupId: string): SmokeDbFixture {
       // Use correct table names based on actual schema
       await executeSQL(`DELETE FROM public.billing_subscriptions WHERE group_id = $1`, [groupId]);
       await executeSQL(`DELETE FROM public.future_statements WHERE group_id = $1`, [groupId]);
+      await executeSQL(`DELETE FROM public.installment_purchases WHERE group_id = $1`, [groupId]);
+      await executeSQL(`DELETE FROM public.transfers WHERE group_id = $1`, [groupId]);
+      await executeSQL(`DELETE FROM public.event_confirmations WHERE group_id = $1`, [groupId]);
+      await executeSQL(`DELETE FROM public.savings_goals WHERE group_id = $1`, [groupId]);
+      await executeSQL(`DELETE FROM public.loans WHERE group_id = $1`, [groupId]);
       await executeSQL(`DELETE FROM public.expenses WHERE group_id = $1`, [groupId]);
       await executeSQL(`DELETE FROM public.credit_cards WHERE group_id = $1`, [groupId]);
       await executeSQL(`DELETE FROM public.projects WHERE group_id = $1`, [groupId]);
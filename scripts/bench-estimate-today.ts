@@ -2,7 +2,9 @@
  * NFR-001 performance check (in-memory only)
  *
  * Measures the estimate + rebase computation path for a representative dataset
- * (≤100 entities; projectionDays = 90).
+ * (≤100 entities; projectionDays = 90), then the full projection over each
+ * horizon the dashboard offers, to track how the engine scales with the
+ * number of days.
  *
  * Run:
  *   pnpm tsx scripts/bench-estimate-today.ts
@@ -10,6 +12,7 @@
 
 import { performance } from 'node:perf_hooks'
 import {
+  calculateCashflow,
   calculateEstimatedTodayBalance,
   rebaseProjectionFromEstimatedToday,
 } from '../src/lib/cashflow'
@@ -25,6 +28,9 @@ import type {
 
 const TIME_ZONE = 'America/Sao_Paulo'
 
+/** Horizons offered by the dashboard projection selector */
+const PROJECTION_HORIZONS = [30, 90, 180, 365] as const
+
 function uuid() {
   return crypto.randomUUID()
 }
@@ -204,6 +210,30 @@ function percentile(values: number[], p: number): number {
   return sorted[Math.max(0, Math.min(sorted.length - 1, idx))]
 }
 
+/**
+ * Run `fn` after a few warm-up runs and report its timings in milliseconds.
+ */
+function measure(runs: number, fn: () => void): { avg: number; p95: number; max: number } {
+  for (let i = 0; i < 5; i++) fn()
+
+  const samples: number[] = []
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now()
+    fn()
+    samples.push(performance.now() - start)
+  }
+
+  return {
+    avg: samples.reduce((sum, v) => sum + v, 0) / samples.length,
+    p95: percentile(samples, 95),
+    max: Math.max(...samples),
+  }
+}
+
+function formatTimings({ avg, p95, max }: { avg: number; p95: number; max: number }): string {
+  return `avg=${avg.toFixed(2)}ms p95=${p95.toFixed(2)}ms max=${max.toFixed(2)}ms`
+}
+
 function main() {
   const accounts = createAccounts()
   const projects = createProjects()
@@ -215,37 +245,9 @@ function main() {
 
   const projectionDays = 90
 
-  // Warm-up
-  for (let i = 0; i < 5; i++) {
-    const estimate = calculateEstimatedTodayBalance({
-      accounts,
-      projects,
-      fixedExpenses,
-      singleShotExpenses,
-      singleShotIncome,
-      creditCards,
-      futureStatements,
-      timeZone: TIME_ZONE,
-    })
-    rebaseProjectionFromEstimatedToday({
-      projectionDays,
-      estimatedToday: estimate,
-      accounts,
-      projects,
-      fixedExpenses,
-      singleShotExpenses,
-      singleShotIncome,
-      creditCards,
-      futureStatements,
-    })
-  }
-
-  const samples: number[] = []
   const runs = 50
 
-  for (let i = 0; i < runs; i++) {
-    const start = performance.now()
-
+  const estimateTimings = measure(runs, () => {
     const estimate = calculateEstimatedTodayBalance({
       accounts,
       projects,
@@ -267,19 +269,32 @@ function main() {
       creditCards,
       futureStatements,
     })
-
-    const end = performance.now()
-    samples.push(end - start)
-  }
-
-  const avg = samples.reduce((sum, v) => sum + v, 0) / samples.length
-  const p95 = percentile(samples, 95)
-  const max = Math.max(...samples)
+  })
 
   console.log('Estimate+Rebase benchmark (in-memory)')
   console.log(`Entities: accounts=${accounts.length}, projects=${projects.length}, fixedExpenses=${fixedExpenses.length}, singleShotExpenses=${singleShotExpenses.length}, singleShotIncome=${singleShotIncome.length}, cards=${creditCards.length}, futureStatements=${futureStatements.length}`)
   console.log(`projectionDays=${projectionDays}, runs=${runs}`)
-  console.log(`avg=${avg.toFixed(2)}ms p95=${p95.toFixed(2)}ms max=${max.toFixed(2)}ms`)
+  console.log(formatTimings(estimateTimings))
+
+  // Projection cost per horizon: with events indexed by day it should grow
+  // with the number of days plus entities, not their product
+  console.log('')
+  console.log('Projection benchmark by horizon (in-memory)')
+  for (const days of PROJECTION_HORIZONS) {
+    const timings = measure(runs, () => {
+      calculateCashflow({
+        accounts,
+        projects,
+        expenses: fixedExpenses,
+        singleShotExpenses,
+        singleShotIncome,
+        creditCards,
+        futureStatements,
+        options: { projectionDays: days },
+      })
+    })
+    console.log(`projectionDays=${days}: ${formatTimings(timings)} (${(timings.avg / days * 1000).toFixed(1)}µs/day)`)
+  }
 }
 
 main()
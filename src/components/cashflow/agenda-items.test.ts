@@ -0,0 +1,167 @@
+/**
+ * Agenda Items Tests
+ *
+ * Tests for listing recurring occurrences of a projection.
+ */
+
+import { describe, expect, it } from 'vitest'
+import type { DailySnapshot, ExpenseEvent, IncomeEvent } from '@/lib/cashflow/types'
+import type { FixedExpense, OccurrenceOverride, Project } from '@/types'
+import { getAgendaItems } from './agenda-items'
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function createProject(occurrenceOverrides: OccurrenceOverride[] = []): Project {
+  return {
+    id: 'project-1',
+    type: 'recurring',
+    name: 'Salário',
+    amount: 500000,
+    frequency: 'monthly',
+    paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+    certainty: 'guaranteed',
+    isActive: true,
+    occurrenceOverrides,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as Project
+}
+
+function createExpense(occurrenceOverrides: OccurrenceOverride[] = []): FixedExpense {
+  return {
+    id: 'expense-1',
+    type: 'fixed',
+    name: 'Aluguel',
+    amount: 200000,
+    dueDay: 10,
+    isActive: true,
+    occurrenceOverrides,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as FixedExpense
+}
+
+function createDay(
+  date: Date,
+  events: { income?: IncomeEvent[]; expense?: ExpenseEvent[] } = {}
+): DailySnapshot {
+  return {
+    date,
+    dayOffset: 0,
+    optimisticBalance: 0,
+    pessimisticBalance: 0,
+    incomeEvents: events.income ?? [],
+    expenseEvents: events.expense ?? [],
+    isOptimisticDanger: false,
+    isPessimisticDanger: false,
+  }
+}
+
+function createIncomeEvent(occurrenceDate: Date): IncomeEvent {
+  return {
+    projectId: 'project-1',
+    projectName: 'Salário',
+    amount: 500000,
+    certainty: 'guaranteed',
+    occurrenceDate,
+  }
+}
+
+function createExpenseEvent(occurrenceDate: Date, amount = 200000): ExpenseEvent {
+  return {
+    sourceId: 'expense-1',
+    sourceName: 'Aluguel',
+    sourceType: 'expense',
+    amount,
+    occurrenceDate,
+  }
+}
+
+// =============================================================================
+// getAgendaItems TESTS
+// =============================================================================
+
+describe('getAgendaItems', () => {
+  it('lists recurring occurrences in date order', () => {
+    const days = [
+      createDay(new Date(2026, 0, 5), { income: [createIncomeEvent(new Date(2026, 0, 5))] }),
+      createDay(new Date(2026, 0, 10), { expense: [createExpenseEvent(new Date(2026, 0, 10))] }),
+    ]
+
+    const items = getAgendaItems(days, [createProject()], [createExpense()])
+
+    expect(items.map((item) => [item.sourceType, item.name])).toEqual([
+      ['project', 'Salário'],
+      ['expense', 'Aluguel'],
+    ])
+    expect(items[1].amount).toBe(200000)
+    expect(items[1].override).toBeUndefined()
+  })
+
+  it('lists delayed income posted on several days once', () => {
+    const occurrenceDate = new Date(2026, 0, 5)
+    const days = [
+      createDay(new Date(2026, 0, 5), { income: [createIncomeEvent(occurrenceDate)] }),
+      createDay(new Date(2026, 0, 8), { income: [createIncomeEvent(occurrenceDate)] }),
+    ]
+
+    const items = getAgendaItems(days, [createProject()], [])
+
+    expect(items).toHaveLength(1)
+    expect(items[0].date).toEqual(new Date(2026, 0, 5))
+  })
+
+  it('ignores credit card and single-shot events', () => {
+    const days = [
+      createDay(new Date(2026, 0, 10), {
+        expense: [
+          { sourceId: 'card-1', sourceName: 'Cartão', sourceType: 'credit_card', amount: 1000 },
+          { sourceId: 'expense-1', sourceName: 'Aluguel', sourceType: 'expense', amount: 1000 },
+        ],
+      }),
+    ]
+
+    expect(getAgendaItems(days, [], [createExpense()])).toEqual([])
+  })
+
+  it('attaches the override of a rescheduled occurrence', () => {
+    const override: OccurrenceOverride = {
+      type: 'reschedule',
+      occurrenceDate: '2026-01-10',
+      date: '2026-01-12',
+    }
+    const days = [
+      createDay(new Date(2026, 0, 12), { expense: [createExpenseEvent(new Date(2026, 0, 10))] }),
+    ]
+
+    const items = getAgendaItems(days, [], [createExpense([override])])
+
+    expect(items[0].date).toEqual(new Date(2026, 0, 12))
+    expect(items[0].occurrenceDate).toEqual(new Date(2026, 0, 10))
+    expect(items[0].override).toEqual(override)
+  })
+
+  it('lists skipped occurrences within the projection on their scheduled date', () => {
+    const days = [
+      createDay(new Date(2026, 0, 1)),
+      createDay(new Date(2026, 0, 5), { income: [createIncomeEvent(new Date(2026, 0, 5))] }),
+      createDay(new Date(2026, 0, 31)),
+    ]
+    const expense = createExpense([
+      { type: 'skip', occurrenceDate: '2026-01-10' },
+      { type: 'skip', occurrenceDate: '2026-02-10' },
+    ])
+
+    const items = getAgendaItems(days, [createProject()], [expense])
+
+    expect(items).toHaveLength(2)
+    expect(items[1]).toMatchObject({
+      sourceType: 'expense',
+      date: new Date(2026, 0, 10),
+      amount: 200000,
+      override: { type: 'skip', occurrenceDate: '2026-01-10' },
+    })
+  })
+})
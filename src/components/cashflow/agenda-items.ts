@@ -0,0 +1,108 @@
+/**
+ * Agenda items - recurring payments of a projection, one per occurrence.
+ * Each item can be skipped, rescheduled or have its amount changed.
+ */
+
+import { format, parse, startOfDay } from 'date-fns'
+import type { DailySnapshot } from '@/lib/cashflow/types'
+import {
+  findOccurrenceOverride,
+  getAmountInEffect,
+  type FixedExpense,
+  type OccurrenceOverride,
+  type Project,
+} from '@/types'
+
+/**
+ * A single occurrence of a recurring income or fixed expense.
+ */
+export interface AgendaItem {
+  sourceType: 'project' | 'expense'
+  sourceId: string
+  name: string
+  /** Day the payment lands in the projection (its scheduled date when skipped) */
+  date: Date
+  /** Date the occurrence is scheduled for (key of its override) */
+  occurrenceDate: Date
+  /** Amount in cents */
+  amount: number
+  /** Override applied to this occurrence, if any */
+  override?: OccurrenceOverride
+}
+
+/**
+ * List the recurring occurrences of a projection in date order, including
+ * skipped ones so their override can be undone.
+ * Delayed income posted on several days is listed once, on its first posting.
+ */
+export function getAgendaItems(
+  days: DailySnapshot[],
+  projects: Project[],
+  expenses: FixedExpense[]
+): AgendaItem[] {
+  const projectsById = new Map(projects.map((project) => [project.id, project]))
+  const expensesById = new Map(expenses.map((expense) => [expense.id, expense]))
+  const items: AgendaItem[] = []
+  const seen = new Set<string>()
+
+  for (const day of days) {
+    for (const event of day.incomeEvents) {
+      const project = projectsById.get(event.projectId)
+      if (!project || !event.occurrenceDate) continue
+      const key = `project:${event.projectId}:${format(event.occurrenceDate, 'yyyy-MM-dd')}`
+      if (seen.has(key)) continue
+      seen.add(key)
+      items.push({
+        sourceType: 'project',
+        sourceId: project.id,
+        name: project.name,
+        date: day.date,
+        occurrenceDate: event.occurrenceDate,
+        amount: event.amount,
+        override: findOccurrenceOverride(project, event.occurrenceDate),
+      })
+    }
+
+    for (const event of day.expenseEvents) {
+      const expense = expensesById.get(event.sourceId)
+      if (event.sourceType !== 'expense' || !expense || !event.occurrenceDate) continue
+      items.push({
+        sourceType: 'expense',
+        sourceId: expense.id,
+        name: expense.name,
+        date: day.date,
+        occurrenceDate: event.occurrenceDate,
+        amount: event.amount,
+        override: findOccurrenceOverride(expense, event.occurrenceDate),
+      })
+    }
+  }
+
+  // Skipped occurrences have no event; list them on their scheduled date
+  if (days.length > 0) {
+    const firstDay = startOfDay(days[0].date)
+    const lastDay = startOfDay(days[days.length - 1].date)
+    const skipped = [
+      ...projects.map((item) => ({ item, sourceType: 'project' as const })),
+      ...expenses.map((item) => ({ item, sourceType: 'expense' as const })),
+    ]
+    for (const { item, sourceType } of skipped) {
+      for (const override of item.occurrenceOverrides ?? []) {
+        if (override.type !== 'skip') continue
+        const occurrenceDate = parse(override.occurrenceDate, 'yyyy-MM-dd', firstDay)
+        if (occurrenceDate < firstDay || occurrenceDate > lastDay) continue
+        items.push({
+          sourceType,
+          sourceId: item.id,
+          name: item.name,
+          date: occurrenceDate,
+          occurrenceDate,
+          amount: getAmountInEffect(item, occurrenceDate),
+          override,
+        })
+      }
+    }
+  }
+
+  return items.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
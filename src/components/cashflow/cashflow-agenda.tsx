@@ -0,0 +1,115 @@
+/**
+ * CashflowAgenda - Recurring income and expense occurrences of the projection.
+ * Clicking an occurrence opens it for adjustment (skip, reschedule, change amount).
+ */
+
+import { isSameDay } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { formatCurrency, formatDayMonth } from '@/lib/format'
+import type { AgendaItem } from './agenda-items'
+
+interface CashflowAgendaProps {
+  items: AgendaItem[]
+  /** Day picked on the chart; shows only its occurrences when set */
+  selectedDate: Date | null
+  onClearSelectedDate: () => void
+  onSelectItem: (item: AgendaItem) => void
+}
+
+/**
+ * Short note on how an override changed an occurrence.
+ */
+function getOverrideNote(item: AgendaItem): string | null {
+  switch (item.override?.type) {
+    case 'skip':
+      return 'Pulado'
+    case 'reschedule':
+      return `Remarcado de ${formatDayMonth(item.occurrenceDate)}`
+    case 'amount':
+      return 'Valor ajustado'
+    default:
+      return null
+  }
+}
+
+export function CashflowAgenda({
+  items,
+  selectedDate,
+  onClearSelectedDate,
+  onSelectItem,
+}: CashflowAgendaProps) {
+  const visibleItems = selectedDate
+    ? items.filter((item) => isSameDay(item.date, selectedDate))
+    : items
+
+  return (
+    <div
+      data-testid="cashflow-agenda"
+      className="rounded-xl border border-border bg-card p-4"
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-foreground">
+          {selectedDate ? `Agenda de ${formatDayMonth(selectedDate)}` : 'Agenda'}
+        </h2>
+        {selectedDate && (
+          <Button variant="ghost" size="sm" onClick={onClearSelectedDate}>
+            Ver todos
+          </Button>
+        )}
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Nenhuma receita ou despesa recorrente {selectedDate ? 'neste dia' : 'no período'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-border max-h-96 overflow-y-auto">
+          {visibleItems.map((item) => {
+            const note = getOverrideNote(item)
+            const isSkipped = item.override?.type === 'skip'
+            return (
+              <li key={`${item.sourceType}-${item.sourceId}-${item.occurrenceDate.getTime()}`}>
+                <button
+                  type="button"
+                  onClick={() => onSelectItem(item)}
+                  className="w-full flex items-center justify-between gap-3 py-2 text-left hover:bg-muted/50 rounded-md px-2 -mx-2"
+                >
+                  <span className="flex items-center gap-3 min-w-0">
+                    <span className="text-sm text-muted-foreground w-12 shrink-0">
+                      {formatDayMonth(item.date)}
+                    </span>
+                    <span className="min-w-0">
+                      <span
+                        className={cn(
+                          'block text-sm text-foreground truncate',
+                          isSkipped && 'line-through text-muted-foreground'
+                        )}
+                      >
+                        {item.name}
+                      </span>
+                      {note && <span className="block text-xs text-muted-foreground">{note}</span>}
+                    </span>
+                  </span>
+                  <span
+                    className={cn(
+                      'text-sm font-medium shrink-0',
+                      isSkipped
+                        ? 'text-muted-foreground line-through'
+                        : item.sourceType === 'project'
+                          ? 'text-green-600'
+                          : 'text-red-600'
+                    )}
+                  >
+                    {item.sourceType === 'project' ? '+' : '-'}
+                    {formatCurrency(item.amount)}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 /**
- * CashflowChart - Main chart component for 30-day cashflow projection.
- * Displays optimistic and pessimistic scenarios with area fills.
+ * CashflowChart - Main chart component for the cashflow projection.
+ * Displays optimistic and pessimistic scenarios with area fills and the realistic scenario as a line.
+ * Long projections arrive aggregated by week or month, with the balance range of each period.
  */
 
 import { useState, useCallback } from 'react'
@@ -17,7 +18,7 @@ import {
 } from 'recharts'
 import { cn } from '@/lib/utils'
 import { formatChartCurrency } from '@/lib/format'
-import type { ChartDataPoint, DangerRange, LineVisibility } from './types'
+import type { AccountLine, ChartDataPoint, DangerRange, LineVisibility } from './types'
 import { DEFAULT_LINE_VISIBILITY } from './types'
 import { ChartTooltip } from './chart-tooltip'
 import { ChartLegend } from './chart-legend'
@@ -26,11 +27,29 @@ import { useThemeStore } from '@/stores/theme-store'
 // Color constants from spec
 const COLORS = {
   optimistic: '#22c55e', // green-500
+  realistic: '#84cc16', // lime-500
   pessimistic: '#f59e0b', // amber-500
   investmentInclusive: '#06b6d4', // cyan-500
+  simulation: '#6366f1', // indigo-500
   danger: '#ef4444', // red-500
+  overdraft: '#fb923c', // orange-400
+  belowThreshold: '#eab308', // yellow-500
+  balanceRange: '#94a3b8', // slate-400
 } as const
 
+// Subtitle of aggregated charts
+const GRANULARITY_LABELS = {
+  week: 'Saldos no fim de cada semana, com a faixa de mínimo e máximo',
+  month: 'Saldos no fim de cada mês, com a faixa de mínimo e máximo',
+} as const
+
+// Danger area fill per severity
+const DANGER_FILLS: Record<DangerRange['severity'], string> = {
+  below_threshold: COLORS.belowThreshold,
+  overdraft: COLORS.overdraft,
+  beyond_limit: COLORS.danger,
+}
+
 // Axis tick colors per theme (muted-foreground equivalent)
 const AXIS_COLORS = {
   light: 'hsl(0 0% 45.1%)', // --muted-foreground light
@@ -40,11 +59,24 @@ const AXIS_COLORS = {
 interface CashflowChartProps {
   chartData: ChartDataPoint[]
   dangerRanges: DangerRange[]
+  /** Per-account lines the user can toggle (hidden until toggled on) */
+  accountLines?: AccountLine[]
+  /** Group safety threshold in dollars; drawn as a reference line when above zero */
+  safetyThreshold?: number
   /** Optional callback to observe legend visibility toggles (used by Dashboard for scenario-specific UI) */
   onVisibilityChange?: (visibility: LineVisibility) => void
+  /** Optional callback when a day is clicked (used by Dashboard to open its occurrences) */
+  onDayClick?: (date: Date) => void
 }
 
-export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: CashflowChartProps) {
+export function CashflowChart({
+  chartData,
+  dangerRanges,
+  accountLines = [],
+  safetyThreshold = 0,
+  onVisibilityChange,
+  onDayClick,
+}: CashflowChartProps) {
   const resolvedTheme = useThemeStore((state) => state.resolvedTheme)
   const axisColor = AXIS_COLORS[resolvedTheme]
 
@@ -59,34 +91,72 @@ export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: C
     })
   }, [onVisibilityChange])
 
+  // Per-account lines start hidden to keep the default chart unchanged
+  const [visibleAccountIds, setVisibleAccountIds] = useState<ReadonlySet<string>>(new Set())
+
+  const handleToggleAccount = useCallback((accountId: string) => {
+    setVisibleAccountIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(accountId)) {
+        next.delete(accountId)
+      } else {
+        next.add(accountId)
+      }
+      return next
+    })
+  }, [])
+
+  const visibleAccountLines = accountLines.filter((line) => visibleAccountIds.has(line.accountId))
+
   // Calculate appropriate Y-axis domain with padding
   // Handle empty data case with sensible defaults
   // Include investmentInclusiveBalance for fixed scale (FR-010)
+  // Visible per-account lines can dip below the totals, so they widen the scale
   const balances = chartData.flatMap((d) => [
     d.optimisticBalance,
+    ...(d.realisticBalance === undefined ? [] : [d.realisticBalance]),
     d.pessimisticBalance,
     d.investmentInclusiveBalance,
+    ...(d.simulationBand ?? []),
+    ...(d.balanceRange ?? []),
+    ...visibleAccountLines.flatMap((line) => d.accountBalances[line.accountId] ?? []),
   ])
   const minBalance = balances.length > 0 ? Math.min(...balances, 0) : 0
-  const maxBalance = balances.length > 0 ? Math.max(...balances) : 1000
+  const maxBalance = balances.length > 0 ? Math.max(...balances, safetyThreshold) : 1000
   const padding = (maxBalance - minBalance) * 0.1 || 100
   const yMin = Math.floor(minBalance - padding)
   const yMax = Math.ceil(maxBalance + padding)
 
   // Calculate X-axis interval based on data length for mobile responsiveness
   const xAxisInterval = chartData.length > 15 ? Math.floor(chartData.length / 7) : 0
+  const granularity = chartData[0]?.bucket?.granularity
 
   return (
     <div data-testid="cashflow-chart" className={cn('rounded-xl border border-border bg-card p-4')}>
-      <h2 className="text-lg font-semibold text-foreground mb-4">
-        Projeção de Fluxo de Caixa
-      </h2>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-foreground">
+          Projeção de Fluxo de Caixa
+        </h2>
+        {granularity && (
+          <p className="text-sm text-muted-foreground">{GRANULARITY_LABELS[granularity]}</p>
+        )}
+      </div>
 
       <div className="h-[300px] md:h-[400px]">
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart
             data={chartData}
             margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+            onClick={
+              onDayClick
+                ? (state) => {
+                    const point = chartData[Number(state.activeTooltipIndex)]
+                    // Aggregated periods open on their lowest-balance day
+                    if (point) onDayClick(point.bucket?.minBalanceDate ?? point.snapshot.date)
+                  }
+                : undefined
+            }
+            style={onDayClick ? { cursor: 'pointer' } : undefined}
           >
             {/* Gradient definitions for area fills */}
             <defs>
@@ -120,7 +190,13 @@ export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: C
 
             {/* Custom tooltip with visibility filtering */}
             <Tooltip
-              content={<ChartTooltip visibility={visibility} />}
+              content={
+                <ChartTooltip
+                  visibility={visibility}
+                  accountLines={visibleAccountLines}
+                  showAdjustHint={!!onDayClick}
+                />
+              }
               cursor={{ stroke: 'hsl(var(--border))', strokeWidth: 1 }}
             />
 
@@ -134,19 +210,60 @@ export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: C
               style={{ transition: 'opacity 150ms' }}
             />
 
+            {/* Safety threshold reference line - only when the group set one */}
+            {safetyThreshold > 0 && (
+              <ReferenceLine
+                y={safetyThreshold}
+                stroke={COLORS.belowThreshold}
+                strokeDasharray="4 4"
+                strokeWidth={1}
+                strokeOpacity={visibility.dangerZone ? 1 : 0}
+                style={{ transition: 'opacity 150ms' }}
+              />
+            )}
+
             {/* Danger day ranges - conditional visibility with fade */}
             {dangerRanges.map((range, index) => (
               <ReferenceArea
                 key={`danger-${index}`}
                 x1={range.start}
                 x2={range.end}
-                fill={COLORS.danger}
+                fill={DANGER_FILLS[range.severity]}
                 fillOpacity={visibility.dangerZone ? (range.scenario === 'both' ? 0.15 : 0.1) : 0}
                 strokeOpacity={0}
                 style={{ transition: 'opacity 150ms' }}
               />
             ))}
 
+            {/* Simulated P10–P90 band (rendered behind the scenarios) - conditional visibility with fade */}
+            <Area
+              type="monotone"
+              dataKey="simulationBand"
+              stroke="none"
+              fill={COLORS.simulation}
+              fillOpacity={visibility.simulation ? 0.12 : 0}
+              dot={false}
+              activeDot={false}
+              isAnimationActive={false}
+              name="Faixa Provável"
+              style={{ transition: 'opacity 150ms' }}
+            />
+
+            {/* Min–max balance of each aggregated period (long projections only) */}
+            {granularity && (
+              <Area
+                type="monotone"
+                dataKey="balanceRange"
+                stroke="none"
+                fill={COLORS.balanceRange}
+                fillOpacity={0.15}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+                name="Faixa do Período"
+              />
+            )}
+
             {/* Pessimistic area (rendered first, behind optimistic) - conditional visibility with fade */}
             <Area
               type="monotone"
@@ -187,6 +304,38 @@ export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: C
               style={{ transition: 'opacity 150ms' }}
             />
 
+            {/* Realistic line (stroke-only, between the two areas) - conditional visibility with fade */}
+            <Line
+              type="monotone"
+              dataKey="realisticBalance"
+              stroke={COLORS.realistic}
+              strokeWidth={2}
+              strokeOpacity={visibility.realistic ? 1 : 0}
+              dot={false}
+              activeDot={visibility.realistic ? {
+                r: 6,
+                stroke: COLORS.realistic,
+                strokeWidth: 2,
+                fill: 'hsl(var(--card))',
+              } : false}
+              name="Realista"
+              style={{ transition: 'opacity 150ms' }}
+            />
+
+            {/* Simulated median line (dashed) - conditional visibility with fade */}
+            <Line
+              type="monotone"
+              dataKey="simulationMedian"
+              stroke={COLORS.simulation}
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+              strokeOpacity={visibility.simulation ? 1 : 0}
+              dot={false}
+              activeDot={false}
+              name="Mediana Simulada"
+              style={{ transition: 'opacity 150ms' }}
+            />
+
             {/* Investment-inclusive line (stroke-only, no fill) - conditional visibility with fade */}
             <Line
               type="monotone"
@@ -204,12 +353,43 @@ export function CashflowChart({ chartData, dangerRanges, onVisibilityChange }: C
               name="Saldo com Investimentos"
               style={{ transition: 'opacity 150ms' }}
             />
+
+            {/* Per-account optimistic balance lines (dashed, toggled from the legend) */}
+            {accountLines.map((line) => {
+              const isVisible = visibleAccountIds.has(line.accountId)
+              return (
+                <Line
+                  key={line.accountId}
+                  type="monotone"
+                  dataKey={(point: ChartDataPoint) => point.accountBalances[line.accountId]}
+                  stroke={line.color}
+                  strokeWidth={2}
+                  strokeDasharray="6 3"
+                  strokeOpacity={isVisible ? 1 : 0}
+                  dot={false}
+                  activeDot={isVisible ? {
+                    r: 5,
+                    stroke: line.color,
+                    strokeWidth: 2,
+                    fill: 'hsl(var(--card))',
+                  } : false}
+                  name={line.label}
+                  style={{ transition: 'opacity 150ms' }}
+                />
+              )
+            })}
           </AreaChart>
         </ResponsiveContainer>
       </div>
 
       {/* Interactive legend */}
-      <ChartLegend visibility={visibility} onToggle={handleToggle} />
+      <ChartLegend
+        visibility={visibility}
+        onToggle={handleToggle}
+        accountLines={accountLines}
+        visibleAccountIds={visibleAccountIds}
+        onToggleAccount={handleToggleAccount}
+      />
     </div>
   )
 }
@@ -4,52 +4,104 @@
  */
 
 import { cn } from '@/lib/utils'
-import type { LineVisibility, LegendItem } from './types'
+import type { AccountLine, LineVisibility, LegendItem } from './types'
 
 const LEGEND_ITEMS: LegendItem[] = [
   { key: 'optimistic', label: 'Otimista', color: '#22c55e' },
+  { key: 'realistic', label: 'Realista', color: '#84cc16' },
   { key: 'pessimistic', label: 'Pessimista', color: '#f59e0b' },
   { key: 'investmentInclusive', label: 'Saldo com Investimentos', color: '#06b6d4' },
+  { key: 'simulation', label: 'Faixa Provável (P10–P90)', color: '#6366f1' },
   { key: 'dangerZone', label: 'Zona de Perigo', color: '#ef4444' },
 ]
 
 interface ChartLegendProps {
   visibility: LineVisibility
   onToggle: (key: keyof LineVisibility) => void
+  /** Per-account lines (rendered as a second row of toggles) */
+  accountLines?: AccountLine[]
+  visibleAccountIds?: ReadonlySet<string>
+  onToggleAccount?: (accountId: string) => void
 }
 
-export function ChartLegend({ visibility, onToggle }: ChartLegendProps) {
+function LegendButton({
+  label,
+  color,
+  isVisible,
+  onClick,
+  dashed = false,
+}: {
+  label: string
+  color: string
+  isVisible: boolean
+  onClick: () => void
+  dashed?: boolean
+}) {
   return (
-    <div className="flex flex-wrap justify-center gap-4 md:gap-6 mt-4 text-sm">
-      {LEGEND_ITEMS.map((item) => (
-        <button
-          key={item.key}
-          onClick={() => onToggle(item.key)}
-          className={cn(
-            'flex items-center gap-2 cursor-pointer',
-            'transition-opacity duration-150',
-            'hover:opacity-80',
-            !visibility[item.key] && 'opacity-50'
-          )}
-          title="Clique para ocultar/mostrar"
-        >
-          <div
-            className={cn(
-              'h-3 w-3 rounded-full',
-              'transition-opacity duration-150'
-            )}
-            style={{ backgroundColor: item.color }}
+    <button
+      onClick={onClick}
+      className={cn(
+        'flex items-center gap-2 cursor-pointer',
+        'transition-opacity duration-150',
+        'hover:opacity-80',
+        !isVisible && 'opacity-50'
+      )}
+      title="Clique para ocultar/mostrar"
+    >
+      <div
+        className={cn(
+          'transition-opacity duration-150',
+          dashed ? 'h-0 w-4 border-t-2 border-dashed' : 'h-3 w-3 rounded-full'
+        )}
+        style={dashed ? { borderColor: color } : { backgroundColor: color }}
+      />
+      <span
+        className={cn(
+          'text-muted-foreground',
+          !isVisible && 'line-through'
+        )}
+      >
+        {label}
+      </span>
+    </button>
+  )
+}
+
+export function ChartLegend({
+  visibility,
+  onToggle,
+  accountLines = [],
+  visibleAccountIds = new Set(),
+  onToggleAccount,
+}: ChartLegendProps) {
+  return (
+    <div className="mt-4 space-y-2 text-sm">
+      <div className="flex flex-wrap justify-center gap-4 md:gap-6">
+        {LEGEND_ITEMS.map((item) => (
+          <LegendButton
+            key={item.key}
+            label={item.label}
+            color={item.color}
+            isVisible={visibility[item.key]}
+            onClick={() => onToggle(item.key)}
           />
-          <span
-            className={cn(
-              'text-muted-foreground',
-              !visibility[item.key] && 'line-through'
-            )}
-          >
-            {item.label}
-          </span>
-        </button>
-      ))}
+        ))}
+      </div>
+
+      {accountLines.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-4 md:gap-6">
+          {accountLines.map((line) => (
+            <LegendButton
+              key={line.accountId}
+              label={line.label}
+              color={line.color}
+              isVisible={visibleAccountIds.has(line.accountId)}
+              onClick={() => onToggleAccount?.(line.accountId)}
+              dashed
+            />
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,22 +1,49 @@
 /**
  * ChartTooltip - Custom tooltip for day-level details.
- * Shows date, balances, and income/expense events.
+ * Shows date, balances, and income/expense/transfer events.
+ * Aggregated points (long projections) show their period's closing balances and range instead.
  */
 
+import { addDays } from 'date-fns'
 import { cn } from '@/lib/utils'
-import { formatCurrency, formatTooltipDate } from '@/lib/format'
-import type { ChartDataPoint, LineVisibility } from './types'
+import {
+  formatCurrency,
+  formatDayMonth,
+  formatDayMonthRange,
+  formatTooltipDate,
+} from '@/lib/format'
+import type { DangerLevel, ExpenseEvent, IncomeEvent } from '@/lib/cashflow/types'
+import type { AccountLine, ChartDataPoint, LineVisibility } from './types'
 
 // Color constants
 const COLORS = {
   optimistic: '#22c55e',
+  realistic: '#84cc16',
   pessimistic: '#f59e0b',
   investmentInclusive: '#06b6d4',
+  simulation: '#6366f1',
   danger: '#ef4444',
+  overdraft: '#fb923c',
+  belowThreshold: '#eab308',
   income: '#22c55e',
   expense: '#ef4444',
+  transfer: '#64748b',
 } as const
 
+// Danger severity notes in Portuguese
+const DANGER_LEVEL_LABELS: Record<DangerLevel, string> = {
+  below_threshold: 'Abaixo da reserva de segurança',
+  overdraft: 'Usando o cheque especial',
+  beyond_limit: 'Além do limite do cheque especial',
+}
+
+// Labels for scenario-specific expenses (overdraft interest)
+const SCENARIO_LABELS: Record<string, string> = {
+  optimistic: 'otimista',
+  realistic: 'realista',
+  pessimistic: 'pessimista',
+}
+
 // Certainty labels in Portuguese
 const CERTAINTY_LABELS: Record<string, string> = {
   guaranteed: 'garantido',
@@ -24,13 +51,65 @@ const CERTAINTY_LABELS: Record<string, string> = {
   uncertain: 'incerto',
 }
 
+/**
+ * Scheduled vs expected arrival of an income with a typical payment delay,
+ * plus the scenarios this posting counts in.
+ */
+function getIncomeDelayNote(event: IncomeEvent): string | null {
+  if (!event.scheduledDate || !event.paymentDelay) return null
+  const { minDays, maxDays } = event.paymentDelay
+  const expected =
+    minDays === maxDays
+      ? formatDayMonth(addDays(event.scheduledDate, maxDays))
+      : `entre ${formatDayMonthRange(
+          addDays(event.scheduledDate, minDays),
+          addDays(event.scheduledDate, maxDays)
+        )}`
+  const scenarios = (event.scenarios ?? []).map((scenario) => SCENARIO_LABELS[scenario])
+  return `Previsto ${formatDayMonth(event.scheduledDate)}, esperado ${expected}${
+    scenarios.length > 0 ? ` (${scenarios.join(', ')})` : ''
+  }`
+}
+
+/**
+ * How an occurrence override changed a recurring payment.
+ */
+function getOverrideNote(event: IncomeEvent | ExpenseEvent): string | null {
+  if (event.override === 'reschedule' && event.occurrenceDate) {
+    return `Remarcado de ${formatDayMonth(event.occurrenceDate)}`
+  }
+  if (event.override === 'amount') return 'Valor ajustado nesta ocorrência'
+  return null
+}
+
+/**
+ * Color for a scenario balance: yellow below the safety cushion, orange inside
+ * the overdraft limit, red beyond it.
+ */
+function getBalanceColor(level: DangerLevel | undefined, fallback: string): string {
+  if (level === 'below_threshold') return COLORS.belowThreshold
+  if (level === 'overdraft') return COLORS.overdraft
+  if (level === 'beyond_limit') return COLORS.danger
+  return fallback
+}
+
 interface ChartTooltipProps {
   active?: boolean
   payload?: Array<{ payload: ChartDataPoint }>
   visibility?: LineVisibility
+  /** Per-account lines currently shown on the chart */
+  accountLines?: AccountLine[]
+  /** Hint that clicking the day opens its recurring occurrences for adjustment */
+  showAdjustHint?: boolean
 }
 
-export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps) {
+export function ChartTooltip({
+  active,
+  payload,
+  visibility,
+  accountLines = [],
+  showAdjustHint = false,
+}: ChartTooltipProps) {
   if (!active || !payload || payload.length === 0) {
     return null
   }
@@ -39,14 +118,34 @@ export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps)
   const dataPoint = payload[0]?.payload as ChartDataPoint | undefined
   if (!dataPoint) return null
 
-  const { snapshot } = dataPoint
-  const isDanger = snapshot.isOptimisticDanger || snapshot.isPessimisticDanger
+  const { snapshot, bucket } = dataPoint
+  // Events are listed day by day only; aggregated periods show their balance range
+  const incomeEvents = bucket ? [] : snapshot.incomeEvents
+  const expenseEvents = bucket ? [] : snapshot.expenseEvents
+  const transferEvents = bucket ? [] : snapshot.transferEvents ?? []
+  // Snapshots saved before overdraft limits existed have no level: any danger is beyond the limit
+  const optimisticLevel = snapshot.isOptimisticDanger
+    ? snapshot.optimisticDangerLevel ?? 'beyond_limit'
+    : undefined
+  const realisticLevel = snapshot.isRealisticDanger
+    ? snapshot.realisticDangerLevel ?? 'beyond_limit'
+    : undefined
+  const pessimisticLevel = snapshot.isPessimisticDanger
+    ? snapshot.pessimisticDangerLevel ?? 'beyond_limit'
+    : undefined
+  const hasOccurrences =
+    incomeEvents.some((event) => event.occurrenceDate) ||
+    expenseEvents.some((event) => event.occurrenceDate)
+  const dayLevel = dataPoint.dangerLevel
+  const isNegative = snapshot.optimisticBalance < 0 || snapshot.pessimisticBalance < 0
 
   // Default to all visible if visibility not provided (backward compatibility)
   const vis = visibility ?? {
     optimistic: true,
+    realistic: true,
     pessimistic: true,
     investmentInclusive: true,
+    simulation: true,
     dangerZone: true,
   }
 
@@ -55,13 +154,18 @@ export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps)
       className={cn(
         'rounded-lg border bg-card p-3 shadow-lg',
         'min-w-[200px] max-w-[280px]',
-        isDanger && 'border-destructive/30'
+        isNegative && 'border-destructive/30'
       )}
     >
       {/* Date header */}
       <p className="font-medium text-foreground mb-2">
-        {formatTooltipDate(snapshot.date)}
+        {bucket
+          ? `${formatDayMonth(bucket.startDate)} a ${formatDayMonth(bucket.endDate)}`
+          : formatTooltipDate(snapshot.date)}
       </p>
+      {bucket && (
+        <p className="text-xs text-muted-foreground mb-2">Saldos no fim do período</p>
+      )}
 
       {/* Balance section - conditional based on visibility */}
       <div className="space-y-1 mb-3">
@@ -71,23 +175,37 @@ export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps)
             <span
               className={cn(
                 'text-sm font-medium',
-                snapshot.isOptimisticDanger ? 'text-destructive' : ''
+                snapshot.optimisticBalance < 0 ? 'text-destructive' : ''
               )}
-              style={{ color: snapshot.isOptimisticDanger ? COLORS.danger : COLORS.optimistic }}
+              style={{ color: getBalanceColor(optimisticLevel, COLORS.optimistic) }}
             >
               {formatCurrency(snapshot.optimisticBalance)}
             </span>
           </div>
         )}
+        {vis.realistic && snapshot.realisticBalance !== undefined && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Realista:</span>
+            <span
+              className={cn(
+                'text-sm font-medium',
+                snapshot.realisticBalance < 0 ? 'text-destructive' : ''
+              )}
+              style={{ color: getBalanceColor(realisticLevel, COLORS.realistic) }}
+            >
+              {formatCurrency(snapshot.realisticBalance)}
+            </span>
+          </div>
+        )}
         {vis.pessimistic && (
           <div className="flex justify-between items-center">
             <span className="text-sm text-muted-foreground">Pessimista:</span>
             <span
               className={cn(
                 'text-sm font-medium',
-                snapshot.isPessimisticDanger ? 'text-destructive' : ''
+                snapshot.pessimisticBalance < 0 ? 'text-destructive' : ''
               )}
-              style={{ color: snapshot.isPessimisticDanger ? COLORS.danger : COLORS.pessimistic }}
+              style={{ color: getBalanceColor(pessimisticLevel, COLORS.pessimistic) }}
             >
               {formatCurrency(snapshot.pessimisticBalance)}
             </span>
@@ -104,47 +222,149 @@ export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps)
             </span>
           </div>
         )}
+        {vis.simulation && dataPoint.simulationBand && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Faixa Provável:</span>
+            <span className="text-sm font-medium" style={{ color: COLORS.simulation }}>
+              {formatCurrency(dataPoint.simulationBand[0] * 100)} a{' '}
+              {formatCurrency(dataPoint.simulationBand[1] * 100)}
+            </span>
+          </div>
+        )}
+        {vis.simulation && !!dataPoint.negativeProbability && (
+          <p className="text-xs" style={{ color: COLORS.simulation }}>
+            {Math.round(dataPoint.negativeProbability * 100)}% de chance de saldo negativo
+          </p>
+        )}
+        {accountLines.map((line) => {
+          const balance = dataPoint.accountBalances[line.accountId]
+          if (balance === undefined) return null
+          return (
+            <div key={line.accountId} className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground truncate mr-2">{line.label}:</span>
+              <span
+                className="text-sm font-medium"
+                style={{ color: balance < 0 ? COLORS.danger : line.color }}
+              >
+                {formatCurrency(balance * 100)}
+              </span>
+            </div>
+          )
+        })}
+        {bucket && dataPoint.balanceRange && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Mín. e máx.:</span>
+            <span className="text-sm font-medium">
+              {formatCurrency(dataPoint.balanceRange[0] * 100)} a{' '}
+              {formatCurrency(dataPoint.balanceRange[1] * 100)}
+            </span>
+          </div>
+        )}
+        {dayLevel && (
+          <p className="text-xs" style={{ color: getBalanceColor(dayLevel, COLORS.danger) }}>
+            {DANGER_LEVEL_LABELS[dayLevel]}
+          </p>
+        )}
       </div>
 
       {/* Income events */}
-      {snapshot.incomeEvents.length > 0 && (
+      {incomeEvents.length > 0 && (
         <div className="border-t border-border pt-2 mb-2">
           <p className="text-xs font-medium text-muted-foreground mb-1">Receitas</p>
           <div className="space-y-1">
-            {snapshot.incomeEvents.map((event, index) => (
-              <div key={index} className="flex justify-between items-center text-sm">
-                <span className="text-foreground truncate mr-2">
-                  {event.projectName}
-                  {event.certainty !== 'guaranteed' && (
-                    <span className="text-xs text-muted-foreground ml-1">
-                      ({CERTAINTY_LABELS[event.certainty] || event.certainty})
+            {incomeEvents.map((event, index) => {
+              const delayNote = getIncomeDelayNote(event)
+              const overrideNote = getOverrideNote(event)
+              return (
+                <div key={index}>
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-foreground truncate mr-2">
+                      {event.projectName}
+                      {event.certainty !== 'guaranteed' && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ({CERTAINTY_LABELS[event.certainty] || event.certainty})
+                        </span>
+                      )}
+                    </span>
+                    <span style={{ color: COLORS.income }}>
+                      +{formatCurrency(event.amount)}
                     </span>
+                  </div>
+                  {delayNote && (
+                    <p className="text-xs text-muted-foreground">{delayNote}</p>
                   )}
-                </span>
-                <span style={{ color: COLORS.income }}>
-                  +{formatCurrency(event.amount)}
-                </span>
-              </div>
-            ))}
+                  {overrideNote && (
+                    <p className="text-xs text-muted-foreground">{overrideNote}</p>
+                  )}
+                </div>
+              )
+            })}
           </div>
         </div>
       )}
 
       {/* Expense events */}
-      {snapshot.expenseEvents.length > 0 && (
+      {expenseEvents.length > 0 && (
         <div className="border-t border-border pt-2">
           <p className="text-xs font-medium text-muted-foreground mb-1">Despesas</p>
           <div className="space-y-1">
-            {snapshot.expenseEvents.map((event, index) => (
+            {expenseEvents.map((event, index) => {
+              const overrideNote = getOverrideNote(event)
+              return (
+                <div key={index}>
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-foreground truncate mr-2">
+                      {event.sourceName}
+                      {event.sourceType === 'credit_card' && (
+                        <span className="text-xs text-muted-foreground ml-1">(CC)</span>
+                      )}
+                      {event.sourceType === 'goal' && (
+                        <span className="text-xs text-muted-foreground ml-1">(Meta)</span>
+                      )}
+                      {event.sourceType === 'loan' && (
+                        <span className="text-xs text-muted-foreground ml-1">(Financ.)</span>
+                      )}
+                      {event.sourceType === 'tax' && (
+                        <span className="text-xs text-muted-foreground ml-1">(Imposto)</span>
+                      )}
+                      {event.scenario && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          ({SCENARIO_LABELS[event.scenario]})
+                        </span>
+                      )}
+                    </span>
+                    <span style={{ color: COLORS.expense }}>
+                      {event.amountRange
+                        ? `-${formatCurrency(event.amountRange.min)} a ${formatCurrency(event.amountRange.max)}`
+                        : `-${formatCurrency(event.amount)}`}
+                    </span>
+                  </div>
+                  {overrideNote && (
+                    <p className="text-xs text-muted-foreground">{overrideNote}</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Transfer events */}
+      {transferEvents.length > 0 && (
+        <div className="border-t border-border pt-2 mt-2">
+          <p className="text-xs font-medium text-muted-foreground mb-1">Transferências</p>
+          <div className="space-y-1">
+            {transferEvents.map((event, index) => (
               <div key={index} className="flex justify-between items-center text-sm">
                 <span className="text-foreground truncate mr-2">
-                  {event.sourceName}
-                  {event.sourceType === 'credit_card' && (
-                    <span className="text-xs text-muted-foreground ml-1">(CC)</span>
+                  {event.transferName}
+                  {event.goalId && (
+                    <span className="text-xs text-muted-foreground ml-1">(Meta)</span>
                   )}
                 </span>
-                <span style={{ color: COLORS.expense }}>
-                  -{formatCurrency(event.amount)}
+                <span style={{ color: COLORS.transfer }}>
+                  {event.checkingDelta > 0 ? '+' : event.checkingDelta < 0 ? '-' : ''}
+                  {formatCurrency(event.amount)}
                 </span>
               </div>
             ))}
@@ -152,8 +372,25 @@ export function ChartTooltip({ active, payload, visibility }: ChartTooltipProps)
         </div>
       )}
 
+      {/* Occurrences open in the agenda on click */}
+      {showAdjustHint && hasOccurrences && (
+        <p className="text-xs text-muted-foreground border-t border-border pt-2 mt-2">
+          Clique para pular, remarcar ou alterar um lançamento
+        </p>
+      )}
+
+      {/* Aggregated periods open their lowest-balance day on click */}
+      {showAdjustHint && bucket && (
+        <p className="text-xs text-muted-foreground border-t border-border pt-2">
+          Clique para ver o dia de menor saldo ({formatDayMonth(bucket.minBalanceDate)})
+        </p>
+      )}
+
       {/* No events message */}
-      {snapshot.incomeEvents.length === 0 && snapshot.expenseEvents.length === 0 && (
+      {!bucket &&
+        incomeEvents.length === 0 &&
+        expenseEvents.length === 0 &&
+        transferEvents.length === 0 && (
         <p className="text-xs text-muted-foreground border-t border-border pt-2">
           Nenhuma transação neste dia
         </p>
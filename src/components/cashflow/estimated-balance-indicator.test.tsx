@@ -2,7 +2,7 @@ import { describe, expect, it, vi } from 'vitest'
 import { render, screen } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { EstimatedBalanceIndicator } from './estimated-balance-indicator'
-import type { BalanceUpdateBase } from '@/lib/cashflow'
+import type { BalanceUpdateBase, UnconfirmedEvent } from '@/lib/cashflow'
 
 describe('EstimatedBalanceIndicator', () => {
   it('renders "Saldo estimado" with a single base date', () => {
@@ -62,11 +62,62 @@ describe('EstimatedBalanceIndicator', () => {
     await user.click(screen.getByRole('button', { name: /atualizar saldos/i }))
     expect(onUpdateBalances).toHaveBeenCalledTimes(1)
   })
-})
 
+  it('lists unconfirmed events with confirm and review actions', async () => {
+    const onConfirmEvent = vi.fn()
+    const onReviewEvent = vi.fn()
+    const user = userEvent.setup()
+
+    const events: UnconfirmedEvent[] = [
+      {
+        sourceType: 'project',
+        sourceId: 'project-1',
+        name: 'Salário',
+        occurrenceDate: new Date(2025, 0, 6),
+        date: new Date(2025, 0, 6),
+        amount: 500000,
+      },
+      {
+        sourceType: 'expense',
+        sourceId: 'expense-1',
+        name: 'Aluguel',
+        occurrenceDate: new Date(2025, 0, 7),
+        date: new Date(2025, 0, 7),
+        amount: 200000,
+      },
+    ]
 
+    render(
+      <EstimatedBalanceIndicator
+        base={{ kind: 'single', date: new Date(2025, 0, 5) }}
+        onUpdateBalances={() => {}}
+        unconfirmedEvents={events}
+        onConfirmEvent={onConfirmEvent}
+        onReviewEvent={onReviewEvent}
+      />
+    )
 
+    expect(screen.getByText('Salário')).toBeInTheDocument()
+    expect(screen.getByText('Aluguel')).toBeInTheDocument()
 
+    await user.click(screen.getByRole('button', { name: 'Recebido' }))
+    expect(onConfirmEvent).toHaveBeenCalledWith(events[0])
 
+    await user.click(screen.getAllByRole('button', { name: 'Ajustar' })[1])
+    expect(onReviewEvent).toHaveBeenCalledWith(events[1])
+  })
 
+  it('hides the event list when there is nothing to confirm', () => {
+    render(
+      <EstimatedBalanceIndicator
+        base={{ kind: 'single', date: new Date(2025, 0, 5) }}
+        onUpdateBalances={() => {}}
+        unconfirmedEvents={[]}
+        onConfirmEvent={() => {}}
+        onReviewEvent={() => {}}
+      />
+    )
 
+    expect(screen.queryByTestId('unconfirmed-events')).not.toBeInTheDocument()
+  })
+})
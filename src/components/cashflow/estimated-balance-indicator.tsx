@@ -2,18 +2,25 @@
  * EstimatedBalanceIndicator
  *
  * Shows a clear "Saldo estimado" marker, explains the base date/range, and
- * provides a direct CTA to "Atualizar Saldos".
+ * provides a direct CTA to "Atualizar Saldos". Lists the past events the
+ * estimate still assumes, so they can be confirmed or marked as not happened.
  */
 
 import { cn } from '@/lib/utils'
 import { Sparkles } from 'lucide-react'
 import { Button } from '@/components/ui/button'
-import { formatDayMonth, formatDayMonthRange } from '@/lib/format'
-import type { BalanceUpdateBase } from '@/lib/cashflow'
+import { formatCurrency, formatDayMonth, formatDayMonthRange } from '@/lib/format'
+import type { BalanceUpdateBase, UnconfirmedEvent } from '@/lib/cashflow'
 
 interface EstimatedBalanceIndicatorProps {
   base: BalanceUpdateBase
   onUpdateBalances: () => void
+  /** Past events since the base that were not confirmed yet */
+  unconfirmedEvents?: UnconfirmedEvent[]
+  /** Confirm an event as paid/received with its projected amount and date */
+  onConfirmEvent?: (event: UnconfirmedEvent) => void
+  /** Review an event: adjust its real amount and date, or mark it as not happened */
+  onReviewEvent?: (event: UnconfirmedEvent) => void
   className?: string
 }
 
@@ -28,8 +35,13 @@ function getBaseText(base: BalanceUpdateBase): string {
 export function EstimatedBalanceIndicator({
   base,
   onUpdateBalances,
+  unconfirmedEvents = [],
+  onConfirmEvent,
+  onReviewEvent,
   className,
 }: EstimatedBalanceIndicatorProps) {
+  const showEvents = unconfirmedEvents.length > 0 && onConfirmEvent && onReviewEvent
+
   return (
     <div
       data-testid="estimated-balance-indicator"
@@ -37,33 +49,75 @@ export function EstimatedBalanceIndicator({
         'rounded-xl border p-4',
         'bg-amber-500/10 border-amber-500/30',
         'fc-glow-amber',
-        'flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4',
+        'space-y-4',
         className
       )}
     >
-      <div className="flex items-start gap-3 min-w-0">
-        <Sparkles className="h-6 w-6 flex-shrink-0 text-amber-700 dark:text-amber-400" />
-        <div className="min-w-0">
-          <p className="font-semibold text-amber-800 dark:text-amber-300">
-            Saldo estimado
-          </p>
-          <p
-            data-testid="estimated-balance-base"
-            className="text-sm text-muted-foreground break-words"
-          >
-            {getBaseText(base)}
-          </p>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="flex items-start gap-3 min-w-0">
+          <Sparkles className="h-6 w-6 flex-shrink-0 text-amber-700 dark:text-amber-400" />
+          <div className="min-w-0">
+            <p className="font-semibold text-amber-800 dark:text-amber-300">
+              Saldo estimado
+            </p>
+            <p
+              data-testid="estimated-balance-base"
+              className="text-sm text-muted-foreground break-words"
+            >
+              {getBaseText(base)}
+            </p>
+          </div>
         </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onUpdateBalances}
+          className="w-full sm:w-auto"
+        >
+          Atualizar Saldos
+        </Button>
       </div>
 
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={onUpdateBalances}
-        className="w-full sm:w-auto"
-      >
-        Atualizar Saldos
-      </Button>
+      {showEvents && (
+        <div data-testid="unconfirmed-events">
+          <p className="text-sm text-muted-foreground mb-2">
+            Confirme o que já aconteceu desde a atualização:
+          </p>
+          <ul className="divide-y divide-amber-500/20 max-h-64 overflow-y-auto">
+            {unconfirmedEvents.map((event) => (
+              <li
+                key={`${event.sourceType}-${event.sourceId}-${event.occurrenceDate.getTime()}`}
+                className="flex items-center justify-between gap-3 py-2"
+              >
+                <span className="flex items-center gap-3 min-w-0">
+                  <span className="text-sm text-muted-foreground w-12 shrink-0">
+                    {formatDayMonth(event.date)}
+                  </span>
+                  <span className="text-sm text-foreground truncate">{event.name}</span>
+                </span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span
+                    className={cn(
+                      'text-sm font-medium',
+                      event.sourceType === 'project' ? 'text-green-600' : 'text-red-600'
+                    )}
+                  >
+                    {event.sourceType === 'project' ? '+' : '-'}
+                    {formatCurrency(event.amount)}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => onReviewEvent(event)}>
+                    Ajustar
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => onConfirmEvent(event)}>
+                    {event.sourceType === 'project' ? 'Recebido' : 'Pago'}
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   )
 }
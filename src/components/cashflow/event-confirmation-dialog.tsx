@@ -0,0 +1,143 @@
+/**
+ * Dialog for reconciling a past projected event: confirm it with the amount
+ * and date it actually happened, or mark it as not happened.
+ */
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { formatCurrency } from '@/lib/format'
+import { EventConfirmationInputSchema, type EventConfirmationInput } from '@/types'
+import type { UnconfirmedEvent } from '@/lib/cashflow'
+
+interface EventConfirmationDialogProps {
+  /** Event being reviewed (render with a key per event to reset the form) */
+  event: UnconfirmedEvent
+  onOpenChange: (open: boolean) => void
+  onSave: (input: EventConfirmationInput) => Promise<{ success: boolean; error?: string }>
+}
+
+export function EventConfirmationDialog({
+  event,
+  onOpenChange,
+  onSave,
+}: EventConfirmationDialogProps) {
+  const isIncome = event.sourceType === 'project'
+  const [amount, setAmount] = useState((event.amount / 100).toFixed(2))
+  const [date, setDate] = useState(format(event.date, 'yyyy-MM-dd'))
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const save = async (input: Omit<EventConfirmationInput, 'sourceType' | 'sourceId' | 'occurrenceDate'>) => {
+    const result = EventConfirmationInputSchema.safeParse({
+      sourceType: event.sourceType,
+      sourceId: event.sourceId,
+      occurrenceDate: event.occurrenceDate,
+      ...input,
+    })
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Confirmação inválida')
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const saved = await onSave(result.data)
+      if (saved.success) {
+        onOpenChange(false)
+      } else {
+        setError(saved.error ?? 'Erro ao salvar confirmação')
+      }
+    } catch {
+      setError('Erro inesperado ao salvar confirmação')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleConfirm = () =>
+    save({
+      status: 'confirmed',
+      amount: Math.round((parseFloat(amount) || 0) * 100),
+      date: date ? new Date(`${date}T00:00:00`) : null,
+    })
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isIncome ? 'Confirmar Recebimento' : 'Confirmar Pagamento'}</DialogTitle>
+          <DialogDescription>
+            {event.name} · {formatCurrency(event.amount)} previsto para{' '}
+            {format(event.date, 'dd/MM/yyyy')}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="confirmation-amount">
+              {isIncome ? 'Valor recebido' : 'Valor pago'}
+            </Label>
+            <CurrencyInput
+              id="confirmation-amount"
+              value={amount}
+              onChange={(value) => {
+                setAmount(value)
+                setError(null)
+              }}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmation-date">
+              {isIncome ? 'Data do recebimento' : 'Data do pagamento'}
+            </Label>
+            <Input
+              id="confirmation-date"
+              type="date"
+              value={date}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => {
+                setDate(e.target.value)
+                setError(null)
+              }}
+              disabled={isSaving}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => save({ status: 'missed', amount: null, date: null })}
+            disabled={isSaving}
+            className="sm:mr-auto"
+          >
+            Não aconteceu
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Confirmar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,13 +4,15 @@
  */
 
 import { cn } from '@/lib/utils'
-import type { HealthStatus } from '@/hooks/use-health-indicator'
+import type { HealthStatus, HealthStatusReason } from '@/hooks/use-health-indicator'
 
 interface HealthIndicatorProps {
   /** Current health status */
   status: HealthStatus
   /** Human-readable status message */
   message: string
+  /** Milder danger tier behind the status (cheque especial or safety cushion) */
+  reason?: HealthStatusReason | null
   /** Whether any data is stale (>30 days old) */
   isStale: boolean
   /** Number of stale entities (for badge display) */
@@ -19,6 +21,12 @@ interface HealthIndicatorProps {
   onStaleClick?: () => void
 }
 
+// Labels replacing the status label when a milder danger tier is behind it
+const reasonLabels: Record<HealthStatusReason, string> = {
+  overdraft: 'Cheque especial',
+  below_threshold: 'Abaixo da reserva',
+}
+
 const statusConfig = {
   good: {
     label: 'Bom',
@@ -53,6 +61,7 @@ const statusConfig = {
 export function HealthIndicator({
   status,
   message,
+  reason = null,
   isStale,
   staleCount,
   onStaleClick,
@@ -81,7 +90,7 @@ export function HealthIndicator({
         <Icon className={cn('h-6 w-6 flex-shrink-0', config.textColor)} />
         <div className="min-w-0">
           <p className={cn('font-semibold', config.textColor)}>
-            {config.label}
+            {reason ? reasonLabels[reason] : config.label}
           </p>
           <p className="text-sm text-muted-foreground break-words">{message}</p>
         </div>
@@ -0,0 +1,64 @@
+/**
+ * MonthlySummaryTable - Month-by-month totals of long projections.
+ * Shows the realistic income, expenses and lowest balance of each month.
+ */
+
+import { cn } from '@/lib/utils'
+import { formatCurrency, formatDayMonth, formatMonthYear } from '@/lib/format'
+import type { MonthlyStats } from './types'
+
+interface MonthlySummaryTableProps {
+  months: MonthlyStats[]
+  /** Group safety threshold in dollars; lowest balances below it are highlighted */
+  safetyThreshold?: number
+}
+
+export function MonthlySummaryTable({ months, safetyThreshold = 0 }: MonthlySummaryTableProps) {
+  return (
+    <div className="rounded-xl border bg-card border-border p-4">
+      <div className="mb-3">
+        <h2 className="text-lg font-semibold text-foreground">Resumo Mensal</h2>
+        <p className="text-sm text-muted-foreground">Cenário realista</p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-muted-foreground">
+            <tr className="border-b">
+              <th className="px-3 py-2 text-left font-medium">Mês</th>
+              <th className="px-3 py-2 text-right font-medium">Receitas</th>
+              <th className="px-3 py-2 text-right font-medium">Despesas</th>
+              <th className="px-3 py-2 text-right font-medium">Menor Saldo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map((month) => (
+              <tr key={month.month.getTime()} className="border-b last:border-b-0">
+                <td className="px-3 py-2 first-letter:uppercase">{formatMonthYear(month.month)}</td>
+                <td className="px-3 py-2 text-right tabular-nums text-green-600">
+                  {formatCurrency(month.totalIncome * 100)}
+                </td>
+                <td className="px-3 py-2 text-right tabular-nums">
+                  {formatCurrency(month.totalExpenses * 100)}
+                </td>
+                <td
+                  className={cn(
+                    'px-3 py-2 text-right tabular-nums',
+                    month.minBalance < 0
+                      ? 'text-red-600'
+                      : month.minBalance < safetyThreshold && 'text-amber-600'
+                  )}
+                >
+                  {formatCurrency(month.minBalance * 100)}
+                  <span className="text-xs text-muted-foreground ml-1">
+                    em {formatDayMonth(month.minBalanceDate)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+/**
+ * Dialog for adjusting a single occurrence of a recurring income or expense:
+ * skip it, move it to another date or change its amount.
+ */
+
+import { useState } from 'react'
+import { format } from 'date-fns'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatCurrency } from '@/lib/format'
+import { OccurrenceOverrideSchema, type OccurrenceOverride } from '@/types'
+import type { AgendaItem } from './agenda-items'
+
+type OverrideType = OccurrenceOverride['type']
+
+const OVERRIDE_TYPE_LABELS: Record<OverrideType, string> = {
+  skip: 'Pular esta ocorrência',
+  reschedule: 'Remarcar para outra data',
+  amount: 'Alterar o valor',
+}
+
+interface OccurrenceOverrideDialogProps {
+  /** Occurrence being adjusted (render with a key per occurrence to reset the form) */
+  item: AgendaItem
+  onOpenChange: (open: boolean) => void
+  onSave: (override: OccurrenceOverride) => Promise<{ success: boolean; error?: string }>
+  onRemove: () => Promise<{ success: boolean; error?: string }>
+}
+
+export function OccurrenceOverrideDialog({
+  item,
+  onOpenChange,
+  onSave,
+  onRemove,
+}: OccurrenceOverrideDialogProps) {
+  const override = item.override
+  const occurrenceDate = format(item.occurrenceDate, 'yyyy-MM-dd')
+  const [type, setType] = useState<OverrideType>(override?.type ?? 'skip')
+  const [date, setDate] = useState(override?.type === 'reschedule' ? override.date : occurrenceDate)
+  const [amount, setAmount] = useState((item.amount / 100).toFixed(2))
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const result = await action()
+      if (result.success) {
+        onOpenChange(false)
+      } else {
+        setError(result.error ?? 'Erro ao salvar ajuste')
+      }
+    } catch {
+      setError('Erro inesperado ao salvar ajuste')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const result = OccurrenceOverrideSchema.safeParse(
+      type === 'skip'
+        ? { type, occurrenceDate }
+        : type === 'reschedule'
+          ? { type, occurrenceDate, date }
+          : { type, occurrenceDate, amount: Math.round((parseFloat(amount) || 0) * 100) }
+    )
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? 'Ajuste inválido')
+      return
+    }
+    await runAction(() => onSave(result.data))
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ajustar Ocorrência</DialogTitle>
+          <DialogDescription>
+            {item.name} · {formatCurrency(item.amount)} previsto para{' '}
+            {format(item.occurrenceDate, 'dd/MM/yyyy')}. Só esta ocorrência muda.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="override-type">O que fazer</Label>
+            <Select
+              value={type}
+              onValueChange={(value) => {
+                setType(value as OverrideType)
+                setError(null)
+              }}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="override-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OVERRIDE_TYPE_LABELS) as OverrideType[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {OVERRIDE_TYPE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === 'reschedule' && (
+            <div className="space-y-2">
+              <Label htmlFor="override-date">Nova data</Label>
+              <Input
+                id="override-date"
+                type="date"
+                value={date}
+                onChange={(e) => {
+                  setDate(e.target.value)
+                  setError(null)
+                }}
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          {type === 'amount' && (
+            <div className="space-y-2">
+              <Label htmlFor="override-amount">Valor desta ocorrência</Label>
+              <CurrencyInput
+                id="override-amount"
+                value={amount}
+                onChange={(value) => {
+                  setAmount(value)
+                  setError(null)
+                }}
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {override && (
+            <Button
+              variant="ghost"
+              onClick={() => runAction(onRemove)}
+              disabled={isSaving}
+              className="sm:mr-auto"
+            >
+              Desfazer ajuste
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
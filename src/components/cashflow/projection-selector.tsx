@@ -1,6 +1,6 @@
 /**
  * Projection period selector dropdown
- * Allows users to select projection periods (7/14/30/60/90 days)
+ * Allows users to select projection periods (7/14/30/60/90 days, 6 or 12 months)
  */
 
 import {
@@ -27,6 +27,8 @@ const options: { value: ProjectionDays; label: string }[] = [
   { value: 30, label: '30 dias' },
   { value: 60, label: '60 dias' },
   { value: 90, label: '90 dias' },
+  { value: 180, label: '6 meses' },
+  { value: 365, label: '12 meses' },
 ]
 
 export function ProjectionSelector({
@@ -0,0 +1,84 @@
+/**
+ * Savings goals progress display component
+ * Shows how much of each goal is saved, the monthly contribution it needs
+ * and whether it is still reachable without creating danger days
+ */
+
+import { cn } from '@/lib/utils'
+import { formatCurrency, formatDayMonth } from '@/lib/format'
+import type { GoalProgress } from './types'
+
+interface SavingsGoalsProgressProps {
+  goals: GoalProgress[]
+}
+
+function getStatusLabel(goal: GoalProgress): string {
+  switch (goal.status) {
+    case 'reached':
+      return 'Meta alcançada'
+    case 'on_track':
+      return 'No caminho'
+    case 'creates_danger':
+      return goal.firstDangerDate
+        ? `Gera dias de perigo a partir de ${formatDayMonth(goal.firstDangerDate)}`
+        : 'Gera dias de perigo'
+    case 'out_of_time':
+      return 'Prazo insuficiente'
+  }
+}
+
+const STATUS_STYLES: Record<GoalProgress['status'], { text: string; bar: string }> = {
+  reached: { text: 'text-green-600', bar: 'bg-green-500' },
+  on_track: { text: 'text-green-600', bar: 'bg-primary' },
+  creates_danger: { text: 'text-amber-600', bar: 'bg-amber-500' },
+  out_of_time: { text: 'text-red-600', bar: 'bg-red-500' },
+}
+
+export function SavingsGoalsProgress({ goals }: SavingsGoalsProgressProps) {
+  return (
+    <div className="rounded-xl border bg-card border-border p-4">
+      <p className="text-sm text-muted-foreground mb-3">Metas de Economia</p>
+
+      <ul className="space-y-4">
+        {goals.map((goal) => {
+          const styles = STATUS_STYLES[goal.status]
+          return (
+            <li key={goal.goalId} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate" title={goal.name}>
+                  {goal.name}
+                </span>
+                <span className="text-sm text-muted-foreground shrink-0">
+                  {formatCurrency(goal.savedAmount * 100)} de {formatCurrency(goal.targetAmount * 100)}
+                </span>
+              </div>
+
+              <div
+                className="h-2 rounded-full bg-muted overflow-hidden"
+                role="progressbar"
+                aria-label={`Progresso da meta ${goal.name}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(goal.progress * 100)}
+              >
+                <div
+                  className={cn('h-full rounded-full', styles.bar)}
+                  style={{ width: `${goal.progress * 100}%` }}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="text-muted-foreground">
+                  {goal.status === 'reached' || goal.status === 'out_of_time'
+                    ? `Até ${formatDayMonth(goal.targetDate)}`
+                    : `${formatCurrency(goal.monthlyContribution * 100)}/mês até ${formatDayMonth(goal.targetDate)}`}
+                </span>
+                <span className={cn('font-medium', styles.text)}>{getStatusLabel(goal)}</span>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -1,13 +1,14 @@
 /**
  * SummaryPanel - Statistics summary cards for the dashboard.
- * Displays starting balance, income, expenses, ending balance, danger day count, and surplus/deficit.
+ * Displays starting balance, income, expenses, ending balance, danger day count, surplus/deficit,
+ * and the simulated worst-risk day.
  */
 
 import { motion, useReducedMotion } from 'motion/react'
 import { cn } from '@/lib/utils'
-import { formatCurrency } from '@/lib/format'
+import { formatCurrency, formatDayMonth } from '@/lib/format'
 import { SurplusDeficit } from './surplus-deficit'
-import type { SummaryStats } from './types'
+import type { ScenarioStats, SummaryStats } from './types'
 
 interface SummaryPanelProps {
   stats: SummaryStats
@@ -53,8 +54,23 @@ function StatCard({ label, value, sublabel, variant = 'default' }: StatCardProps
   )
 }
 
+/**
+ * Income card sublabel: the guaranteed income when scenarios differ and the
+ * income net of the taxes provisioned on it.
+ */
+function getIncomeSublabel(optimistic: ScenarioStats, pessimistic: ScenarioStats): string | undefined {
+  const parts: string[] = []
+  if (optimistic.totalIncome !== pessimistic.totalIncome) {
+    parts.push(`Garantido: ${formatCurrency(pessimistic.totalIncome * 100)}`)
+  }
+  if (optimistic.totalTaxes > 0) {
+    parts.push(`Líquida de impostos: ${formatCurrency((optimistic.totalIncome - optimistic.totalTaxes) * 100)}`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : undefined
+}
+
 export function SummaryPanel({ stats }: SummaryPanelProps) {
-  const { startingBalance, optimistic, pessimistic } = stats
+  const { startingBalance, safetyThreshold, optimistic, realistic, pessimistic, worstRiskDay } = stats
   const shouldReduceMotion = useReducedMotion()
 
   const cardVariants = {
@@ -64,9 +80,15 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
 
   const cardTransition = { duration: 0.38, ease: [0.22, 1, 0.36, 1] } as const
 
-  // Determine danger status
-  const hasDangerDays = optimistic.dangerDayCount > 0 || pessimistic.dangerDayCount > 0
-  const maxDangerDays = Math.max(optimistic.dangerDayCount, pessimistic.dangerDayCount)
+  // Determine danger status (negative balance days)
+  const hasDangerDays = optimistic.negativeDayCount > 0 || pessimistic.negativeDayCount > 0
+  const maxDangerDays = Math.max(optimistic.negativeDayCount, pessimistic.negativeDayCount)
+
+  // Days still positive but below the group's safety cushion
+  const cushionDays = Math.max(
+    optimistic.dangerDayCount - optimistic.negativeDayCount,
+    pessimistic.dangerDayCount - pessimistic.negativeDayCount
+  )
 
   // Determine ending balance variant
   const getBalanceVariant = (balance: number): StatCardProps['variant'] => {
@@ -109,11 +131,7 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
         <StatCard
           label="Renda Esperada"
           value={formatCurrency(optimistic.totalIncome * 100)}
-          sublabel={
-            optimistic.totalIncome !== pessimistic.totalIncome
-              ? `Garantido: ${formatCurrency(pessimistic.totalIncome * 100)}`
-              : undefined
-          }
+          sublabel={getIncomeSublabel(optimistic, pessimistic)}
           variant="success"
         />
       </motion.div>
@@ -126,7 +144,12 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
       >
         <StatCard
           label="Total de Despesas"
-          value={formatCurrency(optimistic.totalExpenses * 100)}
+          value={formatCurrency((realistic ?? optimistic).totalExpenses * 100)}
+          sublabel={
+            optimistic.totalExpenses !== pessimistic.totalExpenses
+              ? `Entre ${formatCurrency(optimistic.totalExpenses * 100)} e ${formatCurrency(pessimistic.totalExpenses * 100)}`
+              : undefined
+          }
         />
       </motion.div>
 
@@ -141,7 +164,14 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
           value={formatCurrency(optimistic.endBalance * 100)}
           sublabel={
             optimistic.endBalance !== pessimistic.endBalance
-              ? `Pessimista: ${formatCurrency(pessimistic.endBalance * 100)}`
+              ? [
+                  realistic && realistic.endBalance !== optimistic.endBalance
+                    ? `Realista: ${formatCurrency(realistic.endBalance * 100)}`
+                    : null,
+                  `Pessimista: ${formatCurrency(pessimistic.endBalance * 100)}`,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')
               : undefined
           }
           variant={getBalanceVariant(optimistic.endBalance)}
@@ -194,12 +224,15 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
                 {maxDangerDays} {maxDangerDays !== 1 ? 'Dias de Perigo Detectados' : 'Dia de Perigo Detectado'}
               </p>
               <p className="text-sm text-muted-foreground">
-                {optimistic.dangerDayCount > 0 && pessimistic.dangerDayCount > 0 ? (
+                {optimistic.negativeDayCount > 0 && pessimistic.negativeDayCount > 0 ? (
                   <>
-                    {optimistic.dangerDayCount} no cenário otimista,{' '}
-                    {pessimistic.dangerDayCount} no cenário pessimista
+                    {optimistic.negativeDayCount} no cenário otimista,{' '}
+                    {realistic && `${realistic.negativeDayCount} no cenário realista, `}
+                    {pessimistic.negativeDayCount} no cenário pessimista
                   </>
-                ) : optimistic.dangerDayCount > 0 ? (
+                ) : realistic && realistic.negativeDayCount > 0 ? (
+                  `${realistic.negativeDayCount} no cenário realista, ${pessimistic.negativeDayCount} no cenário pessimista`
+                ) : optimistic.negativeDayCount > 0 ? (
                   'Mesmo no cenário otimista'
                 ) : (
                   'Apenas no cenário pessimista'
@@ -209,7 +242,87 @@ export function SummaryPanel({ stats }: SummaryPanelProps) {
           </div>
         </motion.div>
       )}
+
+      {/* Days below the safety cushion (only show if there are any) */}
+      {cushionDays > 0 && (
+        <motion.div
+          className="col-span-2 md:col-span-4"
+          variants={cardVariants}
+          transition={cardTransition}
+        >
+          <div
+            className={cn(
+              'rounded-xl border border-yellow-500/30 bg-yellow-500/5 p-4',
+              'flex items-center gap-3'
+            )}
+          >
+            <div className="flex-shrink-0">
+              <svg
+                className="h-6 w-6 text-yellow-600"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M12 9v3.75m9-.75a9 9 0 11-18 0 9 9 0 0118 0zm-9 3.75h.008v.008H12v-.008z"
+                />
+              </svg>
+            </div>
+            <div>
+              <p className="font-medium text-yellow-600">
+                {cushionDays} {cushionDays !== 1 ? 'Dias Abaixo da Reserva de Segurança' : 'Dia Abaixo da Reserva de Segurança'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Saldo positivo, mas abaixo de {formatCurrency(safetyThreshold * 100)}
+              </p>
+            </div>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Simulated worst-risk day (only show if any run goes negative) */}
+      {worstRiskDay && (
+        <motion.div
+          className="col-span-2 md:col-span-4"
+          variants={cardVariants}
+          transition={cardTransition}
+        >
+          <div
+            className={cn(
+              'rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-4',
+              'flex items-center gap-3'
+            )}
+          >
+            <div className="flex-shrink-0">
+              <svg
+                className="h-6 w-6 text-indigo-600"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M3 13.125C3 12.504 3.504 12 4.125 12h2.25c.621 0 1.125.504 1.125 1.125v6.75C7.5 20.496 6.996 21 6.375 21h-2.25A1.125 1.125 0 013 19.875v-6.75zM9.75 8.625c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125v11.25c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V8.625zM16.5 4.125c0-.621.504-1.125 1.125-1.125h2.25C20.496 3 21 3.504 21 4.125v15.75c0 .621-.504 1.125-1.125 1.125h-2.25a1.125 1.125 0 01-1.125-1.125V4.125z"
+                />
+              </svg>
+            </div>
+            <div>
+              <p className="font-medium text-indigo-600">
+                Dia de Maior Risco: {formatDayMonth(worstRiskDay.date)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {Math.round(worstRiskDay.negativeProbability * 100)}% de chance de saldo negativo
+                nas simulações de atraso e falta de receitas
+              </p>
+            </div>
+          </div>
+        </motion.div>
+      )}
     </motion.div>
   )
 }
-
@@ -3,7 +3,7 @@
  * These types are used for chart rendering and UI display.
  */
 
-import type { DailySnapshot } from '@/lib/cashflow/types'
+import type { DailySnapshot, DangerLevel } from '@/lib/cashflow/types'
 
 /**
  * Data point for Recharts AreaChart.
@@ -16,6 +16,11 @@ export interface ChartDataPoint {
   timestamp: number
   /** Optimistic balance in dollars (for chart scale) */
   optimisticBalance: number
+  /**
+   * Realistic balance in dollars (guaranteed + probable income).
+   * Absent for snapshots saved before the realistic scenario existed.
+   */
+  realisticBalance?: number
   /** Pessimistic balance in dollars (for chart scale) */
   pessimisticBalance: number
   /** Investment-inclusive balance in dollars (optimistic + investment total) */
@@ -24,10 +29,51 @@ export interface ChartDataPoint {
   isOptimisticDanger: boolean
   /** Whether pessimistic scenario is in danger */
   isPessimisticDanger: boolean
+  /** Most severe danger level across scenarios (absent when neither is in danger) */
+  dangerLevel?: DangerLevel
+  /** Simulated P10 and P90 balances in dollars (absent without a simulation) */
+  simulationBand?: [number, number]
+  /** Simulated median balance in dollars (absent without a simulation) */
+  simulationMedian?: number
+  /** Share of simulated runs with a negative balance, 0 to 1 (absent without a simulation) */
+  negativeProbability?: number
+  /**
+   * Lowest and highest balance of the period across the scenarios, in dollars
+   * (only on points that aggregate several days)
+   */
+  balanceRange?: [number, number]
+  /**
+   * Period aggregated into this point on long projections (absent for daily
+   * points). Its balances and snapshot are those of the period's last day.
+   */
+  bucket?: ChartBucket
+  /**
+   * Optimistic balance of each checking account in dollars, keyed by account id.
+   * Empty for snapshots saved before per-account projection existed.
+   */
+  accountBalances: Record<string, number>
   /** Reference to full snapshot for tooltip */
   snapshot: DailySnapshot
 }
 
+/**
+ * Period each chart point covers: a day up to 90 days, a week or a month beyond.
+ */
+export type ChartGranularity = 'day' | 'week' | 'month'
+
+/**
+ * Days aggregated into one chart point.
+ */
+export interface ChartBucket {
+  granularity: Exclude<ChartGranularity, 'day'>
+  /** First day of the period within the projection */
+  startDate: Date
+  /** Last day of the period within the projection */
+  endDate: Date
+  /** Day of the period's lowest balance */
+  minBalanceDate: Date
+}
+
 /**
  * Visibility state for chart elements.
  * Used for interactive legend toggle functionality.
@@ -36,10 +82,14 @@ export interface ChartDataPoint {
 export interface LineVisibility {
   /** Optimistic scenario line + area */
   optimistic: boolean
+  /** Realistic scenario line */
+  realistic: boolean
   /** Pessimistic scenario line + area */
   pessimistic: boolean
   /** Investment-inclusive balance line */
   investmentInclusive: boolean
+  /** Simulated P10–P90 band + median line */
+  simulation: boolean
   /** Danger zone reference areas + zero line */
   dangerZone: boolean
 }
@@ -49,11 +99,37 @@ export interface LineVisibility {
  */
 export const DEFAULT_LINE_VISIBILITY: LineVisibility = {
   optimistic: true,
+  realistic: true,
   pessimistic: true,
   investmentInclusive: true,
+  simulation: true,
   dangerZone: true,
 }
 
+/**
+ * Colors for per-account lines, assigned in account order.
+ */
+const ACCOUNT_LINE_COLORS = ['#8b5cf6', '#ec4899', '#3b82f6', '#14b8a6', '#f97316'] as const
+
+/**
+ * Get the color of the per-account line at `index`.
+ */
+export function getAccountLineColor(index: number): string {
+  return ACCOUNT_LINE_COLORS[index % ACCOUNT_LINE_COLORS.length]
+}
+
+/**
+ * A per-account balance line that can be toggled on the chart.
+ */
+export interface AccountLine {
+  /** Key into ChartDataPoint.accountBalances */
+  accountId: string
+  /** Display label (account name) */
+  label: string
+  /** Line and legend indicator color */
+  color: string
+}
+
 /**
  * Legend item configuration for rendering.
  */
@@ -76,6 +152,47 @@ export interface DangerRange {
   end: string
   /** Which scenario has danger in this range */
   scenario: 'optimistic' | 'pessimistic' | 'both'
+  /** Most severe danger level of the days in this range */
+  severity: DangerLevel
+}
+
+/**
+ * Summary totals of one scenario.
+ * All monetary values are in dollars (converted from cents).
+ */
+export interface ScenarioStats {
+  totalIncome: number
+  totalExpenses: number
+  /** Taxes provisioned on income (part of totalExpenses) */
+  totalTaxes: number
+  endBalance: number
+  /** Days below the safety threshold */
+  dangerDayCount: number
+  /** Danger days with a negative balance (the rest are only below the safety cushion) */
+  negativeDayCount: number
+  /** Negative days past the overdraft limit (the rest only use cheque especial) */
+  beyondLimitDayCount: number
+  /** Minimum projected balance during the period (dollars) */
+  minBalance: number
+  /** Date when the minimum projected balance occurs */
+  minBalanceDate: Date
+  /** Surplus (positive) or deficit (negative): endBalance - startingBalance */
+  surplus: number
+}
+
+/**
+ * Realistic totals of one month of the projection.
+ * All monetary values are in dollars (converted from cents).
+ */
+export interface MonthlyStats {
+  /** First day of the month */
+  month: Date
+  totalIncome: number
+  totalExpenses: number
+  /** Lowest balance of the month */
+  minBalance: number
+  /** Date of the lowest balance */
+  minBalanceDate: Date
 }
 
 /**
@@ -85,31 +202,46 @@ export interface DangerRange {
 export interface SummaryStats {
   /** Starting balance in dollars */
   startingBalance: number
+  /** Group safety threshold in dollars (0 when unset) */
+  safetyThreshold: number
   /** Optimistic scenario totals */
-  optimistic: {
-    totalIncome: number
-    totalExpenses: number
-    endBalance: number
-    dangerDayCount: number
-    /** Minimum projected balance during the period (dollars) */
-    minBalance: number
-    /** Date when the minimum projected balance occurs */
-    minBalanceDate: Date
-    /** Surplus (positive) or deficit (negative): endBalance - startingBalance */
-    surplus: number
-  }
+  optimistic: ScenarioStats
+  /** Realistic scenario totals (null for snapshots saved before it existed) */
+  realistic: ScenarioStats | null
   /** Pessimistic scenario totals */
-  pessimistic: {
-    totalIncome: number
-    totalExpenses: number
-    endBalance: number
-    dangerDayCount: number
-    /** Minimum projected balance during the period (dollars) */
-    minBalance: number
-    /** Date when the minimum projected balance occurs */
-    minBalanceDate: Date
-    /** Surplus (positive) or deficit (negative): endBalance - startingBalance */
-    surplus: number
-  }
+  pessimistic: ScenarioStats
+  /** Simulated day with the highest chance of a negative balance (null when none) */
+  worstRiskDay: {
+    date: Date
+    /** Share of simulated runs with a negative balance, 0 to 1 */
+    negativeProbability: number
+  } | null
 }
 
+/**
+ * Whether a savings goal can still be reached:
+ * - reached: the saved amount already covers the target
+ * - on_track: the contributions fit without new danger days
+ * - creates_danger: the contributions push the realistic balance below the safety threshold
+ * - out_of_time: no contribution date is left before the target date
+ */
+export type GoalStatus = 'reached' | 'on_track' | 'creates_danger' | 'out_of_time'
+
+/**
+ * Progress of a savings goal for the dashboard.
+ * All monetary values are in dollars (converted from cents).
+ */
+export interface GoalProgress {
+  goalId: string
+  name: string
+  targetAmount: number
+  targetDate: Date
+  savedAmount: number
+  /** Share of the target already saved, 0 to 1 */
+  progress: number
+  /** Contribution needed each month to reach the target on time */
+  monthlyContribution: number
+  status: GoalStatus
+  /** First day the goal contributions cause a danger day (only when creating danger) */
+  firstDangerDate?: Date
+}
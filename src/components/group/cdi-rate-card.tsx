@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useFinanceStore } from '@/stores/finance-store'
+
+interface CdiRateCardProps {
+  /** Current group annual CDI rate in percent (0 when unset) */
+  cdiAnnualRate: number
+}
+
+/**
+ * Group-level annual CDI rate.
+ * Accounts yielding a percentage of the CDI grow from it in the projection.
+ */
+export function CdiRateCard({ cdiAnnualRate }: CdiRateCardProps) {
+  const updateFinanceSettings = useFinanceStore((state) => state.updateFinanceSettings)
+  const [value, setValue] = useState(cdiAnnualRate > 0 ? cdiAnnualRate.toString() : '')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const rate = parseFloat(value) || 0
+  const isDirty = rate !== cdiAnnualRate
+
+  const handleSave = async () => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await updateFinanceSettings({ cdiAnnualRate: rate }, { source: 'manage' })
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsSubmitting(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Taxa CDI</CardTitle>
+        <CardDescription>
+          Taxa anual do CDI usada para projetar o rendimento das contas que rendem um
+          percentual do CDI.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-2 max-w-xs">
+          <Label htmlFor="cdiAnnualRate">CDI ao Ano (%)</Label>
+          <Input
+            id="cdiAnnualRate"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={100}
+            step="0.01"
+            placeholder="ex: 10,65"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            disabled={isSubmitting}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'cdiAnnualRate-error' : undefined}
+          />
+          {error && (
+            <p id="cdiAnnualRate-error" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <Button className="mt-4" onClick={handleSave} disabled={isSubmitting || !isDirty}>
+          {isSubmitting ? 'Salvando...' : 'Salvar'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
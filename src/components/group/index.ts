@@ -1,5 +1,4 @@
 export { GroupBadge } from './group-badge'
 export { MembersList } from './members-list'
-
-
-
+export { SafetyThresholdCard } from './safety-threshold-card'
+export { CdiRateCard } from './cdi-rate-card'
@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Label } from '@/components/ui/label'
+import { useFinanceStore } from '@/stores/finance-store'
+
+interface SafetyThresholdCardProps {
+  /** Current group safety threshold in cents (0 when unset) */
+  safetyThreshold: number
+}
+
+/**
+ * Group-level minimum balance ("reserva de segurança").
+ * Projected days below it are flagged on the dashboard, apart from negative days.
+ */
+export function SafetyThresholdCard({ safetyThreshold }: SafetyThresholdCardProps) {
+  const updateFinanceSettings = useFinanceStore((state) => state.updateFinanceSettings)
+  const [value, setValue] = useState(
+    safetyThreshold > 0 ? (safetyThreshold / 100).toFixed(2) : ''
+  )
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const valueCents = Math.round((parseFloat(value) || 0) * 100)
+  const isDirty = valueCents !== safetyThreshold
+
+  const handleSave = async () => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    setError(null)
+
+    const result = await updateFinanceSettings(
+      { safetyThreshold: valueCents },
+      { source: 'manage' }
+    )
+    if (!result.success) {
+      setError(result.error)
+    }
+    setIsSubmitting(false)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reserva de Segurança</CardTitle>
+        <CardDescription>
+          Saldo mínimo que o grupo quer manter. Dias abaixo dele aparecem como alerta na
+          projeção, separados dos dias com saldo negativo.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-2 max-w-xs">
+          <Label htmlFor="safetyThreshold">Saldo Mínimo</Label>
+          <CurrencyInput
+            id="safetyThreshold"
+            value={value}
+            onChange={setValue}
+            placeholder="0,00"
+            disabled={isSubmitting}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'safetyThreshold-error' : undefined}
+          />
+          {error && (
+            <p id="safetyThreshold-error" className="text-sm text-destructive">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <Button className="mt-4" onClick={handleSave} disabled={isSubmitting || !isDirty}>
+          {isSubmitting ? 'Salvando...' : 'Salvar'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -83,6 +83,16 @@ export function AccountCard({
             <p className="text-sm text-muted-foreground">
               {TYPE_LABELS[account.type]}
               {account.owner && <span className="text-primary"> · {account.owner.name}</span>}
+              {account.isDefault && <span> · Padrão</span>}
+              {account.type === 'checking' && account.overdraftLimit ? (
+                <span> · Cheque especial {formatCurrency(account.overdraftLimit)}</span>
+              ) : null}
+              {account.type !== 'checking' && account.yieldType && account.yieldRate ? (
+                <span>
+                  {' '}· Rende {account.yieldRate.toLocaleString('pt-BR')}
+                  {account.yieldType === 'cdi' ? '% do CDI' : '% a.a.'}
+                </span>
+              ) : null}
             </p>
           </div>
         </div>
@@ -3,6 +3,7 @@ import { Button } from '@/components/ui/button'
 import { CurrencyInput } from '@/components/ui/currency-input'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
 import {
   Select,
   SelectContent,
@@ -22,6 +23,11 @@ interface AccountFormProps {
 
 type AccountType = 'checking' | 'savings' | 'investment'
 
+// Select value for accounts that do not yield (Radix Select does not accept empty values)
+const NO_YIELD_VALUE = 'none'
+
+type YieldTypeValue = NonNullable<BankAccount['yieldType']> | typeof NO_YIELD_VALUE
+
 export function AccountForm({
   account,
   profiles,
@@ -36,18 +42,41 @@ export function AccountForm({
     account?.balance ? (account.balance / 100).toFixed(2) : ''
   )
   const [ownerId, setOwnerId] = useState<string | null>(account?.owner?.id ?? null)
+  const [isDefault, setIsDefault] = useState(account?.isDefault ?? false)
+  const [overdraftLimit, setOverdraftLimit] = useState(
+    account?.overdraftLimit ? (account.overdraftLimit / 100).toFixed(2) : ''
+  )
+  const [overdraftMonthlyRate, setOverdraftMonthlyRate] = useState(
+    account?.overdraftMonthlyRate?.toString() ?? ''
+  )
+  const [yieldType, setYieldType] = useState<YieldTypeValue>(account?.yieldType ?? NO_YIELD_VALUE)
+  const [yieldRate, setYieldRate] = useState(account?.yieldRate?.toString() ?? '')
+  const [yieldIncomeTax, setYieldIncomeTax] = useState(account?.yieldIncomeTax ?? false)
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setErrors({})
 
+    // Cheque especial only applies to checking accounts; an empty limit means none
+    const overdraftLimitCents = Math.round((parseFloat(overdraftLimit) || 0) * 100)
+    const hasOverdraft = type === 'checking' && overdraftLimitCents > 0
+    // Only savings and investment accounts yield
+    const hasYield = type !== 'checking' && yieldType !== NO_YIELD_VALUE
+
     const formData = {
       name: name.trim(),
       type,
       // Convert reais to cents for storage
       balance: Math.round((parseFloat(balance) || 0) * 100),
       ownerId,
+      // Only checking accounts receive unassigned income and expenses
+      isDefault: type === 'checking' && isDefault,
+      overdraftLimit: hasOverdraft ? overdraftLimitCents : null,
+      overdraftMonthlyRate: hasOverdraft ? parseFloat(overdraftMonthlyRate) || 0 : null,
+      yieldType: hasYield ? yieldType : null,
+      yieldRate: hasYield ? parseFloat(yieldRate) || 0 : null,
+      yieldIncomeTax: hasYield && yieldIncomeTax,
     }
 
     const result = BankAccountInputSchema.safeParse(formData)
@@ -133,6 +162,8 @@ export function AccountForm({
           id="balance"
           value={balance}
           onChange={setBalance}
+          // Checking accounts can be overdrawn into their cheque especial
+          allowNegative={type === 'checking'}
           disabled={isSubmitting}
           aria-invalid={!!errors.balance}
           aria-describedby={errors.balance ? 'balance-error' : undefined}
@@ -144,6 +175,125 @@ export function AccountForm({
         )}
       </div>
 
+      {type === 'checking' && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="overdraftLimit">Limite do Cheque Especial</Label>
+            <CurrencyInput
+              id="overdraftLimit"
+              value={overdraftLimit}
+              onChange={setOverdraftLimit}
+              disabled={isSubmitting}
+              aria-invalid={!!errors.overdraftLimit}
+              aria-describedby={errors.overdraftLimit ? 'overdraftLimit-error' : undefined}
+            />
+            {errors.overdraftLimit && (
+              <p id="overdraftLimit-error" className="text-sm text-destructive">
+                {errors.overdraftLimit}
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="overdraftMonthlyRate">Juros ao Mês (%)</Label>
+            <Input
+              id="overdraftMonthlyRate"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={100}
+              step="0.01"
+              placeholder="ex: 8"
+              value={overdraftMonthlyRate}
+              onChange={(e) => setOverdraftMonthlyRate(e.target.value)}
+              disabled={isSubmitting || !overdraftLimit}
+              aria-invalid={!!errors.overdraftMonthlyRate}
+              aria-describedby={errors.overdraftMonthlyRate ? 'overdraftMonthlyRate-error' : undefined}
+            />
+            {errors.overdraftMonthlyRate && (
+              <p id="overdraftMonthlyRate-error" className="text-sm text-destructive">
+                {errors.overdraftMonthlyRate}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {type !== 'checking' && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor="yieldType">Rendimento</Label>
+            <Select
+              value={yieldType}
+              onValueChange={(value) => setYieldType(value as YieldTypeValue)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="yieldType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_YIELD_VALUE}>Não rende</SelectItem>
+                <SelectItem value="fixed">Taxa fixa ao ano</SelectItem>
+                <SelectItem value="cdi">Percentual do CDI</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="yieldRate">
+              {yieldType === 'cdi' ? '% do CDI' : 'Taxa ao Ano (%)'}
+            </Label>
+            <Input
+              id="yieldRate"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={500}
+              step="0.01"
+              placeholder={yieldType === 'cdi' ? 'ex: 100' : 'ex: 6,17'}
+              value={yieldRate}
+              onChange={(e) => setYieldRate(e.target.value)}
+              disabled={isSubmitting || yieldType === NO_YIELD_VALUE}
+              aria-invalid={!!errors.yieldRate}
+              aria-describedby={errors.yieldRate ? 'yieldRate-error' : undefined}
+            />
+            {errors.yieldRate && (
+              <p id="yieldRate-error" className="text-sm text-destructive">
+                {errors.yieldRate}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {type !== 'checking' && yieldType !== NO_YIELD_VALUE && (
+        <div className="flex items-center gap-3">
+          <Switch
+            id="yieldIncomeTax"
+            checked={yieldIncomeTax}
+            onCheckedChange={setYieldIncomeTax}
+            disabled={isSubmitting}
+          />
+          <Label htmlFor="yieldIncomeTax" className="cursor-pointer text-sm font-normal">
+            Descontar imposto de renda (tabela regressiva)
+          </Label>
+        </div>
+      )}
+
+      {type === 'checking' && (
+        <div className="flex items-center gap-3">
+          <Switch
+            id="isDefault"
+            checked={isDefault}
+            onCheckedChange={setIsDefault}
+            disabled={isSubmitting}
+          />
+          <Label htmlFor="isDefault" className="cursor-pointer text-sm font-normal">
+            Conta padrão para receitas e despesas sem conta definida
+          </Label>
+        </div>
+      )}
+
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           Cancelar
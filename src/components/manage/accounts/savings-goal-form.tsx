@@ -0,0 +1,231 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  SavingsGoalInputSchema,
+  type BankAccount,
+  type SavingsGoal,
+  type SavingsGoalInput,
+} from '@/types'
+
+// Select value for goals kept in checking (Radix Select does not accept empty values)
+const NO_ACCOUNT_VALUE = 'none'
+
+const ACCOUNT_TYPE_LABELS: Record<BankAccount['type'], string> = {
+  checking: 'Corrente',
+  savings: 'Poupança',
+  investment: 'Investimento',
+}
+
+interface SavingsGoalFormProps {
+  goal?: SavingsGoal
+  accounts: BankAccount[]
+  onSubmit: (data: SavingsGoalInput) => Promise<void>
+  onCancel: () => void
+  isSubmitting: boolean
+}
+
+export function SavingsGoalForm({
+  goal,
+  accounts,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: SavingsGoalFormProps) {
+  const [name, setName] = useState(goal?.name ?? '')
+  // Convert cents to reais for display/editing
+  const [targetAmount, setTargetAmount] = useState(
+    goal?.targetAmount ? (goal.targetAmount / 100).toFixed(2) : ''
+  )
+  const [targetDate, setTargetDate] = useState(
+    goal?.targetDate ? format(goal.targetDate, 'yyyy-MM-dd') : ''
+  )
+  const [accountId, setAccountId] = useState<string | null>(goal?.accountId ?? null)
+  const [savedAmount, setSavedAmount] = useState(
+    goal?.savedAmount ? (goal.savedAmount / 100).toFixed(2) : ''
+  )
+  const [contributionDay, setContributionDay] = useState(goal?.contributionDay.toString() ?? '')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Only savings and investment accounts hold goal money apart from checking
+  const savingsAccounts = accounts.filter((account) => account.type !== 'checking')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrors({})
+
+    if (!targetDate) {
+      setErrors({ targetDate: 'Informe a data da meta' })
+      return
+    }
+
+    const formData = {
+      name: name.trim(),
+      // Convert reais to cents for storage
+      targetAmount: Math.round((parseFloat(targetAmount) || 0) * 100),
+      targetDate: new Date(`${targetDate}T00:00:00`),
+      accountId,
+      // The linked account's balance counts as saved
+      savedAmount: accountId ? 0 : Math.round((parseFloat(savedAmount) || 0) * 100),
+      contributionDay: parseInt(contributionDay, 10) || 0,
+      isActive: goal?.isActive ?? true,
+    }
+
+    const result = SavingsGoalInputSchema.safeParse(formData)
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors
+      setErrors(
+        Object.fromEntries(Object.entries(fieldErrors).map(([k, v]) => [k, v?.[0] ?? '']))
+      )
+      return
+    }
+
+    await onSubmit(result.data)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="name">Descrição</Label>
+        <Input
+          id="name"
+          type="text"
+          placeholder="ex: Viagem de férias"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSubmitting}
+          aria-invalid={!!errors.name}
+          aria-describedby={errors.name ? 'name-error' : undefined}
+        />
+        {errors.name && (
+          <p id="name-error" className="text-sm text-destructive">
+            {errors.name}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="targetAmount">Valor da Meta</Label>
+          <CurrencyInput
+            id="targetAmount"
+            value={targetAmount}
+            onChange={setTargetAmount}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.targetAmount}
+            aria-describedby={errors.targetAmount ? 'targetAmount-error' : undefined}
+          />
+          {errors.targetAmount && (
+            <p id="targetAmount-error" className="text-sm text-destructive">
+              {errors.targetAmount}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="targetDate">Data da Meta</Label>
+          <Input
+            id="targetDate"
+            type="date"
+            value={targetDate}
+            onChange={(e) => setTargetDate(e.target.value)}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.targetDate}
+            aria-describedby={errors.targetDate ? 'targetDate-error' : undefined}
+          />
+          {errors.targetDate && (
+            <p id="targetDate-error" className="text-sm text-destructive">
+              {errors.targetDate}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="goalAccount">Onde guardar</Label>
+          <Select
+            value={accountId ?? NO_ACCOUNT_VALUE}
+            onValueChange={(value) => setAccountId(value === NO_ACCOUNT_VALUE ? null : value)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="goalAccount">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT_VALUE}>Reservar na conta corrente</SelectItem>
+              {savingsAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name} ({ACCOUNT_TYPE_LABELS[account.type]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="contributionDay">Dia do Aporte</Label>
+          <Input
+            id="contributionDay"
+            type="number"
+            placeholder="1-31"
+            value={contributionDay}
+            onChange={(e) => setContributionDay(e.target.value)}
+            min="1"
+            max="31"
+            disabled={isSubmitting}
+            aria-invalid={!!errors.contributionDay}
+            aria-describedby={errors.contributionDay ? 'contributionDay-error' : undefined}
+          />
+          {errors.contributionDay && (
+            <p id="contributionDay-error" className="text-sm text-destructive">
+              {errors.contributionDay}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {accountId ? (
+        <p className="text-sm text-muted-foreground">
+          O saldo dessa conta é considerado já guardado e os aportes são transferidos para ela.
+        </p>
+      ) : (
+        <div className="grid gap-2">
+          <Label htmlFor="savedAmount">Já guardado</Label>
+          <CurrencyInput
+            id="savedAmount"
+            value={savedAmount}
+            onChange={setSavedAmount}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.savedAmount}
+            aria-describedby={errors.savedAmount ? 'savedAmount-error' : undefined}
+          />
+          {errors.savedAmount && (
+            <p id="savedAmount-error" className="text-sm text-destructive">
+              {errors.savedAmount}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Salvando...' : goal ? 'Atualizar' : 'Adicionar Meta'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,113 @@
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/components/manage/shared/format-utils'
+import type { BankAccount, SavingsGoal } from '@/types'
+
+interface SavingsGoalListProps {
+  goals: SavingsGoal[]
+  accounts: BankAccount[]
+  onAdd: () => void
+  onEdit: (goal: SavingsGoal) => void
+  onDelete: (id: string) => void
+  onToggleActive: (goal: SavingsGoal) => void
+}
+
+export function SavingsGoalList({
+  goals,
+  accounts,
+  onAdd,
+  onEdit,
+  onDelete,
+  onToggleActive,
+}: SavingsGoalListProps) {
+  const formatWhere = (goal: SavingsGoal) => {
+    if (!goal.accountId) {
+      return `Reservado na conta corrente · ${formatCurrency(goal.savedAmount)} guardado`
+    }
+    return `Guardado em ${accounts.find((a) => a.id === goal.accountId)?.name ?? 'Conta removida'}`
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Metas de Economia</h2>
+        <p className="text-sm text-muted-foreground">
+          Dinheiro separado todo mês para viagens, manutenção do carro ou impostos anuais
+        </p>
+      </div>
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">
+          Nenhuma meta cadastrada.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {goals.map((goal) => (
+            <div
+              key={goal.id}
+              className={cn(
+                'flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3',
+                'p-4 rounded-lg border bg-card transition-opacity',
+                !goal.isActive && 'opacity-60'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium truncate" title={goal.name}>
+                    {goal.name}
+                  </span>
+                  <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                    Até {format(goal.targetDate, 'dd/MM/yyyy')}
+                  </span>
+                  {!goal.isActive && (
+                    <span className="text-xs bg-muted px-2 py-0.5 rounded">Inativo</span>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">{formatWhere(goal)}</div>
+                <div className="text-sm text-muted-foreground">
+                  Aporte todo dia {goal.contributionDay}
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-muted-foreground">
+                  {formatCurrency(goal.targetAmount)}
+                </span>
+
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={goal.isActive}
+                    onCheckedChange={() => onToggleActive(goal)}
+                    aria-label={goal.isActive ? 'Desativar meta' : 'Ativar meta'}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEdit(goal)}
+                    className="h-8 px-2 text-muted-foreground hover:text-foreground"
+                  >
+                    Editar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(goal.id)}
+                    className="h-8 px-2 text-muted-foreground hover:text-destructive"
+                  >
+                    Excluir
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button onClick={onAdd} variant="outline" className="w-full">
+        Adicionar Meta
+      </Button>
+    </div>
+  )
+}
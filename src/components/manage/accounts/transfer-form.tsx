@@ -0,0 +1,449 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AnchorDateInput,
+  DayOfWeekSelect,
+  EveryNMonthsInput,
+  TwiceMonthlyInput,
+  YearlyDatesInput,
+} from '@/components/manage/shared/payment-schedule-inputs'
+import { FREQUENCY_LABELS } from '@/components/manage/shared/format-utils'
+import {
+  FrequencySchema,
+  TransferInputSchema,
+  createBiweeklySchedule,
+  type BankAccount,
+  type Frequency,
+  type PaymentSchedule,
+  type Transfer,
+  type TransferInput,
+} from '@/types'
+
+const ACCOUNT_TYPE_LABELS: Record<BankAccount['type'], string> = {
+  checking: 'Corrente',
+  savings: 'Poupança',
+  investment: 'Investimento',
+}
+
+/**
+ * Extract initial schedule state from a recurring transfer.
+ */
+function getInitialScheduleState(transfer?: Transfer): {
+  frequency: Frequency
+  dayOfMonth: string
+  dayOfWeek: number
+  anchorDate: string
+  firstDay: number
+  secondDay: number
+  intervalMonths: number
+  anchorMonth: number
+  anchorYear: number
+  yearlyDates: Array<{ month: number; day: number }>
+} {
+  const today = new Date()
+  const defaultState = {
+    frequency: 'monthly' as Frequency,
+    dayOfMonth: '',
+    dayOfWeek: 5, // Friday
+    anchorDate: '',
+    firstDay: 1,
+    secondDay: 15,
+    intervalMonths: 3,
+    anchorMonth: today.getMonth() + 1,
+    anchorYear: today.getFullYear(),
+    yearlyDates: [{ month: today.getMonth() + 1, day: 10 }],
+  }
+
+  if (!transfer?.frequency || !transfer.paymentSchedule) return defaultState
+
+  const schedule = transfer.paymentSchedule
+  const state = { ...defaultState, frequency: transfer.frequency }
+
+  switch (schedule.type) {
+    case 'dayOfMonth':
+      return { ...state, dayOfMonth: schedule.dayOfMonth.toString() }
+    case 'dayOfWeek':
+      return { ...state, dayOfWeek: schedule.dayOfWeek, anchorDate: schedule.anchorDate ?? '' }
+    case 'twiceMonthly':
+      return { ...state, firstDay: schedule.firstDay, secondDay: schedule.secondDay }
+    case 'everyNMonths':
+      return {
+        ...state,
+        dayOfMonth: schedule.dayOfMonth.toString(),
+        intervalMonths: schedule.intervalMonths,
+        anchorMonth: schedule.anchorMonth,
+        anchorYear: schedule.anchorYear,
+      }
+    case 'yearly':
+      return { ...state, yearlyDates: schedule.dates }
+  }
+}
+
+interface TransferFormProps {
+  transfer?: Transfer
+  accounts: BankAccount[]
+  onSubmit: (data: TransferInput) => Promise<void>
+  onCancel: () => void
+  isSubmitting: boolean
+}
+
+export function TransferForm({
+  transfer,
+  accounts,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: TransferFormProps) {
+  const [name, setName] = useState(transfer?.name ?? '')
+  const [type, setType] = useState<Transfer['type']>(transfer?.type ?? 'recurring')
+  const [sourceAccountId, setSourceAccountId] = useState(transfer?.sourceAccountId ?? '')
+  const [destinationAccountId, setDestinationAccountId] = useState(
+    transfer?.destinationAccountId ?? ''
+  )
+  // Convert cents to reais for display/editing
+  const [amount, setAmount] = useState(
+    transfer?.amount ? (transfer.amount / 100).toFixed(2) : ''
+  )
+  const [date, setDate] = useState(transfer?.date ? format(transfer.date, 'yyyy-MM-dd') : '')
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  // Payment schedule state for recurring transfers
+  const initialSchedule = getInitialScheduleState(transfer)
+  const [frequency, setFrequency] = useState<Frequency>(initialSchedule.frequency)
+  const [dayOfMonth, setDayOfMonth] = useState(initialSchedule.dayOfMonth)
+  const [dayOfWeek, setDayOfWeek] = useState(initialSchedule.dayOfWeek)
+  const [anchorDate, setAnchorDate] = useState(initialSchedule.anchorDate)
+  const [firstDay, setFirstDay] = useState(initialSchedule.firstDay)
+  const [secondDay, setSecondDay] = useState(initialSchedule.secondDay)
+  const [intervalMonths, setIntervalMonths] = useState(initialSchedule.intervalMonths)
+  const [anchorMonth, setAnchorMonth] = useState(initialSchedule.anchorMonth)
+  const [anchorYear, setAnchorYear] = useState(initialSchedule.anchorYear)
+  const [yearlyDates, setYearlyDates] = useState(initialSchedule.yearlyDates)
+
+  // Build PaymentSchedule based on current frequency
+  const buildPaymentSchedule = (): PaymentSchedule => {
+    const day = parseInt(dayOfMonth, 10) || 0
+    switch (frequency) {
+      case 'weekly':
+        return { type: 'dayOfWeek', dayOfWeek }
+      case 'biweekly':
+        return anchorDate ? createBiweeklySchedule(anchorDate) : { type: 'dayOfWeek', dayOfWeek }
+      case 'twice-monthly':
+        return { type: 'twiceMonthly', firstDay, secondDay }
+      case 'monthly':
+        return { type: 'dayOfMonth', dayOfMonth: day }
+      case 'every-n-months':
+        return { type: 'everyNMonths', intervalMonths, dayOfMonth: day, anchorMonth, anchorYear }
+      case 'yearly':
+        return { type: 'yearly', dates: yearlyDates }
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrors({})
+
+    if (type === 'single_shot' && !date) {
+      setErrors({ date: 'Informe a data da transferência' })
+      return
+    }
+    if (type === 'recurring' && frequency === 'biweekly' && !anchorDate) {
+      setErrors({ anchorDate: 'Informe a data de uma transferência' })
+      return
+    }
+
+    const formData = {
+      type,
+      name: name.trim(),
+      sourceAccountId,
+      destinationAccountId,
+      // Convert reais to cents for storage
+      amount: Math.round((parseFloat(amount) || 0) * 100),
+      date: type === 'single_shot' ? new Date(`${date}T00:00:00`) : undefined,
+      frequency: type === 'recurring' ? frequency : undefined,
+      paymentSchedule: type === 'recurring' ? buildPaymentSchedule() : undefined,
+      isActive: transfer?.isActive ?? true,
+    }
+
+    const result = TransferInputSchema.safeParse(formData)
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors
+      const formattedErrors: Record<string, string> = Object.fromEntries(
+        Object.entries(fieldErrors).map(([k, v]) => [k, v?.[0] ?? ''])
+      )
+
+      // Handle nested paymentSchedule errors
+      for (const error of result.error.issues) {
+        if (error.path[0] !== 'paymentSchedule' || error.path.length < 2) continue
+        const field = error.path[1]
+        if (field === 'dayOfMonth') {
+          formattedErrors['dayOfMonth'] = error.message
+        } else if (field === 'firstDay' || field === 'secondDay' || field === 'anchorDate') {
+          formattedErrors[field] = error.message
+        } else if (field === 'intervalMonths') {
+          formattedErrors['intervalMonths'] = error.message
+        } else if (field === 'anchorMonth' || field === 'anchorYear') {
+          formattedErrors['anchor'] = error.message
+        } else if (field === 'dates') {
+          formattedErrors['yearlyDates'] = error.message
+        }
+      }
+
+      setErrors(formattedErrors)
+      return
+    }
+
+    await onSubmit(result.data)
+  }
+
+  const renderAccountOptions = () =>
+    accounts.map((account) => (
+      <SelectItem key={account.id} value={account.id}>
+        {account.name} ({ACCOUNT_TYPE_LABELS[account.type]})
+      </SelectItem>
+    ))
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="name">Descrição</Label>
+        <Input
+          id="name"
+          type="text"
+          placeholder="ex: Reserva de emergência"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSubmitting}
+          aria-invalid={!!errors.name}
+          aria-describedby={errors.name ? 'name-error' : undefined}
+        />
+        {errors.name && (
+          <p id="name-error" className="text-sm text-destructive">
+            {errors.name}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="sourceAccountId">Conta de Origem</Label>
+          <Select
+            value={sourceAccountId}
+            onValueChange={setSourceAccountId}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="sourceAccountId" aria-invalid={!!errors.sourceAccountId}>
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>{renderAccountOptions()}</SelectContent>
+          </Select>
+          {errors.sourceAccountId && (
+            <p className="text-sm text-destructive">{errors.sourceAccountId}</p>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="destinationAccountId">Conta de Destino</Label>
+          <Select
+            value={destinationAccountId}
+            onValueChange={setDestinationAccountId}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="destinationAccountId" aria-invalid={!!errors.destinationAccountId}>
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>{renderAccountOptions()}</SelectContent>
+          </Select>
+          {errors.destinationAccountId && (
+            <p className="text-sm text-destructive">{errors.destinationAccountId}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="amount">Valor</Label>
+          <CurrencyInput
+            id="amount"
+            value={amount}
+            onChange={setAmount}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.amount}
+            aria-describedby={errors.amount ? 'amount-error' : undefined}
+          />
+          {errors.amount && (
+            <p id="amount-error" className="text-sm text-destructive">
+              {errors.amount}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="transferType">Tipo</Label>
+          <Select
+            value={type}
+            onValueChange={(value) => {
+              setType(value as Transfer['type'])
+              setErrors({})
+            }}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="transferType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recurring">Recorrente</SelectItem>
+              <SelectItem value="single_shot">Pontual</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {type === 'single_shot' && (
+        <div className="grid gap-2">
+          <Label htmlFor="date">Data</Label>
+          <Input
+            id="date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.date}
+            aria-describedby={errors.date ? 'date-error' : undefined}
+          />
+          {errors.date && (
+            <p id="date-error" className="text-sm text-destructive">
+              {errors.date}
+            </p>
+          )}
+        </div>
+      )}
+
+      {type === 'recurring' && (
+        <>
+          <div className="grid gap-2">
+            <Label htmlFor="frequency">Frequência</Label>
+            <Select
+              value={frequency}
+              onValueChange={(value) => {
+                setFrequency(value as Frequency)
+                setErrors({})
+              }}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger id="frequency">
+                <SelectValue placeholder="Selecione a frequência" />
+              </SelectTrigger>
+              <SelectContent>
+                {FrequencySchema.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {FREQUENCY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {frequency === 'monthly' && (
+            <div className="grid gap-2">
+              <Label htmlFor="dayOfMonth">Dia do Mês</Label>
+              <Input
+                id="dayOfMonth"
+                type="number"
+                placeholder="1-31"
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(e.target.value)}
+                min="1"
+                max="31"
+                disabled={isSubmitting}
+                aria-invalid={!!errors.dayOfMonth}
+                aria-describedby={errors.dayOfMonth ? 'dayOfMonth-error' : undefined}
+              />
+              {errors.dayOfMonth && (
+                <p id="dayOfMonth-error" className="text-sm text-destructive">
+                  {errors.dayOfMonth}
+                </p>
+              )}
+            </div>
+          )}
+
+          {frequency === 'weekly' && (
+            <DayOfWeekSelect
+              value={dayOfWeek}
+              onChange={setDayOfWeek}
+              disabled={isSubmitting}
+              error={errors.dayOfWeek}
+            />
+          )}
+
+          {frequency === 'biweekly' && (
+            <AnchorDateInput
+              value={anchorDate}
+              onChange={setAnchorDate}
+              disabled={isSubmitting}
+              error={errors.anchorDate}
+            />
+          )}
+
+          {frequency === 'twice-monthly' && (
+            <TwiceMonthlyInput
+              firstDay={firstDay}
+              secondDay={secondDay}
+              onFirstDayChange={setFirstDay}
+              onSecondDayChange={setSecondDay}
+              disabled={isSubmitting}
+              firstDayError={errors.firstDay}
+              secondDayError={errors.secondDay}
+            />
+          )}
+
+          {frequency === 'every-n-months' && (
+            <EveryNMonthsInput
+              intervalMonths={intervalMonths}
+              dayOfMonth={parseInt(dayOfMonth, 10) || 0}
+              anchorMonth={anchorMonth}
+              anchorYear={anchorYear}
+              onIntervalMonthsChange={setIntervalMonths}
+              onDayOfMonthChange={(value) => setDayOfMonth(value ? value.toString() : '')}
+              onAnchorMonthChange={setAnchorMonth}
+              onAnchorYearChange={setAnchorYear}
+              disabled={isSubmitting}
+              intervalError={errors.intervalMonths}
+              dayOfMonthError={errors.dayOfMonth}
+              anchorError={errors.anchor}
+            />
+          )}
+
+          {frequency === 'yearly' && (
+            <YearlyDatesInput
+              dates={yearlyDates}
+              onChange={setYearlyDates}
+              disabled={isSubmitting}
+              error={errors.yearlyDates}
+            />
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Salvando...' : transfer ? 'Atualizar' : 'Adicionar Transferência'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,123 @@
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+import {
+  FREQUENCY_LABELS,
+  formatCurrency,
+  formatPaymentSchedule,
+} from '@/components/manage/shared/format-utils'
+import type { BankAccount, Transfer } from '@/types'
+
+interface TransferListProps {
+  transfers: Transfer[]
+  accounts: BankAccount[]
+  onAdd: () => void
+  onEdit: (transfer: Transfer) => void
+  onDelete: (id: string) => void
+  onToggleActive: (transfer: Transfer) => void
+}
+
+function formatWhen(transfer: Transfer): string {
+  if (transfer.type === 'single_shot') {
+    return transfer.date ? `Em ${format(transfer.date, 'dd/MM/yyyy')}` : ''
+  }
+  return formatPaymentSchedule(transfer.paymentSchedule)
+}
+
+export function TransferList({
+  transfers,
+  accounts,
+  onAdd,
+  onEdit,
+  onDelete,
+  onToggleActive,
+}: TransferListProps) {
+  const accountName = (id: string) => accounts.find((a) => a.id === id)?.name ?? 'Conta removida'
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Transferências</h2>
+        <p className="text-sm text-muted-foreground">
+          Movimentações programadas entre suas contas
+        </p>
+      </div>
+
+      {transfers.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">
+          Nenhuma transferência programada.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {transfers.map((transfer) => (
+            <div
+              key={transfer.id}
+              className={cn(
+                'flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3',
+                'p-4 rounded-lg border bg-card transition-opacity',
+                !transfer.isActive && 'opacity-60'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium truncate" title={transfer.name}>
+                    {transfer.name}
+                  </span>
+                  <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                    {transfer.type === 'single_shot'
+                      ? 'Pontual'
+                      : transfer.frequency
+                        ? FREQUENCY_LABELS[transfer.frequency]
+                        : 'Recorrente'}
+                  </span>
+                  {!transfer.isActive && (
+                    <span className="text-xs bg-muted px-2 py-0.5 rounded">Inativo</span>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">
+                  {accountName(transfer.sourceAccountId)} → {accountName(transfer.destinationAccountId)}
+                </div>
+                <div className="text-sm text-muted-foreground">{formatWhen(transfer)}</div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-muted-foreground">
+                  {formatCurrency(transfer.amount)}
+                </span>
+
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={transfer.isActive}
+                    onCheckedChange={() => onToggleActive(transfer)}
+                    aria-label={transfer.isActive ? 'Desativar transferência' : 'Ativar transferência'}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEdit(transfer)}
+                    className="h-8 px-2 text-muted-foreground hover:text-foreground"
+                  >
+                    Editar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(transfer.id)}
+                    className="h-8 px-2 text-muted-foreground hover:text-destructive"
+                  >
+                    Excluir
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button onClick={onAdd} variant="outline" className="w-full" disabled={accounts.length < 2}>
+        Adicionar Transferência
+      </Button>
+    </div>
+  )
+}
@@ -15,9 +15,18 @@ import {
 import { InlineEditInput } from '@/components/manage/shared/inline-edit-input'
 import { formatCurrency, formatRelativeTime, getBalanceFreshness, type BalanceFreshness } from '@/components/manage/shared/format-utils'
 import { cn } from '@/lib/utils'
-import type { CreditCard, FutureStatement, FutureStatementInput } from '@/types'
+import type {
+  CreditCard,
+  FutureStatement,
+  FutureStatementInput,
+  InstallmentPurchase,
+  InstallmentPurchaseInput,
+} from '@/types'
+import { getRemainingInstallments } from '@/types'
 import { FutureStatementList } from './future-statement-list'
 import { FutureStatementForm } from './future-statement-form'
+import { InstallmentPurchaseList } from './installment-purchase-list'
+import { InstallmentPurchaseForm } from './installment-purchase-form'
 
 /**
  * CSS classes for the freshness indicator bar (left edge).
@@ -41,12 +50,17 @@ const FRESHNESS_TEXT_CLASSES: Record<BalanceFreshness, string> = {
 interface CreditCardCardProps {
   card: CreditCard
   futureStatements: FutureStatement[]
+  installmentPurchases: InstallmentPurchase[]
   onEdit: () => void
   onDelete: () => void
   onUpdateBalance: (balance: number) => Promise<void>
+  onUpdateOpenBalance: (balance: number) => Promise<void>
   onAddFutureStatement: (input: FutureStatementInput) => Promise<void>
   onUpdateFutureStatement: (id: string, amount: number) => Promise<void>
   onDeleteFutureStatement: (id: string) => Promise<void>
+  onAddInstallmentPurchase: (input: InstallmentPurchaseInput) => Promise<void>
+  onUpdateInstallmentPurchase: (id: string, input: InstallmentPurchaseInput) => Promise<void>
+  onDeleteInstallmentPurchase: (id: string) => Promise<void>
 }
 
 function getDueDayStatus(dueDay: number): { label: string; isUrgent: boolean } {
@@ -64,17 +78,25 @@ function getDueDayStatus(dueDay: number): { label: string; isUrgent: boolean } {
 export function CreditCardCard({
   card,
   futureStatements,
+  installmentPurchases,
   onEdit,
   onDelete,
   onUpdateBalance,
+  onUpdateOpenBalance,
   onAddFutureStatement,
   onUpdateFutureStatement,
   onDeleteFutureStatement,
+  onAddInstallmentPurchase,
+  onUpdateInstallmentPurchase,
+  onDeleteInstallmentPurchase,
 }: CreditCardCardProps) {
   const [showActions, setShowActions] = useState(false)
   const [isCollapsibleOpen, setIsCollapsibleOpen] = useState(false)
   const [showForm, setShowForm] = useState(false)
   const [editingStatement, setEditingStatement] = useState<FutureStatement | null>(null)
+  const [isInstallmentsOpen, setIsInstallmentsOpen] = useState(false)
+  const [showInstallmentForm, setShowInstallmentForm] = useState(false)
+  const [editingPurchase, setEditingPurchase] = useState<InstallmentPurchase | null>(null)
   
   const freshness = getBalanceFreshness(card.balanceUpdatedAt)
   const dueStatus = getDueDayStatus(card.dueDay)
@@ -89,6 +111,13 @@ export function CreditCardCard({
       })
   }, [futureStatements, card.id])
 
+  // Installment purchases for this card that still have installments to bill
+  const cardInstallmentPurchases = useMemo(() => {
+    return installmentPurchases.filter(
+      (p) => p.creditCardId === card.id && getRemainingInstallments(p).remainingCount > 0
+    )
+  }, [installmentPurchases, card.id])
+
   const handleAddClick = () => {
     setEditingStatement(null)
     setShowForm(true)
@@ -114,6 +143,31 @@ export function CreditCardCard({
     setEditingStatement(null)
   }
 
+  const handleAddInstallmentClick = () => {
+    setEditingPurchase(null)
+    setShowInstallmentForm(true)
+  }
+
+  const handleEditInstallmentClick = (purchase: InstallmentPurchase) => {
+    setEditingPurchase(purchase)
+    setShowInstallmentForm(true)
+  }
+
+  const handleInstallmentFormSubmit = async (input: InstallmentPurchaseInput) => {
+    if (editingPurchase) {
+      await onUpdateInstallmentPurchase(editingPurchase.id, input)
+    } else {
+      await onAddInstallmentPurchase(input)
+    }
+    setShowInstallmentForm(false)
+    setEditingPurchase(null)
+  }
+
+  const handleInstallmentFormCancel = () => {
+    setShowInstallmentForm(false)
+    setEditingPurchase(null)
+  }
+
   return (
     <div
       className={cn(
@@ -201,7 +255,9 @@ export function CreditCardCard({
 
       {/* Balance */}
       <div className="flex-1 flex flex-col justify-center">
-        <span className="text-xs text-muted-foreground mb-1">Fatura atual</span>
+        <span className="text-xs text-muted-foreground mb-1">
+          {card.closingDay ? 'Fatura fechada' : 'Fatura atual'}
+        </span>
         <InlineEditInput
           value={card.statementBalance}
           onSave={onUpdateBalance}
@@ -209,6 +265,18 @@ export function CreditCardCard({
           min={0}
           className="text-2xl font-bold tracking-tight"
         />
+        {card.closingDay && (
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">Fatura aberta</span>
+            <InlineEditInput
+              value={card.openStatementBalance ?? 0}
+              onSave={onUpdateOpenBalance}
+              formatDisplay={formatCurrency}
+              min={0}
+              className="text-sm font-semibold"
+            />
+          </div>
+        )}
       </div>
 
       {/* Future Statements Section */}
@@ -249,8 +317,52 @@ export function CreditCardCard({
         </CollapsibleContent>
       </Collapsible>
 
+      {/* Installment Purchases Section */}
+      <Collapsible
+        open={isInstallmentsOpen}
+        onOpenChange={setIsInstallmentsOpen}
+        className="mt-3 pt-3 border-t border-border/50"
+      >
+        <CollapsibleTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-between px-0 hover:bg-transparent"
+          >
+            <span className="text-xs text-muted-foreground">
+              Compras Parceladas
+              {cardInstallmentPurchases.length > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 bg-primary/10 text-primary rounded-full text-[10px] font-medium">
+                  {cardInstallmentPurchases.length}
+                </span>
+              )}
+            </span>
+            <ChevronDown
+              className={cn(
+                'h-4 w-4 text-muted-foreground transition-transform',
+                isInstallmentsOpen && 'rotate-180'
+              )}
+            />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <InstallmentPurchaseList
+            purchases={cardInstallmentPurchases}
+            onAdd={handleAddInstallmentClick}
+            onEdit={handleEditInstallmentClick}
+            onDelete={onDeleteInstallmentPurchase}
+          />
+        </CollapsibleContent>
+      </Collapsible>
+
       {/* Footer - Due Date & Update Status */}
       <div className="mt-4 pt-3 border-t border-border/50 space-y-2">
+        {card.closingDay && (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Fechamento</span>
+            <span className="font-medium text-foreground">Dia {card.closingDay}</span>
+          </div>
+        )}
         <div className="flex items-center justify-between text-xs">
           <span className="text-muted-foreground">Vencimento</span>
           <span className={cn(
@@ -290,6 +402,23 @@ export function CreditCardCard({
           />
         </DialogContent>
       </Dialog>
+
+      {/* Add/Edit Installment Purchase Dialog */}
+      <Dialog open={showInstallmentForm} onOpenChange={setShowInstallmentForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingPurchase ? 'Editar Compra Parcelada' : 'Adicionar Compra Parcelada'}
+            </DialogTitle>
+          </DialogHeader>
+          <InstallmentPurchaseForm
+            creditCardId={card.id}
+            editingPurchase={editingPurchase ?? undefined}
+            onSubmit={handleInstallmentFormSubmit}
+            onCancel={handleInstallmentFormCancel}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
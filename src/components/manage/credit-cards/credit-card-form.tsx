@@ -10,11 +10,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { CreditCardInputSchema, type CreditCard, type CreditCardInput, type Profile } from '@/types'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import {
+  CreditCardInputSchema,
+  type BankAccount,
+  type CreditCard,
+  type CreditCardInput,
+  type Profile,
+} from '@/types'
 
 interface CreditCardFormProps {
   card?: CreditCard
   profiles: Profile[]
+  accounts: BankAccount[]
   onSubmit: (data: CreditCardInput) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
@@ -23,6 +31,7 @@ interface CreditCardFormProps {
 export function CreditCardForm({
   card,
   profiles,
+  accounts,
   onSubmit,
   onCancel,
   isSubmitting,
@@ -33,9 +42,17 @@ export function CreditCardForm({
     card?.statementBalance ? (card.statementBalance / 100).toFixed(2) : ''
   )
   const [dueDay, setDueDay] = useState(card?.dueDay?.toString() ?? '')
+  const [closingDay, setClosingDay] = useState(card?.closingDay?.toString() ?? '')
+  const [openStatementBalance, setOpenStatementBalance] = useState(
+    card?.openStatementBalance ? (card.openStatementBalance / 100).toFixed(2) : ''
+  )
   const [ownerId, setOwnerId] = useState<string | null>(card?.owner?.id ?? null)
+  const [accountId, setAccountId] = useState<string | null>(card?.accountId ?? null)
   const [errors, setErrors] = useState<Record<string, string>>({})
 
+  // The open statement is only tracked once the card has a closing day
+  const hasClosingDay = closingDay.trim() !== ''
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setErrors({})
@@ -45,7 +62,12 @@ export function CreditCardForm({
       // Convert reais to cents for storage
       statementBalance: Math.round((parseFloat(statementBalance) || 0) * 100),
       dueDay: parseInt(dueDay, 10) || 0,
+      closingDay: hasClosingDay ? parseInt(closingDay, 10) || 0 : null,
+      openStatementBalance: hasClosingDay
+        ? Math.round((parseFloat(openStatementBalance) || 0) * 100)
+        : 0,
       ownerId,
+      accountId,
     }
 
     const result = CreditCardInputSchema.safeParse(formData)
@@ -104,9 +126,19 @@ export function CreditCardForm({
         </Select>
       </div>
 
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+        label="Conta de pagamento"
+      />
+
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="grid gap-2">
-          <Label htmlFor="statementBalance">Saldo da Fatura</Label>
+          <Label htmlFor="statementBalance">
+            {hasClosingDay ? 'Fatura Fechada' : 'Saldo da Fatura'}
+          </Label>
           <CurrencyInput
             id="statementBalance"
             value={statementBalance}
@@ -144,6 +176,52 @@ export function CreditCardForm({
         </div>
       </div>
 
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="closingDay">Dia de Fechamento</Label>
+          <Input
+            id="closingDay"
+            type="number"
+            placeholder="Opcional"
+            value={closingDay}
+            onChange={(e) => setClosingDay(e.target.value)}
+            min="1"
+            max="31"
+            disabled={isSubmitting}
+            aria-invalid={!!errors.closingDay}
+            aria-describedby={errors.closingDay ? 'closingDay-error' : 'closingDay-hint'}
+          />
+          {errors.closingDay ? (
+            <p id="closingDay-error" className="text-sm text-destructive">
+              {errors.closingDay}
+            </p>
+          ) : (
+            <p id="closingDay-hint" className="text-xs text-muted-foreground">
+              Separa a fatura fechada da fatura aberta
+            </p>
+          )}
+        </div>
+
+        {hasClosingDay && (
+          <div className="grid gap-2">
+            <Label htmlFor="openStatementBalance">Fatura Aberta</Label>
+            <CurrencyInput
+              id="openStatementBalance"
+              value={openStatementBalance}
+              onChange={setOpenStatementBalance}
+              disabled={isSubmitting}
+              aria-invalid={!!errors.openStatementBalance}
+              aria-describedby={errors.openStatementBalance ? 'openStatementBalance-error' : undefined}
+            />
+            {errors.openStatementBalance && (
+              <p id="openStatementBalance-error" className="text-sm text-destructive">
+                {errors.openStatementBalance}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           Cancelar
@@ -1,5 +1,12 @@
 import { useState, useMemo } from 'react'
-import type { CreditCard, Profile, FutureStatement, FutureStatementInput } from '@/types'
+import type {
+  CreditCard,
+  Profile,
+  FutureStatement,
+  FutureStatementInput,
+  InstallmentPurchase,
+  InstallmentPurchaseInput,
+} from '@/types'
 import { EntityEmptyState } from '@/components/manage/shared/entity-empty-state'
 import { Button } from '@/components/ui/button'
 import { CreditCardCard } from './credit-card-card'
@@ -14,14 +21,19 @@ import {
 interface CreditCardListProps {
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  installmentPurchases: InstallmentPurchase[]
   profiles: Profile[]
   onAdd: () => void
   onEdit: (card: CreditCard) => void
   onDelete: (id: string) => void
   onUpdateBalance: (id: string, balance: number) => Promise<void>
+  onUpdateOpenBalance: (id: string, balance: number) => Promise<void>
   onAddFutureStatement: (input: FutureStatementInput) => Promise<void>
   onUpdateFutureStatement: (id: string, amount: number) => Promise<void>
   onDeleteFutureStatement: (id: string) => Promise<void>
+  onAddInstallmentPurchase: (input: InstallmentPurchaseInput) => Promise<void>
+  onUpdateInstallmentPurchase: (id: string, input: InstallmentPurchaseInput) => Promise<void>
+  onDeleteInstallmentPurchase: (id: string) => Promise<void>
   /** Optional callback to open the onboarding wizard */
   onStartSetup?: () => void
 }
@@ -29,14 +41,19 @@ interface CreditCardListProps {
 export function CreditCardList({
   creditCards,
   futureStatements,
+  installmentPurchases,
   profiles,
   onAdd,
   onEdit,
   onDelete,
   onUpdateBalance,
+  onUpdateOpenBalance,
   onAddFutureStatement,
   onUpdateFutureStatement,
   onDeleteFutureStatement,
+  onAddInstallmentPurchase,
+  onUpdateInstallmentPurchase,
+  onDeleteInstallmentPurchase,
   onStartSetup,
 }: CreditCardListProps) {
   const [ownerFilter, setOwnerFilter] = useState<string | null>(null)
@@ -84,12 +101,17 @@ export function CreditCardList({
               key={card.id}
               card={card}
               futureStatements={futureStatements}
+              installmentPurchases={installmentPurchases}
               onEdit={() => onEdit(card)}
               onDelete={() => onDelete(card.id)}
               onUpdateBalance={async (balance) => onUpdateBalance(card.id, balance)}
+              onUpdateOpenBalance={async (balance) => onUpdateOpenBalance(card.id, balance)}
               onAddFutureStatement={onAddFutureStatement}
               onUpdateFutureStatement={onUpdateFutureStatement}
               onDeleteFutureStatement={onDeleteFutureStatement}
+              onAddInstallmentPurchase={onAddInstallmentPurchase}
+              onUpdateInstallmentPurchase={onUpdateInstallmentPurchase}
+              onDeleteInstallmentPurchase={onDeleteInstallmentPurchase}
             />
           ))}
         </div>
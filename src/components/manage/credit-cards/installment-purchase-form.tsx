@@ -0,0 +1,223 @@
+import { useState, useMemo } from 'react'
+import { addMonths, startOfMonth } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Loader2 } from 'lucide-react'
+import type { InstallmentPurchase, InstallmentPurchaseInput } from '@/types'
+import {
+  InstallmentPurchaseInputSchema,
+  MAX_INSTALLMENTS,
+  formatMonthYear,
+  getInstallmentAmount,
+} from '@/types'
+import { parseDecimal, formatDecimalBR } from '@/lib/format'
+import { formatCurrency } from '@/components/manage/shared/format-utils'
+
+/** Purchases started up to this many months ago can still be registered. */
+const PAST_MONTHS_AVAILABLE = 12
+
+interface InstallmentPurchaseFormProps {
+  creditCardId: string
+  editingPurchase?: InstallmentPurchase
+  onSubmit: (input: InstallmentPurchaseInput) => Promise<void>
+  onCancel: () => void
+}
+
+function getFirstMonthOptions(
+  editingPurchase?: InstallmentPurchase
+): Array<{ value: string; label: string }> {
+  const options: Array<{ value: string; label: string }> = []
+  const start = addMonths(startOfMonth(new Date()), -PAST_MONTHS_AVAILABLE)
+
+  for (let i = 0; i < PAST_MONTHS_AVAILABLE + 12; i++) {
+    const targetDate = addMonths(start, i)
+    const month = targetDate.getMonth() + 1
+    const year = targetDate.getFullYear()
+    options.push({ value: `${month}-${year}`, label: formatMonthYear(month, year) })
+  }
+
+  // Keep the stored first month selectable even when it is out of range
+  if (editingPurchase) {
+    const value = `${editingPurchase.firstMonth}-${editingPurchase.firstYear}`
+    if (!options.some((option) => option.value === value)) {
+      options.unshift({
+        value,
+        label: formatMonthYear(editingPurchase.firstMonth, editingPurchase.firstYear),
+      })
+    }
+  }
+
+  return options
+}
+
+export function InstallmentPurchaseForm({
+  creditCardId,
+  editingPurchase,
+  onSubmit,
+  onCancel,
+}: InstallmentPurchaseFormProps) {
+  const monthOptions = useMemo(() => getFirstMonthOptions(editingPurchase), [editingPurchase])
+
+  const [description, setDescription] = useState(editingPurchase?.description ?? '')
+  const [totalAmount, setTotalAmount] = useState(
+    editingPurchase ? formatDecimalBR(editingPurchase.totalAmount / 100) : ''
+  )
+  const [installmentCount, setInstallmentCount] = useState(
+    editingPurchase ? String(editingPurchase.installmentCount) : ''
+  )
+  const [selectedMonth, setSelectedMonth] = useState(() => {
+    if (editingPurchase) {
+      return `${editingPurchase.firstMonth}-${editingPurchase.firstYear}`
+    }
+    // Default to next month: a new purchase is usually billed on the next statement
+    const next = addMonths(new Date(), 1)
+    return `${next.getMonth() + 1}-${next.getFullYear()}`
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const totalInCents = Math.round(parseDecimal(totalAmount) * 100)
+  const count = parseInt(installmentCount, 10)
+  const canPreview = totalInCents > 0 && count >= 2 && totalInCents >= count
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const [month, year] = selectedMonth.split('-').map(Number)
+    const input = {
+      creditCardId,
+      description: description.trim(),
+      totalAmount: totalInCents,
+      installmentCount: Number.isNaN(count) ? 0 : count,
+      firstMonth: month,
+      firstYear: year,
+    }
+
+    const result = InstallmentPurchaseInputSchema.safeParse(input)
+    if (!result.success) {
+      const fieldErrors: Record<string, string> = {}
+      for (const issue of result.error.issues) {
+        const field = issue.path[0] as string
+        if (!fieldErrors[field]) {
+          fieldErrors[field] = issue.message
+        }
+      }
+      setErrors(fieldErrors)
+      return
+    }
+
+    setErrors({})
+    setIsSubmitting(true)
+    try {
+      await onSubmit(result.data)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="installmentDescription">Descrição</Label>
+        <Input
+          id="installmentDescription"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Ex.: Geladeira"
+          maxLength={100}
+          aria-invalid={!!errors.description}
+          autoFocus
+        />
+        {errors.description && (
+          <p className="text-sm text-destructive">{errors.description}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="installmentTotal">Valor total</Label>
+          <div className="relative">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+              R$
+            </span>
+            <Input
+              id="installmentTotal"
+              type="text"
+              inputMode="decimal"
+              value={totalAmount}
+              onChange={(e) => setTotalAmount(e.target.value)}
+              placeholder="0,00"
+              className="pl-10"
+              aria-invalid={!!errors.totalAmount}
+            />
+          </div>
+          {errors.totalAmount && (
+            <p className="text-sm text-destructive">{errors.totalAmount}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="installmentCount">Parcelas</Label>
+          <Input
+            id="installmentCount"
+            type="number"
+            min={2}
+            max={MAX_INSTALLMENTS}
+            value={installmentCount}
+            onChange={(e) => setInstallmentCount(e.target.value)}
+            placeholder="Ex.: 10"
+            aria-invalid={!!errors.installmentCount}
+          />
+          {errors.installmentCount && (
+            <p className="text-sm text-destructive">{errors.installmentCount}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="installmentFirstMonth">Fatura da primeira parcela</Label>
+        <Select value={selectedMonth} onValueChange={setSelectedMonth}>
+          <SelectTrigger id="installmentFirstMonth">
+            <SelectValue placeholder="Selecione o mês" />
+          </SelectTrigger>
+          <SelectContent>
+            {monthOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canPreview && (
+          <p className="text-xs text-muted-foreground">
+            {count}x de{' '}
+            {formatCurrency(getInstallmentAmount({ totalAmount: totalInCents, installmentCount: count }, count))}
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2 justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {editingPurchase ? 'Salvar' : 'Adicionar'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,147 @@
+import { Pencil, Trash2, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { formatCurrency } from '@/components/manage/shared/format-utils'
+import type { InstallmentPurchase } from '@/types'
+import { formatMonthYear, getRemainingInstallments } from '@/types'
+
+interface InstallmentPurchaseListProps {
+  /** Purchases with installments still to be billed */
+  purchases: InstallmentPurchase[]
+  onAdd: () => void
+  onEdit: (purchase: InstallmentPurchase) => void
+  onDelete: (id: string) => void
+}
+
+interface InstallmentPurchaseItemProps {
+  purchase: InstallmentPurchase
+  onEdit: () => void
+  onDelete: () => void
+}
+
+function InstallmentPurchaseItem({
+  purchase,
+  onEdit,
+  onDelete,
+}: InstallmentPurchaseItemProps) {
+  const { currentInstallment, remainingCount, remainingAmount } = getRemainingInstallments(purchase)
+  // Purchases whose first installment has not been billed yet show when it starts
+  const progressLabel = currentInstallment
+    ? `${currentInstallment}/${purchase.installmentCount}`
+    : `a partir de ${formatMonthYear(purchase.firstMonth, purchase.firstYear)}`
+
+  return (
+    <div className="flex items-center justify-between py-2 px-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium truncate" title={purchase.description}>
+            {purchase.description}
+          </span>
+          <span className="text-xs text-muted-foreground shrink-0">{progressLabel}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {remainingCount} {remainingCount === 1 ? 'parcela restante' : 'parcelas restantes'}
+          {' · '}
+          <span className="font-semibold text-foreground">{formatCurrency(remainingAmount)}</span>
+        </p>
+      </div>
+
+      <div className="flex items-center gap-1 ml-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onEdit}
+          title="Editar"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive hover:text-destructive"
+              title="Excluir"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Excluir compra parcelada?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Tem certeza que deseja excluir "{purchase.description}"? As parcelas
+                restantes deixarão de ser projetadas. Esta ação não pode ser desfeita.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={onDelete}
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              >
+                Excluir
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  )
+}
+
+export function InstallmentPurchaseList({
+  purchases,
+  onAdd,
+  onEdit,
+  onDelete,
+}: InstallmentPurchaseListProps) {
+  if (purchases.length === 0) {
+    return (
+      <div className="py-4 text-center">
+        <p className="text-sm text-muted-foreground mb-3">
+          Nenhuma compra parcelada em aberto
+        </p>
+        <Button variant="outline" size="sm" onClick={onAdd}>
+          <Plus className="h-4 w-4 mr-1" />
+          Adicionar compra parcelada
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {purchases.map((purchase) => (
+        <InstallmentPurchaseItem
+          key={purchase.id}
+          purchase={purchase}
+          onEdit={() => onEdit(purchase)}
+          onDelete={() => onDelete(purchase.id)}
+        />
+      ))}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full mt-2"
+        onClick={onAdd}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Adicionar
+      </Button>
+    </div>
+  )
+}
@@ -1,12 +1,106 @@
 import { useState } from 'react'
+import { format, parse } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { CurrencyInput } from '@/components/ui/currency-input'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { FixedExpenseInputSchema, type FixedExpense, type FixedExpenseInput } from '@/types'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AnchorDateInput,
+  BusinessDayRolloverSelect,
+  DayOfWeekSelect,
+  EveryNMonthsInput,
+  TwiceMonthlyInput,
+  YearlyDatesInput,
+} from '@/components/manage/shared/payment-schedule-inputs'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import {
+  AmountChangesInput,
+  type AmountChangeDraft,
+} from '@/components/manage/shared/amount-changes-input'
+import { ActivePeriodInput } from '@/components/manage/shared/active-period-input'
+import { FREQUENCY_LABELS } from '@/components/manage/shared/format-utils'
+import {
+  FixedExpenseInputSchema,
+  FrequencySchema,
+  createBiweeklySchedule,
+  getFixedExpenseSchedule,
+  type BankAccount,
+  type BusinessDayRollover,
+  type FixedExpense,
+  type FixedExpenseInput,
+  type Frequency,
+  type PaymentSchedule,
+} from '@/types'
+
+/**
+ * Extract initial schedule state from an expense.
+ */
+function getInitialScheduleState(expense?: FixedExpense): {
+  frequency: Frequency
+  dueDay: string
+  dayOfWeek: number
+  anchorDate: string
+  firstDay: number
+  secondDay: number
+  intervalMonths: number
+  anchorMonth: number
+  anchorYear: number
+  yearlyDates: Array<{ month: number; day: number }>
+} {
+  const today = new Date()
+  const defaultState = {
+    frequency: 'monthly' as Frequency,
+    dueDay: '',
+    dayOfWeek: 5, // Friday
+    anchorDate: '',
+    firstDay: 1,
+    secondDay: 15,
+    intervalMonths: 3,
+    anchorMonth: today.getMonth() + 1,
+    anchorYear: today.getFullYear(),
+    yearlyDates: [{ month: today.getMonth() + 1, day: 10 }],
+  }
+
+  if (!expense) return defaultState
+
+  const { frequency, paymentSchedule } = getFixedExpenseSchedule(expense)
+  const state = { ...defaultState, frequency }
+
+  switch (paymentSchedule.type) {
+    case 'dayOfMonth':
+      return { ...state, dueDay: paymentSchedule.dayOfMonth.toString() }
+    case 'dayOfWeek':
+      return {
+        ...state,
+        dayOfWeek: paymentSchedule.dayOfWeek,
+        anchorDate: paymentSchedule.anchorDate ?? '',
+      }
+    case 'twiceMonthly':
+      return { ...state, firstDay: paymentSchedule.firstDay, secondDay: paymentSchedule.secondDay }
+    case 'everyNMonths':
+      return {
+        ...state,
+        dueDay: paymentSchedule.dayOfMonth.toString(),
+        intervalMonths: paymentSchedule.intervalMonths,
+        anchorMonth: paymentSchedule.anchorMonth,
+        anchorYear: paymentSchedule.anchorYear,
+      }
+    case 'yearly':
+      return { ...state, yearlyDates: paymentSchedule.dates }
+  }
+}
 
 interface ExpenseFormProps {
   expense?: FixedExpense
+  accounts: BankAccount[]
   onSubmit: (data: FixedExpenseInput) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
@@ -14,6 +108,7 @@ interface ExpenseFormProps {
 
 export function ExpenseForm({
   expense,
+  accounts,
   onSubmit,
   onCancel,
   isSubmitting,
@@ -23,36 +118,153 @@ export function ExpenseForm({
   const [amount, setAmount] = useState(
     expense?.amount ? (expense.amount / 100).toFixed(2) : ''
   )
-  const [dueDay, setDueDay] = useState(expense?.dueDay?.toString() ?? '')
+  const initialSchedule = getInitialScheduleState(expense)
+  const [frequency, setFrequency] = useState<Frequency>(initialSchedule.frequency)
+  const [dueDay, setDueDay] = useState(initialSchedule.dueDay)
+  const [businessDayRollover, setBusinessDayRollover] = useState<BusinessDayRollover>(
+    expense?.businessDayRollover ?? 'none'
+  )
+  const [accountId, setAccountId] = useState<string | null>(expense?.accountId ?? null)
+  // Convert cents to reais for display/editing
+  const [amountChanges, setAmountChanges] = useState<AmountChangeDraft[]>(
+    (expense?.amountChanges ?? []).map((change) => ({
+      effectiveDate: change.effectiveDate,
+      amount: (change.amount / 100).toFixed(2),
+    }))
+  )
+  const [startDate, setStartDate] = useState(
+    expense?.startDate ? format(expense.startDate, 'yyyy-MM-dd') : ''
+  )
+  const [endDate, setEndDate] = useState(
+    expense?.endDate ? format(expense.endDate, 'yyyy-MM-dd') : ''
+  )
+  // Variable expenses (utilities, groceries) have a min/max range; amount holds their average
+  const [variableAmountEnabled, setVariableAmountEnabled] = useState(!!expense?.amountRange)
+  const [minAmount, setMinAmount] = useState(
+    expense?.amountRange ? (expense.amountRange.min / 100).toFixed(2) : ''
+  )
+  const [maxAmount, setMaxAmount] = useState(
+    expense?.amountRange ? (expense.amountRange.max / 100).toFixed(2) : ''
+  )
   const [errors, setErrors] = useState<Record<string, string>>({})
 
+  // Payment schedule state for non-monthly frequencies
+  const [dayOfWeek, setDayOfWeek] = useState(initialSchedule.dayOfWeek)
+  const [anchorDate, setAnchorDate] = useState(initialSchedule.anchorDate)
+  const [firstDay, setFirstDay] = useState(initialSchedule.firstDay)
+  const [secondDay, setSecondDay] = useState(initialSchedule.secondDay)
+  const [intervalMonths, setIntervalMonths] = useState(initialSchedule.intervalMonths)
+  const [anchorMonth, setAnchorMonth] = useState(initialSchedule.anchorMonth)
+  const [anchorYear, setAnchorYear] = useState(initialSchedule.anchorYear)
+  const [yearlyDates, setYearlyDates] = useState(initialSchedule.yearlyDates)
+
+  const handleFrequencyChange = (newFrequency: Frequency) => {
+    setFrequency(newFrequency)
+    setErrors({})
+  }
+
+  // Build PaymentSchedule based on current frequency
+  const buildPaymentSchedule = (): PaymentSchedule => {
+    const dayOfMonth = parseInt(dueDay, 10) || 0
+    switch (frequency) {
+      case 'weekly':
+        return { type: 'dayOfWeek', dayOfWeek }
+      case 'biweekly':
+        return anchorDate ? createBiweeklySchedule(anchorDate) : { type: 'dayOfWeek', dayOfWeek }
+      case 'twice-monthly':
+        return { type: 'twiceMonthly', firstDay, secondDay }
+      case 'monthly':
+        return { type: 'dayOfMonth', dayOfMonth }
+      case 'every-n-months':
+        return { type: 'everyNMonths', intervalMonths, dayOfMonth, anchorMonth, anchorYear }
+      case 'yearly':
+        return { type: 'yearly', dates: yearlyDates }
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setErrors({})
 
+    if (frequency === 'biweekly' && !anchorDate) {
+      setErrors({ anchorDate: 'Informe a data de um pagamento' })
+      return
+    }
+
+    const paymentSchedule = buildPaymentSchedule()
+    // Convert reais to cents for storage
+    const amountRange = variableAmountEnabled
+      ? {
+          min: Math.round((parseFloat(minAmount) || 0) * 100),
+          max: Math.round((parseFloat(maxAmount) || 0) * 100),
+        }
+      : null
     const formData = {
       type: 'fixed' as const,
       name: name.trim(),
-      // Convert reais to cents for storage
-      amount: Math.round((parseFloat(amount) || 0) * 100),
-      dueDay: parseInt(dueDay, 10) || 0,
+      amount: amountRange
+        ? Math.round((amountRange.min + amountRange.max) / 2)
+        : Math.round((parseFloat(amount) || 0) * 100),
+      // Keep the legacy monthly due day in sync for monthly expenses
+      dueDay: paymentSchedule.type === 'dayOfMonth' ? paymentSchedule.dayOfMonth : undefined,
+      frequency,
+      paymentSchedule,
       isActive: expense?.isActive ?? true,
+      businessDayRollover,
+      accountId,
+      amountChanges: amountChanges.map((change) => ({
+        effectiveDate: change.effectiveDate,
+        amount: Math.round((parseFloat(change.amount) || 0) * 100),
+      })),
+      amountRange,
+      startDate: startDate ? parse(startDate, 'yyyy-MM-dd', new Date()) : null,
+      endDate: endDate ? parse(endDate, 'yyyy-MM-dd', new Date()) : null,
     }
 
     const result = FixedExpenseInputSchema.safeParse(formData)
     if (!result.success) {
       const fieldErrors = result.error.flatten().fieldErrors
-      setErrors(
-        Object.fromEntries(
-          Object.entries(fieldErrors).map(([k, v]) => [k, v?.[0] ?? ''])
-        )
+      const formattedErrors: Record<string, string> = Object.fromEntries(
+        Object.entries(fieldErrors).map(([k, v]) => [k, v?.[0] ?? ''])
       )
+
+      // Handle nested paymentSchedule and amountRange errors
+      for (const error of result.error.issues) {
+        if (error.path[0] === 'amountRange') {
+          formattedErrors[error.path[1] === 'min' ? 'minAmount' : 'maxAmount'] = error.message
+          continue
+        }
+        if (error.path[0] !== 'paymentSchedule') continue
+        const field = error.path[1]
+        if (field === 'dayOfMonth') {
+          formattedErrors['dueDay'] = error.message
+        } else if (
+          field === 'firstDay' ||
+          field === 'secondDay' ||
+          field === 'dayOfWeek' ||
+          field === 'anchorDate'
+        ) {
+          formattedErrors[field] = error.message
+        } else if (field === 'intervalMonths') {
+          formattedErrors['intervalMonths'] = error.message
+        } else if (field === 'anchorMonth' || field === 'anchorYear') {
+          formattedErrors['anchor'] = error.message
+        } else if (field === 'dates') {
+          formattedErrors['yearlyDates'] = error.message
+        } else {
+          formattedErrors['paymentSchedule'] = error.message
+        }
+      }
+
+      setErrors(formattedErrors)
       return
     }
 
     await onSubmit(result.data)
   }
 
+  const averageAmount = (((parseFloat(minAmount) || 0) + (parseFloat(maxAmount) || 0)) / 2).toFixed(2)
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="grid gap-2">
@@ -76,12 +288,12 @@ export function ExpenseForm({
 
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="grid gap-2">
-          <Label htmlFor="amount">Valor</Label>
+          <Label htmlFor="amount">{variableAmountEnabled ? 'Valor Médio' : 'Valor'}</Label>
           <CurrencyInput
             id="amount"
-            value={amount}
+            value={variableAmountEnabled ? averageAmount : amount}
             onChange={setAmount}
-            disabled={isSubmitting}
+            disabled={isSubmitting || variableAmountEnabled}
             aria-invalid={!!errors.amount}
             aria-describedby={errors.amount ? 'amount-error' : undefined}
           />
@@ -92,6 +304,85 @@ export function ExpenseForm({
           )}
         </div>
 
+        <div className="grid gap-2">
+          <Label htmlFor="frequency">Frequência</Label>
+          <Select
+            value={frequency}
+            onValueChange={(value) => handleFrequencyChange(value as Frequency)}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="frequency">
+              <SelectValue placeholder="Selecione a frequência" />
+            </SelectTrigger>
+            <SelectContent>
+              {FrequencySchema.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FREQUENCY_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Variable amount toggle */}
+      <div className="flex items-center gap-3">
+        <Switch
+          id="variableAmount"
+          checked={variableAmountEnabled}
+          onCheckedChange={setVariableAmountEnabled}
+          disabled={isSubmitting}
+        />
+        <Label htmlFor="variableAmount" className="cursor-pointer text-sm font-normal">
+          Valor variável (contas de consumo, mercado, combustível)
+        </Label>
+      </div>
+
+      {/* Variable amount range fields */}
+      {variableAmountEnabled && (
+        <div className="grid gap-2">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="minAmount">Valor Mínimo</Label>
+              <CurrencyInput
+                id="minAmount"
+                value={minAmount}
+                onChange={setMinAmount}
+                disabled={isSubmitting}
+                aria-invalid={!!errors.minAmount}
+                aria-describedby={errors.minAmount ? 'minAmount-error' : undefined}
+              />
+              {errors.minAmount && (
+                <p id="minAmount-error" className="text-sm text-destructive">
+                  {errors.minAmount}
+                </p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="maxAmount">Valor Máximo</Label>
+              <CurrencyInput
+                id="maxAmount"
+                value={maxAmount}
+                onChange={setMaxAmount}
+                disabled={isSubmitting}
+                aria-invalid={!!errors.maxAmount}
+                aria-describedby={errors.maxAmount ? 'maxAmount-error' : undefined}
+              />
+              {errors.maxAmount && (
+                <p id="maxAmount-error" className="text-sm text-destructive">
+                  {errors.maxAmount}
+                </p>
+              )}
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            O cenário otimista cobra o mínimo, o realista a média e o pessimista o máximo.
+          </p>
+        </div>
+      )}
+
+      {/* Dynamic due date input based on frequency */}
+      {frequency === 'monthly' && (
         <div className="grid gap-2">
           <Label htmlFor="dueDay">Dia de Vencimento</Label>
           <Input
@@ -112,7 +403,92 @@ export function ExpenseForm({
             </p>
           )}
         </div>
-      </div>
+      )}
+
+      {frequency === 'weekly' && (
+        <DayOfWeekSelect
+          value={dayOfWeek}
+          onChange={setDayOfWeek}
+          disabled={isSubmitting}
+          error={errors.dayOfWeek}
+        />
+      )}
+
+      {frequency === 'biweekly' && (
+        <AnchorDateInput
+          value={anchorDate}
+          onChange={setAnchorDate}
+          disabled={isSubmitting}
+          error={errors.anchorDate}
+        />
+      )}
+
+      {frequency === 'twice-monthly' && (
+        <TwiceMonthlyInput
+          firstDay={firstDay}
+          secondDay={secondDay}
+          onFirstDayChange={setFirstDay}
+          onSecondDayChange={setSecondDay}
+          disabled={isSubmitting}
+          firstDayError={errors.firstDay}
+          secondDayError={errors.secondDay}
+        />
+      )}
+
+      {frequency === 'every-n-months' && (
+        <EveryNMonthsInput
+          intervalMonths={intervalMonths}
+          dayOfMonth={parseInt(dueDay, 10) || 0}
+          anchorMonth={anchorMonth}
+          anchorYear={anchorYear}
+          onIntervalMonthsChange={setIntervalMonths}
+          onDayOfMonthChange={(value) => setDueDay(value ? value.toString() : '')}
+          onAnchorMonthChange={setAnchorMonth}
+          onAnchorYearChange={setAnchorYear}
+          disabled={isSubmitting}
+          intervalError={errors.intervalMonths}
+          dayOfMonthError={errors.dueDay}
+          anchorError={errors.anchor}
+        />
+      )}
+
+      {frequency === 'yearly' && (
+        <YearlyDatesInput
+          dates={yearlyDates}
+          onChange={setYearlyDates}
+          disabled={isSubmitting}
+          error={errors.yearlyDates}
+        />
+      )}
+
+      <BusinessDayRolloverSelect
+        value={businessDayRollover}
+        onChange={setBusinessDayRollover}
+        disabled={isSubmitting}
+      />
+
+      <AmountChangesInput
+        changes={amountChanges}
+        onChange={setAmountChanges}
+        disabled={isSubmitting}
+        error={errors.amountChanges}
+      />
+
+      <ActivePeriodInput
+        startDate={startDate}
+        endDate={endDate}
+        onStartDateChange={setStartDate}
+        onEndDateChange={setEndDate}
+        disabled={isSubmitting}
+        error={errors.endDate}
+      />
+
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+      />
 
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
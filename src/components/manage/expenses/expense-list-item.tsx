@@ -1,7 +1,13 @@
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
 import { cn } from '@/lib/utils'
-import type { FixedExpense } from '@/types'
+import {
+  FREQUENCY_LABELS,
+  formatPaymentSchedule,
+  formatActivePeriodBadge,
+  formatScheduledAmountChanges,
+} from '@/components/manage/shared/format-utils'
+import { getAmountInEffect, getFixedExpenseSchedule, type FixedExpense } from '@/types'
 
 interface ExpenseListItemProps {
   expense: FixedExpense
@@ -20,12 +26,24 @@ function formatCurrency(cents: number): string {
   }).format(reais)
 }
 
+function formatDueDescription(expense: FixedExpense): string {
+  const { paymentSchedule } = getFixedExpenseSchedule(expense)
+  if (paymentSchedule.type === 'dayOfMonth') {
+    return `Vencimento dia ${paymentSchedule.dayOfMonth}`
+  }
+  return formatPaymentSchedule(paymentSchedule)
+}
+
 export function ExpenseListItem({
   expense,
   onEdit,
   onDelete,
   onToggleActive,
 }: ExpenseListItemProps) {
+  const { frequency } = getFixedExpenseSchedule(expense)
+  const scheduledChanges = formatScheduledAmountChanges(expense.amountChanges)
+  const activePeriodBadge = formatActivePeriodBadge(expense)
+
   return (
     <div
       className={cn(
@@ -39,18 +57,35 @@ export function ExpenseListItem({
           <span className="font-medium truncate" title={expense.name}>
             {expense.name}
           </span>
+          {frequency !== 'monthly' && (
+            <span className="text-xs bg-muted px-2 py-0.5 rounded">
+              {FREQUENCY_LABELS[frequency]}
+            </span>
+          )}
           {!expense.isActive && (
             <span className="text-xs bg-muted px-2 py-0.5 rounded">Inativo</span>
           )}
+          {activePeriodBadge && (
+            <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded font-medium">
+              {activePeriodBadge}
+            </span>
+          )}
         </div>
         <div className="text-sm text-muted-foreground mt-1">
-          Vencimento dia {expense.dueDay}
+          {formatDueDescription(expense)}
         </div>
+        {scheduledChanges && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Alteração programada: {scheduledChanges}
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-3">
         <span className="font-medium text-muted-foreground">
-          {formatCurrency(expense.amount)}
+          {expense.amountRange
+            ? `${formatCurrency(expense.amountRange.min)} – ${formatCurrency(expense.amountRange.max)}`
+            : formatCurrency(getAmountInEffect(expense, new Date()))}
         </span>
         
         <div className="flex items-center gap-1">
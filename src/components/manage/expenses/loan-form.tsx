@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import {
+  LoanPrepaymentsInput,
+  type LoanPrepaymentDraft,
+} from '@/components/manage/expenses/loan-prepayments-input'
+import {
+  LoanInputSchema,
+  type BankAccount,
+  type Loan,
+  type LoanInput,
+} from '@/types'
+
+interface LoanFormProps {
+  loan?: Loan
+  accounts: BankAccount[]
+  onSubmit: (data: LoanInput) => Promise<void>
+  onCancel: () => void
+  isSubmitting: boolean
+}
+
+export function LoanForm({
+  loan,
+  accounts,
+  onSubmit,
+  onCancel,
+  isSubmitting,
+}: LoanFormProps) {
+  const [name, setName] = useState(loan?.name ?? '')
+  // Convert cents to reais for display/editing
+  const [principal, setPrincipal] = useState(
+    loan?.principal ? (loan.principal / 100).toFixed(2) : ''
+  )
+  const [annualRate, setAnnualRate] = useState(loan?.annualRate.toString() ?? '')
+  const [termMonths, setTermMonths] = useState(loan?.termMonths.toString() ?? '')
+  const [system, setSystem] = useState<Loan['system']>(loan?.system ?? 'price')
+  const [firstDueDate, setFirstDueDate] = useState(
+    loan?.firstDueDate ? format(loan.firstDueDate, 'yyyy-MM-dd') : ''
+  )
+  const [accountId, setAccountId] = useState<string | null>(loan?.accountId ?? null)
+  const [prepayments, setPrepayments] = useState<LoanPrepaymentDraft[]>(
+    (loan?.prepayments ?? []).map((prepayment) => ({
+      date: prepayment.date,
+      amount: (prepayment.amount / 100).toFixed(2),
+      mode: prepayment.mode,
+    }))
+  )
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setErrors({})
+
+    if (!firstDueDate) {
+      setErrors({ firstDueDate: 'Informe o vencimento da primeira parcela' })
+      return
+    }
+
+    const formData = {
+      name: name.trim(),
+      // Convert reais to cents for storage
+      principal: Math.round((parseFloat(principal) || 0) * 100),
+      annualRate: parseFloat(annualRate) || 0,
+      termMonths: parseInt(termMonths, 10) || 0,
+      system,
+      firstDueDate: new Date(`${firstDueDate}T00:00:00`),
+      accountId,
+      prepayments: prepayments.map((prepayment) => ({
+        date: prepayment.date,
+        amount: Math.round((parseFloat(prepayment.amount) || 0) * 100),
+        mode: prepayment.mode,
+      })),
+      isActive: loan?.isActive ?? true,
+    }
+
+    const result = LoanInputSchema.safeParse(formData)
+    if (!result.success) {
+      const fieldErrors = result.error.flatten().fieldErrors
+      setErrors(
+        Object.fromEntries(Object.entries(fieldErrors).map(([k, v]) => [k, v?.[0] ?? '']))
+      )
+      return
+    }
+
+    await onSubmit(result.data)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="name">Descrição</Label>
+        <Input
+          id="name"
+          type="text"
+          placeholder="ex: Financiamento do carro"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSubmitting}
+          aria-invalid={!!errors.name}
+          aria-describedby={errors.name ? 'name-error' : undefined}
+        />
+        {errors.name && (
+          <p id="name-error" className="text-sm text-destructive">
+            {errors.name}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="principal">Valor Financiado</Label>
+          <CurrencyInput
+            id="principal"
+            value={principal}
+            onChange={setPrincipal}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.principal}
+            aria-describedby={errors.principal ? 'principal-error' : undefined}
+          />
+          {errors.principal && (
+            <p id="principal-error" className="text-sm text-destructive">
+              {errors.principal}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="annualRate">Juros ao Ano (%)</Label>
+          <Input
+            id="annualRate"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={100}
+            step="0.01"
+            placeholder="ex: 14,5"
+            value={annualRate}
+            onChange={(e) => setAnnualRate(e.target.value)}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.annualRate}
+            aria-describedby={errors.annualRate ? 'annualRate-error' : undefined}
+          />
+          {errors.annualRate && (
+            <p id="annualRate-error" className="text-sm text-destructive">
+              {errors.annualRate}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="termMonths">Prazo (meses)</Label>
+          <Input
+            id="termMonths"
+            type="number"
+            placeholder="ex: 48"
+            value={termMonths}
+            onChange={(e) => setTermMonths(e.target.value)}
+            min="1"
+            max="600"
+            disabled={isSubmitting}
+            aria-invalid={!!errors.termMonths}
+            aria-describedby={errors.termMonths ? 'termMonths-error' : undefined}
+          />
+          {errors.termMonths && (
+            <p id="termMonths-error" className="text-sm text-destructive">
+              {errors.termMonths}
+            </p>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="loanSystem">Sistema de Amortização</Label>
+          <Select
+            value={system}
+            onValueChange={(value) => setSystem(value as Loan['system'])}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="loanSystem">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="price">Price (parcelas fixas)</SelectItem>
+              <SelectItem value="sac">SAC (parcelas decrescentes)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-2">
+        <Label htmlFor="firstDueDate">Vencimento da 1ª Parcela</Label>
+        <Input
+          id="firstDueDate"
+          type="date"
+          value={firstDueDate}
+          onChange={(e) => setFirstDueDate(e.target.value)}
+          disabled={isSubmitting}
+          aria-invalid={!!errors.firstDueDate}
+          aria-describedby={errors.firstDueDate ? 'firstDueDate-error' : undefined}
+        />
+        {errors.firstDueDate && (
+          <p id="firstDueDate-error" className="text-sm text-destructive">
+            {errors.firstDueDate}
+          </p>
+        )}
+      </div>
+
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+        label="Pagar com"
+      />
+
+      <LoanPrepaymentsInput
+        prepayments={prepayments}
+        onChange={setPrepayments}
+        disabled={isSubmitting}
+        error={errors.prepayments}
+      />
+
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancelar
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? 'Salvando...' : loan ? 'Atualizar' : 'Adicionar Financiamento'}
+        </Button>
+      </div>
+    </form>
+  )
+}
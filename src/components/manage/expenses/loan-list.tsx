@@ -0,0 +1,132 @@
+import { format } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { cn } from '@/lib/utils'
+import { formatCurrency } from '@/components/manage/shared/format-utils'
+import {
+  buildAmortizationSchedule,
+  getLoanEndDate,
+  getLoanOutstandingBalance,
+} from '@/lib/cashflow/loans'
+import type { Loan } from '@/types'
+
+const SYSTEM_LABELS: Record<Loan['system'], string> = {
+  sac: 'SAC',
+  price: 'Price',
+}
+
+interface LoanListProps {
+  loans: Loan[]
+  onAdd: () => void
+  onEdit: (loan: Loan) => void
+  onDelete: (id: string) => void
+  onToggleActive: (loan: Loan) => void
+  onViewSchedule: (loan: Loan) => void
+}
+
+export function LoanList({
+  loans,
+  onAdd,
+  onEdit,
+  onDelete,
+  onToggleActive,
+  onViewSchedule,
+}: LoanListProps) {
+  const today = new Date()
+
+  const formatProgress = (loan: Loan) => {
+    const schedule = buildAmortizationSchedule(loan)
+    const endDate = getLoanEndDate(schedule)
+    const outstanding = getLoanOutstandingBalance(loan, schedule, today)
+    const installments = `${schedule.installments.length} parcelas`
+    const end = endDate ? ` · termina em ${format(endDate, 'MM/yyyy')}` : ''
+    return `${installments}${end} · saldo devedor ${formatCurrency(outstanding)}`
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold text-foreground">Empréstimos e Financiamentos</h2>
+        <p className="text-sm text-muted-foreground">
+          Parcelas calculadas pela tabela SAC ou Price, com amortizações extras
+        </p>
+      </div>
+
+      {loans.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">
+          Nenhum financiamento cadastrado.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {loans.map((loan) => (
+            <div
+              key={loan.id}
+              className={cn(
+                'flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3',
+                'p-4 rounded-lg border bg-card transition-opacity',
+                !loan.isActive && 'opacity-60'
+              )}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium truncate" title={loan.name}>
+                    {loan.name}
+                  </span>
+                  <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                    {SYSTEM_LABELS[loan.system]} · {loan.annualRate}% a.a.
+                  </span>
+                  {!loan.isActive && (
+                    <span className="text-xs bg-muted px-2 py-0.5 rounded">Inativo</span>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground mt-1">{formatProgress(loan)}</div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-muted-foreground">
+                  {formatCurrency(loan.principal)}
+                </span>
+
+                <div className="flex items-center gap-1">
+                  <Switch
+                    checked={loan.isActive}
+                    onCheckedChange={() => onToggleActive(loan)}
+                    aria-label={loan.isActive ? 'Desativar financiamento' : 'Ativar financiamento'}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onViewSchedule(loan)}
+                    className="h-8 px-2 text-muted-foreground hover:text-foreground"
+                  >
+                    Parcelas
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onEdit(loan)}
+                    className="h-8 px-2 text-muted-foreground hover:text-foreground"
+                  >
+                    Editar
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(loan.id)}
+                    className="h-8 px-2 text-muted-foreground hover:text-destructive"
+                  >
+                    Excluir
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button onClick={onAdd} variant="outline" className="w-full">
+        Adicionar Financiamento
+      </Button>
+    </div>
+  )
+}
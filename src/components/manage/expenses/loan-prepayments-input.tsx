@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { LoanPrepayment } from '@/types'
+
+/**
+ * Form state of a loan prepayment (amount in reais as typed).
+ */
+export interface LoanPrepaymentDraft {
+  date: string
+  amount: string
+  mode: LoanPrepayment['mode']
+}
+
+const MAX_PREPAYMENTS = 24
+
+/**
+ * Editable list of extra payments on a loan ("em 01/09/2026, R$ X, reduzir prazo").
+ */
+export function LoanPrepaymentsInput({
+  prepayments,
+  onChange,
+  disabled,
+  error,
+}: {
+  prepayments: LoanPrepaymentDraft[]
+  onChange: (prepayments: LoanPrepaymentDraft[]) => void
+  disabled: boolean
+  error?: string
+}) {
+  const updatePrepayment = (index: number, patch: Partial<LoanPrepaymentDraft>) => {
+    onChange(prepayments.map((prepayment, i) => (i === index ? { ...prepayment, ...patch } : prepayment)))
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label>Amortizações Extras</Label>
+      {prepayments.map((prepayment, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <Input
+            id={`prepaymentDate-${index}`}
+            type="date"
+            aria-label="Data da amortização"
+            value={prepayment.date}
+            onChange={(e) => updatePrepayment(index, { date: e.target.value })}
+            disabled={disabled}
+            aria-invalid={!!error}
+            className="w-40"
+          />
+          <CurrencyInput
+            id={`prepaymentAmount-${index}`}
+            aria-label="Valor da amortização"
+            value={prepayment.amount}
+            onChange={(value) => updatePrepayment(index, { amount: value })}
+            disabled={disabled}
+            aria-invalid={!!error}
+            className="w-36"
+          />
+          <Select
+            value={prepayment.mode}
+            onValueChange={(value) => updatePrepayment(index, { mode: value as LoanPrepayment['mode'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger id={`prepaymentMode-${index}`} aria-label="Efeito da amortização" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="reduce_term">Reduzir prazo</SelectItem>
+              <SelectItem value="reduce_installment">Reduzir parcela</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(prepayments.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="h-8 px-2 text-muted-foreground hover:text-destructive"
+          >
+            Remover
+          </Button>
+        </div>
+      ))}
+      {prepayments.length < MAX_PREPAYMENTS && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...prepayments, { date: '', amount: '', mode: 'reduce_term' }])}
+          disabled={disabled}
+          className="justify-self-start"
+        >
+          Programar amortização
+        </Button>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {prepayments.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          A amortização abate o saldo devedor antes da parcela seguinte.
+        </p>
+      )}
+    </div>
+  )
+}
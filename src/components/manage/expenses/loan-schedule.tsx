@@ -0,0 +1,60 @@
+import { format } from 'date-fns'
+import { formatCurrency } from '@/components/manage/shared/format-utils'
+import type { LoanSchedule as LoanScheduleData } from '@/lib/cashflow/types'
+
+interface LoanScheduleProps {
+  schedule: LoanScheduleData
+}
+
+/**
+ * Amortization table of a loan: one row per installment, with the
+ * prepayments listed below it.
+ */
+export function LoanSchedule({ schedule }: LoanScheduleProps) {
+  return (
+    <div className="space-y-4">
+      <div className="max-h-96 overflow-y-auto rounded-lg border">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-muted text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Nº</th>
+              <th className="px-3 py-2 text-left font-medium">Vencimento</th>
+              <th className="px-3 py-2 text-right font-medium">Parcela</th>
+              <th className="px-3 py-2 text-right font-medium">Juros</th>
+              <th className="px-3 py-2 text-right font-medium">Amortização</th>
+              <th className="px-3 py-2 text-right font-medium">Saldo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.installments.map((installment) => (
+              <tr key={installment.number} className="border-t">
+                <td className="px-3 py-1.5">{installment.number}</td>
+                <td className="px-3 py-1.5">{format(installment.dueDate, 'dd/MM/yyyy')}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{formatCurrency(installment.payment)}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{formatCurrency(installment.interest)}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{formatCurrency(installment.amortization)}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{formatCurrency(installment.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {schedule.prepayments.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <p className="font-medium">Amortizações extras</p>
+          {schedule.prepayments.map((prepayment) => (
+            <p key={prepayment.date.getTime()} className="text-muted-foreground">
+              {format(prepayment.date, 'dd/MM/yyyy')}: {formatCurrency(prepayment.amount)}
+              {prepayment.mode === 'reduce_term' ? ' · reduz o prazo' : ' · reduz a parcela'}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <p className="text-sm text-muted-foreground">
+        Total de juros: {formatCurrency(schedule.totalInterest)}
+      </p>
+    </div>
+  )
+}
@@ -4,17 +4,20 @@ import { Button } from '@/components/ui/button'
 import { CurrencyInput } from '@/components/ui/currency-input'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { SingleShotExpenseInputSchema, type SingleShotExpense } from '@/types'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import { SingleShotExpenseInputSchema, type BankAccount, type SingleShotExpense } from '@/types'
 
 interface SingleShotExpenseFormProps {
   expense?: SingleShotExpense
-  onSubmit: (data: { name: string; amount: number; date: Date }) => Promise<void>
+  accounts: BankAccount[]
+  onSubmit: (data: { name: string; amount: number; date: Date; accountId: string | null }) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
 }
 
 export function SingleShotExpenseForm({
   expense,
+  accounts,
   onSubmit,
   onCancel,
   isSubmitting,
@@ -27,6 +30,7 @@ export function SingleShotExpenseForm({
   const [date, setDate] = useState(
     expense ? format(expense.date, 'yyyy-MM-dd') : ''
   )
+  const [accountId, setAccountId] = useState<string | null>(expense?.accountId ?? null)
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -39,6 +43,7 @@ export function SingleShotExpenseForm({
       // Convert reais to cents for storage
       amount: Math.round((parseFloat(amount) || 0) * 100),
       date: date ? new Date(`${date}T00:00:00`) : new Date(),
+      accountId,
     }
 
     const result = SingleShotExpenseInputSchema.safeParse(formData)
@@ -56,6 +61,7 @@ export function SingleShotExpenseForm({
       name: result.data.name,
       amount: result.data.amount,
       date: result.data.date,
+      accountId: result.data.accountId ?? null,
     })
   }
 
@@ -117,6 +123,13 @@ export function SingleShotExpenseForm({
         </div>
       </div>
 
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+      />
+
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           Cancelar
@@ -1,4 +1,5 @@
 import { useState } from 'react'
+import { format, parse } from 'date-fns'
 import { Button } from '@/components/ui/button'
 import { CurrencyInput } from '@/components/ui/currency-input'
 import { Input } from '@/components/ui/input'
@@ -12,15 +13,44 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import {
+  AnchorDateInput,
+  BusinessDayRolloverSelect,
+  DayOfMonthInput,
+  DayOfWeekSelect,
+  EveryNMonthsInput,
+  TwiceMonthlyInput,
+  YearlyDatesInput,
+  type YearlyDateDraft,
+} from '@/components/manage/shared/payment-schedule-inputs'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import {
+  AmountChangesInput,
+  type AmountChangeDraft,
+} from '@/components/manage/shared/amount-changes-input'
+import { ActivePeriodInput } from '@/components/manage/shared/active-period-input'
+import { PaymentDelayInput } from '@/components/manage/shared/payment-delay-input'
+import { TaxProfileInput } from '@/components/manage/shared/tax-profile-input'
+import { buildTaxProfile, getTaxProfileDraft } from '@/components/manage/shared/tax-profile-draft'
+import {
+  buildPaymentDelay,
+  getPaymentDelayDraft,
+} from '@/components/manage/shared/payment-delay-draft'
+import { FREQUENCY_LABELS } from '@/components/manage/shared/format-utils'
+import {
+  FrequencySchema,
   ProjectInputSchema,
+  createBiweeklySchedule,
+  type BankAccount,
   type Project,
   type ProjectInput,
+  type BusinessDayRollover,
   type Frequency,
   type PaymentSchedule,
 } from '@/types'
 
 interface ProjectFormProps {
   project?: Project
+  accounts: BankAccount[]
   onSubmit: (data: ProjectInput) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
@@ -28,37 +58,41 @@ interface ProjectFormProps {
 
 type Certainty = 'guaranteed' | 'probable' | 'uncertain'
 
-// ISO 8601 weekdays: 1 = Monday, 7 = Sunday
-const WEEKDAYS = [
-  { value: 1, label: 'Segunda-feira' },
-  { value: 2, label: 'Terça-feira' },
-  { value: 3, label: 'Quarta-feira' },
-  { value: 4, label: 'Quinta-feira' },
-  { value: 5, label: 'Sexta-feira' },
-  { value: 6, label: 'Sábado' },
-  { value: 7, label: 'Domingo' },
-] as const
-
 /**
  * Extract initial schedule state from a project.
  */
 function getInitialScheduleState(project?: Project): {
   dayOfWeek: number
+  anchorDate: string
   dayOfMonth: number
   firstDay: number
   secondDay: number
   firstAmount: string
   secondAmount: string
   variableAmountsEnabled: boolean
+  intervalMonths: number
+  anchorMonth: number
+  anchorYear: number
+  yearlyDates: YearlyDateDraft[]
 } {
+  const today = new Date()
   const defaultState = {
     dayOfWeek: 5, // Friday
+    anchorDate: '',
     dayOfMonth: 1,
     firstDay: 1,
     secondDay: 15,
     firstAmount: '',
     secondAmount: '',
     variableAmountsEnabled: false,
+    intervalMonths: 6,
+    anchorMonth: today.getMonth() + 1,
+    anchorYear: today.getFullYear(),
+    // 13º salário: two installments in November and December
+    yearlyDates: [
+      { month: 11, day: 30 },
+      { month: 12, day: 20 },
+    ],
   }
 
   if (!project) return defaultState
@@ -68,7 +102,11 @@ function getInitialScheduleState(project?: Project): {
   if (schedule) {
     switch (schedule.type) {
       case 'dayOfWeek':
-        return { ...defaultState, dayOfWeek: schedule.dayOfWeek }
+        return {
+          ...defaultState,
+          dayOfWeek: schedule.dayOfWeek,
+          anchorDate: schedule.anchorDate ?? '',
+        }
       case 'dayOfMonth':
         return { ...defaultState, dayOfMonth: schedule.dayOfMonth }
       case 'twiceMonthly': {
@@ -83,156 +121,33 @@ function getInitialScheduleState(project?: Project): {
           variableAmountsEnabled: hasVariableAmounts,
         }
       }
+      case 'everyNMonths':
+        return {
+          ...defaultState,
+          dayOfMonth: schedule.dayOfMonth,
+          intervalMonths: schedule.intervalMonths,
+          anchorMonth: schedule.anchorMonth,
+          anchorYear: schedule.anchorYear,
+        }
+      case 'yearly':
+        return {
+          ...defaultState,
+          yearlyDates: schedule.dates.map(({ month, day, amount }) => ({
+            month,
+            day,
+            // Convert cents to reais for display
+            amount: amount !== undefined ? (amount / 100).toFixed(2) : '',
+          })),
+        }
     }
   }
 
   return defaultState
 }
 
-/**
- * Day of week select component for weekly/biweekly frequencies.
- */
-function DayOfWeekSelect({
-  value,
-  onChange,
-  disabled,
-  error,
-}: {
-  value: number
-  onChange: (value: number) => void
-  disabled: boolean
-  error?: string
-}) {
-  return (
-    <div className="grid gap-2">
-      <Label htmlFor="dayOfWeek">Dia do Pagamento</Label>
-      <Select
-        value={value.toString()}
-        onValueChange={(v) => onChange(parseInt(v, 10))}
-        disabled={disabled}
-      >
-        <SelectTrigger id="dayOfWeek" aria-invalid={!!error}>
-          <SelectValue placeholder="Selecione o dia" />
-        </SelectTrigger>
-        <SelectContent>
-          {WEEKDAYS.map(({ value, label }) => (
-            <SelectItem key={value} value={value.toString()}>
-              {label}
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
-      {error && <p className="text-sm text-destructive">{error}</p>}
-    </div>
-  )
-}
-
-/**
- * Day of month input component for monthly frequency.
- */
-function DayOfMonthInput({
-  value,
-  onChange,
-  disabled,
-  error,
-}: {
-  value: number
-  onChange: (value: number) => void
-  disabled: boolean
-  error?: string
-}) {
-  return (
-    <div className="grid gap-2">
-      <Label htmlFor="dayOfMonth">Dia do Pagamento</Label>
-      <Input
-        id="dayOfMonth"
-        type="number"
-        placeholder="1-31"
-        value={value || ''}
-        onChange={(e) => onChange(parseInt(e.target.value, 10) || 0)}
-        min="1"
-        max="31"
-        disabled={disabled}
-        aria-invalid={!!error}
-        aria-describedby={error ? 'dayOfMonth-error' : undefined}
-      />
-      {error && (
-        <p id="dayOfMonth-error" className="text-sm text-destructive">
-          {error}
-        </p>
-      )}
-    </div>
-  )
-}
-
-/**
- * Twice monthly input component for twice-monthly frequency.
- */
-function TwiceMonthlyInput({
-  firstDay,
-  secondDay,
-  onFirstDayChange,
-  onSecondDayChange,
-  disabled,
-  firstDayError,
-  secondDayError,
-}: {
-  firstDay: number
-  secondDay: number
-  onFirstDayChange: (value: number) => void
-  onSecondDayChange: (value: number) => void
-  disabled: boolean
-  firstDayError?: string
-  secondDayError?: string
-}) {
-  return (
-    <div className="grid gap-4 sm:grid-cols-2">
-      <div className="grid gap-2">
-        <Label htmlFor="firstDay">Primeiro Dia de Pagamento</Label>
-        <Input
-          id="firstDay"
-          type="number"
-          placeholder="1-31"
-          value={firstDay || ''}
-          onChange={(e) => onFirstDayChange(parseInt(e.target.value, 10) || 0)}
-          min="1"
-          max="31"
-          disabled={disabled}
-          aria-invalid={!!firstDayError}
-          aria-describedby={firstDayError ? 'firstDay-error' : undefined}
-        />
-        {firstDayError && (
-          <p id="firstDay-error" className="text-sm text-destructive">
-            {firstDayError}
-          </p>
-        )}
-      </div>
-      <div className="grid gap-2">
-        <Label htmlFor="secondDay">Segundo Dia de Pagamento</Label>
-        <Input
-          id="secondDay"
-          type="number"
-          placeholder="1-31"
-          value={secondDay || ''}
-          onChange={(e) => onSecondDayChange(parseInt(e.target.value, 10) || 0)}
-          min="1"
-          max="31"
-          disabled={disabled}
-          aria-invalid={!!secondDayError}
-          aria-describedby={secondDayError ? 'secondDay-error' : undefined}
-        />
-        {secondDayError && (
-          <p id="secondDay-error" className="text-sm text-destructive">
-            {secondDayError}
-          </p>
-        )}
-      </div>
-    </div>
-  )
-}
-
 export function ProjectForm({
   project,
+  accounts,
   onSubmit,
   onCancel,
   isSubmitting,
@@ -246,10 +161,32 @@ export function ProjectForm({
   )
   const [frequency, setFrequency] = useState<Frequency>(project?.frequency ?? 'monthly')
   const [certainty, setCertainty] = useState<Certainty>(project?.certainty ?? 'guaranteed')
+  const [businessDayRollover, setBusinessDayRollover] = useState<BusinessDayRollover>(
+    project?.businessDayRollover ?? 'none'
+  )
+  const [accountId, setAccountId] = useState<string | null>(project?.accountId ?? null)
+  // Convert cents to reais for display/editing
+  const [amountChanges, setAmountChanges] = useState<AmountChangeDraft[]>(
+    (project?.amountChanges ?? []).map((change) => ({
+      effectiveDate: change.effectiveDate,
+      amount: (change.amount / 100).toFixed(2),
+    }))
+  )
+  const [startDate, setStartDate] = useState(
+    project?.startDate ? format(project.startDate, 'yyyy-MM-dd') : ''
+  )
+  const [endDate, setEndDate] = useState(
+    project?.endDate ? format(project.endDate, 'yyyy-MM-dd') : ''
+  )
+  const [paymentDelay, setPaymentDelay] = useState(() =>
+    getPaymentDelayDraft(project?.paymentDelay)
+  )
+  const [taxProfile, setTaxProfile] = useState(() => getTaxProfileDraft(project?.taxProfile))
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   // Payment schedule state
   const [dayOfWeek, setDayOfWeek] = useState(initialSchedule.dayOfWeek)
+  const [anchorDate, setAnchorDate] = useState(initialSchedule.anchorDate)
   const [dayOfMonth, setDayOfMonth] = useState(initialSchedule.dayOfMonth)
   const [firstDay, setFirstDay] = useState(initialSchedule.firstDay)
   const [secondDay, setSecondDay] = useState(initialSchedule.secondDay)
@@ -259,6 +196,12 @@ export function ProjectForm({
   const [firstAmount, setFirstAmount] = useState(initialSchedule.firstAmount)
   const [secondAmount, setSecondAmount] = useState(initialSchedule.secondAmount)
 
+  // Every-N-months and yearly schedule state
+  const [intervalMonths, setIntervalMonths] = useState(initialSchedule.intervalMonths)
+  const [anchorMonth, setAnchorMonth] = useState(initialSchedule.anchorMonth)
+  const [anchorYear, setAnchorYear] = useState(initialSchedule.anchorYear)
+  const [yearlyDates, setYearlyDates] = useState(initialSchedule.yearlyDates)
+
   // Clear schedule when frequency changes to prevent invalid data combinations
   const handleFrequencyChange = (newFrequency: Frequency) => {
     setFrequency(newFrequency)
@@ -275,12 +218,19 @@ export function ProjectForm({
         setSecondAmount('')
         break
       case 'monthly':
+      case 'every-n-months':
         setDayOfMonth(1)
         // Reset variable amounts when switching away from twice-monthly
         setVariableAmountsEnabled(false)
         setFirstAmount('')
         setSecondAmount('')
         break
+      case 'yearly':
+        // Reset variable amounts when switching away from twice-monthly
+        setVariableAmountsEnabled(false)
+        setFirstAmount('')
+        setSecondAmount('')
+        break
       case 'twice-monthly':
         setFirstDay(1)
         setSecondDay(15)
@@ -311,8 +261,9 @@ export function ProjectForm({
   const buildPaymentSchedule = (): PaymentSchedule => {
     switch (frequency) {
       case 'weekly':
-      case 'biweekly':
         return { type: 'dayOfWeek', dayOfWeek }
+      case 'biweekly':
+        return anchorDate ? createBiweeklySchedule(anchorDate) : { type: 'dayOfWeek', dayOfWeek }
       case 'twice-monthly': {
         const schedule: PaymentSchedule = { type: 'twiceMonthly', firstDay, secondDay }
         if (variableAmountsEnabled) {
@@ -331,6 +282,19 @@ export function ProjectForm({
       }
       case 'monthly':
         return { type: 'dayOfMonth', dayOfMonth }
+      case 'every-n-months':
+        return { type: 'everyNMonths', intervalMonths, dayOfMonth, anchorMonth, anchorYear }
+      case 'yearly':
+        return {
+          type: 'yearly',
+          dates: yearlyDates.map(({ month, day, amount: dateAmount }) => {
+            const parsedAmount = parseFloat(dateAmount ?? '') || 0
+            // Convert reais to cents; blank amounts fall back to the base amount
+            return parsedAmount > 0
+              ? { month, day, amount: Math.round(parsedAmount * 100) }
+              : { month, day }
+          }),
+        }
     }
   }
 
@@ -338,6 +302,11 @@ export function ProjectForm({
     e.preventDefault()
     setErrors({})
 
+    if (frequency === 'biweekly' && !anchorDate) {
+      setErrors({ anchorDate: 'Informe a data de um pagamento' })
+      return
+    }
+
     // Calculate amount in cents: for twice-monthly with variable amounts, use the sum of both amounts
     // Otherwise use the regular amount field
     // All amounts are converted from reais to cents (multiply by 100)
@@ -357,6 +326,16 @@ export function ProjectForm({
       paymentSchedule: buildPaymentSchedule(),
       certainty,
       isActive: project?.isActive ?? true,
+      businessDayRollover,
+      accountId,
+      amountChanges: amountChanges.map((change) => ({
+        effectiveDate: change.effectiveDate,
+        amount: Math.round((parseFloat(change.amount) || 0) * 100),
+      })),
+      paymentDelay: buildPaymentDelay(paymentDelay),
+      taxProfile: buildTaxProfile(taxProfile),
+      startDate: startDate ? parse(startDate, 'yyyy-MM-dd', new Date()) : null,
+      endDate: endDate ? parse(endDate, 'yyyy-MM-dd', new Date()) : null,
     }
 
     const result = ProjectInputSchema.safeParse(formData)
@@ -378,12 +357,20 @@ export function ProjectForm({
             formattedErrors['firstDay'] = error.message
           } else if (error.path[1] === 'dayOfWeek') {
             formattedErrors['dayOfWeek'] = error.message
+          } else if (error.path[1] === 'anchorDate') {
+            formattedErrors['anchorDate'] = error.message
           } else if (error.path[1] === 'dayOfMonth') {
             formattedErrors['dayOfMonth'] = error.message
           } else if (error.path[1] === 'firstAmount' || error.message.includes('First amount')) {
             formattedErrors['firstAmount'] = error.message
           } else if (error.path[1] === 'secondAmount' || error.message.includes('Second amount') || error.message.includes('Both amounts')) {
             formattedErrors['secondAmount'] = error.message
+          } else if (error.path[1] === 'intervalMonths') {
+            formattedErrors['intervalMonths'] = error.message
+          } else if (error.path[1] === 'anchorMonth' || error.path[1] === 'anchorYear') {
+            formattedErrors['anchor'] = error.message
+          } else if (error.path[1] === 'dates') {
+            formattedErrors['yearlyDates'] = error.message
           } else {
             formattedErrors['paymentSchedule'] = error.message
           }
@@ -448,10 +435,11 @@ export function ProjectForm({
               <SelectValue placeholder="Selecione a frequência" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="weekly">Semanal</SelectItem>
-              <SelectItem value="biweekly">Quinzenal</SelectItem>
-              <SelectItem value="twice-monthly">Duas vezes por mês</SelectItem>
-              <SelectItem value="monthly">Mensal</SelectItem>
+              {FrequencySchema.options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {FREQUENCY_LABELS[option]}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           {errors.frequency && (
@@ -461,7 +449,7 @@ export function ProjectForm({
       </div>
 
       {/* Dynamic payment day input based on frequency */}
-      {(frequency === 'weekly' || frequency === 'biweekly') && (
+      {frequency === 'weekly' && (
         <DayOfWeekSelect
           value={dayOfWeek}
           onChange={setDayOfWeek}
@@ -470,6 +458,15 @@ export function ProjectForm({
         />
       )}
 
+      {frequency === 'biweekly' && (
+        <AnchorDateInput
+          value={anchorDate}
+          onChange={setAnchorDate}
+          disabled={isSubmitting}
+          error={errors.anchorDate}
+        />
+      )}
+
       {frequency === 'monthly' && (
         <DayOfMonthInput
           value={dayOfMonth}
@@ -479,6 +476,33 @@ export function ProjectForm({
         />
       )}
 
+      {frequency === 'every-n-months' && (
+        <EveryNMonthsInput
+          intervalMonths={intervalMonths}
+          dayOfMonth={dayOfMonth}
+          anchorMonth={anchorMonth}
+          anchorYear={anchorYear}
+          onIntervalMonthsChange={setIntervalMonths}
+          onDayOfMonthChange={setDayOfMonth}
+          onAnchorMonthChange={setAnchorMonth}
+          onAnchorYearChange={setAnchorYear}
+          disabled={isSubmitting}
+          intervalError={errors.intervalMonths}
+          dayOfMonthError={errors.dayOfMonth}
+          anchorError={errors.anchor}
+        />
+      )}
+
+      {frequency === 'yearly' && (
+        <YearlyDatesInput
+          dates={yearlyDates}
+          onChange={setYearlyDates}
+          disabled={isSubmitting}
+          error={errors.yearlyDates}
+          showAmounts
+        />
+      )}
+
       {frequency === 'twice-monthly' && (
         <>
           <TwiceMonthlyInput
@@ -544,6 +568,35 @@ export function ProjectForm({
         </>
       )}
 
+      <BusinessDayRolloverSelect
+        value={businessDayRollover}
+        onChange={setBusinessDayRollover}
+        disabled={isSubmitting}
+      />
+
+      <AmountChangesInput
+        changes={amountChanges}
+        onChange={setAmountChanges}
+        disabled={isSubmitting}
+        error={errors.amountChanges}
+      />
+
+      <ActivePeriodInput
+        startDate={startDate}
+        endDate={endDate}
+        onStartDateChange={setStartDate}
+        onEndDateChange={setEndDate}
+        disabled={isSubmitting}
+        error={errors.endDate}
+      />
+
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+      />
+
       <div className="grid gap-2">
         <Label htmlFor="certainty">Certeza</Label>
         <Select
@@ -565,6 +618,20 @@ export function ProjectForm({
         )}
       </div>
 
+      <PaymentDelayInput
+        value={paymentDelay}
+        onChange={setPaymentDelay}
+        disabled={isSubmitting}
+        error={errors.paymentDelay}
+      />
+
+      <TaxProfileInput
+        value={taxProfile}
+        onChange={setTaxProfile}
+        disabled={isSubmitting}
+        error={errors.taxProfile}
+      />
+
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           Cancelar
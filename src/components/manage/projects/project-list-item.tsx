@@ -1,7 +1,13 @@
 import { Button } from '@/components/ui/button'
 import { Switch } from '@/components/ui/switch'
 import { cn } from '@/lib/utils'
-import type { Project, PaymentSchedule } from '@/types'
+import {
+  FREQUENCY_LABELS,
+  formatPaymentSchedule,
+  formatActivePeriodBadge,
+  formatScheduledAmountChanges,
+} from '@/components/manage/shared/format-utils'
+import { getAmountInEffect, type Project } from '@/types'
 
 interface ProjectListItemProps {
   project: Project
@@ -10,13 +16,6 @@ interface ProjectListItemProps {
   onToggleActive: () => void
 }
 
-const FREQUENCY_LABELS: Record<Project['frequency'], string> = {
-  weekly: 'Semanal',
-  biweekly: 'Quinzenal',
-  'twice-monthly': 'Duas vezes por mês',
-  monthly: 'Mensal',
-}
-
 const CERTAINTY_LABELS: Record<Project['certainty'], string> = {
   guaranteed: 'Garantido',
   probable: 'Provável',
@@ -48,31 +47,7 @@ function formatProjectAmount(project: Project): string {
   if (schedule?.type === 'twiceMonthly' && schedule.firstAmount !== undefined && schedule.secondAmount !== undefined) {
     return `${formatCurrency(schedule.firstAmount)} / ${formatCurrency(schedule.secondAmount)}`
   }
-  return formatCurrency(project.amount)
-}
-
-const WEEKDAY_LABELS: Record<number, string> = {
-  1: 'Segunda-feira',
-  2: 'Terça-feira',
-  3: 'Quarta-feira',
-  4: 'Quinta-feira',
-  5: 'Sexta-feira',
-  6: 'Sábado',
-  7: 'Domingo',
-}
-
-function formatPaymentSchedule(schedule: PaymentSchedule | undefined): string {
-  if (schedule) {
-    switch (schedule.type) {
-      case 'dayOfWeek':
-        return WEEKDAY_LABELS[schedule.dayOfWeek] || `Dia ${schedule.dayOfWeek}`
-      case 'dayOfMonth':
-        return `Dia ${schedule.dayOfMonth}`
-      case 'twiceMonthly':
-        return `Dias ${schedule.firstDay} e ${schedule.secondDay}`
-    }
-  }
-  return 'Não definido'
+  return formatCurrency(getAmountInEffect(project, new Date()))
 }
 
 export function ProjectListItem({
@@ -81,6 +56,9 @@ export function ProjectListItem({
   onDelete,
   onToggleActive,
 }: ProjectListItemProps) {
+  const scheduledChanges = formatScheduledAmountChanges(project.amountChanges)
+  const activePeriodBadge = formatActivePeriodBadge(project)
+
   return (
     <div
       className={cn(
@@ -103,10 +81,20 @@ export function ProjectListItem({
           {!project.isActive && (
             <span className="text-xs bg-muted px-2 py-0.5 rounded">Inativo</span>
           )}
+          {activePeriodBadge && (
+            <span className="text-xs bg-primary/10 text-primary px-2 py-0.5 rounded font-medium">
+              {activePeriodBadge}
+            </span>
+          )}
         </div>
         <div className="text-sm text-muted-foreground mt-1">
           {formatPaymentSchedule(project.paymentSchedule)}
         </div>
+        {scheduledChanges && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Alteração programada: {scheduledChanges}
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-3">
@@ -11,11 +11,34 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { SingleShotIncomeInputSchema, type SingleShotIncome } from '@/types'
+import { TargetAccountSelect } from '@/components/manage/shared/target-account-select'
+import { PaymentDelayInput } from '@/components/manage/shared/payment-delay-input'
+import {
+  buildPaymentDelay,
+  getPaymentDelayDraft,
+} from '@/components/manage/shared/payment-delay-draft'
+import { TaxProfileInput } from '@/components/manage/shared/tax-profile-input'
+import { buildTaxProfile, getTaxProfileDraft } from '@/components/manage/shared/tax-profile-draft'
+import {
+  SingleShotIncomeInputSchema,
+  type BankAccount,
+  type PaymentDelay,
+  type SingleShotIncome,
+  type TaxProfile,
+} from '@/types'
 
 interface SingleShotIncomeFormProps {
   income?: SingleShotIncome
-  onSubmit: (data: { name: string; amount: number; date: Date; certainty: 'guaranteed' | 'probable' | 'uncertain' }) => Promise<void>
+  accounts: BankAccount[]
+  onSubmit: (data: {
+    name: string
+    amount: number
+    date: Date
+    certainty: 'guaranteed' | 'probable' | 'uncertain'
+    accountId: string | null
+    paymentDelay: PaymentDelay | null
+    taxProfile: TaxProfile | null
+  }) => Promise<void>
   onCancel: () => void
   isSubmitting: boolean
 }
@@ -28,6 +51,7 @@ const CERTAINTY_OPTIONS = [
 
 export function SingleShotIncomeForm({
   income,
+  accounts,
   onSubmit,
   onCancel,
   isSubmitting,
@@ -43,6 +67,11 @@ export function SingleShotIncomeForm({
   const [certainty, setCertainty] = useState<'guaranteed' | 'probable' | 'uncertain'>(
     income?.certainty ?? 'probable'
   )
+  const [accountId, setAccountId] = useState<string | null>(income?.accountId ?? null)
+  const [paymentDelay, setPaymentDelay] = useState(() =>
+    getPaymentDelayDraft(income?.paymentDelay)
+  )
+  const [taxProfile, setTaxProfile] = useState(() => getTaxProfileDraft(income?.taxProfile))
   const [errors, setErrors] = useState<Record<string, string>>({})
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -57,6 +86,9 @@ export function SingleShotIncomeForm({
       // Parse date consistently using date-fns to avoid timezone issues
       date: date ? parse(date, 'yyyy-MM-dd', startOfDay(new Date())) : startOfDay(new Date()),
       certainty,
+      accountId,
+      paymentDelay: buildPaymentDelay(paymentDelay),
+      taxProfile: buildTaxProfile(taxProfile),
     }
 
     const result = SingleShotIncomeInputSchema.safeParse(formData)
@@ -75,6 +107,9 @@ export function SingleShotIncomeForm({
       amount: result.data.amount,
       date: result.data.date,
       certainty: result.data.certainty,
+      accountId: result.data.accountId ?? null,
+      paymentDelay: result.data.paymentDelay ?? null,
+      taxProfile: result.data.taxProfile ?? null,
     })
   }
 
@@ -164,6 +199,27 @@ export function SingleShotIncomeForm({
         </p>
       </div>
 
+      <TargetAccountSelect
+        accounts={accounts}
+        value={accountId}
+        onChange={setAccountId}
+        disabled={isSubmitting}
+      />
+
+      <PaymentDelayInput
+        value={paymentDelay}
+        onChange={setPaymentDelay}
+        disabled={isSubmitting}
+        error={errors.paymentDelay}
+      />
+
+      <TaxProfileInput
+        value={taxProfile}
+        onChange={setTaxProfile}
+        disabled={isSubmitting}
+        error={errors.taxProfile}
+      />
+
       <div className="flex justify-end gap-2 pt-4">
         <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
           Cancelar
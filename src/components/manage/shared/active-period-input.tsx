@@ -0,0 +1,58 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+/**
+ * Optional start and end dates (yyyy-MM-dd as typed) of a recurring item.
+ */
+export function ActivePeriodInput({
+  startDate,
+  endDate,
+  onStartDateChange,
+  onEndDateChange,
+  disabled,
+  error,
+}: {
+  startDate: string
+  endDate: string
+  onStartDateChange: (value: string) => void
+  onEndDateChange: (value: string) => void
+  disabled: boolean
+  error?: string
+}) {
+  return (
+    <div className="grid gap-2">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="startDate">Início (opcional)</Label>
+          <Input
+            id="startDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => onStartDateChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="endDate">Término (opcional)</Label>
+          <Input
+            id="endDate"
+            type="date"
+            value={endDate}
+            onChange={(e) => onEndDateChange(e.target.value)}
+            disabled={disabled}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'endDate-error' : undefined}
+          />
+        </div>
+      </div>
+      {error && (
+        <p id="endDate-error" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Pagamentos fora deste período não entram na projeção.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+/**
+ * Form state of a scheduled amount change (amount in reais as typed).
+ */
+export interface AmountChangeDraft {
+  effectiveDate: string
+  amount: string
+}
+
+const MAX_AMOUNT_CHANGES = 24
+
+/**
+ * Editable list of scheduled amount changes ("a partir de 01/03/2026, R$ X").
+ */
+export function AmountChangesInput({
+  changes,
+  onChange,
+  disabled,
+  error,
+}: {
+  changes: AmountChangeDraft[]
+  onChange: (changes: AmountChangeDraft[]) => void
+  disabled: boolean
+  error?: string
+}) {
+  const updateChange = (index: number, patch: Partial<AmountChangeDraft>) => {
+    onChange(changes.map((change, i) => (i === index ? { ...change, ...patch } : change)))
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label>Alterações de Valor Programadas</Label>
+      {changes.map((change, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">A partir de</span>
+          <Input
+            id={`amountChangeDate-${index}`}
+            type="date"
+            aria-label="Data de vigência"
+            value={change.effectiveDate}
+            onChange={(e) => updateChange(index, { effectiveDate: e.target.value })}
+            disabled={disabled}
+            aria-invalid={!!error}
+            className="w-40"
+          />
+          <CurrencyInput
+            id={`amountChangeAmount-${index}`}
+            aria-label="Novo valor"
+            value={change.amount}
+            onChange={(value) => updateChange(index, { amount: value })}
+            disabled={disabled}
+            aria-invalid={!!error}
+            className="w-36"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(changes.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="h-8 px-2 text-muted-foreground hover:text-destructive"
+          >
+            Remover
+          </Button>
+        </div>
+      ))}
+      {changes.length < MAX_AMOUNT_CHANGES && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...changes, { effectiveDate: '', amount: '' }])}
+          disabled={disabled}
+          className="justify-self-start"
+        >
+          Programar alteração
+        </Button>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {changes.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          A projeção usa o valor em vigor na data de cada pagamento, como reajustes e aumentos.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,15 @@
  */
 
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
-import { formatCurrency, formatRelativeTime, isStale, getBalanceFreshness } from './format-utils'
+import {
+  formatCurrency,
+  formatRelativeTime,
+  isStale,
+  getBalanceFreshness,
+  formatPaymentSchedule,
+  formatScheduledAmountChanges,
+  formatActivePeriodBadge,
+} from './format-utils'
 
 /**
  * Normalize spaces in currency strings for comparison.
@@ -291,3 +299,104 @@ describe('getBalanceFreshness', () => {
   })
 })
 
+// =============================================================================
+// formatPaymentSchedule TESTS
+// =============================================================================
+
+describe('formatPaymentSchedule', () => {
+  it('formats monthly and weekly schedules', () => {
+    expect(formatPaymentSchedule({ type: 'dayOfMonth', dayOfMonth: 5 })).toBe('Dia 5')
+    expect(formatPaymentSchedule({ type: 'dayOfWeek', dayOfWeek: 1 })).toBe('Segunda-feira')
+  })
+
+  it('formats every-N-months schedules with their anchor', () => {
+    expect(
+      formatPaymentSchedule({
+        type: 'everyNMonths',
+        intervalMonths: 3,
+        dayOfMonth: 10,
+        anchorMonth: 2,
+        anchorYear: 2025,
+      })
+    ).toBe('Dia 10, a cada 3 meses (desde 02/2025)')
+  })
+
+  it('formats yearly schedules as DD/MM dates', () => {
+    expect(
+      formatPaymentSchedule({
+        type: 'yearly',
+        dates: [
+          { month: 1, day: 20 },
+          { month: 7, day: 5 },
+        ],
+      })
+    ).toBe('Todo ano em 20/01, 05/07')
+  })
+})
+
+// =============================================================================
+// formatScheduledAmountChanges TESTS
+// =============================================================================
+
+describe('formatScheduledAmountChanges', () => {
+  const today = new Date(2026, 1, 15)
+
+  it('returns null without changes', () => {
+    expect(formatScheduledAmountChanges(undefined, today)).toBeNull()
+    expect(formatScheduledAmountChanges([], today)).toBeNull()
+  })
+
+  it('ignores changes already in effect', () => {
+    expect(
+      formatScheduledAmountChanges([{ effectiveDate: '2026-02-15', amount: 550000 }], today)
+    ).toBeNull()
+  })
+
+  it('lists upcoming changes in effective date order', () => {
+    const result = formatScheduledAmountChanges(
+      [
+        { effectiveDate: '2026-09-01', amount: 600000 },
+        { effectiveDate: '2026-03-01', amount: 550000 },
+      ],
+      today
+    )
+
+    expect(normalizeSpaces(result!)).toBe(
+      'R$ 5.500,00 a partir de 01/03/2026 · R$ 6.000,00 a partir de 01/09/2026'
+    )
+  })
+})
+
+// =============================================================================
+// formatActivePeriodBadge TESTS
+// =============================================================================
+
+describe('formatActivePeriodBadge', () => {
+  const today = new Date(2026, 1, 15, 14, 30)
+
+  it('returns null for open-ended items', () => {
+    expect(formatActivePeriodBadge({}, today)).toBeNull()
+    expect(formatActivePeriodBadge({ startDate: null, endDate: null }, today)).toBeNull()
+    expect(formatActivePeriodBadge({ startDate: new Date(2026, 0, 1) }, today)).toBeNull()
+  })
+
+  it('counts calendar days until the end date', () => {
+    expect(formatActivePeriodBadge({ endDate: new Date(2026, 1, 27) }, today)).toBe('Termina em 12 dias')
+    expect(formatActivePeriodBadge({ endDate: new Date(2026, 1, 16) }, today)).toBe('Termina amanhã')
+    expect(formatActivePeriodBadge({ endDate: new Date(2026, 1, 15) }, today)).toBe('Termina hoje')
+  })
+
+  it('marks items whose end date has passed', () => {
+    expect(formatActivePeriodBadge({ endDate: new Date(2026, 1, 14) }, today)).toBe('Encerrado')
+  })
+
+  it('shows when a future item starts', () => {
+    expect(
+      formatActivePeriodBadge(
+        { startDate: new Date(2026, 2, 1), endDate: new Date(2026, 5, 30) },
+        today
+      )
+    ).toBe('Começa em 14 dias')
+    expect(formatActivePeriodBadge({ startDate: new Date(2026, 1, 16) }, today)).toBe('Começa amanhã')
+  })
+})
@@ -1,3 +1,6 @@
+import { differenceInCalendarDays, format } from 'date-fns'
+import type { AmountChange, Frequency, PaymentSchedule } from '@/types'
+
 /**
  * Format a number in cents to Brazilian Real currency format.
  */
@@ -70,3 +73,99 @@ export function getBalanceFreshness(date: Date | undefined): BalanceFreshness {
   return 'stale'
 }
 
+
+/**
+ * Human-readable labels for recurring frequencies.
+ */
+export const FREQUENCY_LABELS: Record<Frequency, string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  'twice-monthly': 'Duas vezes por mês',
+  monthly: 'Mensal',
+  'every-n-months': 'A cada N meses',
+  yearly: 'Anual',
+}
+
+const WEEKDAY_LABELS: Record<number, string> = {
+  1: 'Segunda-feira',
+  2: 'Terça-feira',
+  3: 'Quarta-feira',
+  4: 'Quinta-feira',
+  5: 'Sexta-feira',
+  6: 'Sábado',
+  7: 'Domingo',
+}
+
+function padTwo(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+/**
+ * Describe a payment schedule in Portuguese (e.g. "Dia 10", "Todo ano em 10/01").
+ */
+export function formatPaymentSchedule(schedule: PaymentSchedule | undefined): string {
+  if (schedule) {
+    switch (schedule.type) {
+      case 'dayOfWeek':
+        return WEEKDAY_LABELS[schedule.dayOfWeek] || `Dia ${schedule.dayOfWeek}`
+      case 'dayOfMonth':
+        return `Dia ${schedule.dayOfMonth}`
+      case 'twiceMonthly':
+        return `Dias ${schedule.firstDay} e ${schedule.secondDay}`
+      case 'everyNMonths':
+        return `Dia ${schedule.dayOfMonth}, a cada ${schedule.intervalMonths} meses (desde ${padTwo(schedule.anchorMonth)}/${schedule.anchorYear})`
+      case 'yearly':
+        return `Todo ano em ${schedule.dates
+          .map((d) => `${padTwo(d.day)}/${padTwo(d.month)}`)
+          .join(', ')}`
+    }
+  }
+  return 'Não definido'
+}
+
+/**
+ * Describe the amount changes scheduled after today
+ * (e.g. "R$ 5.500,00 a partir de 01/03/2026"), or null when there are none.
+ */
+export function formatScheduledAmountChanges(
+  changes: AmountChange[] | undefined,
+  today: Date = new Date()
+): string | null {
+  const todayKey = format(today, 'yyyy-MM-dd')
+  const upcoming = (changes ?? [])
+    .filter((change) => change.effectiveDate > todayKey)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+  if (upcoming.length === 0) return null
+
+  return upcoming
+    .map((change) => {
+      const [year, month, day] = change.effectiveDate.split('-')
+      return `${formatCurrency(change.amount)} a partir de ${day}/${month}/${year}`
+    })
+    .join(' · ')
+}
+
+function formatDaysAhead(days: number): string {
+  return days === 1 ? 'amanhã' : `em ${days} dias`
+}
+
+/**
+ * Describe where today falls in a recurring item's start/end dates
+ * (e.g. "Termina em 12 dias", "Começa amanhã", "Encerrado"), or null when open-ended.
+ */
+export function formatActivePeriodBadge(
+  item: { startDate?: Date | null; endDate?: Date | null },
+  today: Date = new Date()
+): string | null {
+  if (item.startDate) {
+    const daysToStart = differenceInCalendarDays(item.startDate, today)
+    if (daysToStart > 0) return `Começa ${formatDaysAhead(daysToStart)}`
+  }
+  if (item.endDate) {
+    const daysToEnd = differenceInCalendarDays(item.endDate, today)
+    if (daysToEnd < 0) return 'Encerrado'
+    if (daysToEnd === 0) return 'Termina hoje'
+    return `Termina ${formatDaysAhead(daysToEnd)}`
+  }
+  return null
+}
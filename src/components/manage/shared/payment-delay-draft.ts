@@ -0,0 +1,34 @@
+import type { PaymentDelay } from '@/types'
+
+export type PaymentDelayMode = 'none' | 'fixed' | 'range'
+
+/**
+ * Form state of a payment delay. Fixed delays only use maxDays.
+ */
+export interface PaymentDelayDraft {
+  mode: PaymentDelayMode
+  minDays: string
+  maxDays: string
+}
+
+export function getPaymentDelayDraft(delay: PaymentDelay | null | undefined): PaymentDelayDraft {
+  if (!delay) return { mode: 'none', minDays: '', maxDays: '' }
+  return {
+    mode: delay.minDays === delay.maxDays ? 'fixed' : 'range',
+    minDays: String(delay.minDays),
+    maxDays: String(delay.maxDays),
+  }
+}
+
+/**
+ * Build the payment delay to validate (null when the income pays on time).
+ * Empty fields become 0 so the schema reports them.
+ */
+export function buildPaymentDelay(draft: PaymentDelayDraft): PaymentDelay | null {
+  if (draft.mode === 'none') return null
+  const maxDays = Number(draft.maxDays) || 0
+  return {
+    minDays: draft.mode === 'fixed' ? maxDays : Number(draft.minDays) || 0,
+    maxDays,
+  }
+}
@@ -0,0 +1,92 @@
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { MAX_PAYMENT_DELAY_DAYS } from '@/types'
+import type { PaymentDelayDraft, PaymentDelayMode } from '@/components/manage/shared/payment-delay-draft'
+
+interface PaymentDelayInputProps {
+  value: PaymentDelayDraft
+  onChange: (draft: PaymentDelayDraft) => void
+  disabled: boolean
+  error?: string
+}
+
+/**
+ * Typical delay between an income's scheduled date and the day the money arrives.
+ */
+export function PaymentDelayInput({ value, onChange, disabled, error }: PaymentDelayInputProps) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="paymentDelayMode">Atraso Típico</Label>
+      <Select
+        value={value.mode}
+        onValueChange={(mode) => onChange({ ...value, mode: mode as PaymentDelayMode })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="paymentDelayMode">
+          <SelectValue placeholder="Selecione o atraso" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Paga na data</SelectItem>
+          <SelectItem value="fixed">Dias fixos</SelectItem>
+          <SelectItem value="range">Entre um mínimo e um máximo</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.mode !== 'none' && (
+        <div className="flex items-center gap-2">
+          {value.mode === 'range' && (
+            <>
+              <Input
+                id="paymentDelayMinDays"
+                type="number"
+                min={0}
+                max={MAX_PAYMENT_DELAY_DAYS}
+                value={value.minDays}
+                onChange={(e) => onChange({ ...value, minDays: e.target.value })}
+                placeholder="5"
+                disabled={disabled}
+                aria-label="Atraso mínimo em dias"
+                aria-invalid={!!error}
+                className="w-24"
+              />
+              <span className="text-sm text-muted-foreground">a</span>
+            </>
+          )}
+          <Input
+            id="paymentDelayMaxDays"
+            type="number"
+            min={1}
+            max={MAX_PAYMENT_DELAY_DAYS}
+            value={value.maxDays}
+            onChange={(e) => onChange({ ...value, maxDays: e.target.value })}
+            placeholder={value.mode === 'range' ? '15' : '10'}
+            disabled={disabled}
+            aria-label={value.mode === 'range' ? 'Atraso máximo em dias' : 'Atraso em dias'}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'paymentDelay-error' : undefined}
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">dias após a data prevista</span>
+        </div>
+      )}
+
+      {error && (
+        <p id="paymentDelay-error" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+      {value.mode !== 'none' && (
+        <p className="text-xs text-muted-foreground">
+          O cenário otimista conta a receita na data prevista; o pessimista, com o maior atraso.
+        </p>
+      )}
+    </div>
+  )
+}
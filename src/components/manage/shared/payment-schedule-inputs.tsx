@@ -0,0 +1,465 @@
+import { Button } from '@/components/ui/button'
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { MONTH_NAMES, type BusinessDayRollover } from '@/types'
+
+// ISO 8601 weekdays: 1 = Monday, 7 = Sunday
+const WEEKDAYS = [
+  { value: 1, label: 'Segunda-feira' },
+  { value: 2, label: 'Terça-feira' },
+  { value: 3, label: 'Quarta-feira' },
+  { value: 4, label: 'Quinta-feira' },
+  { value: 5, label: 'Sexta-feira' },
+  { value: 6, label: 'Sábado' },
+  { value: 7, label: 'Domingo' },
+] as const
+
+/**
+ * Day of week select component for weekly frequency.
+ */
+export function DayOfWeekSelect({
+  value,
+  onChange,
+  disabled,
+  error,
+}: {
+  value: number
+  onChange: (value: number) => void
+  disabled: boolean
+  error?: string
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="dayOfWeek">Dia do Pagamento</Label>
+      <Select
+        value={value.toString()}
+        onValueChange={(v) => onChange(parseInt(v, 10))}
+        disabled={disabled}
+      >
+        <SelectTrigger id="dayOfWeek" aria-invalid={!!error}>
+          <SelectValue placeholder="Selecione o dia" />
+        </SelectTrigger>
+        <SelectContent>
+          {WEEKDAYS.map(({ value, label }) => (
+            <SelectItem key={value} value={value.toString()}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+const BUSINESS_DAY_ROLLOVER_OPTIONS: ReadonlyArray<{ value: BusinessDayRollover; label: string }> = [
+  { value: 'none', label: 'Manter a data' },
+  { value: 'previous', label: 'Dia útil anterior' },
+  { value: 'next', label: 'Próximo dia útil' },
+]
+
+/**
+ * Select for how a payment moves when it falls on a weekend or holiday.
+ */
+export function BusinessDayRolloverSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: BusinessDayRollover
+  onChange: (value: BusinessDayRollover) => void
+  disabled: boolean
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="businessDayRollover">Em fins de semana e feriados</Label>
+      <Select
+        value={value}
+        onValueChange={(v) => onChange(v as BusinessDayRollover)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="businessDayRollover">
+          <SelectValue placeholder="Selecione" />
+        </SelectTrigger>
+        <SelectContent>
+          {BUSINESS_DAY_ROLLOVER_OPTIONS.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+/**
+ * Reference payday input for biweekly frequency.
+ * The chosen date fixes both the weekday and the 14-day cadence.
+ */
+export function AnchorDateInput({
+  value,
+  onChange,
+  disabled,
+  error,
+}: {
+  value: string
+  onChange: (value: string) => void
+  disabled: boolean
+  error?: string
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="anchorDate">Data do último ou próximo pagamento</Label>
+      <Input
+        id="anchorDate"
+        type="date"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        aria-invalid={!!error}
+        aria-describedby={error ? 'anchorDate-error' : undefined}
+      />
+      {error ? (
+        <p id="anchorDate-error" className="text-sm text-destructive">
+          {error}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Os pagamentos seguem a cada 14 dias a partir desta data.
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Day of month input component for monthly frequency.
+ */
+export function DayOfMonthInput({
+  value,
+  onChange,
+  disabled,
+  error,
+}: {
+  value: number
+  onChange: (value: number) => void
+  disabled: boolean
+  error?: string
+}) {
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="dayOfMonth">Dia do Pagamento</Label>
+      <Input
+        id="dayOfMonth"
+        type="number"
+        placeholder="1-31"
+        value={value || ''}
+        onChange={(e) => onChange(parseInt(e.target.value, 10) || 0)}
+        min="1"
+        max="31"
+        disabled={disabled}
+        aria-invalid={!!error}
+        aria-describedby={error ? 'dayOfMonth-error' : undefined}
+      />
+      {error && (
+        <p id="dayOfMonth-error" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Twice monthly input component for twice-monthly frequency.
+ */
+export function TwiceMonthlyInput({
+  firstDay,
+  secondDay,
+  onFirstDayChange,
+  onSecondDayChange,
+  disabled,
+  firstDayError,
+  secondDayError,
+}: {
+  firstDay: number
+  secondDay: number
+  onFirstDayChange: (value: number) => void
+  onSecondDayChange: (value: number) => void
+  disabled: boolean
+  firstDayError?: string
+  secondDayError?: string
+}) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="grid gap-2">
+        <Label htmlFor="firstDay">Primeiro Dia de Pagamento</Label>
+        <Input
+          id="firstDay"
+          type="number"
+          placeholder="1-31"
+          value={firstDay || ''}
+          onChange={(e) => onFirstDayChange(parseInt(e.target.value, 10) || 0)}
+          min="1"
+          max="31"
+          disabled={disabled}
+          aria-invalid={!!firstDayError}
+          aria-describedby={firstDayError ? 'firstDay-error' : undefined}
+        />
+        {firstDayError && (
+          <p id="firstDay-error" className="text-sm text-destructive">
+            {firstDayError}
+          </p>
+        )}
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="secondDay">Segundo Dia de Pagamento</Label>
+        <Input
+          id="secondDay"
+          type="number"
+          placeholder="1-31"
+          value={secondDay || ''}
+          onChange={(e) => onSecondDayChange(parseInt(e.target.value, 10) || 0)}
+          min="1"
+          max="31"
+          disabled={disabled}
+          aria-invalid={!!secondDayError}
+          aria-describedby={secondDayError ? 'secondDay-error' : undefined}
+        />
+        {secondDayError && (
+          <p id="secondDay-error" className="text-sm text-destructive">
+            {secondDayError}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Every-N-months input component (interval, day and first payment month).
+ */
+export function EveryNMonthsInput({
+  intervalMonths,
+  dayOfMonth,
+  anchorMonth,
+  anchorYear,
+  onIntervalMonthsChange,
+  onDayOfMonthChange,
+  onAnchorMonthChange,
+  onAnchorYearChange,
+  disabled,
+  intervalError,
+  dayOfMonthError,
+  anchorError,
+}: {
+  intervalMonths: number
+  dayOfMonth: number
+  anchorMonth: number
+  anchorYear: number
+  onIntervalMonthsChange: (value: number) => void
+  onDayOfMonthChange: (value: number) => void
+  onAnchorMonthChange: (value: number) => void
+  onAnchorYearChange: (value: number) => void
+  disabled: boolean
+  intervalError?: string
+  dayOfMonthError?: string
+  anchorError?: string
+}) {
+  return (
+    <div className="grid gap-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="intervalMonths">A cada quantos meses</Label>
+          <Input
+            id="intervalMonths"
+            type="number"
+            placeholder="2-12"
+            value={intervalMonths || ''}
+            onChange={(e) => onIntervalMonthsChange(parseInt(e.target.value, 10) || 0)}
+            min="2"
+            max="12"
+            disabled={disabled}
+            aria-invalid={!!intervalError}
+            aria-describedby={intervalError ? 'intervalMonths-error' : undefined}
+          />
+          {intervalError && (
+            <p id="intervalMonths-error" className="text-sm text-destructive">
+              {intervalError}
+            </p>
+          )}
+        </div>
+        <DayOfMonthInput
+          value={dayOfMonth}
+          onChange={onDayOfMonthChange}
+          disabled={disabled}
+          error={dayOfMonthError}
+        />
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="grid gap-2">
+          <Label htmlFor="anchorMonth">Mês de um pagamento</Label>
+          <Select
+            value={anchorMonth.toString()}
+            onValueChange={(v) => onAnchorMonthChange(parseInt(v, 10))}
+            disabled={disabled}
+          >
+            <SelectTrigger id="anchorMonth" aria-invalid={!!anchorError}>
+              <SelectValue placeholder="Selecione o mês" />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_NAMES.map((label, index) => (
+                <SelectItem key={label} value={(index + 1).toString()}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="anchorYear">Ano</Label>
+          <Input
+            id="anchorYear"
+            type="number"
+            value={anchorYear || ''}
+            onChange={(e) => onAnchorYearChange(parseInt(e.target.value, 10) || 0)}
+            min="2020"
+            disabled={disabled}
+            aria-invalid={!!anchorError}
+            aria-describedby={anchorError ? 'anchor-error' : undefined}
+          />
+        </div>
+      </div>
+      {anchorError && (
+        <p id="anchor-error" className="text-sm text-destructive">
+          {anchorError}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Editable yearly date row. The optional amount is kept in reais (form format).
+ */
+export interface YearlyDateDraft {
+  month: number
+  day: number
+  amount?: string
+}
+
+/**
+ * Yearly dates input component (one or more month/day pairs).
+ * With `showAmounts`, each date gets an optional amount overriding the base amount.
+ */
+export function YearlyDatesInput({
+  dates,
+  onChange,
+  disabled,
+  error,
+  showAmounts = false,
+}: {
+  dates: YearlyDateDraft[]
+  onChange: (dates: YearlyDateDraft[]) => void
+  disabled: boolean
+  error?: string
+  showAmounts?: boolean
+}) {
+  const updateDate = (index: number, patch: Partial<YearlyDateDraft>) => {
+    onChange(dates.map((date, i) => (i === index ? { ...date, ...patch } : date)))
+  }
+
+  return (
+    <div className="grid gap-2">
+      <Label>Datas no ano</Label>
+      {dates.map((date, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={date.month.toString()}
+            onValueChange={(v) => updateDate(index, { month: parseInt(v, 10) })}
+            disabled={disabled}
+          >
+            <SelectTrigger
+              id={`yearlyMonth-${index}`}
+              aria-label="Mês"
+              aria-invalid={!!error}
+              className="flex-1"
+            >
+              <SelectValue placeholder="Mês" />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_NAMES.map((label, monthIndex) => (
+                <SelectItem key={label} value={(monthIndex + 1).toString()}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            id={`yearlyDay-${index}`}
+            type="number"
+            aria-label="Dia"
+            placeholder="1-31"
+            value={date.day || ''}
+            onChange={(e) => updateDate(index, { day: parseInt(e.target.value, 10) || 0 })}
+            min="1"
+            max="31"
+            disabled={disabled}
+            aria-invalid={!!error}
+            className="w-24"
+          />
+          {showAmounts && (
+            <CurrencyInput
+              id={`yearlyAmount-${index}`}
+              aria-label="Valor nesta data"
+              placeholder="Valor padrão"
+              value={date.amount ?? ''}
+              onChange={(value) => updateDate(index, { amount: value })}
+              disabled={disabled}
+              className="w-36"
+            />
+          )}
+          {dates.length > 1 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(dates.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="h-8 px-2 text-muted-foreground hover:text-destructive"
+            >
+              Remover
+            </Button>
+          )}
+        </div>
+      ))}
+      {dates.length < 12 && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...dates, { month: 1, day: dates[dates.length - 1]?.day ?? 1 }])}
+          disabled={disabled}
+          className="justify-self-start"
+        >
+          Adicionar data
+        </Button>
+      )}
+      {showAmounts && (
+        <p className="text-xs text-muted-foreground">
+          Deixe o valor em branco para usar o valor do pagamento.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
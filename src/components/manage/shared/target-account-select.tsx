@@ -0,0 +1,61 @@
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { BankAccount } from '@/types'
+
+const DEFAULT_ACCOUNT_VALUE = 'default'
+
+interface TargetAccountSelectProps {
+  accounts: BankAccount[]
+  value: string | null
+  onChange: (accountId: string | null) => void
+  disabled: boolean
+  label?: string
+}
+
+/**
+ * Checking account an income or expense is booked to.
+ * Hidden when the group has a single checking account (nothing to choose).
+ */
+export function TargetAccountSelect({
+  accounts,
+  value,
+  onChange,
+  disabled,
+  label = 'Conta',
+}: TargetAccountSelectProps) {
+  const checkingAccounts = accounts.filter((account) => account.type === 'checking')
+  if (checkingAccounts.length < 2) return null
+
+  const defaultAccount = checkingAccounts.find((account) => account.isDefault) ?? checkingAccounts[0]
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="targetAccount">{label}</Label>
+      <Select
+        value={value ?? DEFAULT_ACCOUNT_VALUE}
+        onValueChange={(next) => onChange(next === DEFAULT_ACCOUNT_VALUE ? null : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger id="targetAccount">
+          <SelectValue placeholder="Selecione a conta" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_ACCOUNT_VALUE}>
+            Conta padrão ({defaultAccount.name})
+          </SelectItem>
+          {checkingAccounts.map((account) => (
+            <SelectItem key={account.id} value={account.id}>
+              {account.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
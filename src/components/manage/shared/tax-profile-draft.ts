@@ -0,0 +1,42 @@
+import type { TaxProfile } from '@/types'
+
+export type TaxProfileMode = 'none' | TaxProfile['type']
+
+/**
+ * Form state of a tax profile (revenue in reais as typed).
+ */
+export interface TaxProfileDraft {
+  mode: TaxProfileMode
+  rate: string
+  annex: 'III' | 'V'
+  annualRevenue: string
+}
+
+export function getTaxProfileDraft(profile: TaxProfile | null | undefined): TaxProfileDraft {
+  return {
+    mode: profile?.type ?? 'none',
+    rate: profile?.type === 'flat' ? String(profile.rate) : '',
+    annex: profile?.type === 'simples' ? profile.annex : 'III',
+    annualRevenue: profile?.type === 'simples' ? (profile.annualRevenue / 100).toFixed(2) : '',
+  }
+}
+
+/**
+ * Build the tax profile to validate (null when no taxes are provisioned).
+ */
+export function buildTaxProfile(draft: TaxProfileDraft): TaxProfile | null {
+  switch (draft.mode) {
+    case 'none':
+      return null
+    case 'flat':
+      return { type: 'flat', rate: parseFloat(draft.rate) || 0 }
+    case 'simples':
+      return {
+        type: 'simples',
+        annex: draft.annex,
+        annualRevenue: Math.round((parseFloat(draft.annualRevenue) || 0) * 100),
+      }
+    case 'carne_leao':
+      return { type: 'carne_leao' }
+  }
+}
@@ -0,0 +1,116 @@
+import { CurrencyInput } from '@/components/ui/currency-input'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getSimplesEffectiveRate } from '@/lib/cashflow/taxes'
+import type { TaxProfileDraft, TaxProfileMode } from '@/components/manage/shared/tax-profile-draft'
+
+interface TaxProfileInputProps {
+  value: TaxProfileDraft
+  onChange: (draft: TaxProfileDraft) => void
+  disabled: boolean
+  error?: string
+}
+
+const TAX_DUE_HINTS: Record<Exclude<TaxProfileMode, 'none'>, string> = {
+  flat: 'Provisionado no dia 20 do mês seguinte ao recebimento.',
+  simples: 'DAS pago no dia 20 do mês seguinte, com a alíquota efetiva da faixa.',
+  carne_leao: 'Tabela progressiva sobre o total do mês, paga no último dia útil do mês seguinte.',
+}
+
+/**
+ * Taxes provisioned on an income: a flat rate, the Simples Nacional DAS or the carnê-leão.
+ */
+export function TaxProfileInput({ value, onChange, disabled, error }: TaxProfileInputProps) {
+  const annualRevenue = Math.round((parseFloat(value.annualRevenue) || 0) * 100)
+  const effectiveRate = getSimplesEffectiveRate(value.annex, annualRevenue) * 100
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor="taxProfileMode">Impostos</Label>
+      <Select
+        value={value.mode}
+        onValueChange={(mode) => onChange({ ...value, mode: mode as TaxProfileMode })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="taxProfileMode">
+          <SelectValue placeholder="Selecione a tributação" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Sem provisão</SelectItem>
+          <SelectItem value="flat">Alíquota fixa</SelectItem>
+          <SelectItem value="simples">Simples Nacional (DAS)</SelectItem>
+          <SelectItem value="carne_leao">Carnê-leão</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.mode === 'flat' && (
+        <div className="flex items-center gap-2">
+          <Input
+            id="taxProfileRate"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={100}
+            step="0.01"
+            value={value.rate}
+            onChange={(e) => onChange({ ...value, rate: e.target.value })}
+            placeholder="6"
+            disabled={disabled}
+            aria-label="Alíquota em porcentagem"
+            aria-invalid={!!error}
+            aria-describedby={error ? 'taxProfile-error' : undefined}
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">% de cada recebimento</span>
+        </div>
+      )}
+
+      {value.mode === 'simples' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={value.annex}
+            onValueChange={(annex) => onChange({ ...value, annex: annex as TaxProfileDraft['annex'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="taxProfileAnnex" aria-label="Anexo do Simples Nacional" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="III">Anexo III</SelectItem>
+              <SelectItem value="V">Anexo V</SelectItem>
+            </SelectContent>
+          </Select>
+          <CurrencyInput
+            id="taxProfileAnnualRevenue"
+            aria-label="Receita bruta dos últimos 12 meses"
+            value={value.annualRevenue}
+            onChange={(annualRevenue) => onChange({ ...value, annualRevenue })}
+            disabled={disabled}
+            aria-invalid={!!error}
+            aria-describedby={error ? 'taxProfile-error' : undefined}
+            className="w-40"
+          />
+          <span className="text-sm text-muted-foreground">
+            RBT12 · alíquota efetiva {effectiveRate.toFixed(2).replace('.', ',')}%
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <p id="taxProfile-error" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+      {value.mode !== 'none' && (
+        <p className="text-xs text-muted-foreground">{TAX_DUE_HINTS[value.mode]}</p>
+      )}
+    </div>
+  )
+}
@@ -38,6 +38,7 @@ import { getStepConfig, isFirstStep, getNextStep, getTotalSteps, getStepIndex }
 import { captureEvent } from '@/lib/analytics/posthog'
 import { startSentrySpan } from '@/lib/observability/sentry'
 import type { BankAccount, OnboardingStep } from '@/types'
+import { createBiweeklySchedule } from '@/types'
 
 function triggerShake(el: HTMLElement | null): void {
   if (!el) return
@@ -939,11 +940,14 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
   const analyticsMeta = { source: 'onboarding' as const }
   const [name, setName] = useState('')
   const [amount, setAmount] = useState('')
+  const [frequency, setFrequency] = useState<'monthly' | 'biweekly'>('monthly')
   const [paymentDay, setPaymentDay] = useState('5')
+  const [anchorDate, setAnchorDate] = useState('')
   const [errors, setErrors] = useState<Record<string, string>>({})
   const nameInputRef = useRef<HTMLInputElement>(null)
   const amountWrapperRef = useRef<HTMLDivElement>(null)
   const amountInputRef = useRef<HTMLInputElement>(null)
+  const anchorInputRef = useRef<HTMLInputElement>(null)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -967,16 +971,21 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
     if (amountValue <= 0) {
       nextErrors.amount = 'Valor deve ser maior que zero'
     }
+    if (frequency === 'biweekly' && !anchorDate) {
+      nextErrors.anchorDate = 'Informe a data de um pagamento'
+    }
 
     if (Object.keys(nextErrors).length > 0) {
       setErrors(nextErrors)
-      const firstKey = nextErrors.name ? 'name' : 'amount'
+      const firstKey = nextErrors.name ? 'name' : nextErrors.amount ? 'amount' : 'anchorDate'
       const message = nextErrors[firstKey] ?? 'Preencha os campos obrigatórios'
       showError(message)
       if (firstKey === 'name') {
         shakeNextFrame(nameInputRef.current)
-      } else {
+      } else if (firstKey === 'amount') {
         shakeNextFrame(amountWrapperRef.current, amountInputRef.current)
+      } else {
+        shakeNextFrame(anchorInputRef.current)
       }
       return
     }
@@ -988,11 +997,13 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
         type: 'recurring',
         name: trimmedName,
         amount: Math.round(amountValue * 100),
-        frequency: 'monthly',
-        paymentSchedule: {
-          type: 'dayOfMonth',
-          dayOfMonth: parseInt(paymentDay) || 5,
-        },
+        frequency,
+        paymentSchedule: frequency === 'biweekly'
+          ? createBiweeklySchedule(anchorDate)
+          : {
+            type: 'dayOfMonth',
+            dayOfMonth: parseInt(paymentDay) || 5,
+          },
         certainty: 'guaranteed',
         isActive: true,
       }, analyticsMeta)
@@ -1045,7 +1056,9 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
 
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="grid gap-2">
-          <Label htmlFor="income-amount">Valor Mensal</Label>
+          <Label htmlFor="income-amount">
+            {frequency === 'biweekly' ? 'Valor do Pagamento' : 'Valor Mensal'}
+          </Label>
           <div ref={amountWrapperRef}>
             <CurrencyInput
               ref={amountInputRef}
@@ -1074,6 +1087,25 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
           )}
         </div>
 
+        <div className="grid gap-2">
+          <Label htmlFor="income-frequency">Frequência</Label>
+          <Select
+            value={frequency}
+            onValueChange={(value) => setFrequency(value as 'monthly' | 'biweekly')}
+            disabled={isSubmitting}
+          >
+            <SelectTrigger id="income-frequency">
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="monthly">Mensal</SelectItem>
+              <SelectItem value="biweekly">Quinzenal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {frequency === 'monthly' ? (
         <div className="grid gap-2">
           <Label htmlFor="income-day">Dia do Pagamento</Label>
           <Select value={paymentDay} onValueChange={setPaymentDay} disabled={isSubmitting}>
@@ -1094,7 +1126,36 @@ function IncomeStep({ onComplete, onBack, isSubmitting, setIsSubmitting, showErr
             </p>
           )}
         </div>
-      </div>
+      ) : (
+        <div className="grid gap-2">
+          <Label htmlFor="income-anchor">Data do último ou próximo pagamento</Label>
+          <Input
+            ref={anchorInputRef}
+            id="income-anchor"
+            type="date"
+            value={anchorDate}
+            onChange={(e) => {
+              setAnchorDate(e.target.value)
+              if (errors.anchorDate) {
+                setErrors(prev => {
+                  const nextErrors = { ...prev }
+                  delete nextErrors.anchorDate
+                  return nextErrors
+                })
+              }
+            }}
+            disabled={isSubmitting}
+            aria-invalid={!!errors.anchorDate}
+            aria-describedby={errors.anchorDate ? 'income-anchor-error' : undefined}
+            className={errors.anchorDate ? '!border-destructive focus-visible:!ring-destructive' : undefined}
+          />
+          {errors.anchorDate && (
+            <p id="income-anchor-error" className="sr-only">
+              {errors.anchorDate}
+            </p>
+          )}
+        </div>
+      )}
 
       <StepNavigation onBack={onBack} isSubmitting={isSubmitting} />
     </form>
@@ -8,9 +8,12 @@ interface CurrencyInputProps {
   /** Called with value in reais as string */
   onChange: (value: string) => void
   placeholder?: string
+  /** Accept negative values: typing "-" anywhere in the input makes the value negative */
+  allowNegative?: boolean
   disabled?: boolean
   className?: string
   id?: string
+  'aria-label'?: string
   'aria-invalid'?: boolean
   'aria-describedby'?: string
 }
@@ -60,6 +63,14 @@ function formatToBRL(centsString: string): string {
   return `${formattedReais},${cents}`
 }
 
+/**
+ * Format a reais string value (e.g. "-1234.56") for display (e.g. "-1.234,56")
+ */
+function formatReais(value: string): string {
+  const sign = value.startsWith('-') ? '-' : ''
+  return sign + formatToBRL(reaisToCentsString(value.replace('-', '')))
+}
+
 /**
  * Parse a BRL formatted string back to a decimal number string
  */
@@ -86,32 +97,24 @@ export const CurrencyInput = forwardRef<HTMLInputElement, CurrencyInputProps>(
       value,
       onChange,
       placeholder = 'R$ 0,00',
+      allowNegative = false,
       disabled,
       className,
       id,
+      'aria-label': ariaLabel,
       'aria-invalid': ariaInvalid,
       'aria-describedby': ariaDescribedBy,
     },
     ref
   ) {
     // Internal display value with formatting
-    const [displayValue, setDisplayValue] = useState(() => {
-      if (!value) return ''
-      const centsString = reaisToCentsString(value)
-      return formatToBRL(centsString)
-    })
+    const [displayValue, setDisplayValue] = useState(() => (value ? formatReais(value) : ''))
     
     const inputRef = useRef<HTMLInputElement>(null)
 
     // Sync display value when external value changes
     useEffect(() => {
-      if (!value) {
-        setDisplayValue('')
-        return
-      }
-      const centsString = reaisToCentsString(value)
-      const formatted = formatToBRL(centsString)
-      setDisplayValue(formatted)
+      setDisplayValue(value ? formatReais(value) : '')
     }, [value])
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -122,15 +125,16 @@ export const CurrencyInput = forwardRef<HTMLInputElement, CurrencyInputProps>(
       
       // Extract only digits
       const digits = cleanedInput.replace(/\D/g, '')
+      const sign = allowNegative && cleanedInput.includes('-') ? '-' : ''
       
       if (!digits) {
-        setDisplayValue('')
+        setDisplayValue(sign)
         onChange('')
         return
       }
       
       // Format the display value
-      const formatted = formatToBRL(digits)
+      const formatted = sign + formatToBRL(digits)
       
       setDisplayValue(formatted)
       
@@ -160,7 +164,8 @@ export const CurrencyInput = forwardRef<HTMLInputElement, CurrencyInputProps>(
             }
           }}
           type="text"
-          inputMode="numeric"
+          // Numeric keypads have no minus key
+          inputMode={allowNegative ? 'text' : 'numeric'}
           id={id}
           value={displayValue}
           onChange={handleChange}
@@ -168,6 +173,7 @@ export const CurrencyInput = forwardRef<HTMLInputElement, CurrencyInputProps>(
           placeholder={placeholder.replace('R$ ', '')}
           disabled={disabled}
           className={cn('pl-10', className)}
+          aria-label={ariaLabel}
           aria-invalid={ariaInvalid}
           aria-describedby={ariaDescribedBy}
         />
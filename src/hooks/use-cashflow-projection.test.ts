@@ -4,22 +4,20 @@
  */
 
 import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest'
+import { addDays } from 'date-fns'
 import {
-  calculateProjectionWithEstimate,
+  aggregateChartData,
+  getChartGranularity,
   transformToChartData,
+  getAccountLines,
   getDangerRanges,
+  getWorstDangerLevel,
+  transformToGoalProgress,
+  transformToMonthlyStats,
 } from './use-cashflow-projection'
-import type { DailySnapshot } from '@/lib/cashflow/types'
+import type { AccountSummary, CashflowProjection, DailySnapshot } from '@/lib/cashflow/types'
 import type { ChartDataPoint } from '@/components/cashflow/types'
-import type {
-  BankAccount,
-  CreditCard,
-  FixedExpense,
-  FutureStatement,
-  Project,
-  SingleShotExpense,
-  SingleShotIncome,
-} from '@/types'
+import type { SavingsGoal } from '@/types'
 
 /**
  * Helper to create a mock DailySnapshot for testing.
@@ -166,6 +164,36 @@ describe('transformToChartData', () => {
       expect(result[0].pessimisticBalance).toBe(789.01)
       expect(result[0].investmentInclusiveBalance).toBe(1345.67) // (123456 + 11111) / 100
     })
+
+    it('should convert the realistic balance and leave it out for older snapshots', () => {
+      const days: DailySnapshot[] = [
+        createMockSnapshot({ realisticBalance: 98765 }),
+        createMockSnapshot(),
+      ]
+
+      const result = transformToChartData(days, 0)
+
+      expect(result[0].realisticBalance).toBe(987.65)
+      expect(result[1].realisticBalance).toBeUndefined()
+    })
+
+    it('should add the simulated bands in dollars when a simulation is given', () => {
+      const days: DailySnapshot[] = [createMockSnapshot(), createMockSnapshot()]
+      const simulation = {
+        runs: 100,
+        days: [
+          { date: days[0].date, dayOffset: 0, p10: -5000, p50: 10000, p90: 25000, negativeProbability: 0.2 },
+        ],
+        worstRiskDay: null,
+      }
+
+      const result = transformToChartData(days, 0, simulation)
+
+      expect(result[0].simulationBand).toEqual([-50, 250])
+      expect(result[0].simulationMedian).toBe(100)
+      expect(result[0].negativeProbability).toBe(0.2)
+      expect(result[1].simulationBand).toBeUndefined()
+    })
   })
 })
 
@@ -185,6 +213,9 @@ function createMockChartPoint(overrides: Partial<ChartDataPoint> = {}): ChartDat
     investmentInclusiveBalance: 1500,
     isOptimisticDanger: false,
     isPessimisticDanger: false,
+    // Without overdraft limits every danger day is beyond the limit
+    dangerLevel: overrides.isOptimisticDanger || overrides.isPessimisticDanger ? 'beyond_limit' : undefined,
+    accountBalances: {},
     snapshot: createMockSnapshot(),
     ...overrides,
   }
@@ -224,6 +255,7 @@ describe('getDangerRanges', () => {
         start: '2 Jan',
         end: '2 Jan',
         scenario: 'optimistic',
+        severity: 'beyond_limit',
       })
     })
 
@@ -241,6 +273,7 @@ describe('getDangerRanges', () => {
         start: '2 Jan',
         end: '2 Jan',
         scenario: 'pessimistic',
+        severity: 'beyond_limit',
       })
     })
 
@@ -258,6 +291,7 @@ describe('getDangerRanges', () => {
         start: '2 Jan',
         end: '2 Jan',
         scenario: 'both',
+        severity: 'beyond_limit',
       })
     })
   })
@@ -277,6 +311,7 @@ describe('getDangerRanges', () => {
         start: '1 Jan',
         end: '3 Jan',
         scenario: 'optimistic',
+        severity: 'beyond_limit',
       })
     })
 
@@ -295,6 +330,7 @@ describe('getDangerRanges', () => {
         start: '1 Jan',
         end: '3 Jan',
         scenario: 'pessimistic',
+        severity: 'beyond_limit',
       })
     })
 
@@ -311,6 +347,7 @@ describe('getDangerRanges', () => {
         start: '1 Jan',
         end: '2 Jan',
         scenario: 'both',
+        severity: 'beyond_limit',
       })
     })
   })
@@ -326,9 +363,9 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(3)
-      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'pessimistic' })
-      expect(result[1]).toEqual({ start: '2 Jan', end: '2 Jan', scenario: 'both' })
-      expect(result[2]).toEqual({ start: '3 Jan', end: '3 Jan', scenario: 'optimistic' })
+      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'pessimistic', severity: 'beyond_limit' })
+      expect(result[1]).toEqual({ start: '2 Jan', end: '2 Jan', scenario: 'both', severity: 'beyond_limit' })
+      expect(result[2]).toEqual({ start: '3 Jan', end: '3 Jan', scenario: 'optimistic', severity: 'beyond_limit' })
     })
 
     it('should handle alternating danger and safe days', () => {
@@ -341,8 +378,8 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(2)
-      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'optimistic' })
-      expect(result[1]).toEqual({ start: '3 Jan', end: '3 Jan', scenario: 'optimistic' })
+      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'optimistic', severity: 'beyond_limit' })
+      expect(result[1]).toEqual({ start: '3 Jan', end: '3 Jan', scenario: 'optimistic', severity: 'beyond_limit' })
     })
   })
 
@@ -356,7 +393,7 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(1)
-      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'both' })
+      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'both', severity: 'beyond_limit' })
     })
 
     it('should handle danger at end of period', () => {
@@ -368,7 +405,7 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(1)
-      expect(result[0]).toEqual({ start: '2 Jan', end: '2 Jan', scenario: 'pessimistic' })
+      expect(result[0]).toEqual({ start: '2 Jan', end: '2 Jan', scenario: 'pessimistic', severity: 'beyond_limit' })
     })
 
     it('should handle entire period in danger', () => {
@@ -385,6 +422,7 @@ describe('getDangerRanges', () => {
         start: '1 Jan',
         end: '3 Jan',
         scenario: 'both',
+        severity: 'beyond_limit',
       })
     })
 
@@ -396,7 +434,7 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(1)
-      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'pessimistic' })
+      expect(result[0]).toEqual({ start: '1 Jan', end: '1 Jan', scenario: 'pessimistic', severity: 'beyond_limit' })
     })
 
     it('should handle single day input without danger', () => {
@@ -429,122 +467,397 @@ describe('getDangerRanges', () => {
       const result = getDangerRanges(chartData)
       
       expect(result.length).toBe(2)
-      expect(result[0]).toEqual({ start: '3 Jan', end: '4 Jan', scenario: 'pessimistic' })
-      expect(result[1]).toEqual({ start: '6 Jan', end: '7 Jan', scenario: 'both' })
+      expect(result[0]).toEqual({ start: '3 Jan', end: '4 Jan', scenario: 'pessimistic', severity: 'beyond_limit' })
+      expect(result[1]).toEqual({ start: '6 Jan', end: '7 Jan', scenario: 'both', severity: 'beyond_limit' })
+    })
+  })
+
+  describe('overdraft severity', () => {
+    it('should mark days inside the overdraft limit as overdraft', () => {
+      const chartData: ChartDataPoint[] = [
+        createMockChartPoint({ date: '1 Jan', isPessimisticDanger: true, dangerLevel: 'overdraft' }),
+        createMockChartPoint({ date: '2 Jan', isPessimisticDanger: true, dangerLevel: 'overdraft' }),
+      ]
+
+      expect(getDangerRanges(chartData)).toEqual([
+        { start: '1 Jan', end: '2 Jan', scenario: 'pessimistic', severity: 'overdraft' },
+      ])
+    })
+
+    it('should split a range when the balance goes past the limit', () => {
+      const chartData: ChartDataPoint[] = [
+        createMockChartPoint({ date: '1 Jan', isPessimisticDanger: true, dangerLevel: 'overdraft' }),
+        createMockChartPoint({ date: '2 Jan', isPessimisticDanger: true, dangerLevel: 'beyond_limit' }),
+        createMockChartPoint({ date: '3 Jan', isPessimisticDanger: true, dangerLevel: 'beyond_limit' }),
+        createMockChartPoint({ date: '4 Jan', isPessimisticDanger: true, dangerLevel: 'overdraft' }),
+      ]
+
+      expect(getDangerRanges(chartData)).toEqual([
+        { start: '1 Jan', end: '1 Jan', scenario: 'pessimistic', severity: 'overdraft' },
+        { start: '2 Jan', end: '3 Jan', scenario: 'pessimistic', severity: 'beyond_limit' },
+        { start: '4 Jan', end: '4 Jan', scenario: 'pessimistic', severity: 'overdraft' },
+      ])
+    })
+
+    it('should keep days only below the safety threshold apart from negative days', () => {
+      const chartData: ChartDataPoint[] = [
+        createMockChartPoint({ date: '1 Jan', isPessimisticDanger: true, dangerLevel: 'below_threshold' }),
+        createMockChartPoint({ date: '2 Jan', isPessimisticDanger: true, dangerLevel: 'overdraft' }),
+      ]
+
+      expect(getDangerRanges(chartData)).toEqual([
+        { start: '1 Jan', end: '1 Jan', scenario: 'pessimistic', severity: 'below_threshold' },
+        { start: '2 Jan', end: '2 Jan', scenario: 'pessimistic', severity: 'overdraft' },
+      ])
+    })
+  })
+})
+
+describe('getWorstDangerLevel', () => {
+  it('should return the most severe level across scenarios', () => {
+    const day = createMockSnapshot({
+      isOptimisticDanger: true,
+      isPessimisticDanger: true,
+      optimisticDangerLevel: 'below_threshold',
+      pessimisticDangerLevel: 'overdraft',
     })
+
+    expect(getWorstDangerLevel(day)).toBe('overdraft')
+  })
+
+  it('should ignore the level of a scenario not in danger', () => {
+    const day = createMockSnapshot({
+      isOptimisticDanger: false,
+      isPessimisticDanger: true,
+      pessimisticDangerLevel: 'below_threshold',
+    })
+
+    expect(getWorstDangerLevel(day)).toBe('below_threshold')
+  })
+
+  it('should include the realistic scenario', () => {
+    const day = createMockSnapshot({
+      isOptimisticDanger: false,
+      isRealisticDanger: true,
+      isPessimisticDanger: true,
+      realisticDangerLevel: 'overdraft',
+      pessimisticDangerLevel: 'below_threshold',
+    })
+
+    expect(getWorstDangerLevel(day)).toBe('overdraft')
+  })
+
+  it('should treat danger without a level (older snapshots) as beyond the limit', () => {
+    const day = createMockSnapshot({ isOptimisticDanger: false, isPessimisticDanger: true })
+
+    expect(getWorstDangerLevel(day)).toBe('beyond_limit')
+  })
+
+  it('should return undefined when neither scenario is in danger', () => {
+    expect(getWorstDangerLevel(createMockSnapshot())).toBeUndefined()
   })
 })
 
 // =============================================================================
-// calculateProjectionWithEstimate TESTS (Estimated today + rebase)
+// Long projections (weekly/monthly aggregation) TESTS
 // =============================================================================
 
-function createCheckingAccount(overrides: Partial<BankAccount> = {}): BankAccount {
-  return {
-    id: overrides.id ?? crypto.randomUUID(),
-    name: overrides.name ?? 'Conta Corrente',
-    type: 'checking',
-    balance: overrides.balance ?? 0,
-    ownerId: overrides.ownerId,
-    owner: overrides.owner ?? null,
-    balanceUpdatedAt: overrides.balanceUpdatedAt,
-    createdAt: overrides.createdAt ?? new Date(),
-    updatedAt: overrides.updatedAt ?? new Date(),
-  }
+/**
+ * Daily chart points from 1 January 2025, with the balance of each day.
+ */
+function createDailyPoints(balances: number[]): ChartDataPoint[] {
+  return balances.map((balance, index) => {
+    const date = addDays(new Date(2025, 0, 1), index)
+    return createMockChartPoint({
+      date: `day-${index}`,
+      timestamp: date.getTime(),
+      optimisticBalance: balance + 100,
+      realisticBalance: balance + 50,
+      pessimisticBalance: balance,
+      snapshot: createMockSnapshot({ date, dayOffset: index }),
+    })
+  })
 }
 
-function createSingleShotIncome(overrides: Partial<SingleShotIncome> & Pick<SingleShotIncome, 'date' | 'amount' | 'certainty'>): SingleShotIncome {
-  return {
-    id: overrides.id ?? crypto.randomUUID(),
-    type: 'single_shot',
-    name: overrides.name ?? 'Receita',
-    amount: overrides.amount,
-    date: overrides.date,
-    certainty: overrides.certainty,
-    createdAt: overrides.createdAt ?? new Date(),
-    updatedAt: overrides.updatedAt ?? new Date(),
-  }
-}
+describe('getChartGranularity', () => {
+  it('charts up to 90 days day by day, 6 months by week and 12 months by month', () => {
+    expect(getChartGranularity(90)).toBe('day')
+    expect(getChartGranularity(180)).toBe('week')
+    expect(getChartGranularity(365)).toBe('month')
+  })
+})
 
-function createSingleShotExpense(overrides: Partial<SingleShotExpense> & Pick<SingleShotExpense, 'date' | 'amount'>): SingleShotExpense {
-  return {
-    id: overrides.id ?? crypto.randomUUID(),
-    type: 'single_shot',
-    name: overrides.name ?? 'Despesa',
-    amount: overrides.amount,
-    date: overrides.date,
-    createdAt: overrides.createdAt ?? new Date(),
-    updatedAt: overrides.updatedAt ?? new Date(),
-  }
-}
+describe('aggregateChartData', () => {
+  it('should keep daily points up to 90 days', () => {
+    const points = createDailyPoints(Array.from({ length: 90 }, () => 1000))
+    expect(aggregateChartData(points)).toBe(points)
+  })
 
-describe('calculateProjectionWithEstimate', () => {
-  const emptyProjects: Project[] = []
-  const emptyFixedExpenses: FixedExpense[] = []
-  const emptyCreditCards: CreditCard[] = []
-  const emptyFutureStatements: FutureStatement[] = []
+  it('should aggregate 12 months into one point per month with its closing balances', () => {
+    const points = createDailyPoints(Array.from({ length: 365 }, (_, index) => 1000 + index))
+    const months = aggregateChartData(points)
+
+    expect(months).toHaveLength(12)
+    expect(months[0].date).toBe('jan/25')
+    // Closing balances of 31 January
+    expect(months[0].pessimisticBalance).toBe(1030)
+    expect(months[0].optimisticBalance).toBe(1130)
+    expect(months[0].snapshot.date).toEqual(new Date(2025, 0, 31))
+    // Lowest pessimistic and highest optimistic balance of the month
+    expect(months[0].balanceRange).toEqual([1000, 1130])
+    expect(months[0].bucket).toEqual({
+      granularity: 'month',
+      startDate: new Date(2025, 0, 1),
+      endDate: new Date(2025, 0, 31),
+      minBalanceDate: new Date(2025, 0, 1),
+    })
+  })
 
-  it('rebases the projection from estimated-today when a reliable base exists', () => {
-    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'))
+  it('should aggregate 6 months into weeks starting on Monday', () => {
+    const weeks = aggregateChartData(createDailyPoints(Array.from({ length: 180 }, () => 1000)))
+
+    // 1 January 2025 is a Wednesday: the first week runs to Sunday the 5th
+    expect(weeks[0].bucket).toMatchObject({
+      granularity: 'week',
+      startDate: new Date(2025, 0, 1),
+      endDate: new Date(2025, 0, 5),
+    })
+    expect(weeks[1].bucket).toMatchObject({
+      startDate: new Date(2025, 0, 6),
+      endDate: new Date(2025, 0, 12),
+    })
+  })
+
+  it('should flag a period in danger when any of its days is', () => {
+    const points = createDailyPoints(Array.from({ length: 365 }, () => 1000))
+    points[40] = {
+      ...points[40],
+      pessimisticBalance: -200,
+      isPessimisticDanger: true,
+      dangerLevel: 'overdraft',
+    }
+
+    const months = aggregateChartData(points)
+
+    expect(months[0].isPessimisticDanger).toBe(false)
+    expect(months[1]).toMatchObject({
+      isPessimisticDanger: true,
+      dangerLevel: 'overdraft',
+      balanceRange: [-200, 1100],
+    })
+    expect(months[1].bucket?.minBalanceDate).toEqual(new Date(2025, 1, 10))
+    expect(getDangerRanges(months)).toEqual([
+      { start: 'fev/25', end: 'fev/25', scenario: 'pessimistic', severity: 'overdraft' },
+    ])
+  })
+})
 
-    const accounts = [
-      createCheckingAccount({
-        balance: 10_000,
-        balanceUpdatedAt: new Date('2025-01-05T12:00:00Z'),
+describe('transformToMonthlyStats', () => {
+  it('should total each month in dollars with its lowest realistic balance', () => {
+    const days = [
+      createMockSnapshot({
+        date: new Date(2025, 0, 30),
+        realisticBalance: 50000,
+        incomeEvents: [
+          { projectId: 'p1', projectName: 'Salário', amount: 300000, certainty: 'guaranteed' },
+        ],
       }),
+      createMockSnapshot({
+        date: new Date(2025, 0, 31),
+        realisticBalance: 20000,
+        expenseEvents: [
+          { sourceId: 'e1', sourceName: 'Aluguel', sourceType: 'expense', amount: 150000 },
+        ],
+      }),
+      createMockSnapshot({ date: new Date(2025, 1, 1), realisticBalance: 30000 }),
     ]
 
-    const { projection, estimate } = calculateProjectionWithEstimate({
+    expect(transformToMonthlyStats({ days } as CashflowProjection)).toEqual([
+      {
+        month: new Date(2025, 0, 1),
+        totalIncome: 3000,
+        totalExpenses: 1500,
+        minBalance: 200,
+        minBalanceDate: new Date(2025, 0, 31),
+      },
+      {
+        month: new Date(2025, 1, 1),
+        totalIncome: 0,
+        totalExpenses: 0,
+        minBalance: 300,
+        minBalanceDate: new Date(2025, 1, 1),
+      },
+    ])
+  })
+})
+
+describe('per-account chart lines', () => {
+  function createAccountSummary(accountId: string, accountName: string): AccountSummary {
+    return {
+      accountId,
+      accountName,
+      isDefault: false,
+      startingBalance: 0,
+      optimisticEndBalance: 0,
+      pessimisticEndBalance: 0,
+      optimisticDangerDayCount: 0,
+      pessimisticDangerDayCount: 0,
+    }
+  }
+
+  function createProjection(accounts?: AccountSummary[]): CashflowProjection {
+    const summary = {
+      totalIncome: 0,
+      totalExpenses: 0,
+      endBalance: 0,
+      dangerDays: [],
+      dangerDayCount: 0,
+    }
+    return {
+      startDate: new Date('2025-01-15'),
+      endDate: new Date('2025-01-15'),
+      startingBalance: 0,
+      days: [],
+      optimistic: summary,
+      pessimistic: summary,
       accounts,
-      projects: emptyProjects,
-      fixedExpenses: emptyFixedExpenses,
-      singleShotExpenses: [
-        createSingleShotExpense({ date: new Date(2025, 0, 10), amount: 2_000 }),
-      ],
-      singleShotIncome: [],
-      creditCards: emptyCreditCards,
-      futureStatements: emptyFutureStatements,
-      projectionDays: 7,
-    })
-
-    expect(estimate.hasBase).toBe(true)
-    expect(projection.days).toHaveLength(7)
-
-    // Synthetic today snapshot equals estimated balances (rebased start)
-    expect(projection.startingBalance).toBe(estimate.pessimisticCents)
-    expect(projection.days[0].pessimisticBalance).toBe(estimate.pessimisticCents)
-    expect(projection.days[0].optimisticBalance).toBe(estimate.optimisticCents)
-
-    // Forward projection starts tomorrow (no double counting)
-    const tomorrow = new Date(estimate.today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    expect(projection.days[1].date.getFullYear()).toBe(tomorrow.getFullYear())
-    expect(projection.days[1].date.getMonth()).toBe(tomorrow.getMonth())
-    expect(projection.days[1].date.getDate()).toBe(tomorrow.getDate())
+    }
+  }
+
+  it('converts optimistic account balances to reais', () => {
+    const result = transformToChartData([
+      createMockSnapshot({
+        accountBalances: [
+          { accountId: 'a', optimisticBalance: 123456, pessimisticBalance: 100000 },
+          { accountId: 'b', optimisticBalance: -5000, pessimisticBalance: -5000 },
+        ],
+      }),
+    ], 0)
+
+    expect(result[0].accountBalances).toEqual({ a: 1234.56, b: -50 })
   })
 
-  it('keeps existing behavior when there is no reliable base (projection starts today and can include today events)', () => {
-    vi.setSystemTime(new Date('2025-01-15T12:00:00Z'))
+  it('has no account balances for snapshots saved before per-account tracking', () => {
+    const result = transformToChartData([createMockSnapshot()], 0)
+    expect(result[0].accountBalances).toEqual({})
+  })
 
-    const accounts = [createCheckingAccount({ balance: 0, balanceUpdatedAt: undefined })]
-    const today = new Date(2025, 0, 15)
+  it('offers one line per account when there is more than one checking account', () => {
+    const lines = getAccountLines(createProjection([
+      createAccountSummary('a', 'Conta Ana'),
+      createAccountSummary('b', 'Conta Bruno'),
+    ]))
+
+    expect(lines.map((line) => [line.accountId, line.label])).toEqual([
+      ['a', 'Conta Ana'],
+      ['b', 'Conta Bruno'],
+    ])
+    expect(lines[0].color).not.toBe(lines[1].color)
+  })
 
-    const { projection, estimate } = calculateProjectionWithEstimate({
-      accounts,
-      projects: emptyProjects,
-      fixedExpenses: emptyFixedExpenses,
-      singleShotExpenses: [],
-      singleShotIncome: [
-        createSingleShotIncome({ date: today, amount: 5_000, certainty: 'guaranteed' }),
-      ],
-      creditCards: emptyCreditCards,
-      futureStatements: emptyFutureStatements,
-      projectionDays: 7,
-    })
-
-    expect(estimate.hasBase).toBe(false)
-    expect(projection.days).toHaveLength(7)
-    expect(projection.days[0].incomeEvents.length).toBeGreaterThan(0)
+  it('offers no lines for a single account or older projections', () => {
+    expect(getAccountLines(createProjection([createAccountSummary('a', 'Conta Ana')]))).toEqual([])
+    expect(getAccountLines(createProjection())).toEqual([])
   })
 })
 
+describe('transformToGoalProgress', () => {
+  const goal: SavingsGoal = {
+    id: 'goal-1',
+    name: 'Viagem',
+    targetAmount: 100000,
+    targetDate: new Date(2025, 2, 31),
+    accountId: null,
+    savedAmount: 25000,
+    contributionDay: 20,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+
+  function createProjection(
+    days: DailySnapshot[],
+    plan: Partial<NonNullable<CashflowProjection['goals']>[number]> = {}
+  ): CashflowProjection {
+    const summary = { totalIncome: 0, totalExpenses: 0, endBalance: 0, dangerDays: [], dangerDayCount: 0 }
+    return {
+      startDate: new Date(2025, 0, 15),
+      endDate: new Date(2025, 0, 15),
+      startingBalance: 0,
+      days,
+      optimistic: summary,
+      pessimistic: summary,
+      goals: [{
+        goalId: 'goal-1',
+        savedAmount: 25000,
+        remainingAmount: 75000,
+        contributionDates: [new Date(2025, 0, 20), new Date(2025, 1, 20), new Date(2025, 2, 20)],
+        monthlyContribution: 25000,
+        ...plan,
+      }],
+    }
+  }
+
+  const contributionDay = createMockSnapshot({
+    date: new Date(2025, 0, 20),
+    realisticBalance: 10000,
+    pessimisticBalance: 10000,
+    expenseEvents: [{ sourceId: 'goal-1', sourceName: 'Viagem', sourceType: 'goal', amount: 25000 }],
+  })
+
+  it('reports progress in reais for a goal on track', () => {
+    const [progress] = transformToGoalProgress([goal], createProjection([contributionDay]))
+
+    expect(progress).toMatchObject({
+      goalId: 'goal-1',
+      targetAmount: 1000,
+      savedAmount: 250,
+      progress: 0.25,
+      monthlyContribution: 250,
+      status: 'on_track',
+    })
+    expect(progress.firstDangerDate).toBeUndefined()
+  })
+
+  it('flags goals whose contributions cause danger days', () => {
+    const dangerDay = createMockSnapshot({
+      ...contributionDay,
+      realisticBalance: -5000,
+      isRealisticDanger: true,
+    })
+
+    const [progress] = transformToGoalProgress([goal], createProjection([dangerDay]))
+
+    expect(progress.status).toBe('creates_danger')
+    expect(progress.firstDangerDate).toEqual(new Date(2025, 0, 20))
+  })
+
+  it('does not blame goals for danger days they do not cause', () => {
+    const dangerDay = createMockSnapshot({
+      ...contributionDay,
+      realisticBalance: -30000,
+      isRealisticDanger: true,
+    })
+
+    const [progress] = transformToGoalProgress([goal], createProjection([dangerDay]))
+    expect(progress.status).toBe('on_track')
+  })
+
+  it('reports reached goals and goals out of time', () => {
+    const reached = transformToGoalProgress(
+      [goal],
+      createProjection([], { savedAmount: 120000, remainingAmount: 0, contributionDates: [], monthlyContribution: 0 })
+    )
+    const outOfTime = transformToGoalProgress(
+      [goal],
+      createProjection([], { contributionDates: [], monthlyContribution: 0 })
+    )
+
+    expect(reached[0]).toMatchObject({ status: 'reached', progress: 1 })
+    expect(outOfTime[0].status).toBe('out_of_time')
+  })
+
+  it('has no progress for projections without goal plans', () => {
+    expect(transformToGoalProgress([goal], { ...createProjection([]), goals: undefined })).toEqual([])
+  })
+})
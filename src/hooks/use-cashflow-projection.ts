@@ -3,57 +3,199 @@
  * Uses Supabase realtime subscriptions for reactive updates.
  */
 
-import { useMemo, useCallback, useState } from 'react'
+import { useMemo, useCallback, useEffect, useState } from 'react'
+import { startOfMonth, startOfWeek } from 'date-fns'
 import { useFinanceData } from '@/hooks/use-finance-data'
-import {
-  calculateCashflow,
-  calculateEstimatedTodayBalance,
-  rebaseProjectionFromEstimatedToday,
-} from '@/lib/cashflow'
-import { formatChartDate } from '@/lib/format'
+import { generateMonthlySummaries, getScenarioDayState } from '@/lib/cashflow'
+import type { ProjectionParams, ProjectionResult } from '@/lib/projection/calculate'
+import { getProjectionSync, requestProjection } from '@/lib/projection/client'
+import { formatChartDate, formatChartMonth } from '@/lib/format'
 import { usePreferencesStore } from '@/stores/preferences-store'
-import type { CashflowProjection, DailySnapshot } from '@/lib/cashflow/types'
-import type { ChartDataPoint, DangerRange, SummaryStats } from '@/components/cashflow/types'
+import type {
+  CashflowProjection,
+  CashflowSimulation,
+  DailySnapshot,
+  DangerLevel,
+  Scenario,
+  ScenarioSummary,
+} from '@/lib/cashflow/types'
+import type {
+  AccountLine,
+  ChartDataPoint,
+  ChartGranularity,
+  DangerRange,
+  GoalProgress,
+  MonthlyStats,
+  ScenarioStats,
+  SummaryStats,
+} from '@/components/cashflow/types'
+import { getAccountLineColor } from '@/components/cashflow/types'
 import type { ProjectionDays } from '@/types'
 import type { EstimatedTodayBalance } from '@/lib/cashflow'
-import { getTodayDateOnlyInTimeZone } from '@/lib/dates/timezone'
-import type {
-  BankAccount,
-  CreditCard,
-  FixedExpense,
-  FutureStatement,
-  Project,
-  SingleShotExpense,
-  SingleShotIncome,
-} from '@/types'
-
-const DASHBOARD_TIME_ZONE = 'America/Sao_Paulo'
+import type { SavingsGoal } from '@/types'
 
 /**
  * Transform DailySnapshot array to chart-compatible format.
  * Converts cents to dollars and formats dates for display.
  * @param days - Array of daily snapshots from cashflow engine
- * @param investmentTotal - Total investment balance in cents (added to pessimistic balance)
+ * @param investmentTotal - Total investment balance in cents, used for days without a
+ *   projected investment balance (snapshots saved before transfers existed)
+ * @param simulation - Optional simulation of the same days, for the percentile bands
  */
 export function transformToChartData(
   days: DailySnapshot[],
-  investmentTotal: number
+  investmentTotal: number,
+  simulation?: CashflowSimulation | null
 ): ChartDataPoint[] {
-  return days.map((day) => ({
+  return days.map((day, index) => ({
     date: formatChartDate(day.date),
     timestamp: day.date.getTime(),
     optimisticBalance: day.optimisticBalance / 100,
+    realisticBalance:
+      day.realisticBalance === undefined ? undefined : day.realisticBalance / 100,
     pessimisticBalance: day.pessimisticBalance / 100,
-    investmentInclusiveBalance: (day.optimisticBalance + investmentTotal) / 100,
+    investmentInclusiveBalance: (day.optimisticBalance + (day.investmentBalance ?? investmentTotal)) / 100,
     isOptimisticDanger: day.isOptimisticDanger,
     isPessimisticDanger: day.isPessimisticDanger,
+    dangerLevel: getWorstDangerLevel(day),
+    ...getSimulationFields(simulation?.days[index]),
+    accountBalances: Object.fromEntries(
+      (day.accountBalances ?? []).map((balance) => [balance.accountId, balance.optimisticBalance / 100])
+    ),
     snapshot: day,
   }))
 }
 
+/**
+ * Chart fields for a simulated day, in dollars.
+ */
+function getSimulationFields(
+  day: CashflowSimulation['days'][number] | undefined
+): Pick<ChartDataPoint, 'simulationBand' | 'simulationMedian' | 'negativeProbability'> {
+  if (!day) return {}
+  return {
+    simulationBand: [day.p10 / 100, day.p90 / 100],
+    simulationMedian: day.p50 / 100,
+    negativeProbability: day.negativeProbability,
+  }
+}
+
+// Danger levels from mildest to most severe
+const DANGER_LEVEL_ORDER: DangerLevel[] = ['below_threshold', 'overdraft', 'beyond_limit']
+
+/**
+ * Get the most severe of the given danger levels.
+ */
+function getMostSevereLevel(levels: DangerLevel[]): DangerLevel | undefined {
+  if (levels.length === 0) return undefined
+  return levels.reduce((worst, level) =>
+    DANGER_LEVEL_ORDER.indexOf(level) > DANGER_LEVEL_ORDER.indexOf(worst) ? level : worst
+  )
+}
+
+/**
+ * Get the most severe danger level of the day across all scenarios.
+ * Snapshots saved before overdraft limits existed have no level: any danger is beyond the limit.
+ */
+export function getWorstDangerLevel(day: DailySnapshot): DangerLevel | undefined {
+  const levels: DangerLevel[] = []
+  if (day.isOptimisticDanger) levels.push(day.optimisticDangerLevel ?? 'beyond_limit')
+  if (day.isRealisticDanger) levels.push(day.realisticDangerLevel ?? 'beyond_limit')
+  if (day.isPessimisticDanger) levels.push(day.pessimisticDangerLevel ?? 'beyond_limit')
+  return getMostSevereLevel(levels)
+}
+
+// Longest projections still charted day by day and week by week
+const MAX_DAILY_CHART_DAYS = 90
+const MAX_WEEKLY_CHART_DAYS = 180
+
+/**
+ * Get the period each chart point covers for a projection of `dayCount` days.
+ */
+export function getChartGranularity(dayCount: number): ChartGranularity {
+  if (dayCount <= MAX_DAILY_CHART_DAYS) return 'day'
+  return dayCount <= MAX_WEEKLY_CHART_DAYS ? 'week' : 'month'
+}
+
+/**
+ * Aggregate daily chart points into weeks (starting on Monday) or months on
+ * long projections so the chart stays readable. Each point keeps the closing
+ * balances of its period, adds the period's lowest and highest balance and is
+ * in danger when any of its days is.
+ */
+export function aggregateChartData(chartData: ChartDataPoint[]): ChartDataPoint[] {
+  const granularity = getChartGranularity(chartData.length)
+  if (granularity === 'day') return chartData
+
+  const buckets: ChartDataPoint[][] = []
+  let bucketStart: number | null = null
+  for (const point of chartData) {
+    const start = (
+      granularity === 'week'
+        ? startOfWeek(point.snapshot.date, { weekStartsOn: 1 })
+        : startOfMonth(point.snapshot.date)
+    ).getTime()
+    if (start !== bucketStart) {
+      buckets.push([])
+      bucketStart = start
+    }
+    buckets[buckets.length - 1].push(point)
+  }
+
+  return buckets.map((points) => {
+    const first = points[0]
+    const last = points[points.length - 1]
+    let minBalance = Number.POSITIVE_INFINITY
+    let maxBalance = Number.NEGATIVE_INFINITY
+    let minBalanceDate = first.snapshot.date
+
+    for (const point of points) {
+      const balances = [point.optimisticBalance, point.pessimisticBalance]
+      if (point.realisticBalance !== undefined) balances.push(point.realisticBalance)
+      const low = Math.min(...balances)
+      if (low < minBalance) {
+        minBalance = low
+        minBalanceDate = point.snapshot.date
+      }
+      maxBalance = Math.max(maxBalance, ...balances)
+    }
+
+    return {
+      ...last,
+      date: granularity === 'week' ? formatChartDate(first.snapshot.date) : formatChartMonth(first.snapshot.date),
+      isOptimisticDanger: points.some((point) => point.isOptimisticDanger),
+      isPessimisticDanger: points.some((point) => point.isPessimisticDanger),
+      dangerLevel: getMostSevereLevel(points.flatMap((point) => point.dangerLevel ?? [])),
+      balanceRange: [minBalance, maxBalance],
+      bucket: {
+        granularity,
+        startDate: first.snapshot.date,
+        endDate: last.snapshot.date,
+        minBalanceDate,
+      },
+    }
+  })
+}
+
+/**
+ * Get the per-account lines available for the chart.
+ * A single checking account matches the scenario lines, so lines are only
+ * offered when the projection tracks two or more accounts.
+ */
+export function getAccountLines(projection: CashflowProjection): AccountLine[] {
+  const accounts = projection.accounts ?? []
+  if (accounts.length < 2) return []
+  return accounts.map((account, index) => ({
+    accountId: account.accountId,
+    label: account.accountName,
+    color: getAccountLineColor(index),
+  }))
+}
+
 /**
  * Consolidate individual danger days into continuous ranges for ReferenceArea rendering.
- * Groups consecutive danger days together to minimize chart elements.
+ * Groups consecutive danger days with the same scenario and severity together
+ * to minimize chart elements.
  */
 export function getDangerRanges(chartData: ChartDataPoint[]): DangerRange[] {
   const ranges: DangerRange[] = []
@@ -78,6 +220,7 @@ export function getDangerRanges(chartData: ChartDataPoint[]): DangerRange[] {
         : isOptimisticDanger
           ? 'optimistic'
           : 'pessimistic'
+    const severity: DangerRange['severity'] = point.dangerLevel ?? 'beyond_limit'
 
     if (!currentRange) {
       // Start new range
@@ -85,17 +228,19 @@ export function getDangerRanges(chartData: ChartDataPoint[]): DangerRange[] {
         start: point.date,
         end: point.date,
         scenario,
+        severity,
       }
-    } else if (currentRange.scenario === scenario) {
+    } else if (currentRange.scenario === scenario && currentRange.severity === severity) {
       // Extend current range
       currentRange.end = point.date
     } else {
-      // Different scenario, end current and start new
+      // Different scenario or severity, end current and start new
       ranges.push(currentRange)
       currentRange = {
         start: point.date,
         end: point.date,
         scenario,
+        severity,
       }
     }
   }
@@ -109,61 +254,145 @@ export function getDangerRanges(chartData: ChartDataPoint[]): DangerRange[] {
 }
 
 /**
- * Transform projection to summary statistics.
- * Converts cents to dollars for display.
+ * Transform one scenario's summary to dollar stats, including its minimum balance.
  */
-export function transformToSummaryStats(projection: CashflowProjection): SummaryStats {
+function toScenarioStats(
+  projection: CashflowProjection,
+  summary: ScenarioSummary,
+  scenario: Scenario
+): ScenarioStats {
   const startingBalance = projection.startingBalance / 100
-  const optimisticEndBalance = projection.optimistic.endBalance / 100
-  const pessimisticEndBalance = projection.pessimistic.endBalance / 100
+  const endBalance = summary.endBalance / 100
 
   const initialMinDate = projection.days[0]?.date ?? projection.startDate
-  const { minOptimistic, minPessimistic } = projection.days.reduce(
+  const min = projection.days.reduce(
     (acc, day) => {
-      const nextOpt =
-        day.optimisticBalance < acc.minOptimistic.minBalance
-          ? { minBalance: day.optimisticBalance, minBalanceDate: day.date }
-          : acc.minOptimistic
-      const nextPess =
-        day.pessimisticBalance < acc.minPessimistic.minBalance
-          ? { minBalance: day.pessimisticBalance, minBalanceDate: day.date }
-          : acc.minPessimistic
-      return { minOptimistic: nextOpt, minPessimistic: nextPess }
+      const { balance } = getScenarioDayState(day, scenario)
+      return balance < acc.minBalance ? { minBalance: balance, minBalanceDate: day.date } : acc
     },
-    {
-      minOptimistic: { minBalance: Number.POSITIVE_INFINITY, minBalanceDate: initialMinDate },
-      minPessimistic: { minBalance: Number.POSITIVE_INFINITY, minBalanceDate: initialMinDate },
-    }
+    { minBalance: Number.POSITIVE_INFINITY, minBalanceDate: initialMinDate }
   )
 
-  const optimisticMinBalance = (Number.isFinite(minOptimistic.minBalance)
-    ? minOptimistic.minBalance
-    : projection.startingBalance) / 100
-  const pessimisticMinBalance = (Number.isFinite(minPessimistic.minBalance)
-    ? minPessimistic.minBalance
-    : projection.startingBalance) / 100
+  return {
+    totalIncome: summary.totalIncome / 100,
+    totalExpenses: summary.totalExpenses / 100,
+    totalTaxes: (summary.totalTaxes ?? 0) / 100,
+    endBalance,
+    dangerDayCount: summary.dangerDayCount,
+    negativeDayCount: summary.negativeDayCount ?? summary.dangerDayCount,
+    beyondLimitDayCount: summary.beyondLimitDayCount ?? summary.dangerDayCount,
+    minBalance: (Number.isFinite(min.minBalance) ? min.minBalance : projection.startingBalance) / 100,
+    minBalanceDate: min.minBalanceDate,
+    surplus: endBalance - startingBalance,
+  }
+}
 
+/**
+ * Transform projection to summary statistics.
+ * Converts cents to dollars for display.
+ * @param simulation - Optional simulation of the projection, for the worst-risk day
+ */
+export function transformToSummaryStats(
+  projection: CashflowProjection,
+  simulation?: CashflowSimulation | null
+): SummaryStats {
+  const worstRiskDay = simulation?.worstRiskDay
   return {
-    startingBalance,
-    optimistic: {
-      totalIncome: projection.optimistic.totalIncome / 100,
-      totalExpenses: projection.optimistic.totalExpenses / 100,
-      endBalance: optimisticEndBalance,
-      dangerDayCount: projection.optimistic.dangerDayCount,
-      minBalance: optimisticMinBalance,
-      minBalanceDate: minOptimistic.minBalanceDate,
-      surplus: optimisticEndBalance - startingBalance,
-    },
-    pessimistic: {
-      totalIncome: projection.pessimistic.totalIncome / 100,
-      totalExpenses: projection.pessimistic.totalExpenses / 100,
-      endBalance: pessimisticEndBalance,
-      dangerDayCount: projection.pessimistic.dangerDayCount,
-      minBalance: pessimisticMinBalance,
-      minBalanceDate: minPessimistic.minBalanceDate,
-      surplus: pessimisticEndBalance - startingBalance,
-    },
+    startingBalance: projection.startingBalance / 100,
+    safetyThreshold: (projection.safetyThreshold ?? 0) / 100,
+    optimistic: toScenarioStats(projection, projection.optimistic, 'optimistic'),
+    realistic: projection.realistic
+      ? toScenarioStats(projection, projection.realistic, 'realistic')
+      : null,
+    pessimistic: toScenarioStats(projection, projection.pessimistic, 'pessimistic'),
+    worstRiskDay: worstRiskDay
+      ? { date: worstRiskDay.date, negativeProbability: worstRiskDay.negativeProbability }
+      : null,
+  }
+}
+
+/**
+ * Transform the projection's realistic scenario to month-by-month stats.
+ * Converts cents to dollars for display.
+ */
+export function transformToMonthlyStats(projection: CashflowProjection): MonthlyStats[] {
+  return generateMonthlySummaries(projection.days, 'realistic').map((summary) => ({
+    month: summary.month,
+    totalIncome: summary.totalIncome / 100,
+    totalExpenses: summary.totalExpenses / 100,
+    minBalance: summary.minBalance / 100,
+    minBalanceDate: summary.minBalanceDate,
+  }))
+}
+
+/**
+ * Get the first realistic danger day caused by savings goal contributions:
+ * a danger day whose balance would stay at or above the safety threshold
+ * without the contributions made so far.
+ */
+function getFirstGoalDangerDate(projection: CashflowProjection): Date | undefined {
+  const safetyThreshold = projection.safetyThreshold ?? 0
+  let goalOutflow = 0
+
+  for (const day of projection.days) {
+    goalOutflow += day.expenseEvents
+      .filter((event) => event.sourceType === 'goal')
+      .reduce((sum, event) => sum + event.amount, 0)
+    goalOutflow += (day.transferEvents ?? [])
+      .filter((event) => event.goalId)
+      .reduce((sum, event) => sum - event.checkingDelta, 0)
+
+    const { balance, isDanger } = getScenarioDayState(day, 'realistic')
+    if (isDanger && goalOutflow > 0 && balance + goalOutflow >= safetyThreshold) {
+      return day.date
+    }
   }
+
+  return undefined
+}
+
+/**
+ * Transform the projection's savings goal plans to dashboard progress.
+ * Inactive goals have no plan and are left out.
+ */
+export function transformToGoalProgress(
+  goals: SavingsGoal[],
+  projection: CashflowProjection
+): GoalProgress[] {
+  const plans = projection.goals ?? []
+  const firstGoalDangerDate = getFirstGoalDangerDate(projection)
+
+  return plans.flatMap((plan) => {
+    const goal = goals.find((g) => g.id === plan.goalId)
+    if (!goal) return []
+
+    const firstContributionDate = plan.contributionDates[0]
+    const createsDanger =
+      firstGoalDangerDate !== undefined &&
+      firstContributionDate !== undefined &&
+      firstGoalDangerDate.getTime() >= firstContributionDate.getTime()
+
+    const status: GoalProgress['status'] =
+      plan.remainingAmount === 0
+        ? 'reached'
+        : plan.contributionDates.length === 0
+          ? 'out_of_time'
+          : createsDanger
+            ? 'creates_danger'
+            : 'on_track'
+
+    return [{
+      goalId: goal.id,
+      name: goal.name,
+      targetAmount: goal.targetAmount / 100,
+      targetDate: goal.targetDate,
+      savedAmount: plan.savedAmount / 100,
+      progress: Math.min(1, Math.max(0, plan.savedAmount / goal.targetAmount)),
+      monthlyContribution: plan.monthlyContribution / 100,
+      status,
+      firstDangerDate: status === 'creates_danger' ? firstGoalDangerDate : undefined,
+    }]
+  })
 }
 
 export interface UseCashflowProjectionOptions {
@@ -176,13 +405,21 @@ export interface UseCashflowProjectionResult {
   projection: CashflowProjection | null
   /** Metadata about today's estimate + base (used for UI indicator) */
   estimate: EstimatedTodayBalance | null
-  /** Chart-ready data points */
+  /** Monte Carlo simulation of the projection's uncertain income (null while loading) */
+  simulation: CashflowSimulation | null
+  /** Chart-ready data points, aggregated by week or month on long projections */
   chartData: ChartDataPoint[]
   /** Consolidated danger day ranges */
   dangerRanges: DangerRange[]
+  /** Per-account lines that can be toggled on the chart */
+  accountLines: AccountLine[]
   /** Summary statistics for panel */
   summaryStats: SummaryStats | null
-  /** Loading state */
+  /** Progress of the active savings goals */
+  goalProgress: GoalProgress[]
+  /** Realistic income, expenses and lowest balance of each month */
+  monthlyStats: MonthlyStats[]
+  /** Loading state (finance data, or the first projection still computing) */
   isLoading: boolean
   /** Whether any financial data exists */
   hasData: boolean
@@ -198,61 +435,14 @@ export interface UseCashflowProjectionResult {
  * Result of cashflow calculation - either success with projection or error.
  */
 type CalculationResult =
-  | { success: true; projection: CashflowProjection; estimate: EstimatedTodayBalance }
+  | ({ success: true } & ProjectionResult)
   | { success: false; error: Error }
 
-export function calculateProjectionWithEstimate(params: {
-  accounts: BankAccount[]
-  projects: Project[]
-  fixedExpenses: FixedExpense[]
-  singleShotExpenses: SingleShotExpense[]
-  singleShotIncome: SingleShotIncome[]
-  creditCards: CreditCard[]
-  futureStatements: FutureStatement[]
-  projectionDays: ProjectionDays
-}): { projection: CashflowProjection; estimate: EstimatedTodayBalance } {
-  const estimate = calculateEstimatedTodayBalance({
-    accounts: params.accounts,
-    projects: params.projects,
-    fixedExpenses: params.fixedExpenses,
-    singleShotExpenses: params.singleShotExpenses,
-    singleShotIncome: params.singleShotIncome,
-    creditCards: params.creditCards,
-    futureStatements: params.futureStatements,
-    timeZone: DASHBOARD_TIME_ZONE,
-  })
-
-  // If there's no reliable base, keep the current Dashboard behavior: projection from "today"
-  // (do not start tomorrow, otherwise we'd drop today's scheduled events).
-  if (!estimate.hasBase) {
-    const startDate = getTodayDateOnlyInTimeZone(DASHBOARD_TIME_ZONE)
-    const projection = calculateCashflow({
-      accounts: params.accounts,
-      projects: params.projects,
-      expenses: params.fixedExpenses,
-      singleShotExpenses: params.singleShotExpenses,
-      singleShotIncome: params.singleShotIncome,
-      creditCards: params.creditCards,
-      futureStatements: params.futureStatements,
-      options: { startDate, projectionDays: params.projectionDays },
-    })
-
-    return { projection, estimate }
+function toCalculationError(err: unknown): CalculationResult {
+  return {
+    success: false,
+    error: err instanceof Error ? err : new Error('Falha ao calcular projeção'),
   }
-
-  const projection = rebaseProjectionFromEstimatedToday({
-    projectionDays: params.projectionDays,
-    estimatedToday: estimate,
-    accounts: params.accounts,
-    projects: params.projects,
-    fixedExpenses: params.fixedExpenses,
-    singleShotExpenses: params.singleShotExpenses,
-    singleShotIncome: params.singleShotIncome,
-    creditCards: params.creditCards,
-    futureStatements: params.futureStatements,
-  })
-
-  return { projection, estimate }
 }
 
 /**
@@ -276,6 +466,12 @@ export function useCashflowProjection(
     singleShotExpenses,
     creditCards,
     futureStatements,
+    installmentPurchases,
+    transfers,
+    eventConfirmations,
+    savingsGoals,
+    loans,
+    financeSettings,
     isLoading,
     error: fetchError,
   } = useFinanceData()
@@ -299,57 +495,114 @@ export function useCashflowProjection(
     fixedExpenses.length > 0 ||
     singleShotExpenses.length > 0 ||
     creditCards.length > 0 ||
-    futureStatements.length > 0
+    futureStatements.length > 0 ||
+    installmentPurchases.length > 0 ||
+    transfers.length > 0 ||
+    loans.length > 0
   )
 
-  // Calculate projection (memoized, pure computation)
-  const calculationResult = useMemo((): CalculationResult | null => {
+  // Projection inputs (memoized so unchanged data is not recomputed)
+  const projectionParams = useMemo((): ProjectionParams | null => {
     // Include retryCount to force recalculation on retry
     void _retryTrigger
-    
+
     if (isLoading) return null
 
+    return {
+      accounts,
+      projects,
+      fixedExpenses,
+      singleShotExpenses,
+      singleShotIncome,
+      creditCards,
+      futureStatements,
+      installmentPurchases,
+      transfers,
+      eventConfirmations,
+      savingsGoals,
+      loans,
+      projectionDays,
+      safetyThreshold: financeSettings.safetyThreshold,
+      cdiAnnualRate: financeSettings.cdiAnnualRate,
+    }
+  }, [isLoading, accounts, projects, singleShotIncome, fixedExpenses, singleShotExpenses, creditCards, futureStatements, installmentPurchases, transfers, eventConfirmations, savingsGoals, loans, financeSettings, projectionDays, _retryTrigger])
+
+  // Cached projection, or computed in place where workers are unavailable
+  const immediateResult = useMemo((): CalculationResult | null => {
+    if (!projectionParams) return null
     try {
-      const { projection, estimate } = calculateProjectionWithEstimate({
-        accounts,
-        projects,
-        fixedExpenses,
-        singleShotExpenses,
-        singleShotIncome,
-        creditCards,
-        futureStatements,
-        projectionDays,
-      })
-      return { success: true, projection, estimate }
+      const result = getProjectionSync(projectionParams)
+      return result ? { success: true, ...result } : null
     } catch (err) {
-      return {
-        success: false,
-        error: err instanceof Error ? err : new Error('Falha ao calcular projeção'),
-      }
+      return toCalculationError(err)
     }
-  }, [isLoading, accounts, projects, singleShotIncome, fixedExpenses, singleShotExpenses, creditCards, futureStatements, projectionDays, _retryTrigger])
+  }, [projectionParams])
+
+  // Otherwise computed by the projection worker; requests for stale inputs are aborted
+  const [workerResult, setWorkerResult] = useState<{
+    params: ProjectionParams
+    result: CalculationResult
+  } | null>(null)
+
+  useEffect(() => {
+    if (!projectionParams || immediateResult) return
+
+    const controller = new AbortController()
+    requestProjection(projectionParams, controller.signal).then(
+      (result) => setWorkerResult({ params: projectionParams, result: { success: true, ...result } }),
+      (err) => {
+        if (controller.signal.aborted) return
+        setWorkerResult({ params: projectionParams, result: toCalculationError(err) })
+      }
+    )
+    return () => controller.abort()
+  }, [projectionParams, immediateResult])
+
+  // The previous result stays on screen while the worker computes a new one
+  const calculationResult = immediateResult ?? workerResult?.result ?? null
+  const isCalculating =
+    projectionParams !== null && !immediateResult && workerResult?.params !== projectionParams
 
   // Extract projection and error from result
   const projection = calculationResult?.success ? calculationResult.projection : null
   const estimate = calculationResult?.success ? calculationResult.estimate : null
+  const simulation = calculationResult?.success ? calculationResult.simulation : null
   const calculationError = calculationResult && !calculationResult.success ? calculationResult.error : null
   const error = fetchError ? new Error(fetchError) : calculationError
 
   // Transform to chart data (memoized)
   const chartData = useMemo(() => {
     if (!projection) return []
-    return transformToChartData(projection.days, investmentTotal)
-  }, [projection, investmentTotal])
+    return aggregateChartData(transformToChartData(projection.days, investmentTotal, simulation))
+  }, [projection, investmentTotal, simulation])
 
   // Get danger ranges (memoized)
   const dangerRanges = useMemo(() => {
     return getDangerRanges(chartData)
   }, [chartData])
 
+  // Per-account chart lines (memoized)
+  const accountLines = useMemo(() => {
+    if (!projection) return []
+    return getAccountLines(projection)
+  }, [projection])
+
   // Transform to summary stats (memoized)
   const summaryStats = useMemo(() => {
     if (!projection) return null
-    return transformToSummaryStats(projection)
+    return transformToSummaryStats(projection, simulation)
+  }, [projection, simulation])
+
+  // Savings goal progress (memoized)
+  const goalProgress = useMemo(() => {
+    if (!projection) return []
+    return transformToGoalProgress(savingsGoals, projection)
+  }, [savingsGoals, projection])
+
+  // Month-by-month stats (memoized)
+  const monthlyStats = useMemo(() => {
+    if (!projection) return []
+    return transformToMonthlyStats(projection)
   }, [projection])
 
   // Retry function
@@ -360,10 +613,14 @@ export function useCashflowProjection(
   return {
     projection,
     estimate,
+    simulation,
     chartData,
     dangerRanges,
+    accountLines,
     summaryStats,
-    isLoading,
+    goalProgress,
+    monthlyStats,
+    isLoading: isLoading || (isCalculating && !calculationResult),
     hasData,
     error,
     retry,
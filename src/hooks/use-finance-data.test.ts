@@ -9,15 +9,21 @@ import {
   normalizeOwner,
   mapProfileFromDb,
   mapAccountFromDb,
+  mapPaymentDelayFromDb,
   mapProjectFromDb,
   mapSingleShotIncomeFromDb,
   mapExpenseFromDb,
   mapCreditCardFromDb,
+  mapTransferFromDb,
+  mapEventConfirmationFromDb,
+  mapSavingsGoalFromDb,
+  mapLoanFromDb,
+  mapFinanceSettingsFromDb,
   mergeRealtimeOwner,
   compareByNameThenId,
   sortByNameThenId,
 } from './use-finance-data'
-import type { ProfileRow, AccountRow, ProjectRow, ExpenseRow, CreditCardRow } from '@/lib/supabase'
+import type { ProfileRow, AccountRow, ProjectRow, ExpenseRow, CreditCardRow, TransferRow, EventConfirmationRow, SavingsGoalRow, LoanRow } from '@/lib/supabase'
 
 // =============================================================================
 // TEST HELPERS
@@ -135,6 +141,12 @@ describe('mapAccountFromDb', () => {
     balance_updated_at: TEST_DATES.balanceUpdated,
     owner_id: 'owner-456',
     owner: { id: 'owner-456', name: 'John' },
+    is_default: true,
+    overdraft_limit: 200000,
+    overdraft_monthly_rate: 8,
+    yield_type: null,
+    yield_rate: null,
+    yield_income_tax: false,
     created_at: TEST_DATES.created,
     updated_at: TEST_DATES.updated,
   }
@@ -149,6 +161,12 @@ describe('mapAccountFromDb', () => {
       balance: 150000,
       ownerId: 'owner-456',
       owner: { id: 'owner-456', name: 'John' },
+      isDefault: true,
+      overdraftLimit: 200000,
+      overdraftMonthlyRate: 8,
+      yieldType: null,
+      yieldRate: null,
+      yieldIncomeTax: false,
       balanceUpdatedAt: new Date(TEST_DATES.balanceUpdated),
       createdAt: new Date(TEST_DATES.created),
       updatedAt: new Date(TEST_DATES.updated),
@@ -210,12 +228,43 @@ describe('mapAccountFromDb', () => {
     expect(mapAccountFromDb(savingsRow).type).toBe('savings')
     expect(mapAccountFromDb(investmentRow).type).toBe('investment')
   })
+
+  it('maps the yield of investment accounts', () => {
+    const result = mapAccountFromDb({
+      ...baseAccountRow,
+      type: 'investment',
+      yield_type: 'cdi',
+      yield_rate: 110,
+      yield_income_tax: true,
+    })
+
+    expect(result.yieldType).toBe('cdi')
+    expect(result.yieldRate).toBe(110)
+    expect(result.yieldIncomeTax).toBe(true)
+  })
 })
 
 // =============================================================================
 // mapProjectFromDb TESTS
 // =============================================================================
 
+describe('mapPaymentDelayFromDb', () => {
+  const row = {
+    payment_delay_min_days: null,
+    payment_delay_max_days: null,
+  } as ProjectRow
+
+  it('maps missing delay columns to null', () => {
+    expect(mapPaymentDelayFromDb(row)).toBeNull()
+  })
+
+  it('maps the delay range', () => {
+    expect(
+      mapPaymentDelayFromDb({ ...row, payment_delay_min_days: 5, payment_delay_max_days: 15 })
+    ).toEqual({ minDays: 5, maxDays: 15 })
+  })
+})
+
 describe('mapProjectFromDb', () => {
   const baseProjectRow: ProjectRow = {
     id: 'project-123',
@@ -225,8 +274,17 @@ describe('mapProjectFromDb', () => {
     frequency: 'monthly',
     payment_schedule: { type: 'dayOfMonth', dayOfMonth: 25 },
     is_active: true,
+    business_day_rollover: 'previous',
     date: null,
     certainty: 'guaranteed',
+    account_id: 'account-123',
+    payment_delay_min_days: null,
+    payment_delay_max_days: null,
+    amount_changes: [],
+    start_date: null,
+    end_date: null,
+    occurrence_overrides: [],
+    tax_profile: null,
     created_at: TEST_DATES.created,
     updated_at: TEST_DATES.updated,
   }
@@ -243,11 +301,25 @@ describe('mapProjectFromDb', () => {
       paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 25 },
       certainty: 'guaranteed',
       isActive: true,
+      businessDayRollover: 'previous',
+      accountId: 'account-123',
+      paymentDelay: null,
+      amountChanges: [],
+      startDate: null,
+      endDate: null,
+      occurrenceOverrides: [],
+      taxProfile: null,
       createdAt: new Date(TEST_DATES.created),
       updatedAt: new Date(TEST_DATES.updated),
     })
   })
 
+  it('maps the tax profile', () => {
+    const taxProfile = { type: 'simples' as const, annex: 'III' as const, annualRevenue: 18000000 }
+    const result = mapProjectFromDb({ ...baseProjectRow, tax_profile: taxProfile })
+    expect(result.taxProfile).toEqual(taxProfile)
+  })
+
   it('always sets type to recurring', () => {
     const result = mapProjectFromDb(baseProjectRow)
     expect(result.type).toBe('recurring')
@@ -282,6 +354,17 @@ describe('mapProjectFromDb', () => {
     }
   })
 
+  it('parses start and end dates as local dates', () => {
+    const result = mapProjectFromDb({
+      ...baseProjectRow,
+      start_date: '2025-02-01',
+      end_date: '2025-06-30',
+    })
+
+    expect(result.startDate).toEqual(new Date(2025, 1, 1))
+    expect(result.endDate).toEqual(new Date(2025, 5, 30))
+  })
+
   it('handles twiceMonthly payment schedule', () => {
     const row: ProjectRow = {
       ...baseProjectRow,
@@ -327,8 +410,17 @@ describe('mapSingleShotIncomeFromDb', () => {
     frequency: null,
     payment_schedule: null,
     is_active: null,
+    business_day_rollover: 'none',
     date: '2025-03-15',
     certainty: 'probable',
+    account_id: null,
+    payment_delay_min_days: null,
+    payment_delay_max_days: null,
+    amount_changes: [],
+    start_date: null,
+    end_date: null,
+    occurrence_overrides: [],
+    tax_profile: null,
     created_at: TEST_DATES.created,
     updated_at: TEST_DATES.updated,
   }
@@ -347,6 +439,11 @@ describe('mapSingleShotIncomeFromDb', () => {
     expect(result.updatedAt).toEqual(new Date(TEST_DATES.updated))
   })
 
+  it('maps the tax profile', () => {
+    const result = mapSingleShotIncomeFromDb({ ...baseRow, tax_profile: { type: 'carne_leao' } })
+    expect(result.taxProfile).toEqual({ type: 'carne_leao' })
+  })
+
   it('always sets type to single_shot', () => {
     const result = mapSingleShotIncomeFromDb(baseRow)
     expect(result.type).toBe('single_shot')
@@ -371,8 +468,18 @@ describe('mapExpenseFromDb', () => {
       amount: 200000,
       type: 'fixed',
       due_day: 5,
+      frequency: null,
+      payment_schedule: null,
       date: null,
       is_active: true,
+      business_day_rollover: 'none',
+      account_id: null,
+      amount_min: null,
+      amount_max: null,
+      amount_changes: [],
+      start_date: null,
+      end_date: null,
+      occurrence_overrides: [],
       created_at: TEST_DATES.created,
       updated_at: TEST_DATES.updated,
     }
@@ -387,6 +494,13 @@ describe('mapExpenseFromDb', () => {
         type: 'fixed',
         dueDay: 5,
         isActive: true,
+        businessDayRollover: 'none',
+        accountId: null,
+        amountRange: null,
+        amountChanges: [],
+        startDate: null,
+        endDate: null,
+        occurrenceOverrides: [],
         createdAt: new Date(TEST_DATES.created),
         updatedAt: new Date(TEST_DATES.updated),
       })
@@ -406,6 +520,28 @@ describe('mapExpenseFromDb', () => {
       const result = mapExpenseFromDb(fixedExpenseRow)
       expect(result).not.toHaveProperty('date')
     })
+
+    it('maps frequency and payment schedule for non-monthly expenses', () => {
+      const result = mapExpenseFromDb({
+        ...fixedExpenseRow,
+        due_day: null,
+        frequency: 'yearly',
+        payment_schedule: { type: 'yearly', dates: [{ month: 1, day: 10 }] },
+      })
+
+      expect(result).toMatchObject({
+        type: 'fixed',
+        frequency: 'yearly',
+        paymentSchedule: { type: 'yearly', dates: [{ month: 1, day: 10 }] },
+      })
+      expect(result).toHaveProperty('dueDay', undefined)
+    })
+
+    it('maps the amount range of variable expenses', () => {
+      const result = mapExpenseFromDb({ ...fixedExpenseRow, amount: 25000, amount_min: 20000, amount_max: 30000 })
+
+      expect(result).toHaveProperty('amountRange', { min: 20000, max: 30000 })
+    })
   })
 
   describe('single-shot expenses', () => {
@@ -415,8 +551,18 @@ describe('mapExpenseFromDb', () => {
       amount: 120000,
       type: 'single_shot',
       due_day: null,
+      frequency: null,
+      payment_schedule: null,
       date: '2025-06-01',
       is_active: true,
+      business_day_rollover: 'none',
+      account_id: null,
+      amount_min: null,
+      amount_max: null,
+      amount_changes: [],
+      start_date: null,
+      end_date: null,
+      occurrence_overrides: [],
       created_at: TEST_DATES.created,
       updated_at: TEST_DATES.updated,
     }
@@ -462,9 +608,12 @@ describe('mapCreditCardFromDb', () => {
     name: 'Visa Platinum',
     statement_balance: 85000,
     due_day: 15,
+    closing_day: 8,
+    open_statement_balance: 12000,
     balance_updated_at: TEST_DATES.balanceUpdated,
     owner_id: 'owner-789',
     owner: { id: 'owner-789', name: 'Jane' },
+    account_id: 'account-123',
     created_at: TEST_DATES.created,
     updated_at: TEST_DATES.updated,
   }
@@ -477,8 +626,11 @@ describe('mapCreditCardFromDb', () => {
       name: 'Visa Platinum',
       statementBalance: 85000,
       dueDay: 15,
+      closingDay: 8,
+      openStatementBalance: 12000,
       ownerId: 'owner-789',
       owner: { id: 'owner-789', name: 'Jane' },
+      accountId: 'account-123',
       balanceUpdatedAt: new Date(TEST_DATES.balanceUpdated),
       createdAt: new Date(TEST_DATES.created),
       updatedAt: new Date(TEST_DATES.updated),
@@ -534,6 +686,208 @@ describe('mapCreditCardFromDb', () => {
   })
 })
 
+// =============================================================================
+// mapTransferFromDb TESTS
+// =============================================================================
+
+describe('mapTransferFromDb', () => {
+  const recurringTransferRow: TransferRow = {
+    id: 'transfer-123',
+    name: 'Reserva mensal',
+    type: 'recurring',
+    source_account_id: 'account-1',
+    destination_account_id: 'account-2',
+    amount: 50000,
+    date: null,
+    frequency: 'monthly',
+    payment_schedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+    is_active: true,
+    created_at: TEST_DATES.created,
+    updated_at: TEST_DATES.updated,
+  }
+
+  it('maps recurring transfer row correctly', () => {
+    const result = mapTransferFromDb(recurringTransferRow)
+
+    expect(result).toEqual({
+      id: 'transfer-123',
+      type: 'recurring',
+      name: 'Reserva mensal',
+      sourceAccountId: 'account-1',
+      destinationAccountId: 'account-2',
+      amount: 50000,
+      date: undefined,
+      frequency: 'monthly',
+      paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+      isActive: true,
+      createdAt: new Date(TEST_DATES.created),
+      updatedAt: new Date(TEST_DATES.updated),
+    })
+  })
+
+  it('maps single-shot transfer date to the same local calendar day', () => {
+    const result = mapTransferFromDb({
+      ...recurringTransferRow,
+      type: 'single_shot',
+      date: '2025-06-01',
+      frequency: null,
+      payment_schedule: null,
+    })
+
+    expect(format(result.date!, 'yyyy-MM-dd')).toBe('2025-06-01')
+    expect(result.frequency).toBeUndefined()
+    expect(result.paymentSchedule).toBeUndefined()
+  })
+})
+
+// =============================================================================
+// mapEventConfirmationFromDb TESTS
+// =============================================================================
+
+describe('mapEventConfirmationFromDb', () => {
+  const confirmedRow: EventConfirmationRow = {
+    id: 'confirmation-123',
+    source_type: 'project',
+    source_id: 'project-1',
+    occurrence_date: '2025-06-05',
+    status: 'confirmed',
+    amount: 480000,
+    date: '2025-06-06',
+    created_at: TEST_DATES.created,
+    updated_at: TEST_DATES.updated,
+  }
+
+  it('maps confirmed event dates to the same local calendar days', () => {
+    const result = mapEventConfirmationFromDb(confirmedRow)
+
+    expect(result.sourceType).toBe('project')
+    expect(result.status).toBe('confirmed')
+    expect(result.amount).toBe(480000)
+    expect(format(result.occurrenceDate, 'yyyy-MM-dd')).toBe('2025-06-05')
+    expect(format(result.date!, 'yyyy-MM-dd')).toBe('2025-06-06')
+  })
+
+  it('maps missed event without amount or date', () => {
+    const result = mapEventConfirmationFromDb({
+      ...confirmedRow,
+      status: 'missed',
+      amount: null,
+      date: null,
+    })
+
+    expect(result.amount).toBeNull()
+    expect(result.date).toBeNull()
+  })
+})
+
+// =============================================================================
+// mapSavingsGoalFromDb TESTS
+// =============================================================================
+
+describe('mapSavingsGoalFromDb', () => {
+  const goalRow: SavingsGoalRow = {
+    id: 'goal-123',
+    name: 'Viagem',
+    target_amount: 1000000,
+    target_date: '2025-12-20',
+    account_id: null,
+    saved_amount: 150000,
+    contribution_day: 10,
+    is_active: true,
+    created_at: TEST_DATES.created,
+    updated_at: TEST_DATES.updated,
+  }
+
+  it('maps the target date to the same local calendar day', () => {
+    const result = mapSavingsGoalFromDb(goalRow)
+
+    expect(result.targetAmount).toBe(1000000)
+    expect(format(result.targetDate, 'yyyy-MM-dd')).toBe('2025-12-20')
+    expect(result.accountId).toBeNull()
+    expect(result.savedAmount).toBe(150000)
+    expect(result.contributionDay).toBe(10)
+  })
+
+  it('maps the linked account', () => {
+    const result = mapSavingsGoalFromDb({ ...goalRow, account_id: 'savings-1' })
+    expect(result.accountId).toBe('savings-1')
+  })
+})
+
+// =============================================================================
+// mapLoanFromDb TESTS
+// =============================================================================
+
+describe('mapLoanFromDb', () => {
+  const loanRow: LoanRow = {
+    id: 'loan-123',
+    name: 'Financiamento do carro',
+    principal: 4000000,
+    annual_rate: 14.5,
+    term_months: 48,
+    system: 'price',
+    first_due_date: '2025-03-15',
+    account_id: null,
+    prepayments: [{ date: '2025-09-01', amount: 500000, mode: 'reduce_term' }],
+    is_active: true,
+    created_at: TEST_DATES.created,
+    updated_at: TEST_DATES.updated,
+  }
+
+  it('maps the loan terms and the first due date to the same local calendar day', () => {
+    const result = mapLoanFromDb(loanRow)
+
+    expect(result.principal).toBe(4000000)
+    expect(result.annualRate).toBe(14.5)
+    expect(result.termMonths).toBe(48)
+    expect(result.system).toBe('price')
+    expect(format(result.firstDueDate, 'yyyy-MM-dd')).toBe('2025-03-15')
+    expect(result.accountId).toBeNull()
+    expect(result.prepayments).toEqual([{ date: '2025-09-01', amount: 500000, mode: 'reduce_term' }])
+  })
+
+  it('converts a numeric rate returned as a string', () => {
+    const result = mapLoanFromDb({ ...loanRow, annual_rate: '9.75' as unknown as number })
+    expect(result.annualRate).toBe(9.75)
+  })
+})
+
+// =============================================================================
+// mapFinanceSettingsFromDb TESTS
+// =============================================================================
+
+describe('mapFinanceSettingsFromDb', () => {
+  it('reads the safety threshold in cents', () => {
+    const result = mapFinanceSettingsFromDb([
+      { key: 'theme', value: 'dark' },
+      { key: 'safety_threshold', value: '200000' },
+    ])
+
+    expect(result.safetyThreshold).toBe(200000)
+  })
+
+  it('defaults to zero when the group never set a threshold', () => {
+    expect(mapFinanceSettingsFromDb([]).safetyThreshold).toBe(0)
+  })
+
+  it('ignores malformed or negative values', () => {
+    expect(mapFinanceSettingsFromDb([{ key: 'safety_threshold', value: 'abc' }]).safetyThreshold).toBe(0)
+    expect(mapFinanceSettingsFromDb([{ key: 'safety_threshold', value: '-500' }]).safetyThreshold).toBe(0)
+    expect(mapFinanceSettingsFromDb([{ key: 'safety_threshold', value: '10.5' }]).safetyThreshold).toBe(0)
+  })
+
+  it('reads the annual CDI rate in percent', () => {
+    const result = mapFinanceSettingsFromDb([{ key: 'cdi_annual_rate', value: '10.65' }])
+    expect(result.cdiAnnualRate).toBe(10.65)
+  })
+
+  it('defaults the CDI rate to zero when missing or out of range', () => {
+    expect(mapFinanceSettingsFromDb([]).cdiAnnualRate).toBe(0)
+    expect(mapFinanceSettingsFromDb([{ key: 'cdi_annual_rate', value: '-1' }]).cdiAnnualRate).toBe(0)
+    expect(mapFinanceSettingsFromDb([{ key: 'cdi_annual_rate', value: 'abc' }]).cdiAnnualRate).toBe(0)
+  })
+})
+
 // =============================================================================
 // mergeRealtimeOwner TESTS (regression: realtime UPDATE payloads omit joined owner)
 // =============================================================================
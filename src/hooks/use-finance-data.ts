@@ -6,7 +6,12 @@ import {
   type ProjectRow,
   type ExpenseRow,
   type CreditCardRow,
+  type TransferRow,
+  type EventConfirmationRow,
+  type SavingsGoalRow,
+  type LoanRow,
   type ProfileRow,
+  type GroupPreferenceRow,
 } from '@/lib/supabase'
 import { useAuth } from '@/hooks/use-auth'
 import type {
@@ -19,10 +24,24 @@ import type {
   CreditCard,
   Profile,
   PaymentSchedule,
+  PaymentDelay,
+  ExpenseAmountRange,
   FutureStatement,
   FutureStatementRow,
+  InstallmentPurchase,
+  InstallmentPurchaseRow,
+  Transfer,
+  EventConfirmation,
+  SavingsGoal,
+  Loan,
+  FinanceSettings,
 } from '@/types'
-import { transformFutureStatementRow } from '@/types'
+import {
+  CDI_ANNUAL_RATE_PREFERENCE_KEY,
+  DEFAULT_FINANCE_SETTINGS,
+  SAFETY_THRESHOLD_PREFERENCE_KEY,
+} from '@/types'
+import { transformFutureStatementRow, transformInstallmentPurchaseRow } from '@/types'
 import { isFixedExpense, isSingleShotExpense } from '@/types'
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
 import { parse } from 'date-fns'
@@ -76,7 +95,15 @@ export interface UseFinanceDataReturn {
   singleShotExpenses: SingleShotExpense[]
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  installmentPurchases: InstallmentPurchase[]
+  transfers: Transfer[]
+  /** Past events confirmed as paid/received or marked as not happened */
+  eventConfirmations: EventConfirmation[]
+  savingsGoals: SavingsGoal[]
+  loans: Loan[]
   profiles: Profile[]
+  /** Group-level finance settings (defaults when the group never set them) */
+  financeSettings: FinanceSettings
   isLoading: boolean
   error: string | null
   /** Retry function for error recovery */
@@ -132,12 +159,36 @@ export function mapAccountFromDb(row: AccountRow): BankAccount {
     balance: row.balance,
     ownerId: row.owner_id,
     owner: normalizeOwner(row.owner),
+    isDefault: row.is_default,
+    overdraftLimit: row.overdraft_limit,
+    overdraftMonthlyRate: row.overdraft_monthly_rate,
+    yieldType: row.yield_type,
+    yieldRate: row.yield_rate,
+    yieldIncomeTax: row.yield_income_tax,
     balanceUpdatedAt: row.balance_updated_at ? new Date(row.balance_updated_at) : undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   }
 }
 
+/**
+ * Map the payment delay columns of a project row (both null when the income pays on time).
+ */
+export function mapPaymentDelayFromDb(row: ProjectRow): PaymentDelay | null {
+  if (row.payment_delay_max_days === null || row.payment_delay_max_days === undefined) return null
+  return {
+    minDays: row.payment_delay_min_days ?? row.payment_delay_max_days,
+    maxDays: row.payment_delay_max_days,
+  }
+}
+
+/**
+ * Parse an optional DATE column (yyyy-MM-dd) into a local date.
+ */
+function parseOptionalDate(value: string | null): Date | null {
+  return value ? parse(value, 'yyyy-MM-dd', new Date()) : null
+}
+
 /**
  * Map project database row to Project type (recurring income).
  */
@@ -151,6 +202,14 @@ export function mapProjectFromDb(row: ProjectRow): Project {
     paymentSchedule: row.payment_schedule as PaymentSchedule,
     certainty: row.certainty,
     isActive: row.is_active!,
+    businessDayRollover: row.business_day_rollover,
+    accountId: row.account_id,
+    paymentDelay: mapPaymentDelayFromDb(row),
+    amountChanges: row.amount_changes,
+    startDate: parseOptionalDate(row.start_date),
+    endDate: parseOptionalDate(row.end_date),
+    occurrenceOverrides: row.occurrence_overrides,
+    taxProfile: row.tax_profile,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   }
@@ -169,11 +228,22 @@ export function mapSingleShotIncomeFromDb(row: ProjectRow): SingleShotIncome {
     amount: row.amount,
     date: parsedDate,
     certainty: row.certainty,
+    accountId: row.account_id,
+    paymentDelay: mapPaymentDelayFromDb(row),
+    taxProfile: row.tax_profile,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   }
 }
 
+/**
+ * Map the amount range columns of an expense row (both null when the amount is fixed).
+ */
+export function mapAmountRangeFromDb(row: ExpenseRow): ExpenseAmountRange | null {
+  if (row.amount_min == null || row.amount_max == null) return null
+  return { min: row.amount_min, max: row.amount_max }
+}
+
 /**
  * Map expense database row to Expense type (fixed or single-shot).
  */
@@ -182,6 +252,7 @@ export function mapExpenseFromDb(row: ExpenseRow): Expense {
     id: row.id,
     name: row.name,
     amount: row.amount,
+    accountId: row.account_id,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   }
@@ -190,8 +261,16 @@ export function mapExpenseFromDb(row: ExpenseRow): Expense {
     return {
       ...base,
       type: 'fixed' as const,
-      dueDay: row.due_day!,
+      dueDay: row.due_day ?? undefined,
+      frequency: row.frequency ?? undefined,
+      paymentSchedule: row.payment_schedule ?? undefined,
       isActive: row.is_active,
+      businessDayRollover: row.business_day_rollover,
+      amountRange: mapAmountRangeFromDb(row),
+      amountChanges: row.amount_changes,
+      startDate: parseOptionalDate(row.start_date),
+      endDate: parseOptionalDate(row.end_date),
+      occurrenceOverrides: row.occurrence_overrides,
     }
   }
 
@@ -213,14 +292,114 @@ export function mapCreditCardFromDb(row: CreditCardRow): CreditCard {
     name: row.name,
     statementBalance: row.statement_balance,
     dueDay: row.due_day,
+    closingDay: row.closing_day,
+    openStatementBalance: row.open_statement_balance,
     ownerId: row.owner_id,
     owner: normalizeOwner(row.owner),
+    accountId: row.account_id,
     balanceUpdatedAt: row.balance_updated_at ? new Date(row.balance_updated_at) : undefined,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   }
 }
 
+/**
+ * Map transfer database row to Transfer type (one-off or recurring).
+ */
+export function mapTransferFromDb(row: TransferRow): Transfer {
+  return {
+    id: row.id,
+    type: row.type,
+    name: row.name,
+    sourceAccountId: row.source_account_id,
+    destinationAccountId: row.destination_account_id,
+    amount: row.amount,
+    date: row.date ? parse(row.date, 'yyyy-MM-dd', new Date()) : undefined,
+    frequency: row.frequency ?? undefined,
+    paymentSchedule: row.payment_schedule ?? undefined,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+/**
+ * Map event confirmation database row to EventConfirmation type.
+ */
+export function mapEventConfirmationFromDb(row: EventConfirmationRow): EventConfirmation {
+  return {
+    id: row.id,
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    occurrenceDate: parse(row.occurrence_date, 'yyyy-MM-dd', new Date()),
+    status: row.status,
+    amount: row.amount,
+    date: parseOptionalDate(row.date),
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+/**
+ * Map savings goal database row to SavingsGoal type.
+ */
+export function mapSavingsGoalFromDb(row: SavingsGoalRow): SavingsGoal {
+  return {
+    id: row.id,
+    name: row.name,
+    targetAmount: row.target_amount,
+    targetDate: parse(row.target_date, 'yyyy-MM-dd', new Date()),
+    accountId: row.account_id,
+    savedAmount: row.saved_amount,
+    contributionDay: row.contribution_day,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+/**
+ * Map loan database row to Loan type.
+ */
+export function mapLoanFromDb(row: LoanRow): Loan {
+  return {
+    id: row.id,
+    name: row.name,
+    principal: row.principal,
+    annualRate: Number(row.annual_rate),
+    termMonths: row.term_months,
+    system: row.system,
+    firstDueDate: parse(row.first_due_date, 'yyyy-MM-dd', new Date()),
+    accountId: row.account_id,
+    prepayments: row.prepayments ?? [],
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+/**
+ * Map group_preferences rows to finance settings.
+ * Missing or malformed values fall back to the defaults.
+ */
+export function mapFinanceSettingsFromDb(rows: GroupPreferenceRow[]): FinanceSettings {
+  const safetyThresholdRow = rows.find((row) => row.key === SAFETY_THRESHOLD_PREFERENCE_KEY)
+  const safetyThreshold = Number(safetyThresholdRow?.value)
+  const cdiAnnualRateRow = rows.find((row) => row.key === CDI_ANNUAL_RATE_PREFERENCE_KEY)
+  const cdiAnnualRate = Number(cdiAnnualRateRow?.value)
+
+  return {
+    safetyThreshold:
+      Number.isInteger(safetyThreshold) && safetyThreshold >= 0
+        ? safetyThreshold
+        : DEFAULT_FINANCE_SETTINGS.safetyThreshold,
+    cdiAnnualRate:
+      Number.isFinite(cdiAnnualRate) && cdiAnnualRate >= 0 && cdiAnnualRate <= 100
+        ? cdiAnnualRate
+        : DEFAULT_FINANCE_SETTINGS.cdiAnnualRate,
+  }
+}
+
 type OwnerRef = { id: string; name: string } | null
 export type RealtimeOwnerSource = 'mapped' | 'existing' | 'profiles' | 'null'
 
@@ -277,7 +456,13 @@ export function useFinanceData(): UseFinanceDataReturn {
   const [expenses, setExpenses] = useState<Expense[]>([])
   const [creditCards, setCreditCards] = useState<CreditCard[]>([])
   const [futureStatements, setFutureStatements] = useState<FutureStatement[]>([])
+  const [installmentPurchases, setInstallmentPurchases] = useState<InstallmentPurchase[]>([])
+  const [transfers, setTransfers] = useState<Transfer[]>([])
+  const [eventConfirmations, setEventConfirmations] = useState<EventConfirmation[]>([])
+  const [savingsGoals, setSavingsGoals] = useState<SavingsGoal[]>([])
+  const [loans, setLoans] = useState<Loan[]>([])
   const [profiles, setProfiles] = useState<Profile[]>([])
+  const [financeSettings, setFinanceSettings] = useState<FinanceSettings>(DEFAULT_FINANCE_SETTINGS)
   const profilesRef = useRef<Profile[]>([])
   // Note: groupIdRef is captured at subscription setup time. If the user's group
   // changes mid-session, subscriptions won't automatically update. This is acceptable
@@ -346,10 +531,12 @@ export function useFinanceData(): UseFinanceDataReturn {
 
           try {
             // Fetch all tables in parallel - no user_id filter needed (shared family data)
-            const [accountsResult, projectsResult, expensesResult, creditCardsResult, futureStatementsResult, profilesResult] = await Promise.all([
+            const [accountsResult, projectsResult, expensesResult, creditCardsResult, futureStatementsResult, installmentPurchasesResult, transfersResult, eventConfirmationsResult, savingsGoalsResult, loansResult, profilesResult, groupPreferencesResult] = await Promise.all([
               startSentrySpan({ op: 'supabase.select', name: 'accounts.select' }, () =>
                 client.from('accounts').select(`
-                  id, name, type, balance, balance_updated_at, owner_id,
+                  id, name, type, balance, balance_updated_at, owner_id, is_default,
+                  overdraft_limit, overdraft_monthly_rate,
+                  yield_type, yield_rate, yield_income_tax,
                   owner:profiles!owner_id(id, name),
                   created_at, updated_at
                 `).abortSignal(controller.signal),
@@ -362,7 +549,8 @@ export function useFinanceData(): UseFinanceDataReturn {
               ),
               startSentrySpan({ op: 'supabase.select', name: 'credit_cards.select' }, () =>
                 client.from('credit_cards').select(`
-                  id, name, statement_balance, due_day, balance_updated_at, owner_id,
+                  id, name, statement_balance, due_day, closing_day, open_statement_balance,
+                  balance_updated_at, owner_id, account_id,
                   owner:profiles!owner_id(id, name),
                   created_at, updated_at
                 `).abortSignal(controller.signal),
@@ -373,9 +561,34 @@ export function useFinanceData(): UseFinanceDataReturn {
                   .order('target_month', { ascending: true })
                   .abortSignal(controller.signal),
               ),
+              startSentrySpan({ op: 'supabase.select', name: 'installment_purchases.select' }, () =>
+                client.from('installment_purchases').select('*')
+                  .order('first_year', { ascending: true })
+                  .order('first_month', { ascending: true })
+                  .abortSignal(controller.signal),
+              ),
+              startSentrySpan({ op: 'supabase.select', name: 'transfers.select' }, () =>
+                client.from('transfers').select('*').abortSignal(controller.signal),
+              ),
+              startSentrySpan({ op: 'supabase.select', name: 'event_confirmations.select' }, () =>
+                client.from('event_confirmations').select('*')
+                  .order('occurrence_date', { ascending: true })
+                  .abortSignal(controller.signal),
+              ),
+              startSentrySpan({ op: 'supabase.select', name: 'savings_goals.select' }, () =>
+                client.from('savings_goals').select('*').abortSignal(controller.signal),
+              ),
+              startSentrySpan({ op: 'supabase.select', name: 'loans.select' }, () =>
+                client.from('loans').select('*').abortSignal(controller.signal),
+              ),
               startSentrySpan({ op: 'supabase.select', name: 'profiles.select' }, () =>
                 client.from('profiles').select('id, name, group_id').order('name').abortSignal(controller.signal),
               ),
+              startSentrySpan({ op: 'supabase.select', name: 'group_preferences.select' }, () =>
+                client.from('group_preferences').select('key, value')
+                  .in('key', [SAFETY_THRESHOLD_PREFERENCE_KEY, CDI_ANNUAL_RATE_PREFERENCE_KEY])
+                  .abortSignal(controller.signal),
+              ),
             ])
 
           // Check for errors
@@ -384,7 +597,13 @@ export function useFinanceData(): UseFinanceDataReturn {
           if (expensesResult.error) throw expensesResult.error
           if (creditCardsResult.error) throw creditCardsResult.error
           if (futureStatementsResult.error) throw futureStatementsResult.error
+          if (installmentPurchasesResult.error) throw installmentPurchasesResult.error
+          if (transfersResult.error) throw transfersResult.error
+          if (eventConfirmationsResult.error) throw eventConfirmationsResult.error
+          if (savingsGoalsResult.error) throw savingsGoalsResult.error
+          if (loansResult.error) throw loansResult.error
           if (profilesResult.error) throw profilesResult.error
+          if (groupPreferencesResult.error) throw groupPreferencesResult.error
 
           // Map database rows to TypeScript types
           // Type assertions needed because Supabase infers complex types from select strings
@@ -406,6 +625,21 @@ export function useFinanceData(): UseFinanceDataReturn {
           const mappedFutureStatements = (futureStatementsResult.data ?? []).map((row) =>
             transformFutureStatementRow(row as FutureStatementRow)
           )
+          const mappedInstallmentPurchases = (installmentPurchasesResult.data ?? []).map((row) =>
+            transformInstallmentPurchaseRow(row as InstallmentPurchaseRow)
+          )
+          const mappedTransfers = (transfersResult.data ?? []).map((row) =>
+            mapTransferFromDb(row as TransferRow)
+          )
+          const mappedEventConfirmations = (eventConfirmationsResult.data ?? []).map((row) =>
+            mapEventConfirmationFromDb(row as EventConfirmationRow)
+          )
+          const mappedSavingsGoals = (savingsGoalsResult.data ?? []).map((row) =>
+            mapSavingsGoalFromDb(row as SavingsGoalRow)
+          )
+          const mappedLoans = (loansResult.data ?? []).map((row) =>
+            mapLoanFromDb(row as LoanRow)
+          )
           const mappedProfiles = (profilesResult.data ?? []).map((row) =>
             mapProfileFromDb(row as ProfileRow)
           )
@@ -419,7 +653,15 @@ export function useFinanceData(): UseFinanceDataReturn {
           setExpenses(mappedExpenses)
           setCreditCards(sortByNameThenId(mappedCreditCards))
           setFutureStatements(mappedFutureStatements)
+          setInstallmentPurchases(mappedInstallmentPurchases)
+          setTransfers(sortByNameThenId(mappedTransfers))
+          setEventConfirmations(mappedEventConfirmations)
+          setSavingsGoals(sortByNameThenId(mappedSavingsGoals))
+          setLoans(sortByNameThenId(mappedLoans))
           setProfiles(mappedProfiles)
+          setFinanceSettings(
+            mapFinanceSettingsFromDb((groupPreferencesResult.data ?? []) as GroupPreferenceRow[])
+          )
 
             // Success
             window.clearTimeout(timeoutId)
@@ -672,6 +914,121 @@ export function useFinanceData(): UseFinanceDataReturn {
     }
   }, [])
 
+  // Handle realtime changes for installment purchases
+  const handleInstallmentPurchaseChange = useCallback((payload: RealtimePostgresChangesPayload<InstallmentPurchaseRow>) => {
+    const { eventType, new: newRecord, old: oldRecord } = payload
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          setInstallmentPurchases(prev => {
+            const mapped = transformInstallmentPurchaseRow(newRecord as InstallmentPurchaseRow)
+            const next = upsertUniqueById(prev, mapped)
+            return next.sort((a, b) => {
+              if (a.firstYear !== b.firstYear) return a.firstYear - b.firstYear
+              return a.firstMonth - b.firstMonth
+            })
+          })
+        }
+        break
+      case 'DELETE':
+        if (oldRecord) {
+          setInstallmentPurchases(prev => prev.filter(purchase => purchase.id !== (oldRecord as InstallmentPurchaseRow).id))
+        }
+        break
+    }
+  }, [])
+
+  // Handle realtime changes for transfers
+  const handleTransferChange = useCallback((payload: RealtimePostgresChangesPayload<TransferRow>) => {
+    const { eventType, new: newRecord, old: oldRecord } = payload
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          setTransfers(prev => {
+            const mapped = mapTransferFromDb(newRecord as TransferRow)
+            return sortByNameThenId(upsertUniqueById(prev, mapped))
+          })
+        }
+        break
+      case 'DELETE':
+        if (oldRecord) {
+          setTransfers(prev => prev.filter(transfer => transfer.id !== (oldRecord as TransferRow).id))
+        }
+        break
+    }
+  }, [])
+
+  // Handle realtime changes for event confirmations
+  const handleEventConfirmationChange = useCallback((payload: RealtimePostgresChangesPayload<EventConfirmationRow>) => {
+    const { eventType, new: newRecord, old: oldRecord } = payload
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          setEventConfirmations(prev =>
+            upsertUniqueById(prev, mapEventConfirmationFromDb(newRecord as EventConfirmationRow))
+          )
+        }
+        break
+      case 'DELETE':
+        if (oldRecord) {
+          setEventConfirmations(prev =>
+            prev.filter(confirmation => confirmation.id !== (oldRecord as EventConfirmationRow).id)
+          )
+        }
+        break
+    }
+  }, [])
+
+  // Handle realtime changes for savings goals
+  const handleSavingsGoalChange = useCallback((payload: RealtimePostgresChangesPayload<SavingsGoalRow>) => {
+    const { eventType, new: newRecord, old: oldRecord } = payload
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          setSavingsGoals(prev => {
+            const mapped = mapSavingsGoalFromDb(newRecord as SavingsGoalRow)
+            return sortByNameThenId(upsertUniqueById(prev, mapped))
+          })
+        }
+        break
+      case 'DELETE':
+        if (oldRecord) {
+          setSavingsGoals(prev => prev.filter(goal => goal.id !== (oldRecord as SavingsGoalRow).id))
+        }
+        break
+    }
+  }, [])
+
+  // Handle realtime changes for loans
+  const handleLoanChange = useCallback((payload: RealtimePostgresChangesPayload<LoanRow>) => {
+    const { eventType, new: newRecord, old: oldRecord } = payload
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          setLoans(prev => {
+            const mapped = mapLoanFromDb(newRecord as LoanRow)
+            return sortByNameThenId(upsertUniqueById(prev, mapped))
+          })
+        }
+        break
+      case 'DELETE':
+        if (oldRecord) {
+          setLoans(prev => prev.filter(loan => loan.id !== (oldRecord as LoanRow).id))
+        }
+        break
+    }
+  }, [])
+
   // Setup subscription and initial data fetch
   useEffect(() => {
     if (!isSupabaseConfigured()) {
@@ -699,7 +1056,7 @@ export function useFinanceData(): UseFinanceDataReturn {
       // Subscribe to realtime changes (no user_id filter - shared family data)
       const client = getSupabase()
       const groupFilter = groupIdRef.current ? `group_id=eq.${groupIdRef.current}` : undefined
-      type FinanceRealtimeTable = 'accounts' | 'projects' | 'expenses' | 'credit_cards' | 'future_statements'
+      type FinanceRealtimeTable = 'accounts' | 'projects' | 'expenses' | 'credit_cards' | 'future_statements' | 'installment_purchases' | 'transfers' | 'event_confirmations' | 'savings_goals' | 'loans'
       const changes = (table: FinanceRealtimeTable) => ({
         event: '*',
         schema: 'public',
@@ -733,6 +1090,31 @@ export function useFinanceData(): UseFinanceDataReturn {
           changes('future_statements'),
           handleFutureStatementChange
         )
+        .on(
+          'postgres_changes',
+          changes('installment_purchases'),
+          handleInstallmentPurchaseChange
+        )
+        .on(
+          'postgres_changes',
+          changes('transfers'),
+          handleTransferChange
+        )
+        .on(
+          'postgres_changes',
+          changes('event_confirmations'),
+          handleEventConfirmationChange
+        )
+        .on(
+          'postgres_changes',
+          changes('savings_goals'),
+          handleSavingsGoalChange
+        )
+        .on(
+          'postgres_changes',
+          changes('loans'),
+          handleLoanChange
+        )
         .subscribe((status, err) => {
           if (status === 'CHANNEL_ERROR') {
             console.error('Realtime channel error:', err)
@@ -763,7 +1145,7 @@ export function useFinanceData(): UseFinanceDataReturn {
         channel.unsubscribe()
       }
     }
-  }, [isAuthenticated, fetchAllData, handleAccountChange, handleProjectChange, handleExpenseChange, handleCreditCardChange, handleFutureStatementChange, retryCount])
+  }, [isAuthenticated, fetchAllData, handleAccountChange, handleProjectChange, handleExpenseChange, handleCreditCardChange, handleFutureStatementChange, handleInstallmentPurchaseChange, handleTransferChange, handleEventConfirmationChange, handleSavingsGoalChange, handleLoanChange, retryCount])
 
   // Listen for explicit invalidation signals after mutations (fallback to realtime).
   useEffect(() => {
@@ -789,7 +1171,13 @@ export function useFinanceData(): UseFinanceDataReturn {
     singleShotExpenses,
     creditCards,
     futureStatements,
+    installmentPurchases,
+    transfers,
+    eventConfirmations,
+    savingsGoals,
+    loans,
     profiles,
+    financeSettings,
     isLoading,
     error,
     retry,
@@ -9,6 +9,7 @@ import {
   calculateHealthStatus,
   calculateNearDangerThreshold,
   getHealthMessage,
+  getHealthStatusReason,
 } from './use-health-indicator'
 
 // =============================================================================
@@ -92,6 +93,87 @@ describe('calculateHealthStatus', () => {
       expect(calculateHealthStatus(1, 100)).toBe('danger')
     })
   })
+
+  describe('overdraft (cheque especial)', () => {
+    it('lowers optimistic days inside the limit to "warning"', () => {
+      expect(
+        calculateHealthStatus(3, 5, { optimisticBeyondLimitDays: 0, pessimisticBeyondLimitDays: 0 })
+      ).toBe('warning')
+    })
+
+    it('lowers pessimistic days inside the limit to "caution"', () => {
+      expect(
+        calculateHealthStatus(0, 5, { optimisticBeyondLimitDays: 0, pessimisticBeyondLimitDays: 0 })
+      ).toBe('caution')
+    })
+
+    it('keeps the full severity for days beyond the limit', () => {
+      expect(
+        calculateHealthStatus(3, 5, { optimisticBeyondLimitDays: 1, pessimisticBeyondLimitDays: 2 })
+      ).toBe('danger')
+      expect(
+        calculateHealthStatus(0, 5, { optimisticBeyondLimitDays: 0, pessimisticBeyondLimitDays: 2 })
+      ).toBe('warning')
+    })
+  })
+
+  describe('realistic scenario', () => {
+    it('returns "warning" for realistic days beyond the limit', () => {
+      expect(
+        calculateHealthStatus(0, 5, {
+          optimisticBeyondLimitDays: 0,
+          realisticBeyondLimitDays: 3,
+          pessimisticBeyondLimitDays: 5,
+        })
+      ).toBe('warning')
+    })
+
+    it('keeps optimistic danger days at "danger"', () => {
+      expect(calculateHealthStatus(1, 5, { realisticBeyondLimitDays: 3 })).toBe('danger')
+    })
+  })
+
+  describe('safety threshold (reserva de segurança)', () => {
+    it('lowers days below the threshold but above zero to "caution" in both scenarios', () => {
+      expect(
+        calculateHealthStatus(3, 5, { optimisticNegativeDays: 0, pessimisticNegativeDays: 0 })
+      ).toBe('caution')
+    })
+
+    it('keeps negative days at their own severity', () => {
+      expect(
+        calculateHealthStatus(3, 5, { optimisticNegativeDays: 0, pessimisticNegativeDays: 2 })
+      ).toBe('warning')
+      expect(
+        calculateHealthStatus(3, 5, {
+          optimisticNegativeDays: 1,
+          pessimisticNegativeDays: 2,
+          optimisticBeyondLimitDays: 0,
+          pessimisticBeyondLimitDays: 0,
+        })
+      ).toBe('warning')
+    })
+  })
+})
+
+describe('getHealthStatusReason', () => {
+  const insideLimit = { optimisticBeyondLimitDays: 0, pessimisticBeyondLimitDays: 0 }
+  const aboveZero = { optimisticNegativeDays: 0, pessimisticNegativeDays: 0 }
+
+  it('is overdraft when the status comes from days inside the limit', () => {
+    expect(getHealthStatusReason('warning', 3, 5, insideLimit)).toBe('overdraft')
+    expect(getHealthStatusReason('caution', 0, 5, insideLimit)).toBe('overdraft')
+  })
+
+  it('is below_threshold when the status comes from days still above zero', () => {
+    expect(getHealthStatusReason('caution', 2, 5, aboveZero)).toBe('below_threshold')
+  })
+
+  it('is null when the status comes from days beyond the limit or other reasons', () => {
+    expect(getHealthStatusReason('warning', 0, 5)).toBeNull()
+    expect(getHealthStatusReason('caution', 0, 0)).toBeNull()
+    expect(getHealthStatusReason('danger', 3, 5, insideLimit)).toBeNull()
+  })
 })
 
 // =============================================================================
@@ -190,6 +272,41 @@ describe('getHealthMessage', () => {
       expect(message).toContain('100')
     })
 
+    it('returns cheque especial messages for days inside the limit', () => {
+      const insideLimit = { optimisticBeyondLimitDays: 0, pessimisticBeyondLimitDays: 0 }
+      expect(getHealthMessage('warning', 1, 4, insideLimit)).toBe(
+        '1 dia no cheque especial mesmo no melhor cenário'
+      )
+      expect(getHealthMessage('caution', 0, 4, insideLimit)).toBe(
+        '4 dias no cheque especial no pior cenário'
+      )
+    })
+
+    it('returns a safety cushion message for days still above zero', () => {
+      const aboveZero = { optimisticNegativeDays: 0, pessimisticNegativeDays: 0 }
+      expect(getHealthMessage('caution', 0, 1, aboveZero)).toBe(
+        '1 dia abaixo da reserva de segurança no pior cenário'
+      )
+      expect(getHealthMessage('caution', 2, 6, aboveZero)).toBe(
+        '6 dias abaixo da reserva de segurança no pior cenário'
+      )
+    })
+
+    it('prefers the realistic scenario in warning messages', () => {
+      expect(getHealthMessage('warning', 0, 5, { realisticBeyondLimitDays: 3 })).toBe(
+        '3 dias de perigo no cenário realista'
+      )
+      expect(getHealthMessage('warning', 0, 5, { realisticBeyondLimitDays: 0 })).toBe(
+        '5 dias de perigo no pior cenário'
+      )
+    })
+
+    it('counts only days beyond the limit as danger days', () => {
+      expect(
+        getHealthMessage('danger', 5, 8, { optimisticBeyondLimitDays: 2, pessimisticBeyondLimitDays: 6 })
+      ).toBe('2 dias de perigo mesmo no melhor cenário')
+    })
+
     it('returns correct plural for 2 days', () => {
       expect(getHealthMessage('danger', 2, 0)).toContain('dias de perigo')
       expect(getHealthMessage('warning', 0, 2)).toContain('dias de perigo')
@@ -10,6 +10,9 @@ import type { SummaryStats } from '@/components/cashflow/types'
 
 export type HealthStatus = 'good' | 'caution' | 'warning' | 'danger'
 
+/** Milder danger tier behind a warning/caution status */
+export type HealthStatusReason = 'overdraft' | 'below_threshold'
+
 export interface StaleEntity {
   id: string
   name: string
@@ -28,8 +31,11 @@ export interface UseHealthIndicatorResult {
   /** Danger day counts for display */
   dangerDays: {
     optimistic: number
+    realistic: number
     pessimistic: number
   }
+  /** Milder danger tier behind the status (cheque especial or safety cushion), if any */
+  reason: HealthStatusReason | null
   /** Whether data is still loading */
   isLoading: boolean
 }
@@ -54,26 +60,108 @@ export function calculateNearDangerThreshold(startingBalanceReais: number): numb
   )
 }
 
+/**
+ * Danger day counts by severity for each scenario.
+ * Negative days default to every danger day (no safety threshold), and days
+ * beyond the limit default to every negative day (no cheque especial).
+ * Realistic days default to none (projections without a realistic scenario).
+ */
+interface DangerDayBreakdown {
+  optimisticNegativeDays?: number
+  pessimisticNegativeDays?: number
+  optimisticBeyondLimitDays?: number
+  realisticBeyondLimitDays?: number
+  pessimisticBeyondLimitDays?: number
+}
+
+function resolveDangerDayBreakdown(
+  optimisticDangerDays: number,
+  pessimisticDangerDays: number,
+  options?: DangerDayBreakdown
+): Required<DangerDayBreakdown> {
+  const optimisticNegativeDays = options?.optimisticNegativeDays ?? optimisticDangerDays
+  const pessimisticNegativeDays = options?.pessimisticNegativeDays ?? pessimisticDangerDays
+  return {
+    optimisticNegativeDays,
+    pessimisticNegativeDays,
+    optimisticBeyondLimitDays: options?.optimisticBeyondLimitDays ?? optimisticNegativeDays,
+    realisticBeyondLimitDays: options?.realisticBeyondLimitDays ?? 0,
+    pessimisticBeyondLimitDays: options?.pessimisticBeyondLimitDays ?? pessimisticNegativeDays,
+  }
+}
+
 /**
  * Calculate health status from danger day counts.
+ * Days inside the cheque especial limit are one level less severe than days
+ * beyond it: the payments go through, at an interest cost. Days only below
+ * the safety threshold (still positive) are a caution. Danger days in the
+ * realistic scenario are a warning, like those in the pessimistic one.
  * Exported for unit testing.
  */
 export function calculateHealthStatus(
   optimisticDangerDays: number,
   pessimisticDangerDays: number,
-  options?: {
+  options?: DangerDayBreakdown & {
     /** True when projection does not cross 0, but minimum balance is close to it */
     isNearDanger?: boolean
     /** True when any account/card data is stale (>30 days) */
     isStale?: boolean
   }
 ): HealthStatus {
-  if (optimisticDangerDays > 0) return 'danger'
-  if (pessimisticDangerDays > 0) return 'warning'
-  if (options?.isNearDanger || options?.isStale) return 'caution'
+  const days = resolveDangerDayBreakdown(optimisticDangerDays, pessimisticDangerDays, options)
+
+  if (days.optimisticBeyondLimitDays > 0) return 'danger'
+  if (
+    days.realisticBeyondLimitDays > 0 ||
+    days.pessimisticBeyondLimitDays > 0 ||
+    days.optimisticNegativeDays > 0
+  ) {
+    return 'warning'
+  }
+  if (
+    optimisticDangerDays > 0 ||
+    pessimisticDangerDays > 0 ||
+    options?.isNearDanger ||
+    options?.isStale
+  ) {
+    return 'caution'
+  }
   return 'good'
 }
 
+/**
+ * Get the milder danger tier a status comes from, if any: days inside the
+ * cheque especial limit, or days only below the safety threshold.
+ * Exported for unit testing.
+ */
+export function getHealthStatusReason(
+  status: HealthStatus,
+  optimisticDangerDays: number,
+  pessimisticDangerDays: number,
+  options?: DangerDayBreakdown
+): HealthStatusReason | null {
+  const days = resolveDangerDayBreakdown(optimisticDangerDays, pessimisticDangerDays, options)
+
+  switch (status) {
+    case 'warning':
+      return days.realisticBeyondLimitDays === 0 &&
+        days.pessimisticBeyondLimitDays === 0 &&
+        days.optimisticNegativeDays > 0
+        ? 'overdraft'
+        : null
+    case 'caution':
+      if (days.pessimisticNegativeDays > 0) return 'overdraft'
+      if (optimisticDangerDays > 0 || pessimisticDangerDays > 0) return 'below_threshold'
+      return null
+    default:
+      return null
+  }
+}
+
+function formatDayCount(count: number, singular: string, plural: string): string {
+  return `${count} ${count !== 1 ? plural : singular}`
+}
+
 /**
  * Generate human-readable message for health status.
  * Exported for unit testing.
@@ -82,7 +170,7 @@ export function getHealthMessage(
   status: HealthStatus,
   optimisticDangerDays: number,
   pessimisticDangerDays: number,
-  options?: {
+  options?: DangerDayBreakdown & {
     /** Minimum balance in reais (pessimistic scenario) */
     minBalance?: number
     /** Date when minimum balance occurs */
@@ -91,12 +179,29 @@ export function getHealthMessage(
     staleCount?: number
   }
 ): string {
+  const days = resolveDangerDayBreakdown(optimisticDangerDays, pessimisticDangerDays, options)
+  const reason = getHealthStatusReason(status, optimisticDangerDays, pessimisticDangerDays, options)
+
   switch (status) {
     case 'danger':
-      return `${optimisticDangerDays} ${optimisticDangerDays !== 1 ? 'dias de perigo' : 'dia de perigo'} mesmo no melhor cenário`
+      return `${formatDayCount(days.optimisticBeyondLimitDays, 'dia de perigo', 'dias de perigo')} mesmo no melhor cenário`
     case 'warning':
-      return `${pessimisticDangerDays} ${pessimisticDangerDays !== 1 ? 'dias de perigo' : 'dia de perigo'} no pior cenário`
+      if (reason === 'overdraft') {
+        return `${formatDayCount(days.optimisticNegativeDays, 'dia', 'dias')} no cheque especial mesmo no melhor cenário`
+      }
+      // Danger in the realistic scenario is the more likely outcome, so it leads
+      if (days.realisticBeyondLimitDays > 0) {
+        return `${formatDayCount(days.realisticBeyondLimitDays, 'dia de perigo', 'dias de perigo')} no cenário realista`
+      }
+      return `${formatDayCount(days.pessimisticBeyondLimitDays, 'dia de perigo', 'dias de perigo')} no pior cenário`
     case 'caution': {
+      if (reason === 'overdraft') {
+        return `${formatDayCount(days.pessimisticNegativeDays, 'dia', 'dias')} no cheque especial no pior cenário`
+      }
+      if (reason === 'below_threshold') {
+        return `${formatDayCount(Math.max(optimisticDangerDays, pessimisticDangerDays), 'dia', 'dias')} abaixo da reserva de segurança no pior cenário`
+      }
+
       // Prefer the most actionable reason in the message (near danger), while the UI
       // can still show the stale badge CTA when applicable.
       if (typeof options?.minBalance === 'number' && options.minBalanceDate) {
@@ -160,24 +265,37 @@ export function useHealthIndicator(
         message: 'Nenhum dado disponível',
         isStale: staleEntities.length > 0,
         staleEntities,
-        dangerDays: { optimistic: 0, pessimistic: 0 },
+        dangerDays: { optimistic: 0, realistic: 0, pessimistic: 0 },
+        reason: null,
       }
     }
 
     const optimisticDangerDays = summaryStats.optimistic.dangerDayCount
     const pessimisticDangerDays = summaryStats.pessimistic.dangerDayCount
+    const dangerDayBreakdown = {
+      optimisticNegativeDays: summaryStats.optimistic.negativeDayCount,
+      pessimisticNegativeDays: summaryStats.pessimistic.negativeDayCount,
+      optimisticBeyondLimitDays: summaryStats.optimistic.beyondLimitDayCount,
+      realisticBeyondLimitDays: summaryStats.realistic?.beyondLimitDayCount,
+      pessimisticBeyondLimitDays: summaryStats.pessimistic.beyondLimitDayCount,
+    }
     const staleCount = staleEntities.length
 
+    // A group safety threshold already flags low balances as danger days;
+    // the scaled "near zero" heuristic only applies when none is set
     const pessimisticMinBalance = summaryStats.pessimistic.minBalance
-    const nearDangerThreshold = calculateNearDangerThreshold(summaryStats.startingBalance)
     const isNearDanger =
-      pessimisticMinBalance >= 0 && pessimisticMinBalance <= nearDangerThreshold
+      summaryStats.safetyThreshold <= 0 &&
+      pessimisticMinBalance >= 0 &&
+      pessimisticMinBalance <= calculateNearDangerThreshold(summaryStats.startingBalance)
 
     const status = calculateHealthStatus(optimisticDangerDays, pessimisticDangerDays, {
+      ...dangerDayBreakdown,
       isNearDanger,
       isStale: staleCount > 0,
     })
     const message = getHealthMessage(status, optimisticDangerDays, pessimisticDangerDays, {
+      ...dangerDayBreakdown,
       minBalance: isNearDanger ? pessimisticMinBalance : undefined,
       minBalanceDate: isNearDanger ? summaryStats.pessimistic.minBalanceDate : undefined,
       staleCount,
@@ -190,8 +308,10 @@ export function useHealthIndicator(
       staleEntities,
       dangerDays: {
         optimistic: optimisticDangerDays,
+        realistic: summaryStats.realistic?.dangerDayCount ?? 0,
         pessimistic: pessimisticDangerDays,
       },
+      reason: getHealthStatusReason(status, optimisticDangerDays, pessimisticDangerDays, dangerDayBreakdown),
     }
   }, [summaryStats, staleEntities])
 
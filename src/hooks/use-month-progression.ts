@@ -1,9 +1,9 @@
 /**
  * Hook for automatic month progression at app launch.
  * 
- * This hook checks if the month has changed since the user's last visit
- * and promotes any future statements for the current month to become
- * the current statement balance.
+ * This hook checks if a statement closed (or, for cards without a closing
+ * day, the month changed) since the user's last visit and promotes the
+ * matching future statements to become the card balances.
  */
 
 import { useState, useEffect, useCallback } from 'react'
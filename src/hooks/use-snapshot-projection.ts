@@ -6,17 +6,26 @@
 import { useMemo } from 'react'
 import {
   transformToChartData,
+  aggregateChartData,
   getDangerRanges,
+  getAccountLines,
   transformToSummaryStats,
 } from '@/hooks/use-cashflow-projection'
+import { simulateCashflow } from '@/lib/cashflow'
 import { isSchemaVersionCompatible, CURRENT_SCHEMA_VERSION } from '@/lib/snapshots'
 import type { ProjectionSnapshot } from '@/types/snapshot'
-import type { ChartDataPoint, DangerRange, SummaryStats } from '@/components/cashflow/types'
+import type {
+  AccountLine,
+  ChartDataPoint,
+  DangerRange,
+  SummaryStats,
+} from '@/components/cashflow/types'
 import type { CashflowProjection, DailySnapshot } from '@/lib/cashflow/types'
 
 interface UseSnapshotProjectionResult {
   chartData: ChartDataPoint[]
   dangerRanges: DangerRange[]
+  accountLines: AccountLine[]
   summaryStats: SummaryStats | null
 }
 
@@ -32,6 +41,14 @@ function parseDatesInProjection(projection: CashflowProjection): CashflowProject
     days: projection.days.map((day) => ({
       ...day,
       date: new Date(day.date),
+      incomeEvents: day.incomeEvents.map((event) => ({
+        ...event,
+        ...(event.scheduledDate ? { scheduledDate: new Date(event.scheduledDate) } : {}),
+        ...(event.occurrenceDate ? { occurrenceDate: new Date(event.occurrenceDate) } : {}),
+      })),
+      expenseEvents: day.expenseEvents.map((event) =>
+        event.occurrenceDate ? { ...event, occurrenceDate: new Date(event.occurrenceDate) } : event
+      ),
     })),
     optimistic: {
       ...projection.optimistic,
@@ -40,6 +57,14 @@ function parseDatesInProjection(projection: CashflowProjection): CashflowProject
         date: new Date(d.date),
       })),
     },
+    // Absent on snapshots saved before the realistic scenario existed
+    realistic: projection.realistic && {
+      ...projection.realistic,
+      dangerDays: projection.realistic.dangerDays.map((d) => ({
+        ...d,
+        date: new Date(d.date),
+      })),
+    },
     pessimistic: {
       ...projection.pessimistic,
       dangerDays: projection.pessimistic.dangerDays.map((d) => ({
@@ -87,26 +112,41 @@ export function useSnapshotProjection(
     return calculateInvestmentTotal(snapshot)
   }, [snapshot])
 
+  // Simulation is derived from the frozen days (seeded), so it is not stored
+  const simulation = useMemo(() => {
+    if (!projection) return null
+    return simulateCashflow(projection)
+  }, [projection])
+
   // Transform to chart data
   const chartData = useMemo(() => {
     if (!projection) return []
-    return transformToChartData(projection.days as DailySnapshot[], investmentTotal)
-  }, [projection, investmentTotal])
+    return aggregateChartData(
+      transformToChartData(projection.days as DailySnapshot[], investmentTotal, simulation)
+    )
+  }, [projection, investmentTotal, simulation])
 
   // Get danger ranges
   const dangerRanges = useMemo(() => {
     return getDangerRanges(chartData)
   }, [chartData])
 
+  // Per-account chart lines
+  const accountLines = useMemo(() => {
+    if (!projection) return []
+    return getAccountLines(projection)
+  }, [projection])
+
   // Transform to summary stats
   const summaryStats = useMemo(() => {
     if (!projection) return null
-    return transformToSummaryStats(projection as CashflowProjection)
-  }, [projection])
+    return transformToSummaryStats(projection as CashflowProjection, simulation)
+  }, [projection, simulation])
 
   return {
     chartData,
     dangerRanges,
+    accountLines,
     summaryStats,
   }
 }
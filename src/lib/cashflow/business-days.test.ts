@@ -0,0 +1,152 @@
+/**
+ * Business Day Handling Tests
+ *
+ * Tests for the Brazilian holiday calendar and business-day rollover.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { format, isSameDay } from 'date-fns'
+import {
+  findRolledOverDueDate,
+  getBrazilianHolidays,
+  getEasterSunday,
+  getRolledOverDate,
+  isBrazilianHoliday,
+  isBusinessDay,
+} from './business-days'
+
+// Helper to create local dates (months are 1-indexed here for readability)
+function localDate(year: number, month: number, day: number): Date {
+  return new Date(year, month - 1, day)
+}
+
+// =============================================================================
+// HOLIDAY CALENDAR TESTS
+// =============================================================================
+
+describe('getEasterSunday', () => {
+  it('calculates known Easter dates', () => {
+    expect(isSameDay(getEasterSunday(2024), localDate(2024, 3, 31))).toBe(true)
+    expect(isSameDay(getEasterSunday(2025), localDate(2025, 4, 20))).toBe(true)
+    expect(isSameDay(getEasterSunday(2026), localDate(2026, 4, 5))).toBe(true)
+  })
+})
+
+describe('getBrazilianHolidays', () => {
+  it('includes fixed and Easter-derived holidays', () => {
+    const holidays = getBrazilianHolidays(2025).map((d) => format(d, 'MM-dd'))
+
+    expect(holidays).toEqual([
+      '01-01', // Confraternização Universal
+      '03-03', // Carnaval
+      '03-04', // Carnaval
+      '04-18', // Sexta-feira Santa
+      '04-21', // Tiradentes
+      '05-01', // Dia do Trabalho
+      '06-19', // Corpus Christi
+      '09-07', // Independência
+      '10-12', // Nossa Senhora Aparecida
+      '11-02', // Finados
+      '11-15', // Proclamação da República
+      '11-20', // Consciência Negra
+      '12-25', // Natal
+    ])
+  })
+
+  it('only includes Consciência Negra from 2024 onwards', () => {
+    expect(isBrazilianHoliday(localDate(2023, 11, 20))).toBe(false)
+    expect(isBrazilianHoliday(localDate(2024, 11, 20))).toBe(true)
+  })
+})
+
+describe('isBusinessDay', () => {
+  it('returns true for regular weekdays', () => {
+    expect(isBusinessDay(localDate(2025, 1, 2))).toBe(true) // Thursday
+  })
+
+  it('returns false for weekends', () => {
+    expect(isBusinessDay(localDate(2025, 1, 4))).toBe(false) // Saturday
+    expect(isBusinessDay(localDate(2025, 1, 5))).toBe(false) // Sunday
+  })
+
+  it('returns false for holidays on weekdays', () => {
+    expect(isBusinessDay(localDate(2025, 1, 1))).toBe(false) // Wednesday, New Year
+    expect(isBusinessDay(localDate(2025, 3, 4))).toBe(false) // Tuesday, Carnaval
+  })
+})
+
+// =============================================================================
+// ROLLOVER TESTS
+// =============================================================================
+
+describe('findRolledOverDueDate', () => {
+  const dueOn = (target: Date) => (candidate: Date) => isSameDay(candidate, target)
+
+  it('keeps the scheduled date with the none rule', () => {
+    const sunday = localDate(2025, 1, 5)
+    expect(findRolledOverDueDate(sunday, 'none', dueOn(sunday))).toEqual(sunday)
+    expect(findRolledOverDueDate(localDate(2025, 1, 3), 'none', dueOn(sunday))).toBeNull()
+  })
+
+  it('moves weekend dates to the previous business day', () => {
+    const sunday = localDate(2025, 1, 5)
+    const friday = localDate(2025, 1, 3)
+
+    expect(findRolledOverDueDate(friday, 'previous', dueOn(sunday))).toEqual(sunday)
+    expect(findRolledOverDueDate(sunday, 'previous', dueOn(sunday))).toBeNull()
+    expect(findRolledOverDueDate(localDate(2025, 1, 6), 'previous', dueOn(sunday))).toBeNull()
+  })
+
+  it('moves weekend dates to the next business day', () => {
+    const sunday = localDate(2025, 1, 5)
+    const monday = localDate(2025, 1, 6)
+
+    expect(findRolledOverDueDate(monday, 'next', dueOn(sunday))).toEqual(sunday)
+    expect(findRolledOverDueDate(localDate(2025, 1, 3), 'next', dueOn(sunday))).toBeNull()
+  })
+
+  it('skips across Carnaval and the weekend before it', () => {
+    // Carnaval 2025: Monday March 3 and Tuesday March 4
+    const saturday = localDate(2025, 3, 1)
+
+    expect(
+      findRolledOverDueDate(localDate(2025, 3, 5), 'next', dueOn(saturday))
+    ).toEqual(saturday)
+    expect(
+      findRolledOverDueDate(localDate(2025, 2, 28), 'previous', dueOn(localDate(2025, 3, 4)))
+    ).toEqual(localDate(2025, 3, 4))
+  })
+
+  it('returns the date itself when it is already a business day', () => {
+    const thursday = localDate(2025, 1, 2)
+    expect(findRolledOverDueDate(thursday, 'previous', dueOn(thursday))).toEqual(thursday)
+    expect(findRolledOverDueDate(thursday, 'next', dueOn(thursday))).toEqual(thursday)
+  })
+})
+
+describe('getRolledOverDate', () => {
+  it('keeps the scheduled date with the none rule or on business days', () => {
+    const sunday = localDate(2025, 1, 5)
+    const thursday = localDate(2025, 1, 2)
+
+    expect(getRolledOverDate(sunday, 'none')).toEqual(sunday)
+    expect(getRolledOverDate(thursday, 'previous')).toEqual(thursday)
+    expect(getRolledOverDate(thursday, 'next')).toEqual(thursday)
+  })
+
+  it('moves non-business days to the previous or next business day', () => {
+    const sunday = localDate(2025, 1, 5)
+
+    expect(getRolledOverDate(sunday, 'previous')).toEqual(localDate(2025, 1, 3))
+    expect(getRolledOverDate(sunday, 'next')).toEqual(localDate(2025, 1, 6))
+  })
+
+  it('is the inverse of findRolledOverDueDate across Carnaval', () => {
+    // Carnaval 2025: Monday March 3 and Tuesday March 4
+    const saturday = localDate(2025, 3, 1)
+    const tuesday = localDate(2025, 3, 4)
+
+    expect(getRolledOverDate(saturday, 'next')).toEqual(localDate(2025, 3, 5))
+    expect(getRolledOverDate(tuesday, 'previous')).toEqual(localDate(2025, 2, 28))
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Business Day Handling
+ *
+ * Brazilian national holiday calendar and business-day rollover rules used to
+ * move payments that fall on weekends or holidays (e.g. salaries paid on the
+ * previous business day, boletos paid on the next one).
+ */
+
+import { addDays, format, getISODay } from 'date-fns'
+import type { BusinessDayRollover } from '../../types'
+
+// =============================================================================
+// HOLIDAY CALENDAR
+// =============================================================================
+
+/**
+ * Fixed-date national holidays as [month (1-12), day] pairs.
+ */
+const FIXED_NATIONAL_HOLIDAYS: ReadonlyArray<readonly [number, number]> = [
+  [1, 1], // Confraternização Universal
+  [4, 21], // Tiradentes
+  [5, 1], // Dia do Trabalho
+  [9, 7], // Independência do Brasil
+  [10, 12], // Nossa Senhora Aparecida
+  [11, 2], // Finados
+  [11, 15], // Proclamação da República
+  [12, 25], // Natal
+]
+
+/**
+ * Dia Nacional de Zumbi e da Consciência Negra became a national holiday in 2024.
+ */
+const CONSCIENCIA_NEGRA_FIRST_YEAR = 2024
+
+/**
+ * Easter-relative holidays as day offsets from Easter Sunday.
+ */
+const EASTER_RELATIVE_HOLIDAYS: ReadonlyArray<number> = [
+  -48, // Carnaval (segunda-feira)
+  -47, // Carnaval (terça-feira)
+  -2, // Sexta-feira Santa
+  60, // Corpus Christi
+]
+
+/**
+ * Maximum consecutive non-business days scanned when rolling a date over.
+ * Carnaval plus a weekend is the longest run in the calendar (4 days).
+ */
+export const MAX_ROLLOVER_DAYS = 7
+
+const holidayCache = new Map<number, Set<string>>()
+
+/**
+ * Calculate Easter Sunday for a given year (anonymous Gregorian algorithm).
+ *
+ * @param year - The calendar year
+ * @returns Easter Sunday at local midnight
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Get all Brazilian national holidays (including Carnaval) for a year.
+ *
+ * @param year - The calendar year
+ * @returns Holiday dates at local midnight, sorted chronologically
+ */
+export function getBrazilianHolidays(year: number): Date[] {
+  const holidays = FIXED_NATIONAL_HOLIDAYS.map(([month, day]) => new Date(year, month - 1, day))
+
+  if (year >= CONSCIENCIA_NEGRA_FIRST_YEAR) {
+    holidays.push(new Date(year, 10, 20))
+  }
+
+  const easter = getEasterSunday(year)
+  for (const offset of EASTER_RELATIVE_HOLIDAYS) {
+    holidays.push(addDays(easter, offset))
+  }
+
+  return holidays.sort((a, b) => a.getTime() - b.getTime())
+}
+
+/**
+ * Check if a date is a Brazilian national holiday.
+ *
+ * @param date - The date to check
+ * @returns True if the date is a holiday
+ */
+export function isBrazilianHoliday(date: Date): boolean {
+  const year = date.getFullYear()
+  let holidays = holidayCache.get(year)
+  if (!holidays) {
+    holidays = new Set(getBrazilianHolidays(year).map((d) => format(d, 'yyyy-MM-dd')))
+    holidayCache.set(year, holidays)
+  }
+  return holidays.has(format(date, 'yyyy-MM-dd'))
+}
+
+/**
+ * Check if a date is a business day (weekday that is not a national holiday).
+ *
+ * @param date - The date to check
+ * @returns True if the date is a business day
+ */
+export function isBusinessDay(date: Date): boolean {
+  // ISO 8601: 6 = Saturday, 7 = Sunday
+  return getISODay(date) < 6 && !isBrazilianHoliday(date)
+}
+
+// =============================================================================
+// ROLLOVER
+// =============================================================================
+
+/**
+ * Find the scheduled date whose payment lands on `date` after rollover.
+ * Used by the day-by-day engine: with the previous rule, a business day also
+ * collects the non-business days right after it; with the next rule, the
+ * non-business days right before it.
+ *
+ * @param date - The day being projected
+ * @param rule - The item's rollover rule
+ * @param isDueOn - Whether the item is nominally scheduled on a given date
+ * @returns The nominal scheduled date, or null if nothing lands on this day
+ */
+export function findRolledOverDueDate(
+  date: Date,
+  rule: BusinessDayRollover,
+  isDueOn: (candidate: Date) => boolean
+): Date | null {
+  if (rule === 'none') {
+    return isDueOn(date) ? date : null
+  }
+
+  if (!isBusinessDay(date)) return null
+  if (isDueOn(date)) return date
+
+  const step = rule === 'previous' ? 1 : -1
+  for (let i = 1; i <= MAX_ROLLOVER_DAYS; i++) {
+    const candidate = addDays(date, i * step)
+    if (isBusinessDay(candidate)) break
+    if (isDueOn(candidate)) return candidate
+  }
+
+  return null
+}
+
+/**
+ * Find the day a payment scheduled on `date` lands on after rollover.
+ * The inverse of findRolledOverDueDate, used to index scheduled payments by
+ * the day they are paid instead of checking every day.
+ *
+ * @param date - The nominal scheduled date
+ * @param rule - The item's rollover rule
+ * @returns The payment day, or null if no business day is within reach
+ */
+export function getRolledOverDate(date: Date, rule: BusinessDayRollover): Date | null {
+  if (rule === 'none' || isBusinessDay(date)) return date
+
+  const step = rule === 'previous' ? -1 : 1
+  for (let i = 1; i <= MAX_ROLLOVER_DAYS; i++) {
+    const candidate = addDays(date, i * step)
+    if (isBusinessDay(candidate)) return candidate
+  }
+
+  return null
+}
@@ -5,23 +5,76 @@
  * No side effects, no input mutation.
  */
 
-import { addDays, startOfDay } from 'date-fns'
-import type { BankAccount, CreditCard, FixedExpense, SingleShotExpense, SingleShotIncome, Project, FutureStatement } from '../../types'
-import { isSameDay } from 'date-fns'
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  getDate,
+  getISODay,
+  isSameDay,
+  parse,
+  setDate,
+  startOfDay,
+  startOfMonth,
+  subMonths,
+} from 'date-fns'
+import type {
+  BankAccount,
+  CreditCard,
+  FixedExpense,
+  SingleShotExpense,
+  SingleShotIncome,
+  Project,
+  FutureStatement,
+  InstallmentPurchase,
+  Frequency,
+  PaymentSchedule,
+  BusinessDayRollover,
+  Transfer,
+  OccurrenceOverride,
+  EventConfirmationInput,
+  SavingsGoal,
+  Loan,
+  TaxProfile,
+} from '../../types'
+import {
+  findEventConfirmation,
+  findOccurrenceOverride,
+  getAmountInEffect,
+  getFixedExpenseSchedule,
+  getInstallmentsTotalForMonth,
+  isWithinActivePeriod,
+} from '../../types'
 import {
   isMonthlyPaymentDue,
   isDayOfWeekPaymentDue,
   isTwiceMonthlyPaymentDue,
+  isEveryNMonthsPaymentDue,
+  isYearlyPaymentDue,
+  isAnchoredBiweeklyPaymentDue,
   getEffectiveDay,
 } from './frequencies'
-import { getDate } from 'date-fns'
+import { MAX_ROLLOVER_DAYS, findRolledOverDueDate, getRolledOverDate, isBusinessDay } from './business-days'
+import { getStatementCycle, toStatementIndex } from './statement-cycle'
+import { getContributionAmount, planSavingsGoal } from './goals'
+import { buildAmortizationSchedule } from './loans'
+import { calculateDailyYield } from './yield'
+import { calculateMonthlyTaxes, getTaxDueDate, type TaxKind } from './taxes'
 import type {
+  AccountBalance,
+  AccountSummary,
   CashflowProjection,
   DailySnapshot,
   DangerDay,
+  DangerLevel,
   ExpenseEvent,
   IncomeEvent,
+  MonthlySummary,
+  SavingsGoalPlan,
+  Scenario,
   ScenarioSummary,
+  TransferEvent,
 } from './types'
 import { type CashflowEngineInput, validateAndFilterInput } from './validators'
 
@@ -39,21 +92,300 @@ export function calculateStartingBalance(accounts: BankAccount[]): number {
     .reduce((sum, account) => sum + account.balance, 0)
 }
 
+/**
+ * Calculate starting balance from investment accounts.
+ * Used by the investment-inclusive chart line.
+ */
+export function calculateInvestmentBalance(accounts: BankAccount[]): number {
+  return accounts
+    .filter((account) => account.type === 'investment')
+    .reduce((sum, account) => sum + account.balance, 0)
+}
+
+/**
+ * Calculate the starting balance of each non-checking account.
+ * Transfers move money between these accounts and the checking balance.
+ */
+function getNonCheckingBalances(accounts: BankAccount[]): Map<string, number> {
+  return new Map(
+    accounts
+      .filter((account) => account.type !== 'checking')
+      .map((account) => [account.id, account.balance])
+  )
+}
+
+/**
+ * Sum the running balances of investment accounts.
+ */
+function sumInvestmentBalance(
+  accounts: BankAccount[],
+  nonCheckingBalances: Map<string, number>
+): number {
+  return accounts
+    .filter((account) => account.type === 'investment')
+    .reduce((sum, account) => sum + (nonCheckingBalances.get(account.id) ?? 0), 0)
+}
+
+// =============================================================================
+// PER-ACCOUNT BALANCES
+// =============================================================================
+
+/**
+ * Resolves the checking account an income or expense is booked to.
+ */
+type AccountResolver = (accountId: string | null | undefined) => string | undefined
+
+/**
+ * Get the account receiving unassigned income and expenses: the checking
+ * account flagged as default, else the first checking account.
+ * Returns undefined when no checking account exists.
+ */
+export function getDefaultAccountId(accounts: BankAccount[]): string | undefined {
+  const checkingAccounts = accounts.filter((account) => account.type === 'checking')
+  return (checkingAccounts.find((account) => account.isDefault) ?? checkingAccounts[0])?.id
+}
+
+/**
+ * Build a resolver for target accounts. Items assigned to an account that no
+ * longer exists or is not a checking account fall back to the default account.
+ */
+function createAccountResolver(accounts: BankAccount[]): AccountResolver {
+  const checkingIds = new Set(
+    accounts.filter((account) => account.type === 'checking').map((account) => account.id)
+  )
+  const defaultAccountId = getDefaultAccountId(accounts)
+
+  return (accountId) =>
+    accountId && checkingIds.has(accountId) ? accountId : defaultAccountId
+}
+
+/**
+ * Get the starting balance of each checking account (same for every scenario).
+ */
+export function getStartingAccountBalances(accounts: BankAccount[]): AccountBalance[] {
+  return accounts
+    .filter((account) => account.type === 'checking')
+    .map((account) => ({
+      accountId: account.id,
+      optimisticBalance: account.balance,
+      realisticBalance: account.balance,
+      pessimisticBalance: account.balance,
+    }))
+}
+
+/**
+ * Apply a day's events to the running balance of each checking account.
+ * Mirrors the scenario totals: each balance only receives the income its scenario counts.
+ */
+function applyAccountEvents(
+  previous: AccountBalance[],
+  incomeEvents: IncomeEvent[],
+  expenseEvents: ExpenseEvent[],
+  transferEvents: TransferEvent[]
+): AccountBalance[] {
+  return previous.map((balance) => {
+    const { accountId } = balance
+    const accountIncome = incomeEvents.filter((event) => event.accountId === accountId)
+    const accountExpenses = expenseEvents.filter((event) => event.accountId === accountId)
+
+    let transferDelta = 0
+    for (const event of transferEvents) {
+      transferDelta +=
+        (event.destinationAccountId === accountId ? event.amount : 0) -
+        (event.sourceAccountId === accountId ? event.amount : 0)
+    }
+
+    const delta = (scenario: Scenario) =>
+      calculateScenarioIncome(accountIncome, scenario) -
+      calculateScenarioExpenses(accountExpenses, scenario) +
+      transferDelta
+
+    return {
+      accountId,
+      optimisticBalance: balance.optimisticBalance + delta('optimistic'),
+      realisticBalance: getScenarioAccountBalance(balance, 'realistic') + delta('realistic'),
+      pessimisticBalance: balance.pessimisticBalance + delta('pessimistic'),
+    }
+  })
+}
+
+/**
+ * Get an account's running balance in a scenario.
+ * Balances saved before the realistic scenario existed fall back to pessimistic.
+ */
+function getScenarioAccountBalance(balance: AccountBalance, scenario: Scenario): number {
+  switch (scenario) {
+    case 'optimistic':
+      return balance.optimisticBalance
+    case 'realistic':
+      return balance.realisticBalance ?? balance.pessimisticBalance
+    case 'pessimistic':
+      return balance.pessimisticBalance
+  }
+}
+
+/**
+ * Generate per-account summaries from daily snapshots.
+ * Days without per-account balances (older snapshots) are skipped.
+ */
+export function generateAccountSummaries(
+  accounts: BankAccount[],
+  days: DailySnapshot[],
+  startingBalances: AccountBalance[] = getStartingAccountBalances(accounts)
+): AccountSummary[] {
+  const defaultAccountId = getDefaultAccountId(accounts)
+
+  return startingBalances.flatMap((start) => {
+    const account = accounts.find((a) => a.id === start.accountId)
+    if (!account) return []
+
+    let optimisticEndBalance = start.optimisticBalance
+    let pessimisticEndBalance = start.pessimisticBalance
+    let optimisticDangerDayCount = 0
+    let pessimisticDangerDayCount = 0
+
+    for (const day of days) {
+      const balance = day.accountBalances?.find((b) => b.accountId === start.accountId)
+      if (!balance) continue
+      optimisticEndBalance = balance.optimisticBalance
+      pessimisticEndBalance = balance.pessimisticBalance
+      if (balance.optimisticBalance < 0) optimisticDangerDayCount++
+      if (balance.pessimisticBalance < 0) pessimisticDangerDayCount++
+    }
+
+    return [{
+      accountId: account.id,
+      accountName: account.name,
+      isDefault: account.id === defaultAccountId,
+      startingBalance: start.pessimisticBalance,
+      optimisticEndBalance,
+      pessimisticEndBalance,
+      optimisticDangerDayCount,
+      pessimisticDangerDayCount,
+    }]
+  })
+}
+
+// =============================================================================
+// OVERDRAFT (CHEQUE ESPECIAL)
+// =============================================================================
+
+/** Scenarios tracked by the engine, from most to least income */
+const SCENARIOS: Scenario[] = ['optimistic', 'realistic', 'pessimistic']
+
+/** Banks quote cheque especial rates per month and charge interest daily on a 30-day basis */
+const OVERDRAFT_DAYS_PER_MONTH = 30
+
+/**
+ * Interest accrued (fractional cents) since the last charge, per scenario.
+ */
+type OverdraftInterestAccrual = Record<Scenario, number>
+
+/**
+ * Calculate the combined cheque especial limit of checking accounts.
+ * Returns 0 when no account has a limit.
+ */
+export function calculateOverdraftLimit(accounts: BankAccount[]): number {
+  return accounts
+    .filter((account) => account.type === 'checking')
+    .reduce((sum, account) => sum + (account.overdraftLimit ?? 0), 0)
+}
+
+/**
+ * Get the danger level of a balance given the overdraft limit and safety threshold.
+ * Returns undefined when the balance is at or above the safety threshold.
+ */
+export function getDangerLevel(
+  balance: number,
+  overdraftLimit: number,
+  safetyThreshold = 0
+): DangerLevel | undefined {
+  if (balance >= safetyThreshold) return undefined
+  if (balance >= 0) return 'below_threshold'
+  return -balance <= overdraftLimit ? 'overdraft' : 'beyond_limit'
+}
+
+/**
+ * Accrue one day of interest on each account's negative balance.
+ * Only the part covered by the limit accrues interest (payments beyond it bounce).
+ * Mutates the accruals map.
+ */
+function accrueOverdraftInterest(
+  accruals: Map<string, OverdraftInterestAccrual>,
+  accountBalances: AccountBalance[],
+  accountsById: Map<string, BankAccount>
+): void {
+  for (const balance of accountBalances) {
+    const account = accountsById.get(balance.accountId)
+    const limit = account?.overdraftLimit ?? 0
+    const monthlyRate = account?.overdraftMonthlyRate ?? 0
+    if (limit === 0 || monthlyRate === 0) continue
+
+    const dailyRate = monthlyRate / 100 / OVERDRAFT_DAYS_PER_MONTH
+    const borrowed = (scenarioBalance: number) =>
+      Math.min(Math.max(-scenarioBalance, 0), limit)
+
+    const accrual = accruals.get(balance.accountId) ?? { optimistic: 0, realistic: 0, pessimistic: 0 }
+    for (const scenario of SCENARIOS) {
+      accrual[scenario] += borrowed(getScenarioAccountBalance(balance, scenario)) * dailyRate
+    }
+    accruals.set(balance.accountId, accrual)
+  }
+}
+
+/**
+ * Create the overdraft interest charges for a specific day.
+ * Interest accrued during a month is charged on the 1st of the next month, as
+ * an expense of the account that used the limit. Scenarios with different
+ * charges get one event each. Mutates the accruals map (charged interest is reset).
+ */
+function createOverdraftInterestEvents(
+  date: Date,
+  accruals: Map<string, OverdraftInterestAccrual>,
+  accountsById: Map<string, BankAccount>
+): ExpenseEvent[] {
+  if (getDate(date) !== 1) return []
+
+  const events: ExpenseEvent[] = []
+
+  for (const [accountId, accrual] of accruals) {
+    const amounts = SCENARIOS.map((scenario) => Math.round(accrual[scenario]))
+    accruals.delete(accountId)
+
+    const event = {
+      sourceId: accountId,
+      sourceName: `Juros do cheque especial (${accountsById.get(accountId)?.name ?? ''})`,
+      sourceType: 'overdraft_interest' as const,
+      accountId,
+    }
+
+    if (amounts.every((amount) => amount === amounts[0])) {
+      if (amounts[0] > 0) events.push({ ...event, amount: amounts[0] })
+      continue
+    }
+    SCENARIOS.forEach((scenario, index) => {
+      if (amounts[index] > 0) events.push({ ...event, amount: amounts[index], scenario })
+    })
+  }
+
+  return events
+}
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
 /**
  * Get the amount for a twice-monthly payment on a specific day.
- * Uses variable amounts if configured, otherwise falls back to project's base amount.
+ * Uses variable amounts if configured, otherwise falls back to the base amount.
  *
- * @param project - The project with payment configuration
+ * @param baseAmount - The source's base amount (project or expense)
  * @param schedule - The twice-monthly schedule with optional variable amounts
  * @param date - The date to check (used to determine which payment day)
  * @returns The amount for this payment day
  */
 function getAmountForTwiceMonthlyPayment(
-  project: Project,
+  baseAmount: number,
   schedule: { firstDay: number; secondDay: number; firstAmount?: number; secondAmount?: number },
   date: Date
 ): number {
@@ -71,8 +403,246 @@ function getAmountForTwiceMonthlyPayment(
     }
   }
 
-  // Fallback to project's base amount
-  return project.amount
+  // Fallback to the base amount
+  return baseAmount
+}
+
+/**
+ * Get the amount for a yearly payment on a specific day.
+ * Uses the matching date's amount if configured, otherwise falls back to the base amount.
+ */
+function getAmountForYearlyPayment(
+  baseAmount: number,
+  schedule: { dates: ReadonlyArray<{ month: number; day: number; amount?: number }> },
+  date: Date
+): number {
+  const match = schedule.dates.find((entry) => isYearlyPaymentDue(date, [entry]))
+  return match?.amount ?? baseAmount
+}
+
+/**
+ * Resolve the amount due on a specific day for a recurring schedule.
+ * Twice-monthly and yearly schedules can vary their amount per payment day.
+ */
+function getScheduledAmount(baseAmount: number, schedule: PaymentSchedule, date: Date): number {
+  switch (schedule.type) {
+    case 'twiceMonthly':
+      return getAmountForTwiceMonthlyPayment(baseAmount, schedule, date)
+    case 'yearly':
+      return getAmountForYearlyPayment(baseAmount, schedule, date)
+    default:
+      return baseAmount
+  }
+}
+
+/**
+ * Scale an amount of a recurring item to the amount change in effect.
+ * Amounts derived from the base amount (per-payment schedule amounts, expense
+ * ranges) keep their proportion to it.
+ */
+function scaleToAmountInEffect(value: number, baseAmount: number, amountInEffect: number): number {
+  return amountInEffect === baseAmount ? value : Math.round((value * amountInEffect) / baseAmount)
+}
+
+/**
+ * Check if a recurring schedule is nominally due on a specific day.
+ * Shared by recurring income (projects), fixed expenses and transfers.
+ * Unanchored biweekly schedules depend on the projection start instead:
+ * see getUnanchoredBiweeklyDueDates.
+ *
+ * @param date - The date to check
+ * @param frequency - The configured frequency
+ * @param schedule - The payment schedule (must match the frequency)
+ * @returns True if payment is due on this date
+ */
+function isScheduleDue(date: Date, frequency: Frequency, schedule: PaymentSchedule): boolean {
+  switch (frequency) {
+    case 'monthly':
+      return schedule.type === 'dayOfMonth' && isMonthlyPaymentDue(date, schedule.dayOfMonth)
+    case 'twice-monthly':
+      return (
+        schedule.type === 'twiceMonthly' &&
+        isTwiceMonthlyPaymentDue(date, schedule.firstDay, schedule.secondDay)
+      )
+    case 'biweekly':
+      // Anchored schedules follow the real paydays regardless of projection start
+      return (
+        schedule.type === 'dayOfWeek' &&
+        !!schedule.anchorDate &&
+        isDayOfWeekPaymentDue(date, schedule.dayOfWeek) &&
+        isAnchoredBiweeklyPaymentDue(date, schedule.anchorDate)
+      )
+    case 'weekly':
+      return schedule.type === 'dayOfWeek' && isDayOfWeekPaymentDue(date, schedule.dayOfWeek)
+    case 'every-n-months':
+      return (
+        schedule.type === 'everyNMonths' &&
+        isEveryNMonthsPaymentDue(
+          date,
+          schedule.intervalMonths,
+          schedule.dayOfMonth,
+          schedule.anchorMonth,
+          schedule.anchorYear
+        )
+      )
+    case 'yearly':
+      return schedule.type === 'yearly' && isYearlyPaymentDue(date, schedule.dates)
+  }
+}
+
+/**
+ * Get the days of the month a month-based schedule may be due on.
+ * Yearly schedules list every configured day; isScheduleDue checks the month.
+ */
+function getScheduleDaysOfMonth(schedule: Exclude<PaymentSchedule, { type: 'dayOfWeek' }>): number[] {
+  switch (schedule.type) {
+    case 'dayOfMonth':
+    case 'everyNMonths':
+      return [schedule.dayOfMonth]
+    case 'twiceMonthly':
+      return [schedule.firstDay, schedule.secondDay]
+    case 'yearly':
+      return schedule.dates.map((entry) => entry.day)
+  }
+}
+
+/**
+ * List the nominal due dates of a recurring schedule between two days
+ * (inclusive), in order. Walks the schedule's weeks or months instead of
+ * every day; candidates are confirmed with isScheduleDue.
+ */
+function getScheduleDueDates(
+  frequency: Frequency,
+  schedule: PaymentSchedule,
+  from: Date,
+  to: Date
+): Date[] {
+  const candidates: Date[] = []
+
+  if (schedule.type === 'dayOfWeek') {
+    const firstDate = addDays(from, (schedule.dayOfWeek - getISODay(from) + 7) % 7)
+    for (let date = firstDate; date <= to; date = addDays(date, 7)) {
+      candidates.push(date)
+    }
+  } else {
+    const days = getScheduleDaysOfMonth(schedule)
+    for (let month = startOfMonth(from); month <= to; month = addMonths(month, 1)) {
+      for (const day of days) {
+        const date = setDate(month, getEffectiveDay(day, month))
+        if (date >= from && date <= to) candidates.push(date)
+      }
+    }
+    candidates.sort((a, b) => a.getTime() - b.getTime())
+  }
+
+  return candidates.filter(
+    (date, index) =>
+      (index === 0 || date.getTime() !== candidates[index - 1].getTime()) &&
+      isScheduleDue(date, frequency, schedule)
+  )
+}
+
+/**
+ * Check if a biweekly schedule has no anchor payday (legacy schedules).
+ */
+function isUnanchoredBiweekly(frequency: Frequency, schedule: PaymentSchedule): boolean {
+  return frequency === 'biweekly' && schedule.type === 'dayOfWeek' && !schedule.anchorDate
+}
+
+/**
+ * Find the due dates of a legacy biweekly schedule without an anchor, by the
+ * day offset they land on. These count every 14 days from the first payday
+ * found scanning the projection day by day, so they keep that scan.
+ */
+function getUnanchoredBiweeklyDueDates(
+  dayOfWeek: number,
+  rollover: BusinessDayRollover,
+  startDate: Date,
+  projectionDays: number
+): Map<number, Date> {
+  let firstOccurrence: number | undefined
+  const isDueOn = (candidate: Date) => {
+    if (!isDayOfWeekPaymentDue(candidate, dayOfWeek)) return false
+    const dayOffset = differenceInCalendarDays(candidate, startDate)
+    if (firstOccurrence === undefined) {
+      firstOccurrence = dayOffset
+      return true
+    }
+    const daysSinceFirst = dayOffset - firstOccurrence
+    return daysSinceFirst > 0 && daysSinceFirst % 14 === 0
+  }
+
+  const dueDates = new Map<number, Date>()
+  for (let dayOffset = 0; dayOffset < projectionDays; dayOffset++) {
+    const dueDate = findRolledOverDueDate(addDays(startDate, dayOffset), rollover, isDueOn)
+    if (dueDate) dueDates.set(dayOffset, dueDate)
+  }
+  return dueDates
+}
+
+/**
+ * Find the nominal due dates of a recurring schedule by the day offset their
+ * payment lands on, honoring the business-day rollover rule (weekends and
+ * national holidays). When several due dates roll onto the same day, only the
+ * one closest to it is paid.
+ */
+function getScheduledDueDates(
+  frequency: Frequency,
+  schedule: PaymentSchedule,
+  rollover: BusinessDayRollover,
+  startDate: Date,
+  projectionDays: number
+): Map<number, Date> {
+  if (isUnanchoredBiweekly(frequency, schedule) && schedule.type === 'dayOfWeek') {
+    return getUnanchoredBiweeklyDueDates(schedule.dayOfWeek, rollover, startDate, projectionDays)
+  }
+
+  // Due dates just outside the projection may roll into it
+  const margin = rollover === 'none' ? 0 : MAX_ROLLOVER_DAYS
+  const dueDates = new Map<number, Date>()
+
+  for (const dueDate of getScheduleDueDates(
+    frequency,
+    schedule,
+    addDays(startDate, -margin),
+    addDays(startDate, projectionDays - 1 + margin)
+  )) {
+    const paymentDate = getRolledOverDate(dueDate, rollover)
+    if (!paymentDate) continue
+    const dayOffset = getProjectionDayOffset(paymentDate, startDate, projectionDays)
+    if (dayOffset === null) continue
+
+    const current = dueDates.get(dayOffset)
+    const distance = (date: Date) => Math.abs(differenceInCalendarDays(date, paymentDate))
+    if (current && distance(current) <= distance(dueDate)) continue
+    dueDates.set(dayOffset, dueDate)
+  }
+
+  return dueDates
+}
+
+// =============================================================================
+// EVENT INDEX
+// =============================================================================
+
+/**
+ * Get the day offset of a date within the projection, or null outside it.
+ */
+function getProjectionDayOffset(date: Date, startDate: Date, projectionDays: number): number | null {
+  const dayOffset = differenceInCalendarDays(date, startDate)
+  return dayOffset >= 0 && dayOffset < projectionDays ? dayOffset : null
+}
+
+/**
+ * Add an item to the list of the day offset it happens on.
+ */
+function addOnDay<T>(itemsByOffset: Map<number, T[]>, dayOffset: number, item: T): void {
+  const items = itemsByOffset.get(dayOffset)
+  if (items) {
+    items.push(item)
+  } else {
+    itemsByOffset.set(dayOffset, [item])
+  }
 }
 
 // =============================================================================
@@ -80,156 +650,276 @@ function getAmountForTwiceMonthlyPayment(
 // =============================================================================
 
 /**
- * Create income events for a specific day based on project payment schedules.
+ * Find the occurrences of a recurring item moved by an occurrence override
+ * into the projection, as the dates they were scheduled for, with the day
+ * offset they were moved to.
+ */
+function getRescheduledOccurrences(
+  item: { occurrenceOverrides?: OccurrenceOverride[] },
+  startDate: Date,
+  projectionDays: number
+): Array<{ dayOffset: number; occurrenceDate: Date }> {
+  const occurrences: Array<{ dayOffset: number; occurrenceDate: Date }> = []
+
+  for (const override of item.occurrenceOverrides ?? []) {
+    if (override.type !== 'reschedule') continue
+    const date = parse(override.date, 'yyyy-MM-dd', startDate)
+    const dayOffset = getProjectionDayOffset(date, startDate, projectionDays)
+    if (dayOffset === null) continue
+    occurrences.push({ dayOffset, occurrenceDate: parse(override.occurrenceDate, 'yyyy-MM-dd', startDate) })
+  }
+
+  return occurrences
+}
+
+/**
+ * Create the income event of one occurrence of a project.
+ * The payment uses the amount in effect on the date it is scheduled for.
+ */
+function createProjectIncomeEvent(
+  project: Project,
+  schedule: PaymentSchedule,
+  occurrenceDate: Date,
+  resolveAccount: AccountResolver,
+  override?: OccurrenceOverride
+): IncomeEvent {
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    amount:
+      override?.type === 'amount'
+        ? override.amount
+        : scaleToAmountInEffect(
+            getScheduledAmount(project.amount, schedule, occurrenceDate),
+            project.amount,
+            getAmountInEffect(project, occurrenceDate)
+          ),
+    certainty: project.certainty,
+    accountId: resolveAccount(project.accountId),
+    occurrenceDate,
+    ...(override ? { override: override.type === 'amount' ? 'amount' : 'reschedule' } : {}),
+    ...(project.paymentDelay ? { paymentDelay: project.paymentDelay } : {}),
+  }
+}
+
+/**
+ * Create the income events of project payment schedules, by day offset.
+ * Each payment uses the amount in effect on its due date; payments due outside
+ * the project's start/end dates are skipped. Occurrence overrides skip a
+ * payment, move it to another day or replace its amount.
  */
 function createIncomeEvents(
-  date: Date,
-  dayOffset: number,
   projects: Project[],
-  firstOccurrences: Map<string, number>
-): IncomeEvent[] {
-  const events: IncomeEvent[] = []
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, IncomeEvent[]> {
+  const eventsByOffset = new Map<number, IncomeEvent[]>()
 
   for (const project of projects) {
-    let isDue = false
-    let resolvedAmount = project.amount // Default to project's base amount
     const schedule = project.paymentSchedule
+    if (!schedule) continue
 
-    // Use new PaymentSchedule system if available
-    if (schedule) {
-      switch (project.frequency) {
-        case 'monthly':
-          if (schedule.type === 'dayOfMonth') {
-            isDue = isMonthlyPaymentDue(date, schedule.dayOfMonth)
-          }
-          break
-        case 'twice-monthly':
-          if (schedule.type === 'twiceMonthly') {
-            isDue = isTwiceMonthlyPaymentDue(date, schedule.firstDay, schedule.secondDay)
-            if (isDue) {
-              // Use variable amounts if configured
-              resolvedAmount = getAmountForTwiceMonthlyPayment(project, schedule, date)
-            }
-          }
-          break
-        case 'biweekly':
-          if (schedule.type === 'dayOfWeek') {
-            // For biweekly with day-of-week: check if it's the right day AND 14-day interval
-            if (isDayOfWeekPaymentDue(date, schedule.dayOfWeek)) {
-              // Track first occurrence for biweekly interval
-              if (!firstOccurrences.has(project.id)) {
-                firstOccurrences.set(project.id, dayOffset)
-                isDue = true
-              } else {
-                const firstOccurrence = firstOccurrences.get(project.id)!
-                const daysSinceFirst = dayOffset - firstOccurrence
-                isDue = daysSinceFirst > 0 && daysSinceFirst % 14 === 0
-              }
-            }
-          }
-          break
-        case 'weekly':
-          if (schedule.type === 'dayOfWeek') {
-            isDue = isDayOfWeekPaymentDue(date, schedule.dayOfWeek)
-          }
-          break
-      }
+    for (const { dayOffset, occurrenceDate } of getRescheduledOccurrences(project, startDate, projectionDays)) {
+      if (!isWithinActivePeriod(project, occurrenceDate)) continue
+      const override = findOccurrenceOverride(project, occurrenceDate)
+      addOnDay(
+        eventsByOffset,
+        dayOffset,
+        createProjectIncomeEvent(project, schedule, occurrenceDate, resolveAccount, override)
+      )
     }
 
-    if (isDue) {
-      events.push({
-        projectId: project.id,
-        projectName: project.name,
-        amount: resolvedAmount,
-        certainty: project.certainty,
-      })
+    const dueDates = getScheduledDueDates(
+      project.frequency,
+      schedule,
+      project.businessDayRollover ?? 'none',
+      startDate,
+      projectionDays
+    )
+    for (const [dayOffset, dueDate] of dueDates) {
+      if (!isWithinActivePeriod(project, dueDate)) continue
+      const override = findOccurrenceOverride(project, dueDate)
+      if (override && override.type !== 'amount') continue
+      addOnDay(
+        eventsByOffset,
+        dayOffset,
+        createProjectIncomeEvent(project, schedule, dueDate, resolveAccount, override)
+      )
     }
   }
 
-  return events
+  return eventsByOffset
 }
 
 /**
- * Create expense events for a specific day from fixed expenses.
+ * Create the expense event of one occurrence of a fixed expense.
+ * Variable expenses charge their whole amount range unless the occurrence
+ * has a fixed amount override.
  */
-function createFixedExpenseEvents(date: Date, expenses: FixedExpense[]): ExpenseEvent[] {
-  const events: ExpenseEvent[] = []
+function createFixedExpenseEvent(
+  expense: FixedExpense,
+  paymentSchedule: PaymentSchedule,
+  occurrenceDate: Date,
+  resolveAccount: AccountResolver,
+  override?: OccurrenceOverride
+): ExpenseEvent {
+  const base = {
+    sourceId: expense.id,
+    sourceName: expense.name,
+    sourceType: 'expense' as const,
+    accountId: resolveAccount(expense.accountId),
+    occurrenceDate,
+  }
+  if (override?.type === 'amount') {
+    return { ...base, amount: override.amount, override: 'amount' }
+  }
+
+  const amountInEffect = getAmountInEffect(expense, occurrenceDate)
+  const scale = (value: number) => scaleToAmountInEffect(value, expense.amount, amountInEffect)
+  const range = expense.amountRange && {
+    min: scale(expense.amountRange.min),
+    max: scale(expense.amountRange.max),
+  }
+  return {
+    ...base,
+    amount: range
+      ? Math.round((range.min + range.max) / 2)
+      : scale(getScheduledAmount(expense.amount, paymentSchedule, occurrenceDate)),
+    ...(range ? { amountRange: range } : {}),
+    ...(override ? { override: 'reschedule' as const } : {}),
+  }
+}
+
+/**
+ * Create the expense events of fixed expenses, by day offset.
+ * Expenses without an explicit schedule are due monthly on their dueDay.
+ * Each payment uses the amount in effect on its due date; payments due outside
+ * the expense's start/end dates are skipped. Occurrence overrides skip a
+ * payment, move it to another day or replace its amount.
+ */
+function createFixedExpenseEvents(
+  expenses: FixedExpense[],
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, ExpenseEvent[]> {
+  const eventsByOffset = new Map<number, ExpenseEvent[]>()
 
   for (const expense of expenses) {
-    if (isMonthlyPaymentDue(date, expense.dueDay)) {
-      events.push({
-        sourceId: expense.id,
-        sourceName: expense.name,
-        sourceType: 'expense',
-        amount: expense.amount,
-      })
+    const { frequency, paymentSchedule } = getFixedExpenseSchedule(expense)
+
+    for (const { dayOffset, occurrenceDate } of getRescheduledOccurrences(expense, startDate, projectionDays)) {
+      if (!isWithinActivePeriod(expense, occurrenceDate)) continue
+      const override = findOccurrenceOverride(expense, occurrenceDate)
+      addOnDay(
+        eventsByOffset,
+        dayOffset,
+        createFixedExpenseEvent(expense, paymentSchedule, occurrenceDate, resolveAccount, override)
+      )
+    }
+
+    const dueDates = getScheduledDueDates(
+      frequency,
+      paymentSchedule,
+      expense.businessDayRollover ?? 'none',
+      startDate,
+      projectionDays
+    )
+    for (const [dayOffset, dueDate] of dueDates) {
+      if (!isWithinActivePeriod(expense, dueDate)) continue
+      const override = findOccurrenceOverride(expense, dueDate)
+      if (override && override.type !== 'amount') continue
+      addOnDay(
+        eventsByOffset,
+        dayOffset,
+        createFixedExpenseEvent(expense, paymentSchedule, dueDate, resolveAccount, override)
+      )
     }
   }
 
-  return events
+  return eventsByOffset
 }
 
 /**
- * Create expense events for a specific day from single-shot expenses.
+ * Create the expense events of single-shot expenses, by day offset.
  * Single-shot expenses occur on their exact date.
  */
-function createSingleShotExpenseEvents(date: Date, expenses: SingleShotExpense[]): ExpenseEvent[] {
-  const events: ExpenseEvent[] = []
+function createSingleShotExpenseEvents(
+  expenses: SingleShotExpense[],
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, ExpenseEvent[]> {
+  const eventsByOffset = new Map<number, ExpenseEvent[]>()
 
   for (const expense of expenses) {
-    if (isSameDay(expense.date, date)) {
-      events.push({
-        sourceId: expense.id,
-        sourceName: expense.name,
-        sourceType: 'expense',
-        amount: expense.amount,
-      })
-    }
+    const dayOffset = getProjectionDayOffset(expense.date, startDate, projectionDays)
+    if (dayOffset === null) continue
+    addOnDay(eventsByOffset, dayOffset, {
+      sourceId: expense.id,
+      sourceName: expense.name,
+      sourceType: 'expense',
+      amount: expense.amount,
+      accountId: resolveAccount(expense.accountId),
+    })
   }
 
-  return events
+  return eventsByOffset
 }
 
 /**
  * Get the credit card amount for a specific date.
  * 
- * Logic:
+ * Cards with a closing day follow their statement cycle (see statement-cycle.ts):
+ * - Closed statement (and earlier): use statementBalance
+ * - Open statement: use openStatementBalance
+ * - Later statements: use futureStatement if defined, else 0 (FR-006),
+ *   plus the installments of installment purchases billed that month
+ *
+ * Cards without a closing day use calendar months:
  * - Current month or next month: use statementBalance (the bill coming due)
- * - Future months (2+ months ahead): use futureStatement if defined, else 0 (FR-006)
+ * - Future months (2+ months ahead): same as later statements above
  * - Past months: use statementBalance
+ *
+ * Installments are not added to the known balances: those already include them.
  * 
  * @param card - The credit card
  * @param futureStatements - Array of future statements for all cards
  * @param date - The date to get the amount for
- * @returns The amount in cents (0 if not defined for future months per FR-006)
+ * @param installmentPurchases - Installment purchases for all cards
+ * @returns The amount in cents (0 if nothing is defined for future months per FR-006)
  */
 export function getCreditCardAmountForDate(
   card: CreditCard,
   futureStatements: FutureStatement[],
-  date: Date
+  date: Date,
+  installmentPurchases: InstallmentPurchase[] = []
 ): number {
   const now = new Date()
-  const currentMonth = now.getMonth() + 1
-  const currentYear = now.getFullYear()
   const targetMonth = date.getMonth() + 1
   const targetYear = date.getFullYear()
+  const targetIndex = toStatementIndex({ month: targetMonth, year: targetYear })
 
-  // Calculate next month (handling year rollover)
-  const nextMonth = currentMonth === 12 ? 1 : currentMonth + 1
-  const nextMonthYear = currentMonth === 12 ? currentYear + 1 : currentYear
+  if (card.closingDay) {
+    const cycle = getStatementCycle(card.closingDay, card.dueDay, now)
 
-  // Check if target date is in the distant future (more than 1 month ahead)
-  const isDistantFuture =
-    targetYear > nextMonthYear ||
-    (targetYear === nextMonthYear && targetMonth > nextMonth)
-
-  // Current month, past month, or next month: use statementBalance
-  // (The statementBalance represents what needs to be paid on the next due date)
-  if (!isDistantFuture) {
-    return card.statementBalance
+    if (targetIndex <= toStatementIndex(cycle.closedStatement)) {
+      return card.statementBalance
+    }
+    if (targetIndex === toStatementIndex(cycle.openStatement)) {
+      return card.openStatementBalance ?? 0
+    }
+  } else {
+    // Current month, past month, or next month: use statementBalance
+    // (The statementBalance represents what needs to be paid on the next due date)
+    const nextMonthIndex = toStatementIndex({ month: now.getMonth() + 1, year: now.getFullYear() }) + 1
+    if (targetIndex <= nextMonthIndex) {
+      return card.statementBalance
+    }
   }
 
-  // Distant future month: lookup future statement
+  // Later statement: lookup future statement
   const statement = futureStatements.find(
     (s) =>
       s.creditCardId === card.id &&
@@ -237,134 +927,786 @@ export function getCreditCardAmountForDate(
       s.targetYear === targetYear
   )
 
-  // Return amount or 0 if not defined (FR-006)
-  return statement?.amount ?? 0
+  const installments = getInstallmentsTotalForMonth(
+    installmentPurchases,
+    card.id,
+    targetMonth,
+    targetYear
+  )
+
+  // Manual statement amount or 0 if not defined (FR-006), plus installments
+  return (statement?.amount ?? 0) + installments
 }
 
 /**
- * Create expense events for a specific day from credit cards.
+ * Create the expense events of credit card bills, by day offset.
  * Uses future statements for future months, current balance for current month.
  */
 function createCreditCardEvents(
-  date: Date,
   creditCards: CreditCard[],
-  futureStatements: FutureStatement[]
-): ExpenseEvent[] {
-  const events: ExpenseEvent[] = []
+  futureStatements: FutureStatement[],
+  installmentPurchases: InstallmentPurchase[],
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, ExpenseEvent[]> {
+  const eventsByOffset = new Map<number, ExpenseEvent[]>()
+  const endDate = addDays(startDate, projectionDays - 1)
 
   for (const card of creditCards) {
-    if (isMonthlyPaymentDue(date, card.dueDay)) {
-      const amount = getCreditCardAmountForDate(card, futureStatements, date)
-      events.push({
+    for (let month = startOfMonth(startDate); month <= endDate; month = addMonths(month, 1)) {
+      const date = setDate(month, getEffectiveDay(card.dueDay, month))
+      const dayOffset = getProjectionDayOffset(date, startDate, projectionDays)
+      if (dayOffset === null) continue
+      addOnDay(eventsByOffset, dayOffset, {
         sourceId: card.id,
         sourceName: card.name,
         sourceType: 'credit_card',
-        amount,
+        amount: getCreditCardAmountForDate(card, futureStatements, date, installmentPurchases),
+        accountId: resolveAccount(card.accountId),
       })
     }
   }
 
-  return events
+  return eventsByOffset
 }
 
 /**
- * Create income events for a specific day from single-shot income.
+ * Create the income events of single-shot income, by day offset.
  * Single-shot income occurs on their exact date.
  */
-function createSingleShotIncomeEvents(date: Date, income: SingleShotIncome[]): IncomeEvent[] {
-  const events: IncomeEvent[] = []
+function createSingleShotIncomeEvents(
+  income: SingleShotIncome[],
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, IncomeEvent[]> {
+  const eventsByOffset = new Map<number, IncomeEvent[]>()
 
   for (const item of income) {
-    if (isSameDay(item.date, date)) {
-      events.push({
-        projectId: item.id,
-        projectName: item.name,
-        amount: item.amount,
-        certainty: item.certainty,
+    const dayOffset = getProjectionDayOffset(item.date, startDate, projectionDays)
+    if (dayOffset === null) continue
+    addOnDay(eventsByOffset, dayOffset, {
+      projectId: item.id,
+      projectName: item.name,
+      amount: item.amount,
+      certainty: item.certainty,
+      accountId: resolveAccount(item.accountId),
+      ...(item.paymentDelay ? { paymentDelay: item.paymentDelay } : {}),
+    })
+  }
+
+  return eventsByOffset
+}
+
+/**
+ * Post income on its expected day in each scenario. Income with a payment delay
+ * arrives on time in the optimistic scenario, after the shortest delay in the
+ * realistic one and after the longest delay in the pessimistic one.
+ * Postings for later days are queued in `delayedIncome` by day offset;
+ * returns the postings for this day.
+ */
+function postIncomeEvents(
+  events: IncomeEvent[],
+  date: Date,
+  dayOffset: number,
+  delayedIncome: Map<number, IncomeEvent[]>
+): IncomeEvent[] {
+  const postings: IncomeEvent[] = []
+
+  for (const event of events) {
+    const delay = event.paymentDelay
+    if (!delay) {
+      postings.push(event)
+      continue
+    }
+
+    const scenarioDelays: Record<Scenario, number> = {
+      optimistic: 0,
+      realistic: delay.minDays,
+      pessimistic: delay.maxDays,
+    }
+    const scenariosByDelay = new Map<number, Scenario[]>()
+    for (const scenario of SCENARIOS) {
+      const days = scenarioDelays[scenario]
+      scenariosByDelay.set(days, [...(scenariosByDelay.get(days) ?? []), scenario])
+    }
+
+    for (const [days, scenarios] of scenariosByDelay) {
+      const posting = { ...event, scheduledDate: date, scenarios }
+      if (days === 0) {
+        postings.push(posting)
+      } else {
+        const arrivalOffset = dayOffset + days
+        delayedIncome.set(arrivalOffset, [...(delayedIncome.get(arrivalOffset) ?? []), posting])
+      }
+    }
+  }
+
+  return postings
+}
+
+/**
+ * Get how many days before the projection income can be scheduled and still
+ * arrive inside it: the longest payment delay.
+ */
+function getIncomeLookbackDays(income: Array<Project | SingleShotIncome>): number {
+  return income.reduce((max, item) => Math.max(max, item.paymentDelay?.maxDays ?? 0), 0)
+}
+
+// =============================================================================
+// EVENT CONFIRMATIONS
+// =============================================================================
+
+/**
+ * Check if a scheduled event was already reconciled (confirmed or missed).
+ * Either way it is not projected on its scheduled date: confirmed events are
+ * posted on the date they actually happened, missed ones never happen.
+ */
+function isReconciled(
+  confirmations: EventConfirmationInput[],
+  sourceType: EventConfirmationInput['sourceType'],
+  sourceId: string,
+  occurrenceDate: Date
+): boolean {
+  return (
+    confirmations.length > 0 &&
+    findEventConfirmation(confirmations, sourceType, sourceId, occurrenceDate) !== undefined
+  )
+}
+
+/**
+ * Create the events of confirmed payments, by the day offset they happened on.
+ * Payments made before the projection are already in the recorded balance;
+ * confirmations of items no longer in the projection are ignored.
+ */
+function createConfirmedEvents(
+  confirmations: EventConfirmationInput[],
+  sources: {
+    projects: Array<Project | SingleShotIncome>
+    expenses: Array<FixedExpense | SingleShotExpense>
+    creditCards: CreditCard[]
+  },
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, { incomeEvents: IncomeEvent[]; expenseEvents: ExpenseEvent[] }> {
+  const eventsByOffset = new Map<number, { incomeEvents: IncomeEvent[]; expenseEvents: ExpenseEvent[] }>()
+
+  for (const confirmation of confirmations) {
+    if (confirmation.status !== 'confirmed' || !confirmation.date || !confirmation.amount) continue
+    const dayOffset = differenceInCalendarDays(confirmation.date, startDate)
+    if (dayOffset < 0 || dayOffset >= projectionDays) continue
+
+    const dayEvents = eventsByOffset.get(dayOffset) ?? { incomeEvents: [], expenseEvents: [] }
+    const base = {
+      amount: confirmation.amount,
+      occurrenceDate: startOfDay(confirmation.occurrenceDate),
+      confirmed: true,
+    }
+
+    if (confirmation.sourceType === 'project') {
+      const source = sources.projects.find((item) => item.id === confirmation.sourceId)
+      if (!source) continue
+      dayEvents.incomeEvents.push({
+        ...base,
+        projectId: source.id,
+        projectName: source.name,
+        certainty: source.certainty,
+        accountId: resolveAccount(source.accountId),
+      })
+    } else {
+      const source =
+        confirmation.sourceType === 'expense'
+          ? sources.expenses.find((item) => item.id === confirmation.sourceId)
+          : sources.creditCards.find((item) => item.id === confirmation.sourceId)
+      if (!source) continue
+      dayEvents.expenseEvents.push({
+        ...base,
+        sourceId: source.id,
+        sourceName: source.name,
+        sourceType: confirmation.sourceType,
+        accountId: resolveAccount(source.accountId),
       })
     }
+
+    eventsByOffset.set(dayOffset, dayEvents)
+  }
+
+  return eventsByOffset
+}
+
+/**
+ * Find the transfers happening in the projection, by day offset.
+ * One-off transfers happen on their exact date; recurring ones follow their schedule.
+ */
+function getTransfersByDay(
+  transfers: Transfer[],
+  startDate: Date,
+  projectionDays: number
+): Map<number, Transfer[]> {
+  const transfersByOffset = new Map<number, Transfer[]>()
+
+  for (const transfer of transfers) {
+    if (transfer.type === 'single_shot') {
+      const dayOffset = transfer.date ? getProjectionDayOffset(transfer.date, startDate, projectionDays) : null
+      if (dayOffset !== null) addOnDay(transfersByOffset, dayOffset, transfer)
+      continue
+    }
+    if (!transfer.frequency || !transfer.paymentSchedule) continue
+    const dueDates = getScheduledDueDates(
+      transfer.frequency,
+      transfer.paymentSchedule,
+      'none',
+      startDate,
+      projectionDays
+    )
+    for (const dayOffset of dueDates.keys()) {
+      addOnDay(transfersByOffset, dayOffset, transfer)
+    }
+  }
+
+  return transfersByOffset
+}
+
+/**
+ * Create the events of the transfers happening on a day and apply them to the
+ * running balances of non-checking accounts.
+ *
+ * Checking accounts are tracked as a single balance by the scenarios, so each
+ * event reports its effect on that balance as `checkingDelta`. Transfers out of
+ * a non-checking account never move more than that account holds.
+ *
+ * @param nonCheckingBalances - Running balances of non-checking accounts (updated in place)
+ */
+function createTransferEvents(
+  transfers: Transfer[],
+  accountsById: Map<string, BankAccount>,
+  nonCheckingBalances: Map<string, number>
+): TransferEvent[] {
+  const events: TransferEvent[] = []
+
+  for (const transfer of transfers) {
+    const source = accountsById.get(transfer.sourceAccountId)
+    const destination = accountsById.get(transfer.destinationAccountId)
+    if (!source || !destination) continue
+
+    const sourceIsChecking = source.type === 'checking'
+    const destinationIsChecking = destination.type === 'checking'
+
+    const amount = sourceIsChecking
+      ? transfer.amount
+      : Math.min(transfer.amount, nonCheckingBalances.get(source.id) ?? 0)
+    if (amount <= 0) continue
+
+    if (!sourceIsChecking) {
+      nonCheckingBalances.set(source.id, (nonCheckingBalances.get(source.id) ?? 0) - amount)
+    }
+    if (!destinationIsChecking) {
+      nonCheckingBalances.set(destination.id, (nonCheckingBalances.get(destination.id) ?? 0) + amount)
+    }
+
+    events.push({
+      transferId: transfer.id,
+      transferName: transfer.name,
+      sourceAccountId: source.id,
+      destinationAccountId: destination.id,
+      amount,
+      checkingDelta: (destinationIsChecking ? amount : 0) - (sourceIsChecking ? amount : 0),
+    })
+  }
+
+  return events
+}
+
+// =============================================================================
+// SAVINGS GOALS
+// =============================================================================
+
+/**
+ * Find the contributions of savings goals in the projection, by day offset,
+ * as indexes into the goals and their planned contribution dates.
+ */
+function getGoalContributionsByDay(
+  plans: SavingsGoalPlan[],
+  startDate: Date,
+  projectionDays: number
+): Map<number, Array<{ goalIndex: number; contributionIndex: number }>> {
+  const contributionsByOffset = new Map<number, Array<{ goalIndex: number; contributionIndex: number }>>()
+
+  plans.forEach((plan, goalIndex) => {
+    const contributionDays = new Set<number>()
+    plan.contributionDates.forEach((date, contributionIndex) => {
+      const dayOffset = getProjectionDayOffset(date, startDate, projectionDays)
+      if (dayOffset === null || contributionDays.has(dayOffset)) return
+      contributionDays.add(dayOffset)
+      addOnDay(contributionsByOffset, dayOffset, { goalIndex, contributionIndex })
+    })
+  })
+
+  return contributionsByOffset
+}
+
+/**
+ * Create the events of the savings goal contributions due on a day.
+ *
+ * Goals linked to a savings or investment account transfer the contribution
+ * from the default checking account to it; other goals reserve it as an
+ * expense, since the money stays in checking but is no longer available.
+ *
+ * @param nonCheckingBalances - Running balances of non-checking accounts (updated in place)
+ */
+function createGoalContributionEvents(
+  contributions: Array<{ goalIndex: number; contributionIndex: number }>,
+  goals: SavingsGoal[],
+  plans: SavingsGoalPlan[],
+  accountsById: Map<string, BankAccount>,
+  nonCheckingBalances: Map<string, number>,
+  resolveAccount: AccountResolver
+): { expenseEvents: ExpenseEvent[]; transferEvents: TransferEvent[] } {
+  const expenseEvents: ExpenseEvent[] = []
+  const transferEvents: TransferEvent[] = []
+
+  for (const { goalIndex, contributionIndex } of contributions) {
+    const goal = goals[goalIndex]
+    const amount = getContributionAmount(plans[goalIndex], contributionIndex)
+    if (amount <= 0) continue
+
+    const sourceAccountId = resolveAccount(null)
+    const destination = goal.accountId ? accountsById.get(goal.accountId) : undefined
+
+    if (sourceAccountId && destination && destination.type !== 'checking') {
+      nonCheckingBalances.set(destination.id, (nonCheckingBalances.get(destination.id) ?? 0) + amount)
+      transferEvents.push({
+        transferId: goal.id,
+        transferName: goal.name,
+        sourceAccountId,
+        destinationAccountId: destination.id,
+        amount,
+        checkingDelta: -amount,
+        goalId: goal.id,
+      })
+      continue
+    }
+
+    expenseEvents.push({
+      sourceId: goal.id,
+      sourceName: goal.name,
+      sourceType: 'goal',
+      amount,
+      accountId: sourceAccountId,
+    })
+  }
+
+  return { expenseEvents, transferEvents }
+}
+
+// =============================================================================
+// LOANS
+// =============================================================================
+
+/**
+ * Create the installment and prepayment events of loans within the projection,
+ * keyed by day offset. Both are paid from the loan's checking account.
+ */
+function createLoanEvents(
+  loans: Loan[],
+  startDate: Date,
+  projectionDays: number,
+  resolveAccount: AccountResolver
+): Map<number, ExpenseEvent[]> {
+  const eventsByOffset = new Map<number, ExpenseEvent[]>()
+
+  const add = (date: Date, event: ExpenseEvent) => {
+    const dayOffset = getProjectionDayOffset(date, startDate, projectionDays)
+    if (dayOffset === null || event.amount <= 0) return
+    addOnDay(eventsByOffset, dayOffset, event)
+  }
+
+  for (const loan of loans) {
+    const schedule = buildAmortizationSchedule(loan)
+    const accountId = resolveAccount(loan.accountId)
+
+    for (const installment of schedule.installments) {
+      add(installment.dueDate, {
+        sourceId: loan.id,
+        sourceName: loan.name,
+        sourceType: 'loan',
+        amount: installment.payment,
+        accountId,
+      })
+    }
+    for (const prepayment of schedule.prepayments) {
+      add(prepayment.date, {
+        sourceId: loan.id,
+        sourceName: `Amortização extra: ${loan.name}`,
+        sourceType: 'loan',
+        amount: prepayment.amount,
+        accountId,
+      })
+    }
+  }
+
+  return eventsByOffset
+}
+
+// =============================================================================
+// TAX PROVISIONING
+// =============================================================================
+
+/** Taxed payments received in a month, by the scenarios that count them */
+type TaxAccruals = Map<string, Record<Scenario, Array<{ profile: TaxProfile; amount: number }>>>
+
+const TAX_KINDS: TaxKind[] = ['flat', 'simples', 'carne_leao']
+
+const TAX_EVENT_NAMES: Record<TaxKind, string> = {
+  flat: 'Provisão de impostos',
+  simples: 'DAS (Simples Nacional)',
+  carne_leao: 'Carnê-leão',
+}
+
+/**
+ * Map the income sources with a tax profile to their profiles.
+ */
+function getTaxProfiles(sources: Array<Project | SingleShotIncome>): Map<string, TaxProfile> {
+  const profiles = new Map<string, TaxProfile>()
+  for (const source of sources) {
+    if (source.taxProfile) profiles.set(source.id, source.taxProfile)
+  }
+  return profiles
+}
+
+/**
+ * Record the taxed income received on a day in the month it was received,
+ * once per scenario that counts it.
+ *
+ * @param taxAccruals - Taxed payments by month (updated in place)
+ */
+function accrueIncomeTaxes(
+  date: Date,
+  incomeEvents: IncomeEvent[],
+  taxProfiles: Map<string, TaxProfile>,
+  taxAccruals: TaxAccruals
+): void {
+  const monthKey = format(date, 'yyyy-MM')
+
+  for (const event of incomeEvents) {
+    const profile = taxProfiles.get(event.projectId)
+    if (!profile) continue
+
+    let month = taxAccruals.get(monthKey)
+    if (!month) {
+      month = { optimistic: [], realistic: [], pessimistic: [] }
+      taxAccruals.set(monthKey, month)
+    }
+    for (const scenario of SCENARIOS) {
+      if (isIncomeInScenario(event, scenario)) {
+        month[scenario].push({ profile, amount: event.amount })
+      }
+    }
+  }
+}
+
+/**
+ * Collect the taxed income received before the projection starts whose taxes
+ * are still due in it: from the start of the previous month through the day
+ * before the start date. The sources are replayed without their tax profiles.
+ */
+function getLookbackTaxAccruals(
+  validated: ReturnType<typeof validateAndFilterInput>,
+  startDate: Date,
+  taxProfiles: Map<string, TaxProfile>
+): TaxAccruals {
+  const taxAccruals: TaxAccruals = new Map()
+  const lookbackStart = startOfMonth(subMonths(startDate, 1))
+  const lookbackDays = differenceInCalendarDays(startDate, lookbackStart)
+  const withoutTaxes = <T extends Project | SingleShotIncome>(sources: T[]): T[] =>
+    sources.filter((source) => source.taxProfile).map((source) => ({ ...source, taxProfile: null }))
+
+  const lookback = calculateCashflow({
+    accounts: validated.accounts,
+    projects: withoutTaxes(validated.activeProjects),
+    singleShotIncome: withoutTaxes(validated.singleShotIncome),
+    expenses: [],
+    creditCards: [],
+    eventConfirmations: validated.eventConfirmations,
+    options: { startDate: lookbackStart, projectionDays: lookbackDays },
+  })
+
+  for (const day of lookback.days) {
+    accrueIncomeTaxes(day.date, day.incomeEvents, taxProfiles, taxAccruals)
+  }
+  return taxAccruals
+}
+
+/**
+ * Create the tax payments due on a day for the income of the previous month.
+ * Taxes that differ between scenarios (their income does) are charged once
+ * per scenario.
+ */
+function createTaxEvents(
+  date: Date,
+  taxAccruals: TaxAccruals,
+  resolveAccount: AccountResolver
+): ExpenseEvent[] {
+  const incomeMonth = subMonths(startOfMonth(date), 1)
+  const month = taxAccruals.get(format(incomeMonth, 'yyyy-MM'))
+  if (!month) return []
+
+  const dueKinds = TAX_KINDS.filter((kind) => isSameDay(getTaxDueDate(kind, incomeMonth), date))
+  if (dueKinds.length === 0) return []
+
+  const taxes = SCENARIOS.map((scenario) => calculateMonthlyTaxes(month[scenario]))
+  const events: ExpenseEvent[] = []
+
+  for (const kind of dueKinds) {
+    const base = {
+      sourceId: `tax-${kind}`,
+      sourceName: `${TAX_EVENT_NAMES[kind]} ${format(incomeMonth, 'MM/yyyy')}`,
+      sourceType: 'tax' as const,
+      accountId: resolveAccount(null),
+    }
+    const amounts = taxes.map((scenarioTaxes) => scenarioTaxes[kind])
+
+    if (amounts.every((amount) => amount === amounts[0])) {
+      if (amounts[0] > 0) events.push({ ...base, amount: amounts[0] })
+      continue
+    }
+    SCENARIOS.forEach((scenario, index) => {
+      if (amounts[index] > 0) events.push({ ...base, amount: amounts[index], scenario })
+    })
   }
 
   return events
 }
 
+// =============================================================================
+// ACCOUNT YIELD
+// =============================================================================
+
+/**
+ * Credit one business day of yield to savings and investment accounts.
+ * Yield is accrued in fractional cents and credited a whole cent at a time,
+ * so balances stay in integer cents. Nothing accrues on weekends and holidays.
+ *
+ * @param nonCheckingBalances - Running balances of non-checking accounts (updated in place)
+ * @param yieldAccruals - Fractional cents not credited yet, by account (updated in place)
+ */
+function accrueAccountYield(
+  date: Date,
+  dayOffset: number,
+  accounts: BankAccount[],
+  nonCheckingBalances: Map<string, number>,
+  yieldAccruals: Map<string, number>,
+  cdiAnnualRate: number
+): void {
+  if (!isBusinessDay(date)) return
+
+  for (const account of accounts) {
+    const balance = nonCheckingBalances.get(account.id)
+    if (balance === undefined) continue
+
+    const accrued =
+      (yieldAccruals.get(account.id) ?? 0) +
+      calculateDailyYield(account, balance, cdiAnnualRate, dayOffset)
+    if (accrued === 0) continue
+
+    const credited = Math.floor(accrued)
+    nonCheckingBalances.set(account.id, balance + credited)
+    yieldAccruals.set(account.id, accrued - credited)
+  }
+}
+
 // =============================================================================
 // DAILY SNAPSHOT GENERATION
 // =============================================================================
 
 /**
- * Calculate income for optimistic scenario (all active income).
+ * Check whether a scenario counts an income event:
+ * optimistic counts all income, realistic guaranteed and probable, pessimistic guaranteed only.
+ * Postings of delayed income only count in the scenarios they arrive in.
  */
-function calculateOptimisticIncome(incomeEvents: IncomeEvent[]): number {
-  return incomeEvents.reduce((sum, event) => sum + event.amount, 0)
+export function isIncomeInScenario(event: IncomeEvent, scenario: Scenario): boolean {
+  // Income confirmed as received is no longer uncertain
+  if (event.confirmed) return true
+
+  // Delayed income is posted once per arrival day, each counting in its own scenarios
+  if (event.scenarios && !event.scenarios.includes(scenario)) return false
+
+  switch (scenario) {
+    case 'optimistic':
+      return true
+    case 'realistic':
+      return event.certainty !== 'uncertain'
+    case 'pessimistic':
+      return event.certainty === 'guaranteed'
+  }
 }
 
 /**
- * Calculate income for pessimistic scenario (guaranteed income only).
+ * Calculate total income counted in a scenario.
  */
-function calculatePessimisticIncome(incomeEvents: IncomeEvent[]): number {
+function calculateScenarioIncome(incomeEvents: IncomeEvent[], scenario: Scenario): number {
   return incomeEvents
-    .filter((event) => event.certainty === 'guaranteed')
+    .filter((event) => isIncomeInScenario(event, scenario))
     .reduce((sum, event) => sum + event.amount, 0)
 }
 
 /**
- * Calculate total expenses from expense events.
+ * Get the amount an expense charges in a scenario: variable expenses charge
+ * their minimum when optimistic, their maximum when pessimistic and their
+ * average otherwise.
+ */
+function getScenarioExpenseAmount(event: ExpenseEvent, scenario: Scenario): number {
+  if (!event.amountRange) return event.amount
+  switch (scenario) {
+    case 'optimistic':
+      return event.amountRange.min
+    case 'realistic':
+      return event.amount
+    case 'pessimistic':
+      return event.amountRange.max
+  }
+}
+
+/**
+ * Calculate total expenses charged in a scenario.
+ * Scenario-specific events (overdraft interest) only count in their scenario.
  */
-function calculateTotalExpenses(expenseEvents: ExpenseEvent[]): number {
-  return expenseEvents.reduce((sum, event) => sum + event.amount, 0)
+function calculateScenarioExpenses(expenseEvents: ExpenseEvent[], scenario: Scenario): number {
+  return expenseEvents
+    .filter((event) => !event.scenario || event.scenario === scenario)
+    .reduce((sum, event) => sum + getScenarioExpenseAmount(event, scenario), 0)
+}
+
+/**
+ * Calculate the net effect of transfer events on the checking balance.
+ */
+function calculateCheckingTransfers(transferEvents: TransferEvent[]): number {
+  return transferEvents.reduce((sum, event) => sum + event.checkingDelta, 0)
 }
 
 // =============================================================================
 // SCENARIO SUMMARY GENERATION
 // =============================================================================
 
+/**
+ * Get a day's balance and danger state in a scenario.
+ * Days saved before the realistic scenario existed fall back to pessimistic.
+ */
+export function getScenarioDayState(
+  day: DailySnapshot,
+  scenario: Scenario
+): { balance: number; isDanger: boolean; level?: DangerLevel } {
+  switch (scenario) {
+    case 'optimistic':
+      return {
+        balance: day.optimisticBalance,
+        isDanger: day.isOptimisticDanger,
+        level: day.optimisticDangerLevel,
+      }
+    case 'realistic':
+      if (day.realisticBalance === undefined) return getScenarioDayState(day, 'pessimistic')
+      return {
+        balance: day.realisticBalance,
+        isDanger: day.isRealisticDanger ?? false,
+        level: day.realisticDangerLevel,
+      }
+    case 'pessimistic':
+      return {
+        balance: day.pessimisticBalance,
+        isDanger: day.isPessimisticDanger,
+        level: day.pessimisticDangerLevel,
+      }
+  }
+}
+
 /**
  * Generate scenario summary from daily snapshots.
  */
 export function generateScenarioSummary(
   days: DailySnapshot[],
-  isOptimistic: boolean
+  scenario: Scenario
 ): ScenarioSummary {
   let totalIncome = 0
   let totalExpenses = 0
+  let totalTaxes = 0
   const dangerDays: DangerDay[] = []
 
   for (const day of days) {
-    // Calculate income based on scenario
-    if (isOptimistic) {
-      totalIncome += calculateOptimisticIncome(day.incomeEvents)
-    } else {
-      totalIncome += calculatePessimisticIncome(day.incomeEvents)
-    }
-
-    // Expenses are same for both scenarios
-    totalExpenses += calculateTotalExpenses(day.expenseEvents)
+    totalIncome += calculateScenarioIncome(day.incomeEvents, scenario)
+    totalExpenses += calculateScenarioExpenses(day.expenseEvents, scenario)
+    totalTaxes += calculateScenarioExpenses(
+      day.expenseEvents.filter((event) => event.sourceType === 'tax'),
+      scenario
+    )
 
     // Track danger days
-    const isDanger = isOptimistic ? day.isOptimisticDanger : day.isPessimisticDanger
-    const balance = isOptimistic ? day.optimisticBalance : day.pessimisticBalance
+    const { balance, isDanger, level } = getScenarioDayState(day, scenario)
 
     if (isDanger) {
       dangerDays.push({
         date: day.date,
         dayOffset: day.dayOffset,
         balance,
+        level,
       })
     }
   }
 
   const endBalance = days.length > 0
-    ? (isOptimistic ? days[days.length - 1].optimisticBalance : days[days.length - 1].pessimisticBalance)
+    ? getScenarioDayState(days[days.length - 1], scenario).balance
     : 0
 
   return {
     totalIncome,
     totalExpenses,
+    totalTaxes,
     endBalance,
     dangerDays,
     dangerDayCount: dangerDays.length,
+    // Older snapshots have no level: every danger day had a negative balance
+    negativeDayCount: dangerDays.filter((day) => day.level !== 'below_threshold').length,
+    // Older snapshots have no level: every negative day counted as beyond the limit
+    beyondLimitDayCount: dangerDays.filter((day) => (day.level ?? 'beyond_limit') === 'beyond_limit').length,
+  }
+}
+
+/**
+ * Summarize a scenario month by month: income, expenses and the lowest
+ * balance of each calendar month the days cover.
+ */
+export function generateMonthlySummaries(
+  days: DailySnapshot[],
+  scenario: Scenario
+): MonthlySummary[] {
+  const months: MonthlySummary[] = []
+
+  for (const day of days) {
+    const month = startOfMonth(day.date)
+    let summary = months[months.length - 1]
+    if (!summary || summary.month.getTime() !== month.getTime()) {
+      summary = {
+        month,
+        totalIncome: 0,
+        totalExpenses: 0,
+        minBalance: Number.POSITIVE_INFINITY,
+        minBalanceDate: day.date,
+      }
+      months.push(summary)
+    }
+
+    summary.totalIncome += calculateScenarioIncome(day.incomeEvents, scenario)
+    summary.totalExpenses += calculateScenarioExpenses(day.expenseEvents, scenario)
+
+    const { balance } = getScenarioDayState(day, scenario)
+    if (balance < summary.minBalance) {
+      summary.minBalance = balance
+      summary.minBalanceDate = day.date
+    }
   }
+
+  return months
 }
 
 // =============================================================================
@@ -385,6 +1727,7 @@ export function generateScenarioSummary(
  *   projects: [{ id: '1', name: 'Salary', amount: 300000, paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 15 }, ... }],
  *   expenses: [{ id: '1', name: 'Rent', amount: 150000, dueDay: 1, ... }],
  *   creditCards: [{ id: '1', name: 'Visa', statementBalance: 50000, dueDay: 20, ... }],
+ *   transfers: [{ id: '1', type: 'recurring', sourceAccountId: '1', destinationAccountId: '2', amount: 20000, ... }],
  *   options: { projectionDays: 30 }
  * })
  * ```
@@ -400,14 +1743,132 @@ export function calculateCashflow(input: CashflowEngineInput): CashflowProjectio
   const startDate = startOfDay(validated.options.startDate ?? new Date())
   const projectionDays = validated.options.projectionDays ?? 30
   const endDate = addDays(startDate, projectionDays - 1)
+  const safetyThreshold = validated.options.safetyThreshold ?? 0
+  const cdiAnnualRate = validated.options.cdiAnnualRate ?? 0
+
+  // Non-checking accounts change through transfers...
+  const accountsById = new Map(validated.accounts.map((account) => [account.id, account]))
+  const nonCheckingBalances = getNonCheckingBalances(validated.accounts)
+  // ...and through their yield, credited a whole cent at a time
+  const yieldAccruals = new Map<string, number>()
+
+  // Unassigned items land in the default checking account
+  const resolveAccount = createAccountResolver(validated.accounts)
+
+  // Negative balances inside the cheque especial limit accrue interest
+  const overdraftLimit = calculateOverdraftLimit(validated.accounts)
+  const overdraftInterestAccruals = new Map<string, OverdraftInterestAccrual>()
+  // Delayed income postings by the day offset they arrive on
+  const delayedIncome = new Map<number, IncomeEvent[]>()
+
+  // Reconciled events replace their scheduled ones
+  const confirmations = validated.eventConfirmations
+  const confirmedEvents = createConfirmedEvents(
+    confirmations,
+    {
+      projects: [...validated.activeProjects, ...validated.singleShotIncome],
+      expenses: [...validated.activeExpenses, ...validated.singleShotExpenses],
+      creditCards: validated.creditCards,
+    },
+    startDate,
+    projectionDays,
+    resolveAccount
+  )
+  const isUnreconciledIncome = (event: IncomeEvent, date: Date) =>
+    !isReconciled(confirmations, 'project', event.projectId, event.occurrenceDate ?? date)
+  const isUnreconciledExpense = (event: ExpenseEvent, date: Date) =>
+    event.sourceType === 'overdraft_interest' ||
+    event.sourceType === 'goal' ||
+    event.sourceType === 'loan' ||
+    event.sourceType === 'tax' ||
+    !isReconciled(confirmations, event.sourceType, event.sourceId, event.occurrenceDate ?? date)
+
+  // Savings goals set aside what is still missing until their target dates
+  const goalPlans = validated.activeSavingsGoals.map((goal) =>
+    planSavingsGoal(goal, validated.accounts, startDate)
+  )
 
-  // Track first occurrences for biweekly/weekly calculations
-  const optimisticFirstOccurrences = new Map<string, number>()
-  const pessimisticFirstOccurrences = new Map<string, number>()
+  // Loan installments and prepayments follow their amortization schedules
+  const loanEvents = createLoanEvents(validated.activeLoans, startDate, projectionDays, resolveAccount)
+
+  // Index scheduled events by day offset up front, so each day only reads its own
+  const incomeEvents = createIncomeEvents(validated.activeProjects, startDate, projectionDays, resolveAccount)
+  const singleShotIncomeEvents = createSingleShotIncomeEvents(
+    validated.singleShotIncome,
+    startDate,
+    projectionDays,
+    resolveAccount
+  )
+  const fixedExpenseEvents = createFixedExpenseEvents(
+    validated.activeExpenses,
+    startDate,
+    projectionDays,
+    resolveAccount
+  )
+  const singleShotExpenseEvents = createSingleShotExpenseEvents(
+    validated.singleShotExpenses,
+    startDate,
+    projectionDays,
+    resolveAccount
+  )
+  const creditCardEvents = createCreditCardEvents(
+    validated.creditCards,
+    validated.futureStatements,
+    validated.installmentPurchases,
+    startDate,
+    projectionDays,
+    resolveAccount
+  )
+  const transfersByDay = getTransfersByDay(validated.activeTransfers, startDate, projectionDays)
+  const goalContributionsByDay = getGoalContributionsByDay(goalPlans, startDate, projectionDays)
+
+  // Taxes on self-employed income are paid in the following month, including
+  // on income received shortly before the projection starts
+  const taxProfiles = getTaxProfiles([...validated.activeProjects, ...validated.singleShotIncome])
+  const taxAccruals = taxProfiles.size > 0
+    ? getLookbackTaxAccruals(validated, startDate, taxProfiles)
+    : new Map() as TaxAccruals
 
   // Initialize running balances
   let optimisticBalance = startingBalance
+  let realisticBalance = startingBalance
   let pessimisticBalance = startingBalance
+  let accountBalances = getStartingAccountBalances(validated.accounts)
+
+  // Income scheduled before the start is in the recorded balance if it arrived
+  // on time: queue only its late arrivals that fall inside the projection.
+  // Legacy biweekly schedules without an anchor have no paydays before it
+  const incomeLookbackDays = getIncomeLookbackDays([...validated.activeProjects, ...validated.singleShotIncome])
+  const lookbackProjects = validated.activeProjects.filter(
+    (project) => !project.paymentSchedule || !isUnanchoredBiweekly(project.frequency, project.paymentSchedule)
+  )
+  const lookbackStartDate = addDays(startDate, -incomeLookbackDays)
+  const lookbackIncomeEvents = createIncomeEvents(
+    lookbackProjects,
+    lookbackStartDate,
+    incomeLookbackDays,
+    resolveAccount
+  )
+  const lookbackSingleShotIncomeEvents = createSingleShotIncomeEvents(
+    validated.singleShotIncome,
+    lookbackStartDate,
+    incomeLookbackDays,
+    resolveAccount
+  )
+  for (let dayOffset = -incomeLookbackDays; dayOffset < 0; dayOffset++) {
+    const date = addDays(startDate, dayOffset)
+    const lookbackOffset = dayOffset + incomeLookbackDays
+    postIncomeEvents(
+      [
+        ...(lookbackIncomeEvents.get(lookbackOffset) ?? []),
+        ...(lookbackSingleShotIncomeEvents.get(lookbackOffset) ?? []),
+      ].filter((event) => isUnreconciledIncome(event, date)),
+      date,
+      dayOffset,
+      delayedIncome
+    )
+    delayedIncome.delete(dayOffset)
+  }
 
   // Generate daily snapshots
   const days: DailySnapshot[] = []
@@ -415,63 +1876,108 @@ export function calculateCashflow(input: CashflowEngineInput): CashflowProjectio
   for (let dayOffset = 0; dayOffset < projectionDays; dayOffset++) {
     const date = addDays(startDate, dayOffset)
 
-    // Create income events for optimistic scenario (all active projects)
-    const recurringIncomeEvents = createIncomeEvents(
-      date,
-      dayOffset,
-      validated.activeProjects,
-      optimisticFirstOccurrences
-    )
+    // Combine all income events, posting delayed income on its expected days
+    const dayConfirmedEvents = confirmedEvents.get(dayOffset)
+    const allIncomeEvents = [
+      ...(delayedIncome.get(dayOffset) ?? []),
+      ...postIncomeEvents(
+        [
+          ...(incomeEvents.get(dayOffset) ?? []),
+          ...(singleShotIncomeEvents.get(dayOffset) ?? []),
+        ].filter((event) => isUnreconciledIncome(event, date)),
+        date,
+        dayOffset,
+        delayedIncome
+      ),
+      ...(dayConfirmedEvents?.incomeEvents ?? []),
+    ]
+    delayedIncome.delete(dayOffset)
+    accrueIncomeTaxes(date, allIncomeEvents, taxProfiles, taxAccruals)
 
-    // Create income events for pessimistic scenario (guaranteed only)
-    // We track separately for correct biweekly/weekly calculations
-    // Note: guaranteedIncomeEvents not used directly - pessimistic income is filtered from allIncomeEvents
-    createIncomeEvents(
+    // Create expense events (same for every scenario)
+    const overdraftInterestEvents = createOverdraftInterestEvents(
       date,
-      dayOffset,
-      validated.guaranteedProjects,
-      pessimisticFirstOccurrences
+      overdraftInterestAccruals,
+      accountsById
     )
+    const goalContributionEvents = createGoalContributionEvents(
+      goalContributionsByDay.get(dayOffset) ?? [],
+      validated.activeSavingsGoals,
+      goalPlans,
+      accountsById,
+      nonCheckingBalances,
+      resolveAccount
+    )
+    const expenseEvents = [
+      ...[
+        ...(fixedExpenseEvents.get(dayOffset) ?? []),
+        ...(singleShotExpenseEvents.get(dayOffset) ?? []),
+        ...(creditCardEvents.get(dayOffset) ?? []),
+      ].filter((event) => isUnreconciledExpense(event, date)),
+      ...(dayConfirmedEvents?.expenseEvents ?? []),
+      ...goalContributionEvents.expenseEvents,
+      ...(loanEvents.get(dayOffset) ?? []),
+      ...createTaxEvents(date, taxAccruals, resolveAccount),
+      ...overdraftInterestEvents,
+    ]
 
-    // Create single-shot income events
-    const singleShotIncomeEvents = createSingleShotIncomeEvents(date, validated.singleShotIncome)
-
-    // Combine all income events
-    const allIncomeEvents = [...recurringIncomeEvents, ...singleShotIncomeEvents]
-
-    // Create expense events (same for both scenarios)
-    const fixedExpenseEvents = createFixedExpenseEvents(date, validated.activeExpenses)
-    const singleShotExpenseEvents = createSingleShotExpenseEvents(date, validated.singleShotExpenses)
-    const creditCardEvents = createCreditCardEvents(date, validated.creditCards, validated.futureStatements)
-    const expenseEvents = [...fixedExpenseEvents, ...singleShotExpenseEvents, ...creditCardEvents]
+    // Move money between accounts (same for every scenario)
+    const transferEvents = [
+      ...createTransferEvents(transfersByDay.get(dayOffset) ?? [], accountsById, nonCheckingBalances),
+      ...goalContributionEvents.transferEvents,
+    ]
 
     // Calculate daily totals
-    const optimisticIncome = calculateOptimisticIncome(allIncomeEvents)
-    const pessimisticIncome = calculatePessimisticIncome(allIncomeEvents)
-    const totalExpenses = calculateTotalExpenses(expenseEvents)
+    const optimisticIncome = calculateScenarioIncome(allIncomeEvents, 'optimistic')
+    const realisticIncome = calculateScenarioIncome(allIncomeEvents, 'realistic')
+    const pessimisticIncome = calculateScenarioIncome(allIncomeEvents, 'pessimistic')
+    const optimisticExpenses = calculateScenarioExpenses(expenseEvents, 'optimistic')
+    const realisticExpenses = calculateScenarioExpenses(expenseEvents, 'realistic')
+    const pessimisticExpenses = calculateScenarioExpenses(expenseEvents, 'pessimistic')
+    const checkingTransfers = calculateCheckingTransfers(transferEvents)
 
     // Update running balances
-    optimisticBalance = optimisticBalance + optimisticIncome - totalExpenses
-    pessimisticBalance = pessimisticBalance + pessimisticIncome - totalExpenses
+    optimisticBalance = optimisticBalance + optimisticIncome - optimisticExpenses + checkingTransfers
+    realisticBalance = realisticBalance + realisticIncome - realisticExpenses + checkingTransfers
+    pessimisticBalance = pessimisticBalance + pessimisticIncome - pessimisticExpenses + checkingTransfers
+    accountBalances = applyAccountEvents(accountBalances, allIncomeEvents, expenseEvents, transferEvents)
+    accrueOverdraftInterest(overdraftInterestAccruals, accountBalances, accountsById)
+    accrueAccountYield(
+      date,
+      dayOffset,
+      validated.accounts,
+      nonCheckingBalances,
+      yieldAccruals,
+      cdiAnnualRate
+    )
 
     // Create snapshot
     const snapshot: DailySnapshot = {
       date,
       dayOffset,
       optimisticBalance,
+      realisticBalance,
       pessimisticBalance,
       incomeEvents: allIncomeEvents,
       expenseEvents,
-      isOptimisticDanger: optimisticBalance < 0,
-      isPessimisticDanger: pessimisticBalance < 0,
+      transferEvents,
+      investmentBalance: sumInvestmentBalance(validated.accounts, nonCheckingBalances),
+      accountBalances,
+      isOptimisticDanger: optimisticBalance < safetyThreshold,
+      isRealisticDanger: realisticBalance < safetyThreshold,
+      isPessimisticDanger: pessimisticBalance < safetyThreshold,
+      optimisticDangerLevel: getDangerLevel(optimisticBalance, overdraftLimit, safetyThreshold),
+      realisticDangerLevel: getDangerLevel(realisticBalance, overdraftLimit, safetyThreshold),
+      pessimisticDangerLevel: getDangerLevel(pessimisticBalance, overdraftLimit, safetyThreshold),
     }
 
     days.push(snapshot)
   }
 
   // Generate scenario summaries
-  const optimistic = generateScenarioSummary(days, true)
-  const pessimistic = generateScenarioSummary(days, false)
+  const optimistic = generateScenarioSummary(days, 'optimistic')
+  const realistic = generateScenarioSummary(days, 'realistic')
+  const pessimistic = generateScenarioSummary(days, 'pessimistic')
 
   return {
     startDate,
@@ -479,7 +1985,11 @@ export function calculateCashflow(input: CashflowEngineInput): CashflowProjectio
     startingBalance,
     days,
     optimistic,
+    realistic,
     pessimistic,
+    accounts: generateAccountSummaries(validated.accounts, days),
+    safetyThreshold,
+    goals: goalPlans,
   }
 }
 
@@ -50,6 +50,7 @@ function createSingleShotIncome(
     amount: overrides.amount,
     date: overrides.date,
     certainty: overrides.certainty,
+    paymentDelay: overrides.paymentDelay,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
   }
@@ -297,6 +298,119 @@ describe('calculateEstimatedTodayBalance', () => {
     expect(estimate.isEstimated.pessimistic).toBe(false)
     expect(estimate.isEstimated.any).toBe(false)
   })
+
+  it('lists the unconfirmed past events in (baseDate, today] in date order', () => {
+    vi.setSystemTime(new Date('2025-01-12T12:00:00Z'))
+
+    const accounts = [createCheckingAccount({ balance: 0, balanceUpdatedAt: new Date('2025-01-10T12:00:00Z') })]
+    const expense = createSingleShotExpense({ name: 'Conserto', date: dateOnly(2025, 1, 12), amount: 20_000 })
+    const income = createSingleShotIncome({
+      name: 'Freela',
+      date: dateOnly(2025, 1, 11),
+      amount: 50_000,
+      certainty: 'probable',
+    })
+
+    const estimate = calculateEstimatedTodayBalance({
+      accounts,
+      projects: emptyProjects,
+      fixedExpenses: emptyFixedExpenses,
+      singleShotExpenses: [expense],
+      singleShotIncome: [income],
+      creditCards: emptyCreditCards,
+      futureStatements: emptyFutureStatements,
+      timeZone: TIME_ZONE,
+    })
+
+    expect(estimate.unconfirmedEvents).toEqual([
+      {
+        sourceType: 'project',
+        sourceId: income.id,
+        name: 'Freela',
+        occurrenceDate: dateOnly(2025, 1, 11),
+        date: dateOnly(2025, 1, 11),
+        amount: 50_000,
+      },
+      {
+        sourceType: 'expense',
+        sourceId: expense.id,
+        name: 'Conserto',
+        occurrenceDate: dateOnly(2025, 1, 12),
+        date: dateOnly(2025, 1, 12),
+        amount: 20_000,
+      },
+    ])
+  })
+
+  it('uses confirmed data instead of the schedule', () => {
+    vi.setSystemTime(new Date('2025-01-12T12:00:00Z'))
+
+    const accounts = [createCheckingAccount({ balance: 100_000, balanceUpdatedAt: new Date('2025-01-10T12:00:00Z') })]
+    const expense = createSingleShotExpense({ date: dateOnly(2025, 1, 11), amount: 20_000 })
+    const income = createSingleShotIncome({ date: dateOnly(2025, 1, 12), amount: 50_000, certainty: 'guaranteed' })
+
+    const estimate = calculateEstimatedTodayBalance({
+      accounts,
+      projects: emptyProjects,
+      fixedExpenses: emptyFixedExpenses,
+      singleShotExpenses: [expense],
+      singleShotIncome: [income],
+      creditCards: emptyCreditCards,
+      futureStatements: emptyFutureStatements,
+      eventConfirmations: [
+        {
+          sourceType: 'expense',
+          sourceId: expense.id,
+          occurrenceDate: dateOnly(2025, 1, 11),
+          status: 'confirmed',
+          amount: 23_500,
+          date: dateOnly(2025, 1, 12),
+        },
+        {
+          sourceType: 'project',
+          sourceId: income.id,
+          occurrenceDate: dateOnly(2025, 1, 12),
+          status: 'missed',
+          amount: null,
+          date: null,
+        },
+      ],
+      timeZone: TIME_ZONE,
+    })
+
+    expect(estimate.optimisticCents).toBe(76_500)
+    expect(estimate.pessimisticCents).toBe(76_500)
+    expect(estimate.unconfirmedEvents).toEqual([])
+    expect(estimate.isEstimated.any).toBe(false)
+  })
+
+  it('accrues CDI yield on investments over the interval', () => {
+    vi.setSystemTime(new Date('2025-01-14T12:00:00Z')) // Tuesday
+
+    const investment: BankAccount = {
+      ...createCheckingAccount({ balance: 10_000_000 }),
+      type: 'investment',
+      yieldType: 'cdi',
+      yieldRate: 100,
+    }
+    const input = {
+      // Base on Friday: the interval has two business days
+      accounts: [createCheckingAccount({ balanceUpdatedAt: new Date('2025-01-10T12:00:00Z') }), investment],
+      projects: emptyProjects,
+      fixedExpenses: emptyFixedExpenses,
+      singleShotExpenses: [],
+      singleShotIncome: [],
+      creditCards: emptyCreditCards,
+      futureStatements: emptyFutureStatements,
+      timeZone: TIME_ZONE,
+    }
+
+    const estimate = calculateEstimatedTodayBalance({ ...input, cdiAnnualRate: 12 })
+    const dailyRate = Math.pow(1.12, 1 / 252) - 1
+
+    expect(estimate.investmentCents).toBeCloseTo(10_000_000 * Math.pow(1 + dailyRate, 2), -1)
+    expect(calculateEstimatedTodayBalance(input).investmentCents).toBe(10_000_000)
+  })
 })
 
 describe('rebaseProjectionFromEstimatedToday', () => {
@@ -317,7 +431,7 @@ describe('rebaseProjectionFromEstimatedToday', () => {
       createSingleShotExpense({ date: dateOnly(2025, 1, 20), amount: 10_000 }),
     ]
     const singleShotIncome = [
-      // Included in optimistic estimate only (today)
+      // Included in optimistic and realistic estimates only (today)
       createSingleShotIncome({
         date: dateOnly(2025, 1, 20),
         amount: 20_000,
@@ -339,6 +453,8 @@ describe('rebaseProjectionFromEstimatedToday', () => {
     // Sanity: pessimistic should be negative, optimistic non-negative (offset > 0)
     expect(estimatedToday.pessimisticCents).toBe(-10_000)
     expect(estimatedToday.optimisticCents).toBe(10_000)
+    expect(estimatedToday.realisticCents).toBe(10_000)
+    expect(estimatedToday.isEstimated.realistic).toBe(true)
 
     const projectionDays = 3
     const rebased = rebaseProjectionFromEstimatedToday({
@@ -371,6 +487,66 @@ describe('rebaseProjectionFromEstimatedToday', () => {
     expect(rebased.days[0].isOptimisticDanger).toBe(false)
     expect(rebased.days[1].isPessimisticDanger).toBe(true)
     expect(rebased.days[1].isOptimisticDanger).toBe(false)
+
+    // Probable income keeps the realistic scenario out of danger too
+    expect(rebased.days[1].realisticBalance).toBe(estimatedToday.realisticCents)
+    expect(rebased.days[1].isRealisticDanger).toBe(false)
+    expect(rebased.realistic?.endBalance).toBe(10_000)
+  })
+
+  it('posts late arrivals of income scheduled before today on their expected days, once', () => {
+    vi.setSystemTime(new Date('2025-01-20T12:00:00Z')) // today = 2025-01-20 in Sao Paulo
+
+    const accounts = [
+      createCheckingAccount({ balance: 100_000, balanceUpdatedAt: new Date('2025-01-15T12:00:00Z') }),
+    ]
+    const singleShotIncome = [
+      // Due 2 days ago, paid 5-15 days late: still outstanding in the realistic/pessimistic scenarios
+      createSingleShotIncome({
+        date: dateOnly(2025, 1, 18),
+        amount: 50_000,
+        certainty: 'guaranteed',
+        paymentDelay: { minDays: 5, maxDays: 15 },
+      }),
+    ]
+
+    const estimatedToday = calculateEstimatedTodayBalance({
+      accounts,
+      projects: emptyProjects,
+      fixedExpenses: emptyFixedExpenses,
+      singleShotExpenses: [],
+      singleShotIncome,
+      creditCards: emptyCreditCards,
+      futureStatements: emptyFutureStatements,
+      timeZone: TIME_ZONE,
+    })
+
+    expect(estimatedToday.optimisticCents).toBe(150_000)
+    expect(estimatedToday.realisticCents).toBe(100_000)
+    expect(estimatedToday.pessimisticCents).toBe(100_000)
+
+    const rebased = rebaseProjectionFromEstimatedToday({
+      projectionDays: 30,
+      estimatedToday,
+      accounts,
+      projects: emptyProjects,
+      fixedExpenses: emptyFixedExpenses,
+      singleShotExpenses: [],
+      singleShotIncome,
+      creditCards: emptyCreditCards,
+      futureStatements: emptyFutureStatements,
+    })
+
+    // Realistic: 2025-01-23 (5 days late); pessimistic: 2025-02-02 (15 days late)
+    expect(rebased.days[2].realisticBalance).toBe(100_000)
+    expect(rebased.days[3].realisticBalance).toBe(150_000)
+    expect(rebased.days[12].pessimisticBalance).toBe(100_000)
+    expect(rebased.days[13].pessimisticBalance).toBe(150_000)
+
+    // Already counted on time in the optimistic estimate
+    expect(rebased.days.every((day) => day.optimisticBalance === 150_000)).toBe(true)
+    expect(rebased.days[29].realisticBalance).toBe(150_000)
+    expect(rebased.days[29].pessimisticBalance).toBe(150_000)
   })
 
   it('when projectionDays=1, returns only a synthetic today point (no forward projection)', () => {
@@ -2,7 +2,7 @@
  * Today's estimated balance helpers.
  *
  * Pure module (no side effects): derives a "since last balance update" base,
- * computes today's estimated balance for both scenarios, and rebases the
+ * computes today's estimated balance for each scenario, and rebases the
  * projection to avoid double counting.
  */
 
@@ -14,10 +14,25 @@ import type {
   SingleShotExpense,
   SingleShotIncome,
   FutureStatement,
+  InstallmentPurchase,
+  Transfer,
+  SavingsGoal,
+  Loan,
+  EventConfirmationInput,
 } from '../../types'
-import { addDays, differenceInCalendarDays, isAfter } from 'date-fns'
-import { calculateCashflow, calculateStartingBalance, generateScenarioSummary } from './calculate'
-import type { CashflowProjection, DailySnapshot } from './types'
+import { addDays, differenceInCalendarDays, format, isAfter } from 'date-fns'
+import {
+  calculateCashflow,
+  calculateInvestmentBalance,
+  calculateOverdraftLimit,
+  calculateStartingBalance,
+  generateAccountSummaries,
+  generateScenarioSummary,
+  getDangerLevel,
+  getStartingAccountBalances,
+  isIncomeInScenario,
+} from './calculate'
+import type { AccountBalance, CashflowProjection, DailySnapshot, SavingsGoalPlan } from './types'
 import { getTodayDateOnlyInTimeZone, toDateOnlyInTimeZone } from '../dates/timezone'
 
 export type BalanceUpdateBase =
@@ -30,15 +45,39 @@ export type CheckingBalanceUpdateBaseResult =
   | { success: true; base: BalanceUpdateBase; baseForComputation: Date }
   | { success: false; reason: BalanceUpdateBaseFailureReason }
 
+/**
+ * A past projected event (since the balance update) the user has not
+ * confirmed as paid/received or marked as not happened yet.
+ */
+export interface UnconfirmedEvent {
+  sourceType: EventConfirmationInput['sourceType']
+  sourceId: string
+  name: string
+  /** Date the event was scheduled for (key of its confirmation) */
+  occurrenceDate: Date
+  /** Day it was expected to happen (the on-time day of delayed income) */
+  date: Date
+  /** Projected amount in cents (the average of variable expenses) */
+  amount: number
+}
+
 export interface EstimatedTodayBalance {
   today: Date
   hasBase: boolean
   base?: BalanceUpdateBase
   baseFailureReason?: BalanceUpdateBaseFailureReason
   optimisticCents: number
+  realisticCents: number
   pessimisticCents: number
+  /** Investment accounts balance today, including transfers since the base */
+  investmentCents: number
+  /** Each checking account's estimated balance today */
+  accountBalances: AccountBalance[]
+  /** Past events since the base that still rely on assumptions, in date order */
+  unconfirmedEvents: UnconfirmedEvent[]
   isEstimated: {
     optimistic: boolean
+    realistic: boolean
     pessimistic: boolean
     any: boolean
   }
@@ -90,12 +129,21 @@ export interface EstimateTodayInput {
   singleShotIncome: SingleShotIncome[]
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  installmentPurchases?: InstallmentPurchase[]
+  transfers?: Transfer[]
+  eventConfirmations?: EventConfirmationInput[]
+  /** Loans, whose installments in the interval are debited automatically */
+  loans?: Loan[]
+  /** Group annual CDI rate in percent, for the interval's yield (defaults to 0) */
+  cdiAnnualRate?: number
   timeZone: string
 }
 
 export function calculateEstimatedTodayBalance(input: EstimateTodayInput): EstimatedTodayBalance {
   const today = getTodayDateOnlyInTimeZone(input.timeZone)
   const startingBalance = calculateStartingBalance(input.accounts)
+  const investmentBalance = calculateInvestmentBalance(input.accounts)
+  const startingAccountBalances = getStartingAccountBalances(input.accounts)
 
   const baseResult = getCheckingBalanceUpdateBase(input.accounts, input.timeZone)
   if (!baseResult.success) {
@@ -104,8 +152,12 @@ export function calculateEstimatedTodayBalance(input: EstimateTodayInput): Estim
       hasBase: false,
       baseFailureReason: baseResult.reason,
       optimisticCents: startingBalance,
+      realisticCents: startingBalance,
       pessimisticCents: startingBalance,
-      isEstimated: { optimistic: false, pessimistic: false, any: false },
+      investmentCents: investmentBalance,
+      accountBalances: startingAccountBalances,
+      unconfirmedEvents: [],
+      isEstimated: { optimistic: false, realistic: false, pessimistic: false, any: false },
     }
   }
 
@@ -119,13 +171,18 @@ export function calculateEstimatedTodayBalance(input: EstimateTodayInput): Estim
       hasBase: true,
       base,
       optimisticCents: startingBalance,
+      realisticCents: startingBalance,
       pessimisticCents: startingBalance,
-      isEstimated: { optimistic: false, pessimistic: false, any: false },
+      investmentCents: investmentBalance,
+      accountBalances: startingAccountBalances,
+      unconfirmedEvents: [],
+      isEstimated: { optimistic: false, realistic: false, pessimistic: false, any: false },
     }
   }
 
   const projectionDays = differenceInCalendarDays(today, intervalStart) + 1
 
+  // Savings goals are left out: what was set aside already shows in the balances
   const intervalProjection = calculateCashflow({
     accounts: input.accounts,
     projects: input.projects,
@@ -134,36 +191,115 @@ export function calculateEstimatedTodayBalance(input: EstimateTodayInput): Estim
     singleShotIncome: input.singleShotIncome,
     creditCards: input.creditCards,
     futureStatements: input.futureStatements,
-    options: { startDate: intervalStart, projectionDays },
+    installmentPurchases: input.installmentPurchases,
+    transfers: input.transfers,
+    eventConfirmations: input.eventConfirmations,
+    loans: input.loans,
+    options: { startDate: intervalStart, projectionDays, cdiAnnualRate: input.cdiAnnualRate },
   })
 
   const lastDay = intervalProjection.days[intervalProjection.days.length - 1]
   const optimisticCents = lastDay.optimisticBalance
+  const realisticCents = lastDay.realisticBalance ?? lastDay.pessimisticBalance
   const pessimisticCents = lastDay.pessimisticBalance
+  const investmentCents = lastDay.investmentBalance ?? investmentBalance
+  const accountBalances = lastDay.accountBalances ?? startingAccountBalances
 
-  const hasAnyExpense = intervalProjection.days.some((d) => d.expenseEvents.length > 0)
-  const hasAnyIncome = intervalProjection.days.some((d) => d.incomeEvents.length > 0)
+  // Confirmed events are real data, not assumptions
+  const hasAnyExpense = intervalProjection.days.some((d) =>
+    d.expenseEvents.some((ev) => !ev.confirmed)
+  )
+  const hasAnyCheckingTransfer = intervalProjection.days.some((d) =>
+    (d.transferEvents ?? []).some((ev) => ev.checkingDelta !== 0)
+  )
+  const hasAnyIncome = intervalProjection.days.some((d) =>
+    d.incomeEvents.some((ev) => !ev.confirmed && isIncomeInScenario(ev, 'optimistic'))
+  )
+  const hasAnyProbableIncome = intervalProjection.days.some((d) =>
+    d.incomeEvents.some((ev) => !ev.confirmed && isIncomeInScenario(ev, 'realistic'))
+  )
   const hasAnyGuaranteedIncome = intervalProjection.days.some((d) =>
-    d.incomeEvents.some((ev) => ev.certainty === 'guaranteed')
+    d.incomeEvents.some((ev) => !ev.confirmed && isIncomeInScenario(ev, 'pessimistic'))
   )
 
-  const optimisticEstimated = hasAnyExpense || hasAnyIncome
-  const pessimisticEstimated = hasAnyExpense || hasAnyGuaranteedIncome
+  const optimisticEstimated = hasAnyExpense || hasAnyIncome || hasAnyCheckingTransfer
+  const realisticEstimated = hasAnyExpense || hasAnyProbableIncome || hasAnyCheckingTransfer
+  const pessimisticEstimated = hasAnyExpense || hasAnyGuaranteedIncome || hasAnyCheckingTransfer
 
   return {
     today,
     hasBase: true,
     base,
     optimisticCents,
+    realisticCents,
     pessimisticCents,
+    investmentCents,
+    accountBalances,
+    unconfirmedEvents: getUnconfirmedEvents(intervalProjection.days),
     isEstimated: {
       optimistic: optimisticEstimated,
+      realistic: realisticEstimated,
       pessimistic: pessimisticEstimated,
-      any: optimisticEstimated || pessimisticEstimated,
+      any: optimisticEstimated || realisticEstimated || pessimisticEstimated,
     },
   }
 }
 
+/**
+ * List the income and expense events of the interval since the base that were
+ * not reconciled yet. Delayed income is listed once, on its on-time day;
+ * overdraft interest and empty card bills are left out.
+ */
+function getUnconfirmedEvents(days: DailySnapshot[]): UnconfirmedEvent[] {
+  const events: UnconfirmedEvent[] = []
+  const seen = new Set<string>()
+
+  const add = (event: UnconfirmedEvent) => {
+    const key = `${event.sourceType}:${event.sourceId}:${format(event.occurrenceDate, 'yyyy-MM-dd')}`
+    if (seen.has(key)) return
+    seen.add(key)
+    events.push(event)
+  }
+
+  for (const day of days) {
+    for (const event of day.incomeEvents) {
+      if (event.confirmed) continue
+      const date = event.scheduledDate ?? day.date
+      add({
+        sourceType: 'project',
+        sourceId: event.projectId,
+        name: event.projectName,
+        occurrenceDate: event.occurrenceDate ?? date,
+        date,
+        amount: event.amount,
+      })
+    }
+
+    for (const event of day.expenseEvents) {
+      if (
+        event.confirmed ||
+        event.sourceType === 'overdraft_interest' ||
+        event.sourceType === 'goal' ||
+        event.sourceType === 'loan' ||
+        event.sourceType === 'tax' ||
+        event.amount <= 0
+      ) {
+        continue
+      }
+      add({
+        sourceType: event.sourceType,
+        sourceId: event.sourceId,
+        name: event.sourceName,
+        occurrenceDate: event.occurrenceDate ?? day.date,
+        date: day.date,
+        amount: event.amount,
+      })
+    }
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
 export interface RebaseProjectionInput {
   projectionDays: number
   estimatedToday: EstimatedTodayBalance
@@ -174,6 +310,17 @@ export interface RebaseProjectionInput {
   singleShotIncome: SingleShotIncome[]
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  installmentPurchases?: InstallmentPurchase[]
+  transfers?: Transfer[]
+  eventConfirmations?: EventConfirmationInput[]
+  /** Savings goals, whose contributions start on the forward days */
+  savingsGoals?: SavingsGoal[]
+  /** Loans, whose installments are paid on the forward days */
+  loans?: Loan[]
+  /** Group safety threshold in cents (defaults to 0) */
+  safetyThreshold?: number
+  /** Group annual CDI rate in percent, for the forward days' yield (defaults to 0) */
+  cdiAnnualRate?: number
 }
 
 export function rebaseProjectionFromEstimatedToday(
@@ -186,24 +333,53 @@ export function rebaseProjectionFromEstimatedToday(
   const baseOffset = input.estimatedToday.pessimisticCents - originalStartingBalance
   const optimisticOffset =
     input.estimatedToday.optimisticCents - input.estimatedToday.pessimisticCents
+  const realisticOffset =
+    input.estimatedToday.realisticCents - input.estimatedToday.pessimisticCents
+  const investmentOffset =
+    input.estimatedToday.investmentCents - calculateInvestmentBalance(input.accounts)
+  const accountBalances = input.estimatedToday.accountBalances
+  const overdraftLimit = calculateOverdraftLimit(input.accounts)
+  const safetyThreshold = input.safetyThreshold ?? 0
 
   const syntheticToday: DailySnapshot = {
     date: today,
     dayOffset: 0,
     optimisticBalance: input.estimatedToday.optimisticCents,
+    realisticBalance: input.estimatedToday.realisticCents,
     pessimisticBalance: input.estimatedToday.pessimisticCents,
     incomeEvents: [],
     expenseEvents: [],
-    isOptimisticDanger: input.estimatedToday.optimisticCents < 0,
-    isPessimisticDanger: input.estimatedToday.pessimisticCents < 0,
+    transferEvents: [],
+    investmentBalance: input.estimatedToday.investmentCents,
+    accountBalances,
+    isOptimisticDanger: input.estimatedToday.optimisticCents < safetyThreshold,
+    isRealisticDanger: input.estimatedToday.realisticCents < safetyThreshold,
+    isPessimisticDanger: input.estimatedToday.pessimisticCents < safetyThreshold,
+    optimisticDangerLevel: getDangerLevel(
+      input.estimatedToday.optimisticCents,
+      overdraftLimit,
+      safetyThreshold
+    ),
+    realisticDangerLevel: getDangerLevel(
+      input.estimatedToday.realisticCents,
+      overdraftLimit,
+      safetyThreshold
+    ),
+    pessimisticDangerLevel: getDangerLevel(
+      input.estimatedToday.pessimisticCents,
+      overdraftLimit,
+      safetyThreshold
+    ),
   }
 
   const forwardDays = Math.max(0, projectionDays - 1)
   const tomorrow = addDays(today, 1)
 
   const days: DailySnapshot[] = [syntheticToday]
+  let goals: SavingsGoalPlan[] | undefined
 
   if (forwardDays > 0) {
+    // Overdraft interest in the forward days is estimated from the recorded balances
     const forwardProjection = calculateCashflow({
       accounts: input.accounts,
       projects: input.projects,
@@ -212,20 +388,40 @@ export function rebaseProjectionFromEstimatedToday(
       singleShotIncome: input.singleShotIncome,
       creditCards: input.creditCards,
       futureStatements: input.futureStatements,
-      options: { startDate: tomorrow, projectionDays: forwardDays },
+      installmentPurchases: input.installmentPurchases,
+      transfers: input.transfers,
+      eventConfirmations: input.eventConfirmations,
+      savingsGoals: input.savingsGoals,
+      loans: input.loans,
+      options: {
+        startDate: tomorrow,
+        projectionDays: forwardDays,
+        safetyThreshold,
+        cdiAnnualRate: input.cdiAnnualRate,
+      },
     })
+    goals = forwardProjection.goals
 
     for (const forwardDay of forwardProjection.days) {
       const pessimisticBalance = forwardDay.pessimisticBalance + baseOffset
       const optimisticBalance = forwardDay.optimisticBalance + baseOffset + optimisticOffset
+      const realisticBalance =
+        (forwardDay.realisticBalance ?? forwardDay.pessimisticBalance) + baseOffset + realisticOffset
 
       days.push({
         ...forwardDay,
         dayOffset: days.length,
         pessimisticBalance,
+        realisticBalance,
         optimisticBalance,
-        isPessimisticDanger: pessimisticBalance < 0,
-        isOptimisticDanger: optimisticBalance < 0,
+        investmentBalance: (forwardDay.investmentBalance ?? 0) + investmentOffset,
+        accountBalances: rebaseAccountBalances(forwardDay.accountBalances ?? [], accountBalances, input.accounts),
+        isPessimisticDanger: pessimisticBalance < safetyThreshold,
+        isRealisticDanger: realisticBalance < safetyThreshold,
+        isOptimisticDanger: optimisticBalance < safetyThreshold,
+        pessimisticDangerLevel: getDangerLevel(pessimisticBalance, overdraftLimit, safetyThreshold),
+        realisticDangerLevel: getDangerLevel(realisticBalance, overdraftLimit, safetyThreshold),
+        optimisticDangerLevel: getDangerLevel(optimisticBalance, overdraftLimit, safetyThreshold),
       })
     }
   }
@@ -234,8 +430,9 @@ export function rebaseProjectionFromEstimatedToday(
   const endDate = days[days.length - 1].date
   const startingBalance = input.estimatedToday.pessimisticCents
 
-  const optimistic = generateScenarioSummary(days, true)
-  const pessimistic = generateScenarioSummary(days, false)
+  const optimistic = generateScenarioSummary(days, 'optimistic')
+  const realistic = generateScenarioSummary(days, 'realistic')
+  const pessimistic = generateScenarioSummary(days, 'pessimistic')
 
   return {
     startDate,
@@ -243,6 +440,37 @@ export function rebaseProjectionFromEstimatedToday(
     startingBalance,
     days,
     optimistic,
+    realistic,
     pessimistic,
+    accounts: generateAccountSummaries(input.accounts, days, accountBalances),
+    safetyThreshold,
+    goals,
   }
 }
+
+/**
+ * Shift each account's forward balances by the difference between its
+ * estimated balance today and its recorded balance (the forward projection's start).
+ */
+function rebaseAccountBalances(
+  forwardBalances: AccountBalance[],
+  estimatedBalances: AccountBalance[],
+  accounts: BankAccount[]
+): AccountBalance[] {
+  return forwardBalances.map((balance) => {
+    const recorded = accounts.find((account) => account.id === balance.accountId)?.balance ?? 0
+    const estimated = estimatedBalances.find((b) => b.accountId === balance.accountId)
+
+    const realisticBalance = balance.realisticBalance ?? balance.pessimisticBalance
+    const estimatedRealistic = estimated?.realisticBalance ?? estimated?.pessimisticBalance
+
+    return {
+      accountId: balance.accountId,
+      optimisticBalance:
+        balance.optimisticBalance + (estimated?.optimisticBalance ?? recorded) - recorded,
+      realisticBalance: realisticBalance + (estimatedRealistic ?? recorded) - recorded,
+      pessimisticBalance:
+        balance.pessimisticBalance + (estimated?.pessimisticBalance ?? recorded) - recorded,
+    }
+  })
+}
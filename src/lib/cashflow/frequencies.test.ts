@@ -10,7 +10,10 @@ import {
   getEffectiveDay,
   isMonthlyPaymentDue,
   isBiweeklyPaymentDue,
+  isAnchoredBiweeklyPaymentDue,
   isWeeklyPaymentDue,
+  isEveryNMonthsPaymentDue,
+  isYearlyPaymentDue,
 } from './frequencies'
 
 // Helper to create dates in local timezone to avoid UTC offset issues
@@ -162,6 +165,31 @@ describe('isBiweeklyPaymentDue', () => {
   })
 })
 
+describe('isAnchoredBiweeklyPaymentDue', () => {
+  const anchor = '2025-01-10' // Friday
+
+  it('triggers on the anchor date and every 14 days after it', () => {
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 1, 10), anchor)).toBe(true)
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 1, 24), anchor)).toBe(true)
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 3, 7), anchor)).toBe(true)
+  })
+
+  it('triggers every 14 days before the anchor date', () => {
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2024, 12, 27), anchor)).toBe(true)
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2024, 12, 13), anchor)).toBe(true)
+  })
+
+  it('does not trigger on the off-week', () => {
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 1, 17), anchor)).toBe(false)
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 1, 3), anchor)).toBe(false)
+  })
+
+  it('is unaffected by daylight saving transitions', () => {
+    // Crosses the US DST switch (2025-03-09)
+    expect(isAnchoredBiweeklyPaymentDue(localDate(2025, 3, 21), anchor)).toBe(true)
+  })
+})
+
 // =============================================================================
 // WEEKLY FREQUENCY TESTS
 // =============================================================================
@@ -249,3 +277,64 @@ describe('frequency handlers with month-end edge cases', () => {
   })
 })
 
+
+// =============================================================================
+// EVERY-N-MONTHS FREQUENCY TESTS
+// =============================================================================
+
+describe('isEveryNMonthsPaymentDue', () => {
+  it('is due in the anchor month and every interval after it', () => {
+    // Quarterly on day 10, anchored at March 2025
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 3, 10), 3, 10, 3, 2025)).toBe(true)
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 6, 10), 3, 10, 3, 2025)).toBe(true)
+    expect(isEveryNMonthsPaymentDue(localDate(2026, 3, 10), 3, 10, 3, 2025)).toBe(true)
+  })
+
+  it('is not due in months outside the cadence', () => {
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 4, 10), 3, 10, 3, 2025)).toBe(false)
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 5, 10), 3, 10, 3, 2025)).toBe(false)
+  })
+
+  it('follows the cadence for months before the anchor', () => {
+    expect(isEveryNMonthsPaymentDue(localDate(2024, 12, 10), 3, 10, 3, 2025)).toBe(true)
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 1, 10), 3, 10, 3, 2025)).toBe(false)
+  })
+
+  it('is only due on the configured day', () => {
+    expect(isEveryNMonthsPaymentDue(localDate(2025, 3, 11), 3, 10, 3, 2025)).toBe(false)
+  })
+
+  it('handles month-end for short months', () => {
+    // Semiannual on day 31 anchored at August → February uses last day
+    expect(isEveryNMonthsPaymentDue(localDate(2026, 2, 28), 6, 31, 8, 2025)).toBe(true)
+  })
+})
+
+// =============================================================================
+// YEARLY FREQUENCY TESTS
+// =============================================================================
+
+describe('isYearlyPaymentDue', () => {
+  it('is due on each configured month/day', () => {
+    const dates = [
+      { month: 1, day: 10 },
+      { month: 2, day: 15 },
+    ]
+    expect(isYearlyPaymentDue(localDate(2025, 1, 10), dates)).toBe(true)
+    expect(isYearlyPaymentDue(localDate(2025, 2, 15), dates)).toBe(true)
+    expect(isYearlyPaymentDue(localDate(2026, 1, 10), dates)).toBe(true)
+  })
+
+  it('is not due on other days or months', () => {
+    const dates = [{ month: 1, day: 10 }]
+    expect(isYearlyPaymentDue(localDate(2025, 1, 11), dates)).toBe(false)
+    expect(isYearlyPaymentDue(localDate(2025, 2, 10), dates)).toBe(false)
+  })
+
+  it('handles February 29/30/31 in non-leap years', () => {
+    const dates = [{ month: 2, day: 30 }]
+    expect(isYearlyPaymentDue(localDate(2025, 2, 28), dates)).toBe(true)
+    expect(isYearlyPaymentDue(localDate(2024, 2, 29), dates)).toBe(true)
+    expect(isYearlyPaymentDue(localDate(2024, 2, 28), dates)).toBe(false)
+  })
+})
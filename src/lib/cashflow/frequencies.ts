@@ -2,10 +2,11 @@
  * Payment Frequency Handlers
  *
  * Pure functions for determining if a payment is due on a specific date
- * based on different frequency types (monthly, biweekly, weekly).
+ * based on different frequency types (weekly, biweekly, twice-monthly,
+ * monthly, every N months and yearly).
  */
 
-import { getDate, getDaysInMonth, getISODay } from 'date-fns'
+import { differenceInCalendarDays, getDate, getDaysInMonth, getISODay, parse } from 'date-fns'
 
 // =============================================================================
 // MONTH-END HANDLING
@@ -87,6 +88,21 @@ export function isBiweeklyPaymentDue(
   return daysSinceFirst > 0 && daysSinceFirst % 14 === 0
 }
 
+/**
+ * Check if an anchored biweekly payment is due on a specific date.
+ * Payment occurs every 14 days before and after a known reference payday,
+ * so the cadence does not depend on the projection start date.
+ *
+ * @param date - The date to check
+ * @param anchorDate - A real payday in yyyy-MM-dd format
+ * @returns True if payment is due on this date
+ */
+export function isAnchoredBiweeklyPaymentDue(date: Date, anchorDate: string): boolean {
+  const anchor = parse(anchorDate, 'yyyy-MM-dd', new Date())
+  const daysSinceAnchor = differenceInCalendarDays(date, anchor)
+  return ((daysSinceAnchor % 14) + 14) % 14 === 0
+}
+
 // =============================================================================
 // WEEKLY FREQUENCY
 // =============================================================================
@@ -173,3 +189,61 @@ export function isTwiceMonthlyPaymentDue(
   return currentDay === effectiveFirstDay || currentDay === effectiveSecondDay
 }
 
+
+// =============================================================================
+// EVERY-N-MONTHS FREQUENCY
+// =============================================================================
+
+/**
+ * Check if an every-N-months payment is due on a specific date.
+ * The cadence is anchored to a reference month, so it does not depend on
+ * the projection start date. Handles month-end edge cases.
+ *
+ * @param date - The date to check
+ * @param intervalMonths - Months between payments (e.g. 3 for quarterly)
+ * @param dayOfMonth - The configured payment day (1-31)
+ * @param anchorMonth - A month (1-12) in which a payment occurs
+ * @param anchorYear - The year of the anchor month
+ * @returns True if payment is due on this date
+ */
+export function isEveryNMonthsPaymentDue(
+  date: Date,
+  intervalMonths: number,
+  dayOfMonth: number,
+  anchorMonth: number,
+  anchorYear: number
+): boolean {
+  const monthIndex = date.getFullYear() * 12 + date.getMonth()
+  const anchorIndex = anchorYear * 12 + (anchorMonth - 1)
+  const monthsSinceAnchor = monthIndex - anchorIndex
+
+  // Positive modulo so months before the anchor follow the same cadence
+  if (((monthsSinceAnchor % intervalMonths) + intervalMonths) % intervalMonths !== 0) {
+    return false
+  }
+
+  return isMonthlyPaymentDue(date, dayOfMonth)
+}
+
+// =============================================================================
+// YEARLY FREQUENCY
+// =============================================================================
+
+/**
+ * Check if a yearly payment is due on a specific date.
+ * Payment occurs on each configured month/day pair every year.
+ * Handles month-end edge cases (e.g., February 30 → last day of February).
+ *
+ * @param date - The date to check
+ * @param dates - The configured month (1-12) and day (1-31) pairs
+ * @returns True if payment is due on this date
+ */
+export function isYearlyPaymentDue(
+  date: Date,
+  dates: ReadonlyArray<{ month: number; day: number }>
+): boolean {
+  const currentMonth = date.getMonth() + 1
+  return dates.some(
+    (entry) => entry.month === currentMonth && isMonthlyPaymentDue(date, entry.day)
+  )
+}
@@ -5,10 +5,10 @@
  * Covers FR-006 (0 for undefined future months) and future statement lookup.
  */
 
-import { describe, expect, it } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import { calculateCashflow, getCreditCardAmountForDate } from './calculate'
 import type { CashflowEngineInput } from './validators'
-import type { FutureStatement, CreditCard } from '../../types'
+import type { FutureStatement, CreditCard, InstallmentPurchase } from '../../types'
 
 // =============================================================================
 // TEST HELPERS
@@ -20,6 +20,8 @@ function createTestCreditCard(overrides: Partial<CreditCard> = {}): CreditCard {
     name: overrides.name ?? 'Test Card',
     statementBalance: overrides.statementBalance ?? 50000,
     dueDay: overrides.dueDay ?? 15,
+    closingDay: overrides.closingDay,
+    openStatementBalance: overrides.openStatementBalance,
     owner: overrides.owner ?? null,
     createdAt: overrides.createdAt ?? new Date(),
     updatedAt: overrides.updatedAt ?? new Date(),
@@ -41,6 +43,23 @@ function createTestFutureStatement(
   }
 }
 
+function createTestInstallmentPurchase(
+  overrides: Partial<InstallmentPurchase> = {}
+): InstallmentPurchase {
+  return {
+    id: overrides.id ?? crypto.randomUUID(),
+    groupId: overrides.groupId ?? 'test-group-1',
+    creditCardId: overrides.creditCardId ?? 'card-123',
+    description: overrides.description ?? 'Geladeira',
+    totalAmount: overrides.totalAmount ?? 120000,
+    installmentCount: overrides.installmentCount ?? 12,
+    firstMonth: overrides.firstMonth ?? 6,
+    firstYear: overrides.firstYear ?? 2025,
+    createdAt: overrides.createdAt ?? new Date(),
+    updatedAt: overrides.updatedAt ?? new Date(),
+  }
+}
+
 function createTestAccount(
   overrides: Partial<{
     id: string
@@ -567,3 +586,186 @@ describe('duplicate month/year handling', () => {
   })
 })
 
+
+// =============================================================================
+// INSTALLMENT PURCHASE TESTS
+// =============================================================================
+
+describe('installment purchases', () => {
+  it('adds installments on top of a defined future statement', () => {
+    const now = new Date()
+    const futureDate = new Date(now.getFullYear(), now.getMonth() + 3, 15) // 3 months ahead
+
+    const card = createTestCreditCard({ id: 'card-123', statementBalance: 50000 })
+    const statement = createTestFutureStatement({
+      creditCardId: 'card-123',
+      targetMonth: futureDate.getMonth() + 1,
+      targetYear: futureDate.getFullYear(),
+      amount: 100000,
+    })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      totalAmount: 120000,
+      installmentCount: 12,
+      firstMonth: now.getMonth() + 1,
+      firstYear: now.getFullYear(),
+    })
+
+    expect(getCreditCardAmountForDate(card, [statement], futureDate, [purchase])).toBe(110000)
+  })
+
+  it('projects installments for distant months without a future statement', () => {
+    const now = new Date()
+    const futureDate = new Date(now.getFullYear(), now.getMonth() + 4, 15) // 4 months ahead
+
+    const card = createTestCreditCard({ id: 'card-123', statementBalance: 50000 })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      totalAmount: 30000,
+      installmentCount: 3,
+      firstMonth: futureDate.getMonth() + 1,
+      firstYear: futureDate.getFullYear(),
+    })
+
+    expect(getCreditCardAmountForDate(card, [], futureDate, [purchase])).toBe(10000)
+  })
+
+  it('does not add installments to the current statement balance', () => {
+    const now = new Date()
+    const card = createTestCreditCard({ id: 'card-123', statementBalance: 50000 })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      firstMonth: now.getMonth() + 1,
+      firstYear: now.getFullYear(),
+    })
+
+    expect(getCreditCardAmountForDate(card, [], now, [purchase])).toBe(50000)
+  })
+
+  it('stops projecting after the last installment', () => {
+    const now = new Date()
+    const futureDate = new Date(now.getFullYear(), now.getMonth() + 5, 15) // 5 months ahead
+
+    const card = createTestCreditCard({ id: 'card-123', statementBalance: 50000 })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      totalAmount: 20000,
+      installmentCount: 2,
+      firstMonth: now.getMonth() + 1,
+      firstYear: now.getFullYear(),
+    })
+
+    expect(getCreditCardAmountForDate(card, [], futureDate, [purchase])).toBe(0)
+  })
+
+  it('includes installments in the projected card payment', () => {
+    const now = new Date()
+    const startDate = new Date(now.getFullYear(), now.getMonth() + 3, 1)
+
+    const card = createTestCreditCard({ id: 'card-123', dueDay: 15, statementBalance: 50000 })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      totalAmount: 60000,
+      installmentCount: 6,
+      firstMonth: startDate.getMonth() + 1,
+      firstYear: startDate.getFullYear(),
+    })
+
+    const input: CashflowEngineInput = {
+      accounts: [createTestAccount({ balance: 500000 })],
+      projects: [],
+      expenses: [],
+      creditCards: [card],
+      futureStatements: [],
+      installmentPurchases: [purchase],
+      options: { startDate, projectionDays: 20 },
+    }
+
+    const projection = calculateCashflow(input)
+
+    const paymentDay = projection.days.find((d) => d.date.getDate() === 15)
+    expect(paymentDay!.expenseEvents).toHaveLength(1)
+    expect(paymentDay!.expenseEvents[0].amount).toBe(10000)
+  })
+})
+
+// =============================================================================
+// STATEMENT CYCLE TESTS
+// =============================================================================
+
+describe('credit cards with a closing day', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // Closes on the 28th, due on the 5th of the following month
+  const card = createTestCreditCard({
+    id: 'card-123',
+    dueDay: 5,
+    closingDay: 28,
+    statementBalance: 50000,
+    openStatementBalance: 20000,
+  })
+
+  it('charges the open statement on the next due date after the due date has passed', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 10, 12)) // June 10: June 5 statement already paid
+
+    expect(getCreditCardAmountForDate(card, [], new Date(2025, 6, 5))).toBe(20000)
+  })
+
+  it('charges the closed statement before its due date', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 29, 12)) // June 29: statement closed on June 28
+
+    expect(getCreditCardAmountForDate(card, [], new Date(2025, 6, 5))).toBe(50000)
+    expect(getCreditCardAmountForDate(card, [], new Date(2025, 7, 5))).toBe(20000)
+  })
+
+  it('uses future statements and installments after the open statement', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 10, 12))
+
+    const statement = createTestFutureStatement({
+      creditCardId: 'card-123',
+      targetMonth: 8,
+      targetYear: 2025,
+      amount: 30000,
+    })
+    const purchase = createTestInstallmentPurchase({
+      creditCardId: 'card-123',
+      totalAmount: 30000,
+      installmentCount: 3,
+      firstMonth: 7,
+      firstYear: 2025,
+    })
+
+    // July is the open statement: installments already included in its balance
+    expect(getCreditCardAmountForDate(card, [statement], new Date(2025, 6, 5), [purchase])).toBe(20000)
+    expect(getCreditCardAmountForDate(card, [statement], new Date(2025, 7, 5), [purchase])).toBe(40000)
+    expect(getCreditCardAmountForDate(card, [], new Date(2025, 8, 5), [purchase])).toBe(10000)
+  })
+
+  it('charges each statement on its own due date in the projection', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 29, 12))
+
+    const projection = calculateCashflow({
+      accounts: [createTestAccount({ balance: 500000 })],
+      projects: [],
+      expenses: [],
+      creditCards: [card],
+      futureStatements: [],
+      options: { startDate: new Date(2025, 5, 29), projectionDays: 60 },
+    })
+
+    const payments = projection.days
+      .filter((d) => d.expenseEvents.length > 0)
+      .map((d) => [d.date.getMonth() + 1, d.expenseEvents[0].amount])
+
+    expect(payments).toEqual([
+      [7, 50000],
+      [8, 20000],
+    ])
+  })
+})
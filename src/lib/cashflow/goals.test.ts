@@ -0,0 +1,123 @@
+/**
+ * Savings Goals Tests
+ *
+ * Tests for contribution dates and the monthly contribution plan of savings goals.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  getContributionAmount,
+  getContributionDates,
+  getSavingsGoalSavedAmount,
+  planSavingsGoal,
+} from './goals'
+import type { BankAccount, SavingsGoal } from '../../types'
+
+function createGoal(overrides: Partial<SavingsGoal> = {}): SavingsGoal {
+  return {
+    id: 'goal-1',
+    name: 'Viagem',
+    targetAmount: 1000000, // R$10.000
+    targetDate: new Date(2025, 5, 30),
+    accountId: null,
+    savedAmount: 0,
+    contributionDay: 10,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function createAccount(overrides: Partial<BankAccount> = {}): BankAccount {
+  return {
+    id: 'savings',
+    name: 'Poupança',
+    type: 'savings',
+    balance: 0,
+    owner: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('getContributionDates', () => {
+  it('returns one date per month through the target date', () => {
+    const dates = getContributionDates(createGoal(), new Date(2025, 0, 15))
+
+    expect(dates.map((d) => `${d.getMonth() + 1}/${d.getDate()}`)).toEqual([
+      '2/10', '3/10', '4/10', '5/10', '6/10',
+    ])
+  })
+
+  it('includes a contribution on the start date itself', () => {
+    const dates = getContributionDates(createGoal(), new Date(2025, 3, 10))
+    expect(dates[0]).toEqual(new Date(2025, 3, 10))
+  })
+
+  it('moves contribution days past the end of short months to their last day', () => {
+    const goal = createGoal({ contributionDay: 31, targetDate: new Date(2025, 3, 30) })
+    const dates = getContributionDates(goal, new Date(2025, 0, 1))
+
+    expect(dates.map((d) => `${d.getMonth() + 1}/${d.getDate()}`)).toEqual([
+      '1/31', '2/28', '3/31', '4/30',
+    ])
+  })
+
+  it('returns no dates when the target date has passed', () => {
+    expect(getContributionDates(createGoal(), new Date(2025, 6, 1))).toEqual([])
+  })
+})
+
+describe('getSavingsGoalSavedAmount', () => {
+  it('uses the linked account balance', () => {
+    const goal = createGoal({ accountId: 'savings', savedAmount: 5000 })
+    expect(getSavingsGoalSavedAmount(goal, [createAccount({ balance: 250000 })])).toBe(250000)
+  })
+
+  it('uses the amount set aside by hand without a linked account', () => {
+    expect(getSavingsGoalSavedAmount(createGoal({ savedAmount: 5000 }), [])).toBe(5000)
+  })
+
+  it('falls back to the amount set aside by hand when the account was removed', () => {
+    const goal = createGoal({ accountId: 'removed', savedAmount: 5000 })
+    expect(getSavingsGoalSavedAmount(goal, [createAccount()])).toBe(5000)
+  })
+})
+
+describe('planSavingsGoal', () => {
+  it('splits the missing amount evenly across the dates left', () => {
+    const plan = planSavingsGoal(createGoal({ savedAmount: 500000 }), [], new Date(2025, 0, 15))
+
+    expect(plan.remainingAmount).toBe(500000)
+    expect(plan.contributionDates).toHaveLength(5)
+    expect(plan.monthlyContribution).toBe(100000)
+  })
+
+  it('rounds up to the cent and caps the last contribution at what is missing', () => {
+    const goal = createGoal({ targetAmount: 100000, targetDate: new Date(2025, 2, 31) })
+    const plan = planSavingsGoal(goal, [], new Date(2025, 0, 1))
+
+    expect(plan.monthlyContribution).toBe(33334)
+    const amounts = plan.contributionDates.map((_, i) => getContributionAmount(plan, i))
+    expect(amounts).toEqual([33334, 33334, 33332])
+    expect(amounts.reduce((sum, amount) => sum + amount, 0)).toBe(100000)
+  })
+
+  it('plans nothing for a goal already reached', () => {
+    const goal = createGoal({ accountId: 'savings' })
+    const plan = planSavingsGoal(goal, [createAccount({ balance: 1200000 })], new Date(2025, 0, 1))
+
+    expect(plan.remainingAmount).toBe(0)
+    expect(plan.contributionDates).toEqual([])
+    expect(plan.monthlyContribution).toBe(0)
+  })
+
+  it('plans no contribution when no date is left', () => {
+    const plan = planSavingsGoal(createGoal(), [], new Date(2025, 5, 20))
+
+    expect(plan.remainingAmount).toBe(1000000)
+    expect(plan.monthlyContribution).toBe(0)
+  })
+})
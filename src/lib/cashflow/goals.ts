@@ -0,0 +1,77 @@
+/**
+ * Savings Goals
+ *
+ * Plans the monthly contributions needed to reach each savings goal by its
+ * target date. Pure functions, no side effects.
+ */
+
+import { addMonths, isAfter, isBefore, setDate, startOfDay, startOfMonth } from 'date-fns'
+import type { BankAccount, SavingsGoal } from '../../types'
+import { getEffectiveDay } from './frequencies'
+import type { SavingsGoalPlan } from './types'
+
+/**
+ * Get the amount already saved for a goal: the balance of its linked account,
+ * else the amount set aside by hand.
+ */
+export function getSavingsGoalSavedAmount(goal: SavingsGoal, accounts: BankAccount[]): number {
+  const account = goal.accountId
+    ? accounts.find((a) => a.id === goal.accountId)
+    : undefined
+  return account ? account.balance : goal.savedAmount
+}
+
+/**
+ * Get the contribution dates from a date through the goal's target date.
+ * Contribution days past the end of a shorter month fall on its last day.
+ */
+export function getContributionDates(goal: SavingsGoal, fromDate: Date): Date[] {
+  const from = startOfDay(fromDate)
+  const targetDate = startOfDay(goal.targetDate)
+  const dates: Date[] = []
+
+  for (
+    let month = startOfMonth(from);
+    !isAfter(month, targetDate);
+    month = addMonths(month, 1)
+  ) {
+    const date = setDate(month, getEffectiveDay(goal.contributionDay, month))
+    if (!isBefore(date, from) && !isAfter(date, targetDate)) {
+      dates.push(date)
+    }
+  }
+
+  return dates
+}
+
+/**
+ * Plan the contributions of a goal from a date: the amount still missing is
+ * split evenly across the contribution dates left, rounded up to the cent.
+ */
+export function planSavingsGoal(
+  goal: SavingsGoal,
+  accounts: BankAccount[],
+  fromDate: Date
+): SavingsGoalPlan {
+  const savedAmount = getSavingsGoalSavedAmount(goal, accounts)
+  const remainingAmount = Math.max(0, goal.targetAmount - savedAmount)
+  const contributionDates = remainingAmount > 0 ? getContributionDates(goal, fromDate) : []
+
+  return {
+    goalId: goal.id,
+    savedAmount,
+    remainingAmount,
+    contributionDates,
+    monthlyContribution:
+      contributionDates.length > 0 ? Math.ceil(remainingAmount / contributionDates.length) : 0,
+  }
+}
+
+/**
+ * Get the amount of a plan's nth contribution in cents. The last one only
+ * covers what is still missing, so the contributions add up to the target.
+ */
+export function getContributionAmount(plan: SavingsGoalPlan, index: number): number {
+  const stillMissing = plan.remainingAmount - plan.monthlyContribution * index
+  return Math.max(0, Math.min(plan.monthlyContribution, stillMissing))
+}
@@ -2,15 +2,17 @@
  * Cashflow Calculation Engine
  *
  * Pure TypeScript module that projects daily cashflow balances over a configurable period.
- * Calculates two parallel scenarios (optimistic and pessimistic) based on income certainty levels.
+ * Calculates three parallel scenarios (optimistic, realistic and pessimistic) based on income certainty levels.
  */
 
-export { calculateCashflow } from './calculate'
+export { calculateCashflow, generateMonthlySummaries, getScenarioDayState } from './calculate'
 
 export {
   calculateEstimatedTodayBalance,
   rebaseProjectionFromEstimatedToday,
 } from './estimate-today'
 
-export type { BalanceUpdateBase, EstimatedTodayBalance } from './estimate-today'
+export type { BalanceUpdateBase, EstimatedTodayBalance, UnconfirmedEvent } from './estimate-today'
+
+export { simulateCashflow } from './simulate'
 
@@ -0,0 +1,189 @@
+/**
+ * Loans Tests
+ *
+ * Tests for SAC and Price amortization schedules and loan prepayments.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildAmortizationSchedule,
+  calculatePriceInstallment,
+  getLoanEndDate,
+  getLoanOutstandingBalance,
+  getMonthlyLoanRate,
+} from './loans'
+import type { Loan } from '../../types'
+
+/** Annual rate equivalent to 1% a month */
+const ONE_PERCENT_MONTHLY = (Math.pow(1.01, 12) - 1) * 100
+
+function createLoan(overrides: Partial<Loan> = {}): Loan {
+  return {
+    id: 'loan-1',
+    name: 'Financiamento do carro',
+    principal: 1200000, // R$12.000
+    annualRate: ONE_PERCENT_MONTHLY,
+    termMonths: 12,
+    system: 'sac',
+    firstDueDate: new Date(2025, 0, 10),
+    accountId: null,
+    prepayments: [],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('getMonthlyLoanRate', () => {
+  it('converts an effective annual rate to the equivalent monthly rate', () => {
+    expect(getMonthlyLoanRate(ONE_PERCENT_MONTHLY)).toBeCloseTo(0.01, 10)
+    expect(getMonthlyLoanRate(0)).toBe(0)
+  })
+})
+
+describe('calculatePriceInstallment', () => {
+  it('calculates the constant installment', () => {
+    expect(calculatePriceInstallment(1000000, 0.01, 12)).toBe(88849)
+  })
+
+  it('splits the balance evenly without interest', () => {
+    expect(calculatePriceInstallment(1200000, 0, 12)).toBe(100000)
+  })
+})
+
+describe('buildAmortizationSchedule', () => {
+  it('amortizes a constant amount under SAC with decreasing installments', () => {
+    const schedule = buildAmortizationSchedule(createLoan())
+
+    expect(schedule.installments).toHaveLength(12)
+    expect(schedule.installments[0]).toEqual({
+      number: 1,
+      dueDate: new Date(2025, 0, 10),
+      payment: 112000,
+      interest: 12000,
+      amortization: 100000,
+      balance: 1100000,
+    })
+    expect(schedule.installments[1].payment).toBe(111000)
+    expect(schedule.installments[11]).toMatchObject({
+      dueDate: new Date(2025, 11, 10),
+      payment: 101000,
+      interest: 1000,
+      balance: 0,
+    })
+    expect(schedule.totalInterest).toBe(78000)
+  })
+
+  it('keeps the installment constant under Price', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({ system: 'price', principal: 1000000 })
+    )
+
+    expect(schedule.installments).toHaveLength(12)
+    expect(schedule.installments[0]).toMatchObject({ payment: 88849, interest: 10000, amortization: 78849 })
+    for (const installment of schedule.installments.slice(0, 11)) {
+      expect(installment.payment).toBe(88849)
+    }
+    expect(schedule.installments[11].payment).toBeCloseTo(88849, -1)
+    expect(schedule.installments[11].balance).toBe(0)
+    expect(schedule.installments.reduce((sum, i) => sum + i.amortization, 0)).toBe(1000000)
+  })
+
+  it('clears the rounding left on the last installment', () => {
+    const schedule = buildAmortizationSchedule(createLoan({ principal: 1000000, termMonths: 3 }))
+
+    expect(schedule.installments.map((i) => i.amortization)).toEqual([333333, 333333, 333334])
+    expect(schedule.installments[2].balance).toBe(0)
+  })
+
+  it('shortens the term when a prepayment reduces the term', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({ prepayments: [{ date: '2025-01-20', amount: 300000, mode: 'reduce_term' }] })
+    )
+
+    // 1.100.000 left after the first installment, 800.000 after the prepayment
+    expect(schedule.installments).toHaveLength(9)
+    expect(schedule.installments[1]).toMatchObject({ interest: 8000, amortization: 100000 })
+    expect(schedule.installments[8].balance).toBe(0)
+    expect(schedule.prepayments).toEqual([
+      { date: new Date(2025, 0, 20), amount: 300000, mode: 'reduce_term' },
+    ])
+  })
+
+  it('lowers the installments when a prepayment reduces the installment', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({ prepayments: [{ date: '2025-01-20', amount: 300000, mode: 'reduce_installment' }] })
+    )
+
+    expect(schedule.installments).toHaveLength(12)
+    expect(schedule.installments[1]).toMatchObject({ interest: 8000, amortization: 72727 })
+    expect(schedule.installments[11].balance).toBe(0)
+  })
+
+  it('keeps the Price installment and ends earlier when reducing the term', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({
+        system: 'price',
+        principal: 1000000,
+        prepayments: [{ date: '2025-03-01', amount: 200000, mode: 'reduce_term' }],
+      })
+    )
+
+    expect(schedule.installments.length).toBeLessThan(12)
+    for (const installment of schedule.installments.slice(0, -1)) {
+      expect(installment.payment).toBe(88849)
+    }
+    expect(schedule.installments.at(-1)!.balance).toBe(0)
+  })
+
+  it('lowers the Price installment when reducing the installment', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({
+        system: 'price',
+        principal: 1000000,
+        prepayments: [{ date: '2025-03-01', amount: 200000, mode: 'reduce_installment' }],
+      })
+    )
+
+    expect(schedule.installments).toHaveLength(12)
+    expect(schedule.installments[2].payment).toBeLessThan(88849)
+    expect(schedule.installments[3].payment).toBe(schedule.installments[2].payment)
+  })
+
+  it('caps a prepayment at the outstanding balance and ends the loan', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({ prepayments: [{ date: '2025-01-20', amount: 5000000, mode: 'reduce_term' }] })
+    )
+
+    expect(schedule.installments).toHaveLength(1)
+    expect(schedule.prepayments[0].amount).toBe(1100000)
+  })
+
+  it('ignores prepayments after the loan is paid off', () => {
+    const schedule = buildAmortizationSchedule(
+      createLoan({ prepayments: [{ date: '2026-06-01', amount: 100000, mode: 'reduce_term' }] })
+    )
+
+    expect(schedule.installments).toHaveLength(12)
+    expect(schedule.prepayments).toEqual([])
+  })
+})
+
+describe('getLoanOutstandingBalance', () => {
+  it('deducts the installments due and the prepayments made by a date', () => {
+    const loan = createLoan({ prepayments: [{ date: '2025-01-20', amount: 300000, mode: 'reduce_term' }] })
+    const schedule = buildAmortizationSchedule(loan)
+
+    expect(getLoanOutstandingBalance(loan, schedule, new Date(2025, 0, 1))).toBe(1200000)
+    expect(getLoanOutstandingBalance(loan, schedule, new Date(2025, 0, 10))).toBe(1100000)
+    expect(getLoanOutstandingBalance(loan, schedule, new Date(2025, 0, 25))).toBe(800000)
+    expect(getLoanOutstandingBalance(loan, schedule, new Date(2026, 0, 1))).toBe(0)
+  })
+})
+
+describe('getLoanEndDate', () => {
+  it('returns the due date of the last installment', () => {
+    expect(getLoanEndDate(buildAmortizationSchedule(createLoan()))).toEqual(new Date(2025, 11, 10))
+  })
+})
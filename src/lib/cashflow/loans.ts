@@ -0,0 +1,139 @@
+/**
+ * Loans
+ *
+ * Amortization schedules of loans and financings under the SAC (constant
+ * amortization) and Price (constant installment) systems, including extra
+ * payments that shorten the term or lower the installments.
+ * Pure functions, no side effects.
+ */
+
+import { addMonths, isAfter, isBefore, parse, startOfDay } from 'date-fns'
+import type { Loan } from '../../types'
+import type { LoanInstallment, LoanPrepaymentEntry, LoanSchedule } from './types'
+
+type LoanTerms = Pick<
+  Loan,
+  'principal' | 'annualRate' | 'termMonths' | 'system' | 'firstDueDate' | 'prepayments'
+>
+
+/**
+ * Convert an effective annual rate in percent to the equivalent monthly rate.
+ */
+export function getMonthlyLoanRate(annualRate: number): number {
+  return Math.pow(1 + annualRate / 100, 1 / 12) - 1
+}
+
+/**
+ * Calculate the constant Price installment that pays off a balance over a
+ * number of months, in cents.
+ */
+export function calculatePriceInstallment(balance: number, monthlyRate: number, months: number): number {
+  if (monthlyRate === 0) return Math.round(balance / months)
+  return Math.round((balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months)))
+}
+
+/**
+ * Get the due date of an installment (1-based).
+ */
+export function getLoanDueDate(loan: Pick<Loan, 'firstDueDate'>, installmentNumber: number): Date {
+  return addMonths(startOfDay(loan.firstDueDate), installmentNumber - 1)
+}
+
+/**
+ * Build the amortization schedule of a loan.
+ *
+ * Interest of each month is charged on the balance left after the
+ * prepayments made before its due date. A prepayment that reduces the
+ * installment spreads the new balance over the installments left; one that
+ * reduces the term keeps the installment (Price) or the amortization (SAC)
+ * and ends the loan earlier. The last installment clears any rounding left.
+ */
+export function buildAmortizationSchedule(loan: LoanTerms): LoanSchedule {
+  const monthlyRate = getMonthlyLoanRate(loan.annualRate)
+  const prepayments = [...loan.prepayments]
+    .map((prepayment) => ({
+      date: startOfDay(parse(prepayment.date, 'yyyy-MM-dd', new Date())),
+      amount: prepayment.amount,
+      mode: prepayment.mode,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+
+  const installments: LoanInstallment[] = []
+  const appliedPrepayments: LoanPrepaymentEntry[] = []
+  let balance = loan.principal
+  let sacAmortization = Math.round(balance / loan.termMonths)
+  let priceInstallment = calculatePriceInstallment(balance, monthlyRate, loan.termMonths)
+  let nextPrepayment = 0
+
+  for (let number = 1; number <= loan.termMonths && balance > 0; number++) {
+    const dueDate = getLoanDueDate(loan, number)
+    const remainingMonths = loan.termMonths - number + 1
+
+    // Prepayments made before this due date lower the balance it is charged on
+    while (nextPrepayment < prepayments.length && isBefore(prepayments[nextPrepayment].date, dueDate)) {
+      const prepayment = prepayments[nextPrepayment++]
+      const amount = Math.min(prepayment.amount, balance)
+      if (amount <= 0) continue
+
+      balance -= amount
+      appliedPrepayments.push({ ...prepayment, amount })
+
+      if (prepayment.mode === 'reduce_installment') {
+        sacAmortization = Math.round(balance / remainingMonths)
+        priceInstallment = calculatePriceInstallment(balance, monthlyRate, remainingMonths)
+      }
+    }
+    if (balance <= 0) break
+
+    const interest = Math.round(balance * monthlyRate)
+    const scheduledAmortization = loan.system === 'sac'
+      ? sacAmortization
+      : priceInstallment - interest
+    const amortization = number === loan.termMonths
+      ? balance
+      : Math.min(Math.max(scheduledAmortization, 0), balance)
+
+    balance -= amortization
+    installments.push({
+      number,
+      dueDate,
+      payment: interest + amortization,
+      interest,
+      amortization,
+      balance,
+    })
+  }
+
+  return {
+    installments,
+    prepayments: appliedPrepayments,
+    totalInterest: installments.reduce((sum, installment) => sum + installment.interest, 0),
+  }
+}
+
+/**
+ * Get the outstanding balance of a loan on a date, in cents: the principal
+ * less the amortization of installments due and prepayments made by then.
+ */
+export function getLoanOutstandingBalance(
+  loan: Pick<Loan, 'principal'>,
+  schedule: LoanSchedule,
+  date: Date
+): number {
+  const day = startOfDay(date)
+  const amortized = schedule.installments
+    .filter((installment) => !isAfter(installment.dueDate, day))
+    .reduce((sum, installment) => sum + installment.amortization, 0)
+  const prepaid = schedule.prepayments
+    .filter((prepayment) => !isAfter(prepayment.date, day))
+    .reduce((sum, prepayment) => sum + prepayment.amount, 0)
+  return Math.max(0, loan.principal - amortized - prepaid)
+}
+
+/**
+ * Get the due date of a loan's last installment, or undefined when the
+ * loan is paid off by prepayments before its first one.
+ */
+export function getLoanEndDate(schedule: LoanSchedule): Date | undefined {
+  return schedule.installments.at(-1)?.dueDate
+}
@@ -5,7 +5,13 @@
  */
 
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest'
-import { checkAndProgressMonth, performMonthProgression, getMonthsDiff } from './month-progression'
+import {
+  checkAndProgressMonth,
+  performMonthProgression,
+  getMonthsDiff,
+  rollStatementCycles,
+} from './month-progression'
+import type { FutureStatement } from '@/types'
 
 const mockGetSupabase = vi.fn()
 const mockGetGroupId = vi.fn()
@@ -67,6 +73,42 @@ describe('getMonthsDiff', () => {
 // checkAndProgressMonth TESTS
 // =============================================================================
 
+/** Mock a group with no credit cards and no future statements */
+function mockEmptyProgressionTables() {
+  mockGetGroupId.mockResolvedValue('group-1')
+  mockGetSupabase.mockReturnValue({
+    from: (table: string) => {
+      if (table === 'credit_cards') {
+        return {
+          select: () => ({
+            eq: () => Promise.resolve({ data: [], error: null }),
+          }),
+        }
+      }
+      if (table === 'future_statements') {
+        return {
+          select: () => ({
+            eq: () => Promise.resolve({ data: [], error: null }),
+          }),
+          delete: () => ({
+            eq: () => ({
+              lt: () => ({
+                select: () => Promise.resolve({ data: [], error: null }),
+              }),
+              eq: () => ({
+                lt: () => ({
+                  select: () => Promise.resolve({ data: [], error: null }),
+                }),
+              }),
+            }),
+          }),
+        }
+      }
+      throw new Error(`Unexpected table: ${table}`)
+    },
+  })
+}
+
 describe('checkAndProgressMonth', () => {
   beforeEach(() => {
     vi.clearAllMocks()
@@ -76,11 +118,11 @@ describe('checkAndProgressMonth', () => {
     vi.useRealTimers()
   })
 
-  it('skips progression when last check is already in the current month', async () => {
+  it('skips progression when last check was earlier today', async () => {
     vi.useFakeTimers()
     vi.setSystemTime(new Date('2025-06-15T12:00:00Z'))
 
-    const result = await checkAndProgressMonth('2025-06-02T00:00:00.000Z')
+    const result = await checkAndProgressMonth('2025-06-15T08:00:00.000Z')
 
     expect(result).toEqual({ success: true, progressedCards: 0, cleanedStatements: 0 })
     expect(mockGetSupabase).not.toHaveBeenCalled()
@@ -91,44 +133,25 @@ describe('checkAndProgressMonth', () => {
     vi.useFakeTimers()
     vi.setSystemTime(new Date('2025-06-15T12:00:00Z'))
 
-    mockGetGroupId.mockResolvedValue('group-1')
-    mockGetSupabase.mockReturnValue({
-      from: (table: string) => {
-        if (table === 'credit_cards') {
-          return {
-            select: () => ({
-              eq: () => Promise.resolve({ data: [], error: null }),
-            }),
-          }
-        }
-        if (table === 'future_statements') {
-          return {
-            select: () => ({
-              eq: () => Promise.resolve({ data: [], error: null }),
-            }),
-            delete: () => ({
-              eq: () => ({
-                lt: () => ({
-                  select: () => Promise.resolve({ data: [], error: null }),
-                }),
-                eq: () => ({
-                  lt: () => ({
-                    select: () => Promise.resolve({ data: [], error: null }),
-                  }),
-                }),
-              }),
-            }),
-          }
-        }
-        throw new Error(`Unexpected table: ${table}`)
-      },
-    })
+    mockEmptyProgressionTables()
 
     const result = await checkAndProgressMonth('2025-05-20T00:00:00.000Z')
 
     expect(result).toEqual({ success: true, progressedCards: 0, cleanedStatements: 0 })
     expect(mockGetGroupId).toHaveBeenCalledTimes(1)
   })
+
+  it('runs progression when last check was earlier in the month (closing dates)', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-06-15T12:00:00Z'))
+
+    mockEmptyProgressionTables()
+
+    const result = await checkAndProgressMonth('2025-06-02T00:00:00.000Z')
+
+    expect(result).toEqual({ success: true, progressedCards: 0, cleanedStatements: 0 })
+    expect(mockGetGroupId).toHaveBeenCalledTimes(1)
+  })
 })
 
 // =============================================================================
@@ -376,6 +399,174 @@ describe('performMonthProgression', () => {
     expect(mockGetSupabase).toHaveBeenCalledTimes(1)
     expect(from).not.toHaveBeenCalled()
   })
+
+  it('rolls closing-day cards over on their closing date', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(2025, 5, 29, 12)) // June 29, card closed on June 28
+
+    mockGetGroupId.mockResolvedValue('group-1')
+
+    const updateCalls: Array<{ id: string; values: unknown }> = []
+    const deletedById: string[] = []
+    const cleanupQuery = {
+      lt: () => ({ select: () => Promise.resolve({ data: [], error: null }) }),
+      eq: () => ({
+        lt: () => ({ select: () => Promise.resolve({ data: [], error: null }) }),
+      }),
+    }
+
+    mockGetSupabase.mockReturnValue({
+      from: (table: string) => {
+        if (table === 'credit_cards') {
+          return {
+            select: () => ({
+              eq: () =>
+                Promise.resolve({
+                  data: [
+                    {
+                      id: 'card-1',
+                      statement_balance: 50000,
+                      due_day: 5,
+                      closing_day: 28,
+                      open_statement_balance: 20000,
+                      statement_closed_on: '2025-05-28',
+                    },
+                  ],
+                  error: null,
+                }),
+            }),
+            update: (values: unknown) => ({
+              eq: (_col: string, id: string) => {
+                updateCalls.push({ id, values })
+                return Promise.resolve({ error: null })
+              },
+            }),
+          }
+        }
+        if (table === 'future_statements') {
+          return {
+            select: () => ({
+              eq: () =>
+                Promise.resolve({
+                  data: [
+                    {
+                      id: 'fs-august',
+                      credit_card_id: 'card-1',
+                      group_id: 'group-1',
+                      target_month: 8,
+                      target_year: 2025,
+                      amount: 30000,
+                      created_at: '2025-01-01T00:00:00Z',
+                      updated_at: '2025-01-01T00:00:00Z',
+                    },
+                  ],
+                  error: null,
+                }),
+            }),
+            delete: () => ({
+              eq: (col: string, value: string) => {
+                if (col === 'id') {
+                  deletedById.push(value)
+                  return Promise.resolve({ error: null })
+                }
+                return cleanupQuery
+              },
+            }),
+          }
+        }
+        if (table === 'installment_purchases') {
+          return {
+            select: () => ({
+              eq: () => Promise.resolve({ data: [], error: null }),
+            }),
+          }
+        }
+        throw new Error(`Unexpected table: ${table}`)
+      },
+    })
+
+    const result = await performMonthProgression()
+
+    expect(result).toEqual({ success: true, progressedCards: 1, cleanedStatements: 0 })
+    expect(updateCalls).toEqual([
+      {
+        id: 'card-1',
+        values: {
+          statement_balance: 20000,
+          open_statement_balance: 30000,
+          statement_closed_on: '2025-06-28',
+        },
+      },
+    ])
+    expect(deletedById).toEqual(['fs-august'])
+  })
+})
+
+// =============================================================================
+// rollStatementCycles TESTS
+// =============================================================================
+
+describe('rollStatementCycles', () => {
+  const card = {
+    id: 'card-1',
+    closingDay: 28,
+    dueDay: 5,
+    statementBalance: 50000,
+    openStatementBalance: 20000,
+    statementClosedOn: new Date(2025, 4, 28),
+  }
+
+  function createStatement(month: number, amount: number): FutureStatement {
+    return {
+      id: `fs-${month}`,
+      creditCardId: 'card-1',
+      groupId: 'group-1',
+      targetMonth: month,
+      targetYear: 2025,
+      amount,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+  }
+
+  it('keeps balances before the next closing date', () => {
+    const result = rollStatementCycles(card, [], [], new Date(2025, 5, 27))
+
+    expect(result).toEqual({
+      statementBalance: 50000,
+      openStatementBalance: 20000,
+      statementClosedOn: new Date(2025, 4, 28),
+      consumedStatementIds: [],
+    })
+  })
+
+  it('catches up on several closings', () => {
+    const statements = [createStatement(8, 30000), createStatement(9, 40000)]
+    const installments = [
+      {
+        id: 'ip-1',
+        groupId: 'group-1',
+        creditCardId: 'card-1',
+        description: 'Notebook',
+        totalAmount: 60000,
+        installmentCount: 6,
+        firstMonth: 9,
+        firstYear: 2025,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      },
+    ]
+
+    // Closings on June 28 and July 28 have passed
+    const result = rollStatementCycles(card, statements, installments, new Date(2025, 7, 2))
+
+    expect(result).toEqual({
+      statementBalance: 30000, // August statement
+      openStatementBalance: 50000, // September statement + first installment
+      statementClosedOn: new Date(2025, 6, 28),
+      consumedStatementIds: ['fs-8', 'fs-9'],
+    })
+  })
 })
 
 // =============================================================================
@@ -1,14 +1,29 @@
 /**
  * Month Progression Logic
  * 
- * Handles automatic promotion of future statements to current balance
- * when a new month arrives. This runs at app launch to catch up on
- * any months that may have passed since the user's last login.
+ * Handles automatic promotion of future statements to current balance.
+ * Cards with a closing day roll their statements over on each closing date;
+ * cards without one are promoted when a new calendar month arrives.
+ * This runs at app launch to catch up on any closings or months that
+ * may have passed since the user's last login.
  */
 
-import { startOfMonth, differenceInMonths } from 'date-fns'
+import { startOfMonth, differenceInMonths, format, isBefore, isSameDay, parse } from 'date-fns'
 import { getSupabase, getGroupId } from '@/lib/supabase'
-import { transformFutureStatementRow, type FutureStatementRow } from '@/types'
+import {
+  getInstallmentsTotalForMonth,
+  transformFutureStatementRow,
+  transformInstallmentPurchaseRow,
+  type FutureStatement,
+  type FutureStatementRow,
+  type InstallmentPurchase,
+  type InstallmentPurchaseRow,
+} from '@/types'
+import {
+  getLastClosingDate,
+  getNextClosingDate,
+  getStatementForClosing,
+} from './statement-cycle'
 
 /**
  * Result type for progression operations
@@ -20,6 +35,8 @@ export type ProgressionResult =
 /**
  * Check if month progression is needed and perform it if so.
  * This should be called once at app launch.
+ *
+ * Closing dates can fall on any day, so the check runs at most once per day.
  * 
  * @param lastProgressionCheck - ISO string of last progression check date
  * @returns Result indicating success/failure and counts
@@ -27,14 +44,9 @@ export type ProgressionResult =
 export async function checkAndProgressMonth(
   lastProgressionCheck: string | null
 ): Promise<ProgressionResult> {
-  const today = startOfMonth(new Date())
-  
-  // If we've already checked this month, skip
-  if (lastProgressionCheck) {
-    const lastCheck = new Date(lastProgressionCheck)
-    if (startOfMonth(lastCheck).getTime() === today.getTime()) {
-      return { success: true, progressedCards: 0, cleanedStatements: 0 }
-    }
+  // If we've already checked today, skip
+  if (lastProgressionCheck && isSameDay(new Date(lastProgressionCheck), new Date())) {
+    return { success: true, progressedCards: 0, cleanedStatements: 0 }
   }
 
   // Perform the progression
@@ -45,8 +57,10 @@ export async function checkAndProgressMonth(
  * Perform month progression for all credit cards.
  * 
  * Logic:
- * 1. For each credit card, check if there's a future statement for the current month
- * 2. If found, update the card's statementBalance and delete the future statement
+ * 1. Cards with a closing day roll over every closing date passed since
+ *    their last closing (see rollStatementCycles)
+ * 2. For other cards, check if there's a future statement for the current month;
+ *    if found, update the card's statementBalance and delete the future statement
  * 3. Clean up any past-month future statements (FR-012)
  * 
  * This handles multi-month catch-up: if user hasn't logged in for 2+ months,
@@ -70,7 +84,10 @@ export async function performMonthProgression(): Promise<ProgressionResult> {
     // Note: RLS policies enforce group isolation, but we add explicit filters
     // as defense-in-depth for data isolation
     const [cardsResult, statementsResult] = await Promise.all([
-      supabase.from('credit_cards').select('id, statement_balance').eq('group_id', groupId),
+      supabase
+        .from('credit_cards')
+        .select('id, statement_balance, due_day, closing_day, open_statement_balance, statement_closed_on')
+        .eq('group_id', groupId),
       supabase.from('future_statements').select('*').eq('group_id', groupId),
     ])
 
@@ -82,16 +99,43 @@ export async function performMonthProgression(): Promise<ProgressionResult> {
       return { success: false, error: `Erro ao buscar faturas futuras: ${statementsResult.error.message}` }
     }
 
-    const creditCards = cardsResult.data ?? []
+    const creditCards = (cardsResult.data ?? []) as ProgressionCardRow[]
     const futureStatements = (statementsResult.data ?? []).map((row) =>
       transformFutureStatementRow(row as FutureStatementRow)
     )
 
+    // Installments are only needed to open new statements on closing-day cards
+    let installmentPurchases: InstallmentPurchase[] = []
+    if (creditCards.some((card) => hasPendingClosing(card, now))) {
+      const installmentsResult = await supabase
+        .from('installment_purchases')
+        .select('*')
+        .eq('group_id', groupId)
+
+      if (installmentsResult.error) {
+        return {
+          success: false,
+          error: `Erro ao buscar compras parceladas: ${installmentsResult.error.message}`,
+        }
+      }
+
+      installmentPurchases = (installmentsResult.data ?? []).map((row) =>
+        transformInstallmentPurchaseRow(row as InstallmentPurchaseRow)
+      )
+    }
+
     let progressedCards = 0
     let cleanedStatements = 0
 
     // Process each credit card
     for (const card of creditCards) {
+      if (card.closing_day) {
+        if (await progressStatementCycle(card, card.closing_day, futureStatements, installmentPurchases, now)) {
+          progressedCards++
+        }
+        continue
+      }
+
       // Find current month's future statement for this card
       const currentMonthStatement = futureStatements.find(
         (s) =>
@@ -186,6 +230,178 @@ export async function performMonthProgression(): Promise<ProgressionResult> {
   }
 }
 
+/**
+ * Credit card columns read by month progression.
+ */
+interface ProgressionCardRow {
+  id: string
+  statement_balance: number
+  due_day: number
+  closing_day?: number | null
+  open_statement_balance?: number
+  statement_closed_on?: string | null
+}
+
+export interface StatementRollover {
+  statementBalance: number
+  openStatementBalance: number
+  /** Closing date of the statement now held in statementBalance */
+  statementClosedOn: Date
+  /** Future statements that became the open statement */
+  consumedStatementIds: string[]
+}
+
+/**
+ * Roll a card's statements over every closing date after `statementClosedOn`
+ * up to `today`. On each closing, the open statement becomes the closed one
+ * and the next statement opens with its future statement (if defined) plus
+ * the installments billed on it, matching what the projection charged for it.
+ */
+export function rollStatementCycles(
+  card: {
+    id: string
+    closingDay: number
+    dueDay: number
+    statementBalance: number
+    openStatementBalance: number
+    statementClosedOn: Date
+  },
+  futureStatements: FutureStatement[],
+  installmentPurchases: InstallmentPurchase[],
+  today: Date
+): StatementRollover {
+  const lastClosingDate = getLastClosingDate(today, card.closingDay)
+  const consumedStatementIds: string[] = []
+  let statementBalance = card.statementBalance
+  let openStatementBalance = card.openStatementBalance
+  let closingDate = card.statementClosedOn
+
+  while (isBefore(closingDate, lastClosingDate)) {
+    closingDate = getNextClosingDate(closingDate, card.closingDay)
+    const opened = getStatementForClosing(
+      getNextClosingDate(closingDate, card.closingDay),
+      card.closingDay,
+      card.dueDay
+    )
+    const statement = futureStatements.find(
+      (s) =>
+        s.creditCardId === card.id &&
+        s.targetMonth === opened.month &&
+        s.targetYear === opened.year
+    )
+
+    statementBalance = openStatementBalance
+    openStatementBalance =
+      (statement?.amount ?? 0) +
+      getInstallmentsTotalForMonth(installmentPurchases, card.id, opened.month, opened.year)
+    if (statement) {
+      consumedStatementIds.push(statement.id)
+    }
+  }
+
+  return { statementBalance, openStatementBalance, statementClosedOn: closingDate, consumedStatementIds }
+}
+
+function parseClosedOn(value: string): Date {
+  return parse(value, 'yyyy-MM-dd', new Date())
+}
+
+function hasPendingClosing(card: ProgressionCardRow, today: Date): boolean {
+  return Boolean(
+    card.closing_day &&
+      card.statement_closed_on &&
+      isBefore(parseClosedOn(card.statement_closed_on), getLastClosingDate(today, card.closing_day))
+  )
+}
+
+/**
+ * Apply the statement rollover of a closing-day card.
+ *
+ * @returns true if the card's statements were rolled over
+ */
+async function progressStatementCycle(
+  card: ProgressionCardRow,
+  closingDay: number,
+  futureStatements: FutureStatement[],
+  installmentPurchases: InstallmentPurchase[],
+  today: Date
+): Promise<boolean> {
+  const supabase = getSupabase()
+
+  // Cards without a cycle marker start tracking from their last closing:
+  // the balances were entered for the current cycle
+  if (!card.statement_closed_on) {
+    const { error } = await supabase
+      .from('credit_cards')
+      .update({ statement_closed_on: format(getLastClosingDate(today, closingDay), 'yyyy-MM-dd') })
+      .eq('id', card.id)
+    if (error) {
+      console.error(`Failed to start statement cycle for card ${card.id}:`, error)
+    }
+    return false
+  }
+
+  if (!hasPendingClosing(card, today)) {
+    return false
+  }
+
+  const original = {
+    statement_balance: card.statement_balance,
+    open_statement_balance: card.open_statement_balance ?? 0,
+    statement_closed_on: card.statement_closed_on,
+  }
+  const rollover = rollStatementCycles(
+    {
+      id: card.id,
+      closingDay,
+      dueDay: card.due_day,
+      statementBalance: original.statement_balance,
+      openStatementBalance: original.open_statement_balance,
+      statementClosedOn: parseClosedOn(card.statement_closed_on),
+    },
+    futureStatements,
+    installmentPurchases,
+    today
+  )
+
+  const { error: updateError } = await supabase
+    .from('credit_cards')
+    .update({
+      statement_balance: rollover.statementBalance,
+      open_statement_balance: rollover.openStatementBalance,
+      statement_closed_on: format(rollover.statementClosedOn, 'yyyy-MM-dd'),
+    })
+    .eq('id', card.id)
+
+  if (updateError) {
+    console.error(`Failed to update card ${card.id}:`, updateError)
+    return false
+  }
+
+  // Delete the future statements that are now the open statement
+  for (const statementId of rollover.consumedStatementIds) {
+    const { error: deleteError } = await supabase
+      .from('future_statements')
+      .delete()
+      .eq('id', statementId)
+
+    if (deleteError) {
+      console.error(`Failed to delete statement ${statementId}:`, deleteError)
+      // Rollback: restore the original cycle to maintain consistency
+      const { error: rollbackError } = await supabase
+        .from('credit_cards')
+        .update(original)
+        .eq('id', card.id)
+      if (rollbackError) {
+        console.error(`Failed to rollback card ${card.id}:`, rollbackError)
+      }
+      return false
+    }
+  }
+
+  return true
+}
+
 /**
  * Calculate how many months have passed since a given date.
  * Used to determine if multi-month catch-up is needed.
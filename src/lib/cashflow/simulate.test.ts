@@ -0,0 +1,195 @@
+/**
+ * Monte Carlo Simulation Tests
+ */
+
+import { describe, expect, it } from 'vitest'
+import { simulateCashflow } from './simulate'
+import type { CashflowProjection, DailySnapshot, IncomeEvent } from './types'
+import { CashflowCalculationError } from './types'
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+function createIncome(amount: number, certainty: IncomeEvent['certainty']): IncomeEvent {
+  return { projectId: crypto.randomUUID(), projectName: 'Freela', amount, certainty }
+}
+
+/**
+ * Build a projection from each day's pessimistic balance and income events.
+ */
+function createProjection(
+  days: Array<{ pessimisticBalance: number; incomeEvents?: IncomeEvent[] }>
+): CashflowProjection {
+  const snapshots: DailySnapshot[] = days.map((day, index) => ({
+    date: new Date(2025, 0, 1 + index),
+    dayOffset: index,
+    optimisticBalance: day.pessimisticBalance,
+    pessimisticBalance: day.pessimisticBalance,
+    incomeEvents: day.incomeEvents ?? [],
+    expenseEvents: [],
+    isOptimisticDanger: false,
+    isPessimisticDanger: day.pessimisticBalance < 0,
+  }))
+  const summary = { totalIncome: 0, totalExpenses: 0, endBalance: 0, dangerDays: [], dangerDayCount: 0 }
+
+  return {
+    startDate: snapshots[0].date,
+    endDate: snapshots[snapshots.length - 1].date,
+    startingBalance: days[0].pessimisticBalance,
+    days: snapshots,
+    optimistic: summary,
+    pessimistic: summary,
+  }
+}
+
+const alwaysOnTime = { arrivalProbability: 1, lateProbability: 0, maxDelayDays: 0 }
+const never = { arrivalProbability: 0, lateProbability: 0, maxDelayDays: 0 }
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('simulateCashflow', () => {
+  it('matches the pessimistic balances when there is no uncertain income', () => {
+    const projection = createProjection([
+      { pessimisticBalance: 1000, incomeEvents: [createIncome(500, 'guaranteed')] },
+      { pessimisticBalance: -200 },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 50 })
+
+    expect(simulation.runs).toBe(50)
+    expect(simulation.days.map((day) => [day.p10, day.p50, day.p90])).toEqual([
+      [1000, 1000, 1000],
+      [-200, -200, -200],
+    ])
+    expect(simulation.days.map((day) => day.negativeProbability)).toEqual([0, 1])
+  })
+
+  it('adds income that always arrives on its scheduled day', () => {
+    const projection = createProjection([
+      { pessimisticBalance: -100 },
+      { pessimisticBalance: -100, incomeEvents: [createIncome(300, 'probable')] },
+      { pessimisticBalance: -100 },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 20, probable: alwaysOnTime })
+
+    expect(simulation.days.map((day) => day.p50)).toEqual([-100, 200, 200])
+    expect(simulation.days.map((day) => day.negativeProbability)).toEqual([1, 0, 0])
+  })
+
+  it('leaves out income that never arrives', () => {
+    const projection = createProjection([
+      { pessimisticBalance: 0, incomeEvents: [createIncome(300, 'uncertain')] },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 20, uncertain: never })
+
+    expect(simulation.days[0].p90).toBe(0)
+  })
+
+  it('delays late income by up to maxDelayDays days', () => {
+    const projection = createProjection([
+      { pessimisticBalance: -100, incomeEvents: [createIncome(300, 'probable')] },
+      { pessimisticBalance: -100 },
+      { pessimisticBalance: -100 },
+      { pessimisticBalance: -100 },
+    ])
+
+    const simulation = simulateCashflow(projection, {
+      runs: 200,
+      probable: { arrivalProbability: 1, lateProbability: 1, maxDelayDays: 3 },
+    })
+
+    expect(simulation.days[0].negativeProbability).toBe(1)
+    expect(simulation.days[1].negativeProbability).toBeGreaterThan(0)
+    expect(simulation.days[1].negativeProbability).toBeLessThan(1)
+    expect(simulation.days[3].negativeProbability).toBe(0)
+  })
+
+  it('samples the typical payment delay from its on-time posting', () => {
+    const income = { ...createIncome(300, 'probable'), paymentDelay: { minDays: 2, maxDays: 2 } }
+    const projection = createProjection([
+      { pessimisticBalance: -100, incomeEvents: [{ ...income, scenarios: ['optimistic'] }] },
+      { pessimisticBalance: -100 },
+      {
+        pessimisticBalance: -100,
+        incomeEvents: [{ ...income, scenarios: ['realistic', 'pessimistic'] }],
+      },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 20, probable: alwaysOnTime })
+
+    expect(simulation.days.map((day) => day.p50)).toEqual([-100, -100, 200])
+  })
+
+  it('does not sample confirmed income again', () => {
+    const projection = createProjection([
+      { pessimisticBalance: 100000, incomeEvents: [{ ...createIncome(100000, 'probable'), confirmed: true }] },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 20, probable: alwaysOnTime })
+
+    expect(simulation.days[0].p90).toBe(100000)
+  })
+
+  it('spreads the bands between the percentiles of partial arrivals', () => {
+    const projection = createProjection([
+      { pessimisticBalance: -500, incomeEvents: [createIncome(1000, 'uncertain')] },
+    ])
+
+    const simulation = simulateCashflow(projection, {
+      runs: 1000,
+      uncertain: { arrivalProbability: 0.5, lateProbability: 0, maxDelayDays: 0 },
+    })
+
+    const [day] = simulation.days
+    expect(day.p10).toBe(-500)
+    expect(day.p90).toBe(500)
+    expect(day.negativeProbability).toBeGreaterThan(0.4)
+    expect(day.negativeProbability).toBeLessThan(0.6)
+  })
+
+  it('returns the same bands for the same seed', () => {
+    const projection = createProjection([
+      { pessimisticBalance: -500, incomeEvents: [createIncome(1000, 'uncertain')] },
+      { pessimisticBalance: -500, incomeEvents: [createIncome(700, 'probable')] },
+    ])
+
+    expect(simulateCashflow(projection, { seed: 42 })).toEqual(
+      simulateCashflow(projection, { seed: 42 })
+    )
+  })
+
+  it('picks the day with the highest chance of going negative as the worst-risk day', () => {
+    const projection = createProjection([
+      { pessimisticBalance: 100 },
+      { pessimisticBalance: -100 },
+      { pessimisticBalance: -300, incomeEvents: [createIncome(1000, 'probable')] },
+    ])
+
+    const simulation = simulateCashflow(projection, { runs: 10, probable: alwaysOnTime })
+
+    expect(simulation.worstRiskDay?.dayOffset).toBe(1)
+    expect(simulation.worstRiskDay?.negativeProbability).toBe(1)
+  })
+
+  it('has no worst-risk day when no run goes negative', () => {
+    const projection = createProjection([{ pessimisticBalance: 100 }])
+
+    expect(simulateCashflow(projection).worstRiskDay).toBeNull()
+  })
+
+  it('rejects invalid options', () => {
+    const projection = createProjection([{ pessimisticBalance: 100 }])
+
+    expect(() =>
+      simulateCashflow(projection, {
+        probable: { arrivalProbability: 1.5, lateProbability: 0, maxDelayDays: 0 },
+      })
+    ).toThrow(CashflowCalculationError)
+    expect(() => simulateCashflow(projection, { runs: 0 })).toThrow(CashflowCalculationError)
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Monte Carlo simulation of uncertain income.
+ *
+ * Pure module (no side effects): replays a projection many times, sampling
+ * whether each non-guaranteed income arrives and how late, and summarizes the
+ * daily balances as percentile bands and a probability of going negative.
+ */
+
+import { isIncomeInScenario } from './calculate'
+import type { CashflowProjection, CashflowSimulation, SimulationDay } from './types'
+import { CashflowCalculationError, CashflowErrorCode } from './types'
+import {
+  SimulationOptionsSchema,
+  type IncomeBehavior,
+  type SimulationOptions,
+} from './validators'
+
+export const DEFAULT_SIMULATION_RUNS = 500
+export const DEFAULT_SIMULATION_SEED = 1
+
+/** Default behavior of non-guaranteed income per certainty level */
+export const DEFAULT_INCOME_BEHAVIOR: Record<'probable' | 'uncertain', IncomeBehavior> = {
+  probable: { arrivalProbability: 0.85, lateProbability: 0.3, maxDelayDays: 10 },
+  uncertain: { arrivalProbability: 0.5, lateProbability: 0.5, maxDelayDays: 20 },
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32), so the same projection always
+ * yields the same bands instead of flickering between renders.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending sorted array.
+ */
+function percentile(sorted: Float64Array, ratio: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(ratio * sorted.length) - 1))
+  return sorted[index]
+}
+
+/**
+ * Simulate a projection's non-guaranteed income.
+ *
+ * Each run starts from the pessimistic balances (guaranteed income only) and
+ * adds every probable or uncertain income that arrives in that run, on its
+ * possibly delayed date (its typical payment delay plus any sampled lateness).
+ * Income delayed past the last day is left out.
+ * Overdraft interest is the pessimistic scenario's, so runs err on the safe side.
+ *
+ * @throws {CashflowCalculationError} If the options are invalid
+ */
+export function simulateCashflow(
+  projection: CashflowProjection,
+  options: SimulationOptions = {}
+): CashflowSimulation {
+  const optionsResult = SimulationOptionsSchema.safeParse(options)
+  if (!optionsResult.success) {
+    throw new CashflowCalculationError(
+      `Invalid simulation options: ${optionsResult.error.message}`,
+      CashflowErrorCode.INVALID_INPUT,
+      optionsResult.error.flatten()
+    )
+  }
+
+  const runs = options.runs ?? DEFAULT_SIMULATION_RUNS
+  const behavior = {
+    probable: options.probable ?? DEFAULT_INCOME_BEHAVIOR.probable,
+    uncertain: options.uncertain ?? DEFAULT_INCOME_BEHAVIOR.uncertain,
+  }
+  const random = createRandom(options.seed ?? DEFAULT_SIMULATION_SEED)
+
+  const dayCount = projection.days.length
+  // Delayed income is sampled from its on-time (optimistic) posting; confirmed
+  // income already counts in the pessimistic balance
+  const uncertainIncome = projection.days.flatMap((day, dayIndex) =>
+    day.incomeEvents
+      .filter(
+        (event) =>
+          event.certainty !== 'guaranteed' && isIncomeInScenario(event, 'optimistic') && !event.confirmed
+      )
+      .map((event) => ({
+        dayIndex,
+        amount: event.amount,
+        behavior: behavior[event.certainty as 'probable' | 'uncertain'],
+        paymentDelay: event.paymentDelay,
+      }))
+  )
+
+  // balances[day * runs + run]
+  const balances = new Float64Array(dayCount * runs)
+  const arrivals = new Float64Array(dayCount)
+
+  for (let run = 0; run < runs; run++) {
+    arrivals.fill(0)
+    for (const income of uncertainIncome) {
+      if (random() >= income.behavior.arrivalProbability) continue
+      const isLate = income.behavior.maxDelayDays > 0 && random() < income.behavior.lateProbability
+      const delay = isLate ? 1 + Math.floor(random() * income.behavior.maxDelayDays) : 0
+      // The source's typical delay is drawn uniformly from its range
+      const typicalDelay = income.paymentDelay
+        ? income.paymentDelay.minDays +
+          Math.floor(random() * (income.paymentDelay.maxDays - income.paymentDelay.minDays + 1))
+        : 0
+      const arrivalIndex = income.dayIndex + typicalDelay + delay
+      if (arrivalIndex < dayCount) arrivals[arrivalIndex] += income.amount
+    }
+
+    let received = 0
+    for (let dayIndex = 0; dayIndex < dayCount; dayIndex++) {
+      received += arrivals[dayIndex]
+      balances[dayIndex * runs + run] = projection.days[dayIndex].pessimisticBalance + received
+    }
+  }
+
+  const days: SimulationDay[] = projection.days.map((day, dayIndex) => {
+    const dayBalances = balances.subarray(dayIndex * runs, (dayIndex + 1) * runs).sort()
+    const negativeRuns = dayBalances.findIndex((balance) => balance >= 0)
+
+    return {
+      date: day.date,
+      dayOffset: day.dayOffset,
+      p10: Math.round(percentile(dayBalances, 0.1)),
+      p50: Math.round(percentile(dayBalances, 0.5)),
+      p90: Math.round(percentile(dayBalances, 0.9)),
+      negativeProbability: (negativeRuns === -1 ? runs : negativeRuns) / runs,
+    }
+  })
+
+  const worstRiskDay = days.reduce<SimulationDay | null>(
+    (worst, day) =>
+      day.negativeProbability > (worst?.negativeProbability ?? 0) ? day : worst,
+    null
+  )
+
+  return { runs, days, worstRiskDay }
+}
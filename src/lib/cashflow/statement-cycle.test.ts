@@ -0,0 +1,86 @@
+/**
+ * Statement Cycle Tests
+ *
+ * Tests for credit card closing dates and closed/open statement identification.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  getClosingDate,
+  getLastClosingDate,
+  getNextClosingDate,
+  getStatementCycle,
+  getStatementForClosing,
+  toStatementIndex,
+} from './statement-cycle'
+
+// Helper to create local dates (months are 1-indexed here for readability)
+function localDate(year: number, month: number, day: number): Date {
+  return new Date(year, month - 1, day)
+}
+
+describe('getClosingDate', () => {
+  it('clamps the closing day to the month length', () => {
+    expect(getClosingDate(31, 2, 2025)).toEqual(localDate(2025, 2, 28))
+    expect(getClosingDate(31, 2, 2024)).toEqual(localDate(2024, 2, 29))
+    expect(getClosingDate(10, 4, 2025)).toEqual(localDate(2025, 4, 10))
+  })
+})
+
+describe('getLastClosingDate', () => {
+  it('treats the closing day itself as closed', () => {
+    expect(getLastClosingDate(localDate(2025, 6, 28), 28)).toEqual(localDate(2025, 6, 28))
+  })
+
+  it('returns the previous month closing before the closing day', () => {
+    expect(getLastClosingDate(localDate(2025, 6, 10), 28)).toEqual(localDate(2025, 5, 28))
+    expect(getLastClosingDate(localDate(2025, 1, 10), 28)).toEqual(localDate(2024, 12, 28))
+  })
+
+  it('ignores the time of day', () => {
+    expect(getLastClosingDate(new Date(2025, 5, 28, 23, 59), 28)).toEqual(localDate(2025, 6, 28))
+  })
+})
+
+describe('getNextClosingDate', () => {
+  it('keeps the configured day after a clamped month', () => {
+    expect(getNextClosingDate(localDate(2025, 2, 28), 31)).toEqual(localDate(2025, 3, 31))
+  })
+})
+
+describe('getStatementForClosing', () => {
+  it('is due the next month when the due day is before the closing day', () => {
+    expect(getStatementForClosing(localDate(2025, 12, 28), 28, 5)).toEqual({ month: 1, year: 2026 })
+  })
+
+  it('is due the same month when the due day is after the closing day', () => {
+    expect(getStatementForClosing(localDate(2025, 6, 3), 3, 10)).toEqual({ month: 6, year: 2025 })
+  })
+})
+
+describe('getStatementCycle', () => {
+  it('identifies closed and open statements after the due date', () => {
+    // Closes on the 28th, due on the 5th; June 5 statement is already paid
+    const cycle = getStatementCycle(28, 5, localDate(2025, 6, 10))
+
+    expect(cycle.lastClosingDate).toEqual(localDate(2025, 5, 28))
+    expect(cycle.nextClosingDate).toEqual(localDate(2025, 6, 28))
+    expect(cycle.closedStatement).toEqual({ month: 6, year: 2025 })
+    expect(cycle.openStatement).toEqual({ month: 7, year: 2025 })
+  })
+
+  it('moves to the next cycle on the closing day', () => {
+    const cycle = getStatementCycle(28, 5, localDate(2025, 6, 28))
+
+    expect(cycle.closedStatement).toEqual({ month: 7, year: 2025 })
+    expect(cycle.openStatement).toEqual({ month: 8, year: 2025 })
+  })
+})
+
+describe('toStatementIndex', () => {
+  it('orders statements across years', () => {
+    expect(toStatementIndex({ month: 1, year: 2026 })).toBe(
+      toStatementIndex({ month: 12, year: 2025 }) + 1
+    )
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Credit Card Statement Cycle
+ *
+ * Pure functions for modeling a credit card's statement cycle from its
+ * closing day and due day. A statement closes on the closing day and is paid
+ * on the next due day after it; statements are identified by the month of
+ * that due date (e.g. "fatura de março").
+ *
+ * At any moment a card has:
+ * - a closed statement: the last one that closed (its amount is known)
+ * - an open statement: the one currently accumulating purchases
+ */
+
+import { addMonths, isBefore, startOfDay } from 'date-fns'
+import { getEffectiveDay } from './frequencies'
+
+/**
+ * A statement identified by the month (1-12) and year of its due date.
+ */
+export interface StatementMonth {
+  month: number
+  year: number
+}
+
+export interface StatementCycle {
+  /** Most recent closing date on or before the reference date */
+  lastClosingDate: Date
+  /** Next closing date after the reference date */
+  nextClosingDate: Date
+  /** Statement that closed on lastClosingDate */
+  closedStatement: StatementMonth
+  /** Statement that closes on nextClosingDate */
+  openStatement: StatementMonth
+}
+
+/**
+ * Get the closing date for a given month, adjusted for month length
+ * (e.g. closing day 31 in February → last day of February).
+ *
+ * @param closingDay - The configured closing day (1-31)
+ * @param month - Month (1-12)
+ * @param year - Year
+ */
+export function getClosingDate(closingDay: number, month: number, year: number): Date {
+  const firstOfMonth = new Date(year, month - 1, 1)
+  return new Date(year, month - 1, getEffectiveDay(closingDay, firstOfMonth))
+}
+
+/**
+ * Get the most recent closing date on or before a date.
+ * The closing day itself counts as closed.
+ */
+export function getLastClosingDate(date: Date, closingDay: number): Date {
+  const day = startOfDay(date)
+  const thisMonth = getClosingDate(closingDay, day.getMonth() + 1, day.getFullYear())
+  if (!isBefore(day, thisMonth)) {
+    return thisMonth
+  }
+  const previous = addMonths(thisMonth, -1)
+  return getClosingDate(closingDay, previous.getMonth() + 1, previous.getFullYear())
+}
+
+/**
+ * Get the closing date that follows a closing date.
+ */
+export function getNextClosingDate(closingDate: Date, closingDay: number): Date {
+  const next = new Date(closingDate.getFullYear(), closingDate.getMonth() + 1, 1)
+  return getClosingDate(closingDay, next.getMonth() + 1, next.getFullYear())
+}
+
+/**
+ * Get the statement (due month) that closes on a closing date.
+ * Due days after the closing day are paid in the same month; otherwise the
+ * statement is paid in the following month.
+ */
+export function getStatementForClosing(
+  closingDate: Date,
+  closingDay: number,
+  dueDay: number
+): StatementMonth {
+  const dueDate = dueDay > closingDay ? closingDate : addMonths(closingDate, 1)
+  return { month: dueDate.getMonth() + 1, year: dueDate.getFullYear() }
+}
+
+/**
+ * Get the closed and open statements of a card on a reference date.
+ *
+ * @param closingDay - The configured closing day (1-31)
+ * @param dueDay - The configured due day (1-31)
+ * @param date - Reference date (usually today)
+ */
+export function getStatementCycle(closingDay: number, dueDay: number, date: Date): StatementCycle {
+  const lastClosingDate = getLastClosingDate(date, closingDay)
+  const nextClosingDate = getNextClosingDate(lastClosingDate, closingDay)
+
+  return {
+    lastClosingDate,
+    nextClosingDate,
+    closedStatement: getStatementForClosing(lastClosingDate, closingDay, dueDay),
+    openStatement: getStatementForClosing(nextClosingDate, closingDay, dueDay),
+  }
+}
+
+/**
+ * Convert a statement month to a sortable index (months since year 0).
+ */
+export function toStatementIndex(statement: StatementMonth): number {
+  return statement.year * 12 + (statement.month - 1)
+}
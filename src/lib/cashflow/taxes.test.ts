@@ -0,0 +1,93 @@
+/**
+ * Tax Provisioning Tests
+ *
+ * Tests for Simples Nacional effective rates, the carnê-leão table and the
+ * due dates of the monthly taxes.
+ */
+
+import { describe, expect, it } from 'vitest'
+import { format } from 'date-fns'
+import {
+  calculateCarneLeaoTax,
+  calculateMonthlyTaxes,
+  calculatePaymentTax,
+  getSimplesEffectiveRate,
+  getTaxDueDate,
+} from './taxes'
+
+describe('getSimplesEffectiveRate', () => {
+  it('applies the nominal rate of the first bracket', () => {
+    expect(getSimplesEffectiveRate('III', 12000000)).toBeCloseTo(0.06, 10)
+    expect(getSimplesEffectiveRate('V', 12000000)).toBeCloseTo(0.155, 10)
+  })
+
+  it('subtracts the bracket deduction from the nominal rate', () => {
+    // (360.000 × 11,2% − 9.360) / 360.000
+    expect(getSimplesEffectiveRate('III', 36000000)).toBeCloseTo(0.086, 10)
+  })
+
+  it('uses the first bracket before there is any revenue', () => {
+    expect(getSimplesEffectiveRate('III', 0)).toBeCloseTo(0.06, 10)
+  })
+})
+
+describe('calculateCarneLeaoTax', () => {
+  it('is exempt up to the first bracket', () => {
+    expect(calculateCarneLeaoTax(242880)).toBe(0)
+  })
+
+  it('applies the progressive table', () => {
+    expect(calculateCarneLeaoTax(300000)).toBe(5584) // 15% − 394,16
+    expect(calculateCarneLeaoTax(1000000)).toBe(184127) // 27,5% − 908,73
+  })
+})
+
+describe('calculatePaymentTax', () => {
+  it('applies a flat rate to the payment', () => {
+    expect(calculatePaymentTax({ type: 'flat', rate: 6 }, 1000000)).toBe(60000)
+  })
+
+  it('applies the Simples Nacional effective rate to the payment', () => {
+    expect(
+      calculatePaymentTax({ type: 'simples', annex: 'III', annualRevenue: 36000000 }, 1000000)
+    ).toBe(86000)
+  })
+})
+
+describe('calculateMonthlyTaxes', () => {
+  it('totals each kind of tax', () => {
+    expect(
+      calculateMonthlyTaxes([
+        { profile: { type: 'flat', rate: 10 }, amount: 100000 },
+        { profile: { type: 'flat', rate: 5 }, amount: 100000 },
+        { profile: { type: 'simples', annex: 'III', annualRevenue: 0 }, amount: 500000 },
+      ])
+    ).toEqual({ flat: 15000, simples: 30000, carne_leao: 0 })
+  })
+
+  it('applies the carnê-leão table to the month total', () => {
+    const taxes = calculateMonthlyTaxes([
+      { profile: { type: 'carne_leao' }, amount: 150000 },
+      { profile: { type: 'carne_leao' }, amount: 150000 },
+    ])
+    expect(taxes.carne_leao).toBe(5584)
+  })
+})
+
+describe('getTaxDueDate', () => {
+  it('is due on the 20th of the next month', () => {
+    expect(format(getTaxDueDate('simples', new Date(2025, 0, 15)), 'yyyy-MM-dd')).toBe('2025-02-20')
+    expect(format(getTaxDueDate('flat', new Date(2025, 0, 15)), 'yyyy-MM-dd')).toBe('2025-02-20')
+  })
+
+  it('brings the DAS forward when the 20th is not a business day', () => {
+    // 20 September 2025 is a Saturday
+    expect(format(getTaxDueDate('simples', new Date(2025, 7, 1)), 'yyyy-MM-dd')).toBe('2025-09-19')
+  })
+
+  it('is due on the last business day of the next month for the carnê-leão', () => {
+    expect(format(getTaxDueDate('carne_leao', new Date(2025, 0, 1)), 'yyyy-MM-dd')).toBe('2025-02-28')
+    // 31 May 2025 is a Saturday
+    expect(format(getTaxDueDate('carne_leao', new Date(2025, 3, 1)), 'yyyy-MM-dd')).toBe('2025-05-30')
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Tax Provisioning
+ *
+ * Taxes of self-employed income, paid in the month after it is received:
+ * a flat percentage, the Simples Nacional DAS or the carnê-leão.
+ * Pure functions, no side effects.
+ */
+
+import { addMonths, endOfMonth, setDate, startOfDay, startOfMonth, subDays } from 'date-fns'
+import type { TaxProfile } from '../../types'
+import { isBusinessDay } from './business-days'
+
+export type TaxKind = TaxProfile['type']
+
+/** Day of the following month the DAS and flat provisions are due */
+const DAS_DUE_DAY = 20
+
+/**
+ * Simples Nacional brackets by annex: top of the revenue of the last 12
+ * months (RBT12) in cents, nominal rate and deduction in cents (LC 123/2006).
+ */
+const SIMPLES_BRACKETS: Record<
+  Extract<TaxProfile, { type: 'simples' }>['annex'],
+  ReadonlyArray<{ maxRevenue: number; rate: number; deduction: number }>
+> = {
+  III: [
+    { maxRevenue: 18000000, rate: 0.06, deduction: 0 },
+    { maxRevenue: 36000000, rate: 0.112, deduction: 936000 },
+    { maxRevenue: 72000000, rate: 0.135, deduction: 1764000 },
+    { maxRevenue: 180000000, rate: 0.16, deduction: 3564000 },
+    { maxRevenue: 360000000, rate: 0.21, deduction: 12564000 },
+    { maxRevenue: Number.POSITIVE_INFINITY, rate: 0.33, deduction: 64800000 },
+  ],
+  V: [
+    { maxRevenue: 18000000, rate: 0.155, deduction: 0 },
+    { maxRevenue: 36000000, rate: 0.18, deduction: 450000 },
+    { maxRevenue: 72000000, rate: 0.195, deduction: 990000 },
+    { maxRevenue: 180000000, rate: 0.205, deduction: 1710000 },
+    { maxRevenue: 360000000, rate: 0.23, deduction: 6210000 },
+    { maxRevenue: Number.POSITIVE_INFINITY, rate: 0.305, deduction: 54000000 },
+  ],
+}
+
+/**
+ * Monthly income tax table applied by the carnê-leão: top of the monthly
+ * income in cents, rate and deduction in cents (table in force since May 2025).
+ */
+const CARNE_LEAO_BRACKETS: ReadonlyArray<{ maxIncome: number; rate: number; deduction: number }> = [
+  { maxIncome: 242880, rate: 0, deduction: 0 },
+  { maxIncome: 282665, rate: 0.075, deduction: 18216 },
+  { maxIncome: 375105, rate: 0.15, deduction: 39416 },
+  { maxIncome: 466468, rate: 0.225, deduction: 67549 },
+  { maxIncome: Number.POSITIVE_INFINITY, rate: 0.275, deduction: 90873 },
+]
+
+/**
+ * Get the Simples Nacional effective rate of an annex for the revenue of the
+ * last 12 months: (RBT12 × nominal rate − deduction) / RBT12. Without revenue
+ * yet, the first bracket's nominal rate applies.
+ */
+export function getSimplesEffectiveRate(
+  annex: Extract<TaxProfile, { type: 'simples' }>['annex'],
+  annualRevenue: number
+): number {
+  const brackets = SIMPLES_BRACKETS[annex]
+  if (annualRevenue <= 0) return brackets[0].rate
+
+  const bracket = brackets.find((b) => annualRevenue <= b.maxRevenue) ?? brackets[brackets.length - 1]
+  return (annualRevenue * bracket.rate - bracket.deduction) / annualRevenue
+}
+
+/**
+ * Calculate the carnê-leão due on a month's income in cents (no deductions).
+ */
+export function calculateCarneLeaoTax(monthlyIncome: number): number {
+  const bracket =
+    CARNE_LEAO_BRACKETS.find((b) => monthlyIncome <= b.maxIncome) ??
+    CARNE_LEAO_BRACKETS[CARNE_LEAO_BRACKETS.length - 1]
+  return Math.max(0, Math.round(monthlyIncome * bracket.rate - bracket.deduction))
+}
+
+/**
+ * Calculate the tax on one payment under a flat or Simples Nacional profile,
+ * in cents. The carnê-leão depends on the month's total instead.
+ */
+export function calculatePaymentTax(profile: TaxProfile, amount: number): number {
+  switch (profile.type) {
+    case 'flat':
+      return Math.round((amount * profile.rate) / 100)
+    case 'simples':
+      return Math.round(amount * getSimplesEffectiveRate(profile.annex, profile.annualRevenue))
+    case 'carne_leao':
+      return 0
+  }
+}
+
+/**
+ * Get the date the taxes on a month's income are due: the DAS (and flat
+ * provisions) on the 20th of the next month, brought forward to the previous
+ * business day; the carnê-leão on the last business day of the next month.
+ */
+export function getTaxDueDate(kind: TaxKind, incomeMonth: Date): Date {
+  const nextMonth = startOfMonth(addMonths(incomeMonth, 1))
+  let dueDate = kind === 'carne_leao'
+    ? startOfDay(endOfMonth(nextMonth))
+    : setDate(nextMonth, DAS_DUE_DAY)
+  while (!isBusinessDay(dueDate)) {
+    dueDate = subDays(dueDate, 1)
+  }
+  return dueDate
+}
+
+/**
+ * Calculate the taxes due on a month's taxed income, by kind, in cents.
+ *
+ * @param payments - Taxed payments received in the month
+ */
+export function calculateMonthlyTaxes(
+  payments: Array<{ profile: TaxProfile; amount: number }>
+): Record<TaxKind, number> {
+  const taxes: Record<TaxKind, number> = { flat: 0, simples: 0, carne_leao: 0 }
+  let carneLeaoIncome = 0
+
+  for (const { profile, amount } of payments) {
+    if (profile.type === 'carne_leao') {
+      carneLeaoIncome += amount
+    } else {
+      taxes[profile.type] += calculatePaymentTax(profile, amount)
+    }
+  }
+
+  taxes.carne_leao = calculateCarneLeaoTax(carneLeaoIncome)
+  return taxes
+}
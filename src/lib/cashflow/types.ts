@@ -5,10 +5,27 @@
  * Input types are imported from src/types/index.ts
  */
 
+import type { ExpenseAmountRange, PaymentDelay } from '../../types'
+
 // =============================================================================
 // OUTPUT TYPES
 // =============================================================================
 
+/**
+ * Projection scenario, by the income it counts:
+ * - optimistic: all active income
+ * - realistic: guaranteed and probable income
+ * - pessimistic: guaranteed income only
+ */
+export type Scenario = 'optimistic' | 'realistic' | 'pessimistic'
+
+/**
+ * How an occurrence override changed a recurring payment (skipped occurrences have no event):
+ * - reschedule: moved from its scheduled date (`occurrenceDate`)
+ * - amount: paid with an amount other than the scheduled one
+ */
+export type OccurrenceOverrideEffect = 'reschedule' | 'amount'
+
 /**
  * Represents a single income event on a specific day
  */
@@ -21,6 +38,36 @@ export interface IncomeEvent {
   amount: number
   /** Certainty level from Project */
   certainty: 'guaranteed' | 'probable' | 'uncertain'
+  /**
+   * Checking account the income lands in (assigned or default account).
+   * Absent when there is no checking account or on older snapshots.
+   */
+  accountId?: string
+  /**
+   * Date the recurring occurrence is scheduled for, which keys its occurrence
+   * override. Absent on single-shot income and older snapshots.
+   */
+  occurrenceDate?: Date
+  /** How an occurrence override changed this payment; absent when it follows the schedule */
+  override?: OccurrenceOverrideEffect
+  /**
+   * Received as confirmed by the user: posted on the date it actually arrived,
+   * with the real amount, and counted in every scenario.
+   */
+  confirmed?: boolean
+  /** Typical payment delay of the source; absent when it pays on the scheduled date */
+  paymentDelay?: PaymentDelay
+  /**
+   * Scheduled (on-time) date of delayed income. Only present on income with a payment delay,
+   * which lands on a different day in each scenario.
+   */
+  scheduledDate?: Date
+  /**
+   * Scenarios this posting counts in; absent when it counts in all of them.
+   * Delayed income is posted on time for optimistic, after the shortest delay
+   * for realistic and after the longest delay for pessimistic.
+   */
+  scenarios?: Scenario[]
 }
 
 /**
@@ -31,22 +78,101 @@ export interface ExpenseEvent {
   sourceId: string
   /** Display name */
   sourceName: string
-  /** Type of expense source */
-  sourceType: 'expense' | 'credit_card'
-  /** Amount in cents */
+  /**
+   * Type of expense source. Contributions to savings goals without a linked
+   * account are reserved as 'goal' expenses (sourceId is the SavingsGoal.id);
+   * loan installments and prepayments are 'loan' expenses (the Loan.id);
+   * taxes provisioned on income are 'tax' expenses (sourceId is tax-<kind>).
+   */
+  sourceType: 'expense' | 'credit_card' | 'overdraft_interest' | 'goal' | 'loan' | 'tax'
+  /** Amount in cents (the average of amountRange for variable expenses) */
   amount: number
+  /**
+   * Minimum and maximum of a variable expense, charged in the optimistic and
+   * pessimistic scenarios; the realistic scenario charges `amount`.
+   */
+  amountRange?: ExpenseAmountRange
+  /**
+   * Checking account the expense is paid from (assigned or default account).
+   * Absent when there is no checking account or on older snapshots.
+   */
+  accountId?: string
+  /**
+   * Date the fixed expense occurrence is scheduled for, which keys its
+   * occurrence override. Absent on other expenses and older snapshots.
+   */
+  occurrenceDate?: Date
+  /** How an occurrence override changed this payment; absent when it follows the schedule */
+  override?: OccurrenceOverrideEffect
+  /** Paid as confirmed by the user: posted on the date it was paid, with the real amount */
+  confirmed?: boolean
+  /**
+   * Scenario this expense is charged in; absent when it applies to all of them.
+   * Overdraft interest depends on the scenario's balance, taxes on its income.
+   */
+  scenario?: Scenario
 }
 
 /**
- * Represents a day with negative projected balance
+ * Represents money moved between two bank accounts on a specific day
+ */
+export interface TransferEvent {
+  /** Reference to source Transfer.id */
+  transferId: string
+  /** Display name from Transfer.name */
+  transferName: string
+  /** Account the money leaves */
+  sourceAccountId: string
+  /** Account the money arrives in */
+  destinationAccountId: string
+  /** Amount actually moved in cents (capped by the source balance for non-checking accounts) */
+  amount: number
+  /** Effect on the checking balance in cents (negative when money leaves checking) */
+  checkingDelta: number
+  /**
+   * Savings goal this contribution belongs to (transferId is the SavingsGoal.id).
+   * Absent on scheduled transfers.
+   */
+  goalId?: string
+}
+
+/**
+ * Running balance of a single checking account on a specific day
+ */
+export interface AccountBalance {
+  /** Reference to BankAccount.id */
+  accountId: string
+  /** Running balance for optimistic scenario (cents) */
+  optimisticBalance: number
+  /**
+   * Running balance for realistic scenario (cents).
+   * Absent on snapshots saved before the realistic scenario existed.
+   */
+  realisticBalance?: number
+  /** Running balance for pessimistic scenario (cents) */
+  pessimisticBalance: number
+}
+
+/**
+ * Severity of a balance below the group's safety threshold:
+ * - below_threshold: still positive, but under the safety cushion
+ * - overdraft: covered by the checking accounts' cheque especial limit (costs interest)
+ * - beyond_limit: past the limit, payments bounce
+ */
+export type DangerLevel = 'below_threshold' | 'overdraft' | 'beyond_limit'
+
+/**
+ * Represents a day with projected balance below the safety threshold
  */
 export interface DangerDay {
   /** Calendar date */
   date: Date
   /** 0-indexed offset from projection start */
   dayOffset: number
-  /** Negative balance amount in cents */
+  /** Balance amount in cents (below the safety threshold) */
   balance: number
+  /** Severity; absent on snapshots saved before overdraft limits existed (beyond limit) */
+  level?: DangerLevel
 }
 
 /**
@@ -59,32 +185,179 @@ export interface DailySnapshot {
   dayOffset: number
   /** Running balance for optimistic scenario (cents) */
   optimisticBalance: number
+  /**
+   * Running balance for realistic scenario (cents).
+   * Absent on snapshots saved before the realistic scenario existed.
+   */
+  realisticBalance?: number
   /** Running balance for pessimistic scenario (cents) */
   pessimisticBalance: number
   /** Income events occurring on this day */
   incomeEvents: IncomeEvent[]
   /** Expense events occurring on this day */
   expenseEvents: ExpenseEvent[]
-  /** True if optimisticBalance < 0 */
+  /**
+   * Transfers between accounts occurring on this day.
+   * Absent on snapshots saved before transfers existed.
+   */
+  transferEvents?: TransferEvent[]
+  /**
+   * Running balance of investment accounts (cents), including transfers.
+   * Absent on snapshots saved before transfers existed.
+   */
+  investmentBalance?: number
+  /**
+   * Running balance of each checking account (sums to the scenario balances).
+   * Absent on snapshots saved before per-account projection existed.
+   */
+  accountBalances?: AccountBalance[]
+  /** True if optimisticBalance is below the safety threshold (0 when unset) */
   isOptimisticDanger: boolean
-  /** True if pessimisticBalance < 0 */
+  /**
+   * True if realisticBalance is below the safety threshold.
+   * Absent on snapshots saved before the realistic scenario existed.
+   */
+  isRealisticDanger?: boolean
+  /** True if pessimisticBalance is below the safety threshold (0 when unset) */
   isPessimisticDanger: boolean
+  /**
+   * Severity when optimisticBalance is below the safety threshold.
+   * Absent when not in danger, or on snapshots saved before overdraft limits existed.
+   */
+  optimisticDangerLevel?: DangerLevel
+  /**
+   * Severity when realisticBalance is below the safety threshold.
+   * Absent when not in danger, or on snapshots saved before the realistic scenario existed.
+   */
+  realisticDangerLevel?: DangerLevel
+  /**
+   * Severity when pessimisticBalance is below the safety threshold.
+   * Absent when not in danger, or on snapshots saved before overdraft limits existed.
+   */
+  pessimisticDangerLevel?: DangerLevel
 }
 
 /**
- * Summary statistics for a single scenario (optimistic or pessimistic)
+ * Summary statistics for a single scenario
  */
 export interface ScenarioSummary {
   /** Sum of all income events in cents */
   totalIncome: number
   /** Sum of all expense events in cents */
   totalExpenses: number
+  /**
+   * Taxes on income paid in the period in cents (part of totalExpenses).
+   * Absent on snapshots saved before tax provisioning existed.
+   */
+  totalTaxes?: number
   /** Final day's balance in cents */
   endBalance: number
-  /** Array of days with negative balance */
+  /** Array of days with balance below the safety threshold */
   dangerDays: DangerDay[]
   /** Count of danger days */
   dangerDayCount: number
+  /**
+   * Count of danger days with a negative balance (the rest are only below the safety cushion).
+   * Absent on snapshots saved before safety thresholds existed (equals dangerDayCount).
+   */
+  negativeDayCount?: number
+  /**
+   * Count of danger days beyond the overdraft limit.
+   * Absent on snapshots saved before overdraft limits existed (equals dangerDayCount).
+   */
+  beyondLimitDayCount?: number
+}
+
+/**
+ * Totals of a scenario over one calendar month of the projection
+ */
+export interface MonthlySummary {
+  /** First day of the month */
+  month: Date
+  /** Sum of the month's income events in cents */
+  totalIncome: number
+  /** Sum of the month's expense events in cents */
+  totalExpenses: number
+  /** Lowest balance of the month in cents */
+  minBalance: number
+  /** Date of the lowest balance */
+  minBalanceDate: Date
+}
+
+/**
+ * Projection summary for a single checking account
+ */
+export interface AccountSummary {
+  /** Reference to BankAccount.id */
+  accountId: string
+  /** Display name from BankAccount.name */
+  accountName: string
+  /** True if the account receives unassigned income and expenses */
+  isDefault: boolean
+  /** Initial balance in cents */
+  startingBalance: number
+  /** Final day's optimistic balance in cents */
+  optimisticEndBalance: number
+  /** Final day's pessimistic balance in cents */
+  pessimisticEndBalance: number
+  /** Days with a negative optimistic balance in this account */
+  optimisticDangerDayCount: number
+  /** Days with a negative pessimistic balance in this account */
+  pessimisticDangerDayCount: number
+}
+
+/**
+ * Contributions planned for a savings goal from the projection start
+ */
+export interface SavingsGoalPlan {
+  /** Reference to SavingsGoal.id */
+  goalId: string
+  /** Amount already saved in cents (the linked account's balance, else the goal's savedAmount) */
+  savedAmount: number
+  /** Amount still missing in cents (0 when the goal is reached) */
+  remainingAmount: number
+  /** Contribution dates left through the target date (empty when reached or out of time) */
+  contributionDates: Date[]
+  /** Contribution in cents needed on each date to reach the target */
+  monthlyContribution: number
+}
+
+/**
+ * One monthly installment of a loan's amortization schedule
+ */
+export interface LoanInstallment {
+  /** Installment number, starting at 1 */
+  number: number
+  dueDate: Date
+  /** Installment amount in cents (interest + amortization) */
+  payment: number
+  /** Interest charged in cents */
+  interest: number
+  /** Principal paid off in cents */
+  amortization: number
+  /** Outstanding balance in cents after this installment */
+  balance: number
+}
+
+/**
+ * An extra payment applied to a loan's balance
+ */
+export interface LoanPrepaymentEntry {
+  date: Date
+  /** Amount applied in cents (capped at the outstanding balance) */
+  amount: number
+  mode: 'reduce_term' | 'reduce_installment'
+}
+
+/**
+ * Amortization schedule of a loan
+ */
+export interface LoanSchedule {
+  installments: LoanInstallment[]
+  /** Prepayments that reached the balance, in date order */
+  prepayments: LoanPrepaymentEntry[]
+  /** Total interest paid over the loan in cents */
+  totalInterest: number
 }
 
 /**
@@ -101,8 +374,58 @@ export interface CashflowProjection {
   days: DailySnapshot[]
   /** Summary for optimistic scenario (all active income) */
   optimistic: ScenarioSummary
+  /**
+   * Summary for realistic scenario (guaranteed and probable income).
+   * Absent on snapshots saved before the realistic scenario existed.
+   */
+  realistic?: ScenarioSummary
   /** Summary for pessimistic scenario (guaranteed income only) */
   pessimistic: ScenarioSummary
+  /**
+   * Per-account summaries for checking accounts.
+   * Absent on snapshots saved before per-account projection existed.
+   */
+  accounts?: AccountSummary[]
+  /**
+   * Group safety threshold the danger days were evaluated against (cents).
+   * Absent on snapshots saved before safety thresholds existed (zero).
+   */
+  safetyThreshold?: number
+  /**
+   * Contribution plans of the active savings goals.
+   * Absent on snapshots saved before savings goals existed.
+   */
+  goals?: SavingsGoalPlan[]
+}
+
+/**
+ * Simulated balance distribution for a single day
+ */
+export interface SimulationDay {
+  /** Calendar date */
+  date: Date
+  /** 0-indexed offset from projection start */
+  dayOffset: number
+  /** 10th percentile balance across runs (cents) */
+  p10: number
+  /** Median balance across runs (cents) */
+  p50: number
+  /** 90th percentile balance across runs (cents) */
+  p90: number
+  /** Share of runs with a negative balance on this day (0 to 1) */
+  negativeProbability: number
+}
+
+/**
+ * Monte Carlo simulation of a projection's uncertain income
+ */
+export interface CashflowSimulation {
+  /** Number of simulated runs */
+  runs: number
+  /** Balance distribution for each projection day */
+  days: SimulationDay[]
+  /** Day with the highest probability of a negative balance; null when no run goes negative */
+  worstRiskDay: SimulationDay | null
 }
 
 // =============================================================================
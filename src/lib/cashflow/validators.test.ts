@@ -38,6 +38,8 @@ function createValidProject(overrides: Partial<{
   certainty: 'guaranteed' | 'probable' | 'uncertain'
   isActive: boolean
   paymentSchedule: { type: 'dayOfWeek'; dayOfWeek: number } | { type: 'dayOfMonth'; dayOfMonth: number } | { type: 'twiceMonthly'; firstDay: number; secondDay: number }
+  startDate: Date | null
+  endDate: Date | null
 }> = {}) {
   const frequency = overrides.frequency ?? 'monthly'
 
@@ -62,6 +64,8 @@ function createValidProject(overrides: Partial<{
     paymentSchedule,
     certainty: overrides.certainty ?? 'guaranteed',
     isActive: overrides.isActive ?? true,
+    startDate: overrides.startDate,
+    endDate: overrides.endDate,
     createdAt: new Date(),
     updatedAt: new Date(),
   }
@@ -190,6 +194,27 @@ describe('validateAndFilterInput', () => {
       expect(result.activeProjects.length).toBe(2)
     })
 
+    it('filters out projects whose start/end dates miss the projection', () => {
+      const input: CashflowEngineInput = {
+        accounts: [],
+        projects: [
+          createValidProject({ id: 'ended', endDate: new Date(2025, 0, 31) }),
+          createValidProject({ id: 'ends-on-start', endDate: new Date(2025, 1, 1) }),
+          createValidProject({ id: 'starts-on-last-day', startDate: new Date(2025, 2, 2) }),
+          createValidProject({ id: 'starts-later', startDate: new Date(2025, 2, 3) }),
+        ],
+        expenses: [],
+        creditCards: [],
+        options: { startDate: new Date(2025, 1, 1), projectionDays: 30 },
+      }
+
+      const result = validateAndFilterInput(input)
+      expect(result.activeProjects.map((project) => project.id)).toEqual([
+        'ends-on-start',
+        'starts-on-last-day',
+      ])
+    })
+
     it('separates guaranteed projects', () => {
       const input: CashflowEngineInput = {
         accounts: [],
@@ -279,6 +304,36 @@ describe('validateAndFilterInput', () => {
 
       expect(() => validateAndFilterInput(input)).toThrow(CashflowCalculationError)
     })
+
+    it('accepts expenses with a payment schedule and no due day', () => {
+      const input: CashflowEngineInput = {
+        accounts: [],
+        projects: [],
+        expenses: [
+          {
+            ...createValidExpense(),
+            dueDay: undefined,
+            frequency: 'yearly',
+            paymentSchedule: { type: 'yearly', dates: [{ month: 1, day: 20 }] },
+          },
+        ],
+        creditCards: [],
+      }
+
+      const result = validateAndFilterInput(input)
+      expect(result.activeExpenses.length).toBe(1)
+    })
+
+    it('throws when an expense has neither due day nor payment schedule', () => {
+      const input: CashflowEngineInput = {
+        accounts: [],
+        projects: [],
+        expenses: [{ ...createValidExpense(), dueDay: undefined }],
+        creditCards: [],
+      }
+
+      expect(() => validateAndFilterInput(input)).toThrow(CashflowCalculationError)
+    })
   })
 
   describe('credit card validation', () => {
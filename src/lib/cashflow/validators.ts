@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod'
+import { addDays, startOfDay } from 'date-fns'
 import type {
   BankAccount,
   CreditCard,
@@ -14,6 +15,11 @@ import type {
   SingleShotIncome,
   Project,
   FutureStatement,
+  InstallmentPurchase,
+  Transfer,
+  EventConfirmationInput,
+  SavingsGoal,
+  Loan,
 } from '../../types'
 import { CashflowCalculationError, CashflowErrorCode } from './types'
 
@@ -24,10 +30,40 @@ import { CashflowCalculationError, CashflowErrorCode } from './types'
 export const CashflowEngineOptionsSchema = z.object({
   startDate: z.date().optional(),
   projectionDays: z.number().int().positive('Projection days must be positive').optional().default(30),
+  /** Minimum balance (cents) below which a day counts as danger */
+  safetyThreshold: z.number().int().min(0, 'Safety threshold cannot be negative').optional(),
+  /** Annual CDI rate in percent, for accounts yielding a percentage of the CDI */
+  cdiAnnualRate: z.number().min(0, 'CDI rate cannot be negative').optional(),
 })
 
 type ValidatedOptions = z.infer<typeof CashflowEngineOptionsSchema>
 
+/**
+ * How an income of a certainty level behaves in simulation runs
+ */
+const IncomeBehaviorSchema = z.object({
+  /** Chance (0 to 1) that the income arrives at all */
+  arrivalProbability: z.number().min(0).max(1),
+  /** Chance (0 to 1) that an arriving income is late */
+  lateProbability: z.number().min(0).max(1),
+  /** Late incomes arrive 1 to maxDelayDays days after the scheduled date */
+  maxDelayDays: z.number().int().min(0),
+})
+
+export type IncomeBehavior = z.infer<typeof IncomeBehaviorSchema>
+
+export const SimulationOptionsSchema = z.object({
+  /** Number of simulated runs */
+  runs: z.number().int().min(1).max(10_000).optional(),
+  /** Seed for the pseudo-random generator (same seed, same bands) */
+  seed: z.number().int().optional(),
+  /** Behavior of non-guaranteed income per certainty level */
+  probable: IncomeBehaviorSchema.optional(),
+  uncertain: IncomeBehaviorSchema.optional(),
+})
+
+export type SimulationOptions = z.infer<typeof SimulationOptionsSchema>
+
 // =============================================================================
 // INPUT VALIDATION SCHEMAS
 // =============================================================================
@@ -39,11 +75,110 @@ const BankAccountEngineSchema = z.object({
   id: z.string(),
   name: z.string(),
   type: z.enum(['checking', 'savings', 'investment']),
-  balance: z.number().min(0, 'Balance cannot be negative'),
+  balance: z.number(),
+  overdraftLimit: z.number().int().min(0).nullable().optional(),
+  overdraftMonthlyRate: z.number().min(0).max(100).nullable().optional(),
+  yieldType: z.enum(['fixed', 'cdi']).nullable().optional(),
+  yieldRate: z.number().min(0).nullable().optional(),
+  yieldIncomeTax: z.boolean().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
+}).refine((account) => account.balance >= -(account.overdraftLimit ?? 0), {
+  message: 'Balance cannot be below the overdraft limit',
+  path: ['balance'],
+})
+
+/**
+ * Schema for validating recurring payment schedules (projects and fixed expenses)
+ */
+const PaymentScheduleEngineSchema = z.union([
+  z.object({
+    type: z.literal('dayOfWeek'),
+    dayOfWeek: z.number().int().min(1).max(7),
+    anchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  }),
+  z.object({
+    type: z.literal('dayOfMonth'),
+    dayOfMonth: z.number().int().min(1).max(31),
+  }),
+  z.object({
+    type: z.literal('twiceMonthly'),
+    firstDay: z.number().int().min(1).max(31),
+    secondDay: z.number().int().min(1).max(31),
+    firstAmount: z.number().positive().optional(),
+    secondAmount: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal('everyNMonths'),
+    intervalMonths: z.number().int().min(2).max(12),
+    dayOfMonth: z.number().int().min(1).max(31),
+    anchorMonth: z.number().int().min(1).max(12),
+    anchorYear: z.number().int(),
+  }),
+  z.object({
+    type: z.literal('yearly'),
+    dates: z.array(
+      z.object({
+        month: z.number().int().min(1).max(12),
+        day: z.number().int().min(1).max(31),
+        amount: z.number().positive().optional(),
+      })
+    ).min(1),
+  }),
+])
+
+const FrequencyEngineSchema = z.enum([
+  'weekly',
+  'biweekly',
+  'twice-monthly',
+  'monthly',
+  'every-n-months',
+  'yearly',
+])
+
+const BusinessDayRolloverEngineSchema = z.enum(['none', 'previous', 'next'])
+
+const PaymentDelayEngineSchema = z.object({
+  minDays: z.number().int().min(0),
+  maxDays: z.number().int().min(1),
+}).refine((data) => data.minDays <= data.maxDays, {
+  message: 'Minimum delay cannot exceed maximum delay',
+  path: ['maxDays'],
 })
 
+const AmountChangeEngineSchema = z.object({
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Effective date must be in yyyy-MM-dd format'),
+  amount: z.number().positive('Amount must be positive'),
+})
+
+const OccurrenceDateEngineSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Occurrence date must be in yyyy-MM-dd format')
+
+const OccurrenceOverrideEngineSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('skip'), occurrenceDate: OccurrenceDateEngineSchema }),
+  z.object({
+    type: z.literal('reschedule'),
+    occurrenceDate: OccurrenceDateEngineSchema,
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Rescheduled date must be in yyyy-MM-dd format'),
+  }),
+  z.object({
+    type: z.literal('amount'),
+    occurrenceDate: OccurrenceDateEngineSchema,
+    amount: z.number().positive('Amount must be positive'),
+  }),
+])
+
+const TaxProfileEngineSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('flat'), rate: z.number().min(0).max(100, 'Tax rate cannot exceed 100%') }),
+  z.object({
+    type: z.literal('simples'),
+    annex: z.enum(['III', 'V']),
+    annualRevenue: z.number().min(0, 'Annual revenue cannot be negative'),
+  }),
+  z.object({ type: z.literal('carne_leao') }),
+])
+
 /**
  * Schema for validating Project input to the engine
  */
@@ -51,30 +186,29 @@ const ProjectEngineSchema = z.object({
   id: z.string(),
   name: z.string(),
   amount: z.number().positive('Amount must be positive'),
-  paymentSchedule: z.union([
-    z.object({
-      type: z.literal('dayOfWeek'),
-      dayOfWeek: z.number().int().min(1).max(7),
-    }),
-    z.object({
-      type: z.literal('dayOfMonth'),
-      dayOfMonth: z.number().int().min(1).max(31),
-    }),
-    z.object({
-      type: z.literal('twiceMonthly'),
-      firstDay: z.number().int().min(1).max(31),
-      secondDay: z.number().int().min(1).max(31),
-      firstAmount: z.number().positive().optional(),
-      secondAmount: z.number().positive().optional(),
-    }),
-  ]).optional(),
-  frequency: z.enum(['weekly', 'biweekly', 'twice-monthly', 'monthly']),
+  paymentSchedule: PaymentScheduleEngineSchema.optional(),
+  frequency: FrequencyEngineSchema,
   certainty: z.enum(['guaranteed', 'probable', 'uncertain']),
   isActive: z.boolean(),
+  businessDayRollover: BusinessDayRolloverEngineSchema.optional(),
+  paymentDelay: PaymentDelayEngineSchema.nullable().optional(),
+  amountChanges: z.array(AmountChangeEngineSchema).optional(),
+  startDate: z.date().nullable().optional(),
+  endDate: z.date().nullable().optional(),
+  occurrenceOverrides: z.array(OccurrenceOverrideEngineSchema).optional(),
+  taxProfile: TaxProfileEngineSchema.nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
 
+const ExpenseAmountRangeEngineSchema = z.object({
+  min: z.number().positive('Minimum amount must be positive'),
+  max: z.number().positive('Maximum amount must be positive'),
+}).refine((data) => data.min <= data.max, {
+  message: 'Minimum amount cannot exceed maximum amount',
+  path: ['max'],
+})
+
 /**
  * Schema for validating FixedExpense input to the engine
  */
@@ -83,11 +217,22 @@ const FixedExpenseEngineSchema = z.object({
   type: z.literal('fixed'),
   name: z.string(),
   amount: z.number().positive('Amount must be positive'),
-  dueDay: z.number().int().min(1).max(31, 'Due day must be 1-31'),
+  dueDay: z.number().int().min(1).max(31, 'Due day must be 1-31').optional(),
+  frequency: FrequencyEngineSchema.optional(),
+  paymentSchedule: PaymentScheduleEngineSchema.optional(),
   isActive: z.boolean(),
+  businessDayRollover: BusinessDayRolloverEngineSchema.optional(),
+  amountRange: ExpenseAmountRangeEngineSchema.nullable().optional(),
+  amountChanges: z.array(AmountChangeEngineSchema).optional(),
+  startDate: z.date().nullable().optional(),
+  endDate: z.date().nullable().optional(),
+  occurrenceOverrides: z.array(OccurrenceOverrideEngineSchema).optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
-})
+}).refine(
+  (data) => data.paymentSchedule !== undefined || data.dueDay !== undefined,
+  { message: 'Due day or payment schedule is required', path: ['dueDay'] }
+)
 
 /**
  * Schema for validating CreditCard input to the engine
@@ -97,6 +242,86 @@ const CreditCardEngineSchema = z.object({
   name: z.string(),
   statementBalance: z.number().min(0, 'Balance cannot be negative'),
   dueDay: z.number().int().min(1).max(31, 'Due day must be 1-31'),
+  closingDay: z.number().int().min(1).max(31, 'Closing day must be 1-31').nullable().optional(),
+  openStatementBalance: z.number().min(0, 'Balance cannot be negative').optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+/**
+ * Schema for validating Transfer input to the engine
+ */
+const TransferEngineSchema = z.object({
+  id: z.string(),
+  type: z.enum(['single_shot', 'recurring']),
+  name: z.string(),
+  sourceAccountId: z.string(),
+  destinationAccountId: z.string(),
+  amount: z.number().positive('Amount must be positive'),
+  date: z.date().optional(),
+  frequency: FrequencyEngineSchema.optional(),
+  paymentSchedule: PaymentScheduleEngineSchema.optional(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+}).refine(
+  (data) => (data.type === 'single_shot'
+    ? data.date !== undefined
+    : data.frequency !== undefined && data.paymentSchedule !== undefined),
+  { message: 'Date or payment schedule is required', path: ['paymentSchedule'] }
+)
+
+/**
+ * Schema for validating EventConfirmation input to the engine
+ */
+const EventConfirmationEngineSchema = z.object({
+  sourceType: z.enum(['project', 'expense', 'credit_card']),
+  sourceId: z.string(),
+  occurrenceDate: z.date(),
+  status: z.enum(['confirmed', 'missed']),
+  amount: z.number().positive('Amount must be positive').nullable(),
+  date: z.date().nullable(),
+}).refine(
+  (data) => data.status === 'missed' || (data.amount !== null && data.date !== null),
+  { message: 'Confirmed events need an amount and a date', path: ['amount'] }
+)
+
+/**
+ * Schema for validating SavingsGoal input to the engine
+ */
+const SavingsGoalEngineSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  targetAmount: z.number().positive('Target amount must be positive'),
+  targetDate: z.date(),
+  accountId: z.string().nullable().optional(),
+  savedAmount: z.number().min(0, 'Saved amount cannot be negative'),
+  contributionDay: z.number().int().min(1).max(31, 'Contribution day must be 1-31'),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+/**
+ * Schema for validating Loan input to the engine
+ */
+const LoanEngineSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  principal: z.number().positive('Principal must be positive'),
+  annualRate: z.number().min(0, 'Interest rate cannot be negative'),
+  termMonths: z.number().int().min(1, 'Term must be at least 1 month'),
+  system: z.enum(['sac', 'price']),
+  firstDueDate: z.date(),
+  accountId: z.string().nullable().optional(),
+  prepayments: z.array(
+    z.object({
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Prepayment date must be yyyy-MM-dd'),
+      amount: z.number().positive('Prepayment amount must be positive'),
+      mode: z.enum(['reduce_term', 'reduce_installment']),
+    })
+  ),
+  isActive: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date(),
 })
@@ -114,6 +339,16 @@ export interface CashflowEngineInput {
   creditCards: CreditCard[]
   /** Future statements for credit cards - used to determine future month amounts */
   futureStatements?: FutureStatement[]
+  /** Installment purchases - each installment is added to its month's card statement */
+  installmentPurchases?: InstallmentPurchase[]
+  /** Scheduled transfers between accounts */
+  transfers?: Transfer[]
+  /** Past events confirmed as paid/received or marked as not happened */
+  eventConfirmations?: EventConfirmationInput[]
+  /** Savings goals - their monthly contributions are set aside until the target date */
+  savingsGoals?: SavingsGoal[]
+  /** Loans - their installments and prepayments are paid from checking */
+  loans?: Loan[]
   /** Shorthand for options.projectionDays (takes precedence) */
   projectionDays?: number
   options?: z.infer<typeof CashflowEngineOptionsSchema>
@@ -132,6 +367,11 @@ export interface ValidatedInput {
   singleShotIncome: SingleShotIncome[]
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  installmentPurchases: InstallmentPurchase[]
+  activeTransfers: Transfer[]
+  eventConfirmations: EventConfirmationInput[]
+  activeSavingsGoals: SavingsGoal[]
+  activeLoans: Loan[]
   options: ValidatedOptions
 }
 
@@ -141,7 +381,8 @@ export interface ValidatedInput {
 
 /**
  * Validates and filters input entities for cashflow calculation.
- * Filters to only active entities and separates guaranteed vs uncertain projects.
+ * Filters to only active entities (recurring ones also by their start/end
+ * dates) and separates guaranteed vs uncertain projects.
  *
  * @throws {CashflowCalculationError} If validation fails
  */
@@ -174,6 +415,13 @@ export function validateAndFilterInput(input: CashflowEngineInput): ValidatedInp
     }
   }
 
+  // Recurring items whose start/end dates fall outside the projection are left out
+  const periodStart = startOfDay(optionsResult.data.startDate ?? new Date())
+  const periodEnd = addDays(periodStart, optionsResult.data.projectionDays - 1)
+  const overlapsProjection = (item: { startDate?: Date | null; endDate?: Date | null }, lookbackDays = 0) =>
+    (!item.startDate || startOfDay(item.startDate) <= periodEnd) &&
+    (!item.endDate || startOfDay(item.endDate) >= addDays(periodStart, -lookbackDays))
+
   // Validate and filter projects
   const activeProjects: Project[] = []
   const guaranteedProjects: Project[] = []
@@ -188,7 +436,8 @@ export function validateAndFilterInput(input: CashflowEngineInput): ValidatedInp
       )
     }
 
-    if (project.isActive) {
+    // Income that ended shortly before the start can still arrive late inside it
+    if (project.isActive && overlapsProjection(project, project.paymentDelay?.maxDays ?? 0)) {
       activeProjects.push(project)
       if (project.certainty === 'guaranteed') {
         guaranteedProjects.push(project)
@@ -209,7 +458,7 @@ export function validateAndFilterInput(input: CashflowEngineInput): ValidatedInp
       )
     }
 
-    if (expense.isActive) {
+    if (expense.isActive && overlapsProjection(expense)) {
       activeExpenses.push(expense)
     }
   }
@@ -226,6 +475,77 @@ export function validateAndFilterInput(input: CashflowEngineInput): ValidatedInp
     }
   }
 
+  // Validate and filter transfers (both accounts must still exist)
+  const accountIds = new Set(input.accounts.map((account) => account.id))
+  const activeTransfers: Transfer[] = []
+
+  for (const transfer of input.transfers ?? []) {
+    const result = TransferEngineSchema.safeParse(transfer)
+    if (!result.success) {
+      throw new CashflowCalculationError(
+        `Invalid transfer "${transfer.name}": ${result.error.message}`,
+        CashflowErrorCode.INVALID_INPUT,
+        result.error.flatten()
+      )
+    }
+
+    if (
+      transfer.isActive &&
+      accountIds.has(transfer.sourceAccountId) &&
+      accountIds.has(transfer.destinationAccountId)
+    ) {
+      activeTransfers.push(transfer)
+    }
+  }
+
+  // Validate event confirmations
+  for (const confirmation of input.eventConfirmations ?? []) {
+    const result = EventConfirmationEngineSchema.safeParse(confirmation)
+    if (!result.success) {
+      throw new CashflowCalculationError(
+        `Invalid event confirmation for "${confirmation.sourceId}": ${result.error.message}`,
+        CashflowErrorCode.INVALID_INPUT,
+        result.error.flatten()
+      )
+    }
+  }
+
+  // Validate and filter savings goals
+  const activeSavingsGoals: SavingsGoal[] = []
+
+  for (const goal of input.savingsGoals ?? []) {
+    const result = SavingsGoalEngineSchema.safeParse(goal)
+    if (!result.success) {
+      throw new CashflowCalculationError(
+        `Invalid savings goal "${goal.name}": ${result.error.message}`,
+        CashflowErrorCode.INVALID_INPUT,
+        result.error.flatten()
+      )
+    }
+
+    if (goal.isActive) {
+      activeSavingsGoals.push(goal)
+    }
+  }
+
+  // Validate and filter loans
+  const activeLoans: Loan[] = []
+
+  for (const loan of input.loans ?? []) {
+    const result = LoanEngineSchema.safeParse(loan)
+    if (!result.success) {
+      throw new CashflowCalculationError(
+        `Invalid loan "${loan.name}": ${result.error.message}`,
+        CashflowErrorCode.INVALID_INPUT,
+        result.error.flatten()
+      )
+    }
+
+    if (loan.isActive) {
+      activeLoans.push(loan)
+    }
+  }
+
   return {
     accounts: input.accounts,
     activeProjects,
@@ -235,6 +555,11 @@ export function validateAndFilterInput(input: CashflowEngineInput): ValidatedInp
     singleShotIncome: input.singleShotIncome ?? [],
     creditCards: input.creditCards,
     futureStatements: input.futureStatements ?? [],
+    installmentPurchases: input.installmentPurchases ?? [],
+    activeTransfers,
+    eventConfirmations: input.eventConfirmations ?? [],
+    activeSavingsGoals,
+    activeLoans,
     options: optionsResult.data,
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Account Yield Tests
+ *
+ * Tests for annual and daily yield rates and the regressive income tax table.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  BUSINESS_DAYS_PER_YEAR,
+  calculateDailyYield,
+  getAnnualYieldRate,
+  getDailyYieldRate,
+  getYieldIncomeTaxRate,
+} from './yield'
+
+describe('getAnnualYieldRate', () => {
+  it('uses the fixed annual rate', () => {
+    expect(getAnnualYieldRate({ type: 'savings', yieldType: 'fixed', yieldRate: 6 }, 10)).toBe(6)
+  })
+
+  it('applies the percentage of the CDI', () => {
+    expect(getAnnualYieldRate({ type: 'investment', yieldType: 'cdi', yieldRate: 110 }, 10)).toBeCloseTo(11)
+  })
+
+  it('does not yield for checking accounts or accounts without a yield', () => {
+    expect(getAnnualYieldRate({ type: 'checking', yieldType: 'fixed', yieldRate: 6 }, 10)).toBe(0)
+    expect(getAnnualYieldRate({ type: 'savings', yieldType: null, yieldRate: null }, 10)).toBe(0)
+    expect(getAnnualYieldRate({ type: 'investment', yieldType: 'cdi', yieldRate: 100 }, 0)).toBe(0)
+  })
+})
+
+describe('getDailyYieldRate', () => {
+  it('compounds back to the annual rate over a year of business days', () => {
+    const daily = getDailyYieldRate(12)
+    expect(Math.pow(1 + daily, BUSINESS_DAYS_PER_YEAR)).toBeCloseTo(1.12, 10)
+  })
+})
+
+describe('getYieldIncomeTaxRate', () => {
+  it('follows the regressive table', () => {
+    expect(getYieldIncomeTaxRate(0)).toBe(0.225)
+    expect(getYieldIncomeTaxRate(180)).toBe(0.225)
+    expect(getYieldIncomeTaxRate(181)).toBe(0.2)
+    expect(getYieldIncomeTaxRate(360)).toBe(0.2)
+    expect(getYieldIncomeTaxRate(720)).toBe(0.175)
+    expect(getYieldIncomeTaxRate(721)).toBe(0.15)
+  })
+})
+
+describe('calculateDailyYield', () => {
+  const account = { type: 'investment' as const, yieldType: 'fixed' as const, yieldRate: 12 }
+
+  it('yields the daily rate on the balance', () => {
+    expect(calculateDailyYield(account, 1000000, 0, 0)).toBeCloseTo(1000000 * getDailyYieldRate(12))
+  })
+
+  it('withholds income tax when enabled', () => {
+    const gross = calculateDailyYield(account, 1000000, 0, 0)
+    expect(calculateDailyYield({ ...account, yieldIncomeTax: true }, 1000000, 0, 0)).toBeCloseTo(gross * 0.775)
+    expect(calculateDailyYield({ ...account, yieldIncomeTax: true }, 1000000, 0, 800)).toBeCloseTo(gross * 0.85)
+  })
+
+  it('does not yield on an empty balance', () => {
+    expect(calculateDailyYield(account, 0, 0, 0)).toBe(0)
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * Account Yield
+ *
+ * Yield of savings and investment accounts: a fixed annual rate or a
+ * percentage of the CDI, compounded on business days like the CDI itself.
+ * Pure functions, no side effects.
+ */
+
+import type { BankAccount } from '../../types'
+
+/** Business days in a year, the CDI compounding convention */
+export const BUSINESS_DAYS_PER_YEAR = 252
+
+/**
+ * Regressive income tax table on fixed income: rate by the days the money was held.
+ */
+const INCOME_TAX_BRACKETS: ReadonlyArray<{ maxDays: number; rate: number }> = [
+  { maxDays: 180, rate: 0.225 },
+  { maxDays: 360, rate: 0.2 },
+  { maxDays: 720, rate: 0.175 },
+]
+
+/** Income tax rate on money held longer than the last bracket */
+const LONG_TERM_INCOME_TAX_RATE = 0.15
+
+/**
+ * Get the annual yield rate of an account in percent.
+ * CDI accounts yield their percentage of the group's CDI rate; checking
+ * accounts and accounts without a yield type do not yield.
+ */
+export function getAnnualYieldRate(
+  account: Pick<BankAccount, 'type' | 'yieldType' | 'yieldRate'>,
+  cdiAnnualRate: number
+): number {
+  if (account.type === 'checking' || !account.yieldRate) return 0
+  switch (account.yieldType) {
+    case 'fixed':
+      return account.yieldRate
+    case 'cdi':
+      return (cdiAnnualRate * account.yieldRate) / 100
+    default:
+      return 0
+  }
+}
+
+/**
+ * Convert an annual rate in percent to the equivalent rate of one business day.
+ */
+export function getDailyYieldRate(annualRate: number): number {
+  return Math.pow(1 + annualRate / 100, 1 / BUSINESS_DAYS_PER_YEAR) - 1
+}
+
+/**
+ * Get the income tax rate on yield held for a number of days (regressive table).
+ */
+export function getYieldIncomeTaxRate(daysHeld: number): number {
+  return INCOME_TAX_BRACKETS.find((bracket) => daysHeld <= bracket.maxDays)?.rate ?? LONG_TERM_INCOME_TAX_RATE
+}
+
+/**
+ * Calculate one business day of net yield on a balance, in fractional cents.
+ * Income tax uses the days since the projection started as the holding period.
+ */
+export function calculateDailyYield(
+  account: Pick<BankAccount, 'type' | 'yieldType' | 'yieldRate' | 'yieldIncomeTax'>,
+  balance: number,
+  cdiAnnualRate: number,
+  daysHeld: number
+): number {
+  const annualRate = getAnnualYieldRate(account, cdiAnnualRate)
+  if (annualRate === 0 || balance <= 0) return 0
+
+  const grossYield = balance * getDailyYieldRate(annualRate)
+  return account.yieldIncomeTax
+    ? grossYield * (1 - getYieldIncomeTaxRate(daysHeld))
+    : grossYield
+}
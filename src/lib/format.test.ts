@@ -10,6 +10,8 @@ import {
   formatChartCurrency,
   formatCurrencyWithCents,
   formatChartDate,
+  formatChartMonth,
+  formatMonthYear,
   formatTooltipDate,
   formatToBRL,
   parseBRLToCents,
@@ -230,6 +232,19 @@ describe('formatChartDate', () => {
   })
 })
 
+describe('formatChartMonth', () => {
+  it('formats the month and two-digit year', () => {
+    expect(formatChartMonth(new Date(2026, 10, 26))).toBe('nov/26')
+    expect(formatChartMonth(new Date(2027, 0, 1))).toBe('jan/27')
+  })
+})
+
+describe('formatMonthYear', () => {
+  it('formats the full month name and year', () => {
+    expect(formatMonthYear(new Date(2026, 2, 15))).toBe('março de 2026')
+  })
+})
+
 // =============================================================================
 // formatDayMonth / formatDayMonthRange TESTS (Estimated balance indicator)
 // =============================================================================
@@ -100,6 +100,26 @@ export function formatChartDate(date: Date): string {
   }).format(date)
 }
 
+/**
+ * Format a month for chart X-axis labels of long projections.
+ *
+ * @param date - Any day of the month
+ * @returns Short month and year in Portuguese (e.g., "nov/26")
+ */
+export function formatChartMonth(date: Date): string {
+  return format(date, 'MMM/yy', { locale: ptBR })
+}
+
+/**
+ * Format a month with its year for tables and tooltip headers.
+ *
+ * @param date - Any day of the month
+ * @returns Month and year in Portuguese (e.g., "novembro de 2026")
+ */
+export function formatMonthYear(date: Date): string {
+  return format(date, "MMMM 'de' yyyy", { locale: ptBR })
+}
+
 /**
  * Format date for tooltip header.
  * Uses Portuguese locale for consistent display.
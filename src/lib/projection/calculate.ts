@@ -0,0 +1,167 @@
+/**
+ * Dashboard projection: today's estimated balance, the projection rebased on
+ * it and the simulation of its uncertain income.
+ *
+ * Pure computation, run by the projection worker (see client.ts) or on the
+ * main thread where workers are unavailable.
+ */
+
+import {
+  calculateCashflow,
+  calculateEstimatedTodayBalance,
+  rebaseProjectionFromEstimatedToday,
+  simulateCashflow,
+} from '@/lib/cashflow'
+import type { EstimatedTodayBalance } from '@/lib/cashflow'
+import type { CashflowProjection, CashflowSimulation } from '@/lib/cashflow/types'
+import { getTodayDateOnlyInTimeZone } from '@/lib/dates/timezone'
+import type {
+  BankAccount,
+  CreditCard,
+  EventConfirmation,
+  FixedExpense,
+  FutureStatement,
+  InstallmentPurchase,
+  Loan,
+  Project,
+  ProjectionDays,
+  SavingsGoal,
+  SingleShotExpense,
+  SingleShotIncome,
+  Transfer,
+} from '@/types'
+
+const DASHBOARD_TIME_ZONE = 'America/Sao_Paulo'
+
+/**
+ * Finance data and settings a dashboard projection is computed from.
+ */
+export interface ProjectionParams {
+  accounts: BankAccount[]
+  projects: Project[]
+  fixedExpenses: FixedExpense[]
+  singleShotExpenses: SingleShotExpense[]
+  singleShotIncome: SingleShotIncome[]
+  creditCards: CreditCard[]
+  futureStatements: FutureStatement[]
+  installmentPurchases?: InstallmentPurchase[]
+  transfers?: Transfer[]
+  eventConfirmations?: EventConfirmation[]
+  savingsGoals?: SavingsGoal[]
+  loans?: Loan[]
+  projectionDays: ProjectionDays
+  /** Group safety threshold in cents (defaults to 0) */
+  safetyThreshold?: number
+  /** Group annual CDI rate in percent (defaults to 0) */
+  cdiAnnualRate?: number
+}
+
+/**
+ * A computed dashboard projection.
+ */
+export interface ProjectionResult {
+  projection: CashflowProjection
+  /** Metadata about today's estimate + base */
+  estimate: EstimatedTodayBalance
+  /** Monte Carlo simulation of the projection's uncertain income (seeded, so stable) */
+  simulation: CashflowSimulation
+}
+
+export function calculateProjectionWithEstimate(
+  params: ProjectionParams
+): { projection: CashflowProjection; estimate: EstimatedTodayBalance } {
+  const estimate = calculateEstimatedTodayBalance({
+    accounts: params.accounts,
+    projects: params.projects,
+    fixedExpenses: params.fixedExpenses,
+    singleShotExpenses: params.singleShotExpenses,
+    singleShotIncome: params.singleShotIncome,
+    creditCards: params.creditCards,
+    futureStatements: params.futureStatements,
+    installmentPurchases: params.installmentPurchases,
+    transfers: params.transfers,
+    eventConfirmations: params.eventConfirmations,
+    loans: params.loans,
+    cdiAnnualRate: params.cdiAnnualRate,
+    timeZone: DASHBOARD_TIME_ZONE,
+  })
+
+  // If there's no reliable base, keep the current Dashboard behavior: projection from "today"
+  // (do not start tomorrow, otherwise we'd drop today's scheduled events).
+  if (!estimate.hasBase) {
+    const startDate = getTodayDateOnlyInTimeZone(DASHBOARD_TIME_ZONE)
+    const projection = calculateCashflow({
+      accounts: params.accounts,
+      projects: params.projects,
+      expenses: params.fixedExpenses,
+      singleShotExpenses: params.singleShotExpenses,
+      singleShotIncome: params.singleShotIncome,
+      creditCards: params.creditCards,
+      futureStatements: params.futureStatements,
+      installmentPurchases: params.installmentPurchases,
+      transfers: params.transfers,
+      eventConfirmations: params.eventConfirmations,
+      savingsGoals: params.savingsGoals,
+      loans: params.loans,
+      options: {
+        startDate,
+        projectionDays: params.projectionDays,
+        safetyThreshold: params.safetyThreshold,
+        cdiAnnualRate: params.cdiAnnualRate,
+      },
+    })
+
+    return { projection, estimate }
+  }
+
+  const projection = rebaseProjectionFromEstimatedToday({
+    projectionDays: params.projectionDays,
+    estimatedToday: estimate,
+    accounts: params.accounts,
+    projects: params.projects,
+    fixedExpenses: params.fixedExpenses,
+    singleShotExpenses: params.singleShotExpenses,
+    singleShotIncome: params.singleShotIncome,
+    creditCards: params.creditCards,
+    futureStatements: params.futureStatements,
+    installmentPurchases: params.installmentPurchases,
+    transfers: params.transfers,
+    eventConfirmations: params.eventConfirmations,
+    savingsGoals: params.savingsGoals,
+    loans: params.loans,
+    safetyThreshold: params.safetyThreshold,
+    cdiAnnualRate: params.cdiAnnualRate,
+  })
+
+  return { projection, estimate }
+}
+
+/**
+ * Compute a dashboard projection and simulate its uncertain income.
+ * @throws {CashflowCalculationError} If the finance data is invalid
+ */
+export function calculateProjection(params: ProjectionParams): ProjectionResult {
+  const { projection, estimate } = calculateProjectionWithEstimate(params)
+  return { projection, estimate, simulation: simulateCashflow(projection) }
+}
+
+/**
+ * Hash the inputs of a projection (cyrb53 over their JSON), including today's
+ * date: the estimate and the projection start depend on it.
+ */
+export function getProjectionKey(params: ProjectionParams, now: Date = new Date()): string {
+  const today = getTodayDateOnlyInTimeZone(DASHBOARD_TIME_ZONE, now)
+  const input = JSON.stringify([today.getTime(), params])
+
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
@@ -0,0 +1,170 @@
+/**
+ * Tests for the projection client: worker requests, cancellation, caching and
+ * the main-thread fallback.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { calculateProjection, type ProjectionParams } from './calculate'
+import type { ProjectionWorkerRequest, ProjectionWorkerResponse } from './projection.worker'
+
+/**
+ * In-process stand-in for the projection worker: requests are answered when
+ * the test calls respond().
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+
+  requests: ProjectionWorkerRequest[] = []
+  terminated = false
+  private listeners: Record<string, Array<(event: unknown) => void>> = {}
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  addEventListener(type: string, listener: (event: unknown) => void) {
+    this.listeners[type] = [...(this.listeners[type] ?? []), listener]
+  }
+
+  postMessage(request: ProjectionWorkerRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  respond(request: ProjectionWorkerRequest = this.requests[this.requests.length - 1]) {
+    let data: ProjectionWorkerResponse
+    try {
+      data = { id: request.id, result: calculateProjection(request.params) }
+    } catch (err) {
+      data = { id: request.id, error: (err as Error).message }
+    }
+    this.listeners.message?.forEach((listener) => listener({ data }))
+  }
+
+  fail() {
+    this.listeners.error?.forEach((listener) => listener(new Event('error')))
+  }
+}
+
+function createParams(balance: number): ProjectionParams {
+  return {
+    accounts: [{
+      id: 'checking',
+      name: 'Conta Corrente',
+      type: 'checking',
+      balance,
+      owner: null,
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    }],
+    projects: [],
+    fixedExpenses: [],
+    singleShotExpenses: [],
+    singleShotIncome: [],
+    creditCards: [],
+    futureStatements: [],
+    projectionDays: 7,
+  }
+}
+
+// Module state (worker, queue, cache) is reset by re-importing the client
+async function importClient() {
+  vi.resetModules()
+  return import('./client')
+}
+
+describe('projection client with a worker', () => {
+  beforeEach(() => {
+    FakeWorker.instances = []
+    vi.stubGlobal('Worker', FakeWorker)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('computes projections in the worker and caches them by input', async () => {
+    const { getProjectionSync, requestProjection } = await importClient()
+
+    expect(getProjectionSync(createParams(10_000))).toBeUndefined()
+    expect(FakeWorker.instances).toHaveLength(0)
+    const pending = requestProjection(createParams(10_000))
+    const worker = FakeWorker.instances[0]
+    worker.respond()
+
+    const result = await pending
+    expect(result.projection.startingBalance).toBe(10_000)
+
+    // Equal inputs are served from the cache
+    expect(getProjectionSync(createParams(10_000))).toBe(result)
+    await expect(requestProjection(createParams(10_000))).resolves.toBe(result)
+    expect(worker.requests).toHaveLength(1)
+  })
+
+  it('restarts the worker when the running request is aborted', async () => {
+    const { requestProjection } = await importClient()
+
+    const controller = new AbortController()
+    const stale = requestProjection(createParams(10_000), controller.signal)
+    const next = requestProjection(createParams(20_000))
+    controller.abort()
+
+    await expect(stale).rejects.toMatchObject({ name: 'AbortError' })
+    const [first, second] = FakeWorker.instances
+    expect(first.terminated).toBe(true)
+
+    second.respond()
+    await expect(next).resolves.toMatchObject({ projection: { startingBalance: 20_000 } })
+  })
+
+  it('drops aborted requests still waiting for the worker', async () => {
+    const { requestProjection } = await importClient()
+
+    const controller = new AbortController()
+    const running = requestProjection(createParams(10_000))
+    const stale = requestProjection(createParams(20_000), controller.signal)
+    const latest = requestProjection(createParams(30_000))
+    controller.abort()
+    await expect(stale).rejects.toMatchObject({ name: 'AbortError' })
+
+    const worker = FakeWorker.instances[0]
+    worker.respond()
+    await running
+    worker.respond()
+    await expect(latest).resolves.toMatchObject({ projection: { startingBalance: 30_000 } })
+    expect(worker.requests.map((request) => request.params.accounts[0].balance)).toEqual([10_000, 30_000])
+  })
+
+  it('rejects with the worker error message', async () => {
+    const { requestProjection } = await importClient()
+
+    const pending = requestProjection({ ...createParams(10_000), projectionDays: 0 as 30 })
+    FakeWorker.instances[0].respond()
+
+    await expect(pending).rejects.toThrow(/projectionDays/i)
+  })
+
+  it('computes on the main thread once the worker fails', async () => {
+    const { getProjectionSync, requestProjection } = await importClient()
+
+    const pending = requestProjection(createParams(10_000))
+    FakeWorker.instances[0].fail()
+
+    await expect(pending).resolves.toMatchObject({ projection: { startingBalance: 10_000 } })
+    await requestProjection(createParams(20_000))
+    expect(getProjectionSync(createParams(30_000))?.projection.startingBalance).toBe(30_000)
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+})
+
+describe('projection client without workers', () => {
+  it('computes projections synchronously', async () => {
+    const { getProjectionSync } = await importClient()
+
+    expect(typeof Worker).toBe('undefined')
+    expect(getProjectionSync(createParams(10_000))?.projection.startingBalance).toBe(10_000)
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Projection client: runs dashboard projections in a Web Worker so long
+ * horizons and bursts of realtime updates do not block rendering.
+ *
+ * - Results are cached by the hash of their inputs (see getProjectionKey)
+ * - The worker computes one request at a time; aborting a queued request drops
+ *   it, aborting the running one restarts the worker
+ * - Where workers are unavailable (tests, blocked by the browser), projections
+ *   are computed synchronously on the main thread
+ */
+
+import {
+  calculateProjection,
+  getProjectionKey,
+  type ProjectionParams,
+  type ProjectionResult,
+} from './calculate'
+import type { ProjectionWorkerRequest, ProjectionWorkerResponse } from './projection.worker'
+
+const MAX_CACHED_PROJECTIONS = 8
+
+interface PendingRequest {
+  id: number
+  key: string
+  params: ProjectionParams
+  resolve: (result: ProjectionResult) => void
+  reject: (error: unknown) => void
+}
+
+// Most recently used last
+const cache = new Map<string, ProjectionResult>()
+
+let worker: Worker | null = null
+let isWorkerUnavailable = false
+let nextRequestId = 1
+// The first request is the one the worker is computing
+const queue: PendingRequest[] = []
+
+function readCache(key: string): ProjectionResult | undefined {
+  const result = cache.get(key)
+  if (result) {
+    cache.delete(key)
+    cache.set(key, result)
+  }
+  return result
+}
+
+function writeCache(key: string, result: ProjectionResult): void {
+  cache.set(key, result)
+  if (cache.size > MAX_CACHED_PROJECTIONS) {
+    const oldest = cache.keys().next()
+    if (!oldest.done) cache.delete(oldest.value)
+  }
+}
+
+function calculateAndCache(key: string, params: ProjectionParams): ProjectionResult {
+  const result = calculateProjection(params)
+  writeCache(key, result)
+  return result
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker
+  if (isWorkerUnavailable || typeof Worker === 'undefined') return null
+
+  try {
+    worker = new Worker(new URL('./projection.worker.ts', import.meta.url), { type: 'module' })
+  } catch {
+    isWorkerUnavailable = true
+    return null
+  }
+  worker.addEventListener('message', handleResponse)
+  worker.addEventListener('error', handleWorkerError)
+  return worker
+}
+
+function postRequest(request: PendingRequest): void {
+  const message: ProjectionWorkerRequest = { id: request.id, params: request.params }
+  getWorker()?.postMessage(message)
+}
+
+function handleResponse(event: MessageEvent<ProjectionWorkerResponse>): void {
+  const request = queue[0]
+  if (!request || request.id !== event.data.id) return
+  queue.shift()
+
+  if ('error' in event.data) {
+    request.reject(new Error(event.data.error))
+  } else {
+    writeCache(request.key, event.data.result)
+    request.resolve(event.data.result)
+  }
+
+  if (queue[0]) postRequest(queue[0])
+}
+
+/**
+ * The worker failed to load or crashed: compute on the main thread from now on.
+ */
+function handleWorkerError(): void {
+  worker?.terminate()
+  worker = null
+  isWorkerUnavailable = true
+
+  for (const request of queue.splice(0)) {
+    try {
+      request.resolve(calculateAndCache(request.key, request.params))
+    } catch (err) {
+      request.reject(err)
+    }
+  }
+}
+
+function cancelRequest(request: PendingRequest): void {
+  const index = queue.indexOf(request)
+  if (index === -1) return
+  queue.splice(index, 1)
+  request.reject(new DOMException('Projeção cancelada', 'AbortError'))
+
+  // The worker is busy with it: restart it rather than wait for a stale result
+  if (index === 0) {
+    worker?.terminate()
+    worker = null
+    if (queue[0]) postRequest(queue[0])
+  }
+}
+
+/**
+ * Get a projection without waiting: the cached result or, where workers are
+ * unavailable, the result computed on the main thread. Safe to call during
+ * render: the worker is only created by requestProjection.
+ *
+ * @returns The projection, or undefined when it has to be requested from the worker
+ * @throws {CashflowCalculationError} If computed here and the finance data is invalid
+ */
+export function getProjectionSync(params: ProjectionParams): ProjectionResult | undefined {
+  const key = getProjectionKey(params)
+  const cached = readCache(key)
+  if (cached) return cached
+  if (!isWorkerUnavailable && typeof Worker !== 'undefined') return undefined
+  return calculateAndCache(key, params)
+}
+
+/**
+ * Compute a projection in the worker.
+ * Rejects with an AbortError when `signal` aborts before the result arrives.
+ */
+export function requestProjection(
+  params: ProjectionParams,
+  signal?: AbortSignal
+): Promise<ProjectionResult> {
+  const key = getProjectionKey(params)
+  const cached = readCache(key)
+  if (cached) return Promise.resolve(cached)
+
+  if (!getWorker()) {
+    try {
+      return Promise.resolve(calculateAndCache(key, params))
+    } catch (err) {
+      return Promise.reject(err)
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Projeção cancelada', 'AbortError'))
+      return
+    }
+
+    const request: PendingRequest = { id: nextRequestId++, key, params, resolve, reject }
+    queue.push(request)
+    signal?.addEventListener('abort', () => cancelRequest(request), { once: true })
+    if (queue.length === 1) postRequest(request)
+  })
+}
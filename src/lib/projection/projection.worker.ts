@@ -0,0 +1,27 @@
+/**
+ * Projection Web Worker: computes dashboard projections off the main thread.
+ * Spawned by client.ts, which sends one request at a time.
+ */
+
+import { calculateProjection, type ProjectionParams, type ProjectionResult } from './calculate'
+
+export interface ProjectionWorkerRequest {
+  id: number
+  params: ProjectionParams
+}
+
+export type ProjectionWorkerResponse =
+  | { id: number; result: ProjectionResult }
+  | { id: number; error: string }
+
+self.addEventListener('message', (event: MessageEvent<ProjectionWorkerRequest>) => {
+  const { id, params } = event.data
+  let response: ProjectionWorkerResponse
+  try {
+    response = { id, result: calculateProjection(params) }
+  } catch (err) {
+    // Error instances lose their class crossing threads: send the message only
+    response = { id, error: err instanceof Error ? err.message : 'Falha ao calcular projeção' }
+  }
+  self.postMessage(response)
+})
@@ -13,6 +13,13 @@ import type {
   Notification,
   BillingSubscriptionRow,
   BillingSubscription,
+  Frequency,
+  PaymentSchedule,
+  BusinessDayRollover,
+  AmountChange,
+  OccurrenceOverride,
+  LoanPrepayment,
+  TaxProfile,
 } from '@/types'
 import {
   transformOnboardingStateRow,
@@ -47,6 +54,17 @@ interface AccountRowBase {
   balance: number
   balance_updated_at: string | null
   owner_id: string | null
+  is_default: boolean
+  // Cheque especial limit in cents; null when the account has none
+  overdraft_limit: number | null
+  // Monthly overdraft interest rate in percent
+  overdraft_monthly_rate: number | null
+  // 'fixed' (annual rate) or 'cdi' (percent of the CDI); null when the account does not yield
+  yield_type: 'fixed' | 'cdi' | null
+  // Annual rate in percent, or percent of the CDI
+  yield_rate: number | null
+  // Withhold income tax on the yield (regressive table)
+  yield_income_tax: boolean
   created_at: string
   updated_at: string
 }
@@ -62,23 +80,22 @@ export interface ProjectRow {
   amount: number
   type: 'recurring' | 'single_shot'
   // Recurring project fields (required when type = 'recurring', null for single_shot)
-  frequency: 'weekly' | 'biweekly' | 'twice-monthly' | 'monthly' | null
-  payment_schedule: {
-    type: 'dayOfWeek'
-    dayOfWeek: number
-  } | {
-    type: 'dayOfMonth'
-    dayOfMonth: number
-  } | {
-    type: 'twiceMonthly'
-    firstDay: number
-    secondDay: number
-  } | null
+  frequency: Frequency | null
+  payment_schedule: PaymentSchedule | null
   is_active: boolean | null
+  business_day_rollover: BusinessDayRollover
   // Single-shot income field (required when type = 'single_shot', null for recurring)
   date: string | null  // ISO date string
   // Common fields
   certainty: 'guaranteed' | 'probable' | 'uncertain'
+  account_id: string | null   // Target checking account, null = default account
+  payment_delay_min_days: number | null  // Typical payment delay, null = pays on time
+  payment_delay_max_days: number | null
+  amount_changes: AmountChange[]  // Scheduled amount changes (recurring only, empty otherwise)
+  start_date: string | null   // Active period (recurring only), null = open-ended
+  end_date: string | null
+  occurrence_overrides: OccurrenceOverride[]  // Per-occurrence skips/moves/amounts (recurring only)
+  tax_profile: TaxProfile | null  // Taxes provisioned on the income, null = none
   created_at: string
   updated_at: string
 }
@@ -88,9 +105,20 @@ export interface ExpenseRow {
   name: string
   amount: number
   type: 'fixed' | 'single_shot'
-  due_day: number | null      // Present for fixed, null for single_shot
+  due_day: number | null      // Monthly due day for legacy fixed rows, null for single_shot
+  // Recurring schedule (fixed only; null for legacy rows and single_shot)
+  frequency: Frequency | null
+  payment_schedule: PaymentSchedule | null
   date: string | null         // ISO date string, present for single_shot, null for fixed
   is_active: boolean
+  business_day_rollover: BusinessDayRollover
+  account_id: string | null   // Target checking account, null = default account
+  amount_min: number | null    // Variable amount range (fixed only), null = fixed amount
+  amount_max: number | null
+  amount_changes: AmountChange[]  // Scheduled amount changes (fixed only, empty otherwise)
+  start_date: string | null   // Active period (fixed only), null = open-ended
+  end_date: string | null
+  occurrence_overrides: OccurrenceOverride[]  // Per-occurrence skips/moves/amounts (fixed only)
   created_at: string
   updated_at: string
 }
@@ -101,8 +129,11 @@ interface CreditCardRowBase {
   name: string
   statement_balance: number
   due_day: number
+  closing_day: number | null
+  open_statement_balance: number
   balance_updated_at: string | null
   owner_id: string | null
+  account_id: string | null   // Checking account the bill is paid from, null = default account
   created_at: string
   updated_at: string
 }
@@ -112,6 +143,67 @@ export interface CreditCardRow extends CreditCardRowBase {
   owner: { id: string; name: string } | null
 }
 
+export interface TransferRow {
+  id: string
+  name: string
+  type: 'single_shot' | 'recurring'
+  source_account_id: string
+  destination_account_id: string
+  amount: number
+  date: string | null         // ISO date string, present for single_shot, null for recurring
+  // Recurring schedule (recurring only; null for single_shot)
+  frequency: Frequency | null
+  payment_schedule: PaymentSchedule | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface EventConfirmationRow {
+  id: string
+  source_type: 'project' | 'expense' | 'credit_card'
+  source_id: string
+  occurrence_date: string     // ISO date string the event was scheduled for
+  status: 'confirmed' | 'missed'
+  amount: number | null       // Real amount in cents (confirmed only)
+  date: string | null         // ISO date string the payment happened (confirmed only)
+  created_at: string
+  updated_at: string
+}
+
+export interface SavingsGoalRow {
+  id: string
+  name: string
+  target_amount: number
+  target_date: string         // ISO date string
+  account_id: string | null   // Linked savings/investment account, null = reserved in checking
+  saved_amount: number        // Amount already set aside in cents (goals without a linked account)
+  contribution_day: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface LoanRow {
+  id: string
+  name: string
+  principal: number           // Amount borrowed in cents
+  annual_rate: number         // Effective annual interest rate in percent
+  term_months: number
+  system: 'sac' | 'price'
+  first_due_date: string      // ISO date string
+  account_id: string | null   // Checking account paying the installments, null = default account
+  prepayments: LoanPrepayment[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface GroupPreferenceRow {
+  key: string
+  value: string
+}
+
 // Re-export types for use in hooks
 export type Database = {
   public: {
@@ -120,6 +212,10 @@ export type Database = {
       projects: { Row: ProjectRow }
       expenses: { Row: ExpenseRow }
       credit_cards: { Row: CreditCardRow }
+      transfers: { Row: TransferRow }
+      event_confirmations: { Row: EventConfirmationRow }
+      savings_goals: { Row: SavingsGoalRow }
+      loans: { Row: LoanRow }
       profiles: { Row: ProfileRow }
     }
   }
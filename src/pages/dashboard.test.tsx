@@ -51,6 +51,7 @@ vi.mock('@/hooks/use-finance-data', () => ({
     singleShotExpenses: [],
     creditCards: [],
     futureStatements: [],
+    installmentPurchases: [],
     isLoading: false,
     error: null,
   }),
@@ -89,6 +90,14 @@ vi.mock('@/stores/snapshots-store', () => ({
   }),
 }))
 
+vi.mock('@/stores/finance-store', () => ({
+  useFinanceStore: () => ({
+    updateProject: vi.fn(),
+    updateExpense: vi.fn(),
+    confirmEvent: vi.fn(),
+  }),
+}))
+
 // Mock tour definitions
 vi.mock('@/lib/tours/definitions', () => ({
   getTourDefinition: () => ({
@@ -111,10 +120,26 @@ vi.mock('@/components/cashflow/cashflow-chart', () => ({
   CashflowChart: () => <div data-testid="cashflow-chart">Chart</div>,
 }))
 
+vi.mock('@/components/cashflow/cashflow-agenda', () => ({
+  CashflowAgenda: () => <div data-testid="cashflow-agenda">Agenda</div>,
+}))
+
+vi.mock('@/components/cashflow/occurrence-override-dialog', () => ({
+  OccurrenceOverrideDialog: () => null,
+}))
+
+vi.mock('@/components/cashflow/event-confirmation-dialog', () => ({
+  EventConfirmationDialog: () => null,
+}))
+
 vi.mock('@/components/cashflow/summary-panel', () => ({
   SummaryPanel: () => <div data-testid="summary-panel">Summary</div>,
 }))
 
+vi.mock('@/components/cashflow/savings-goals-progress', () => ({
+  SavingsGoalsProgress: () => <div data-testid="savings-goals-progress">Goals</div>,
+}))
+
 vi.mock('@/components/cashflow/empty-state', () => ({
   EmptyState: ({ onStartSetup }: { onStartSetup: () => void }) => (
     <div data-testid="empty-state">
@@ -177,9 +202,13 @@ function renderDashboard() {
 const defaultCashflowResult: UseCashflowProjectionResult = {
   projection: null,
   estimate: null,
+  simulation: null,
   chartData: [],
   dangerRanges: [],
+  accountLines: [],
   summaryStats: null,
+  goalProgress: [],
+  monthlyStats: [],
   isLoading: false,
   hasData: false,
   error: null,
@@ -317,24 +346,33 @@ describe('Dashboard', () => {
         },
         summaryStats: {
           startingBalance: 1000,
+          safetyThreshold: 0,
           optimistic: {
             totalIncome: 0,
             totalExpenses: 0,
+            totalTaxes: 0,
             endBalance: 1000,
             dangerDayCount: 0,
+            negativeDayCount: 0,
+            beyondLimitDayCount: 0,
             minBalance: 1000,
             minBalanceDate: now,
             surplus: 0,
           },
+          realistic: null,
           pessimistic: {
             totalIncome: 0,
             totalExpenses: 0,
+            totalTaxes: 0,
             endBalance: 1000,
             dangerDayCount: 0,
+            negativeDayCount: 0,
+            beyondLimitDayCount: 0,
             minBalance: 1000,
             minBalanceDate: now,
             surplus: 0,
           },
+          worstRiskDay: null,
         },
         chartData: [
           {
@@ -345,6 +383,7 @@ describe('Dashboard', () => {
             investmentInclusiveBalance: 1100,
             isOptimisticDanger: false,
             isPessimisticDanger: false,
+            accountBalances: {},
             snapshot: {
               date: now,
               dayOffset: 0,
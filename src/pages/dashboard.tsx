@@ -4,6 +4,7 @@
  */
 
 import { useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
 import { useCashflowProjection } from '@/hooks/use-cashflow-projection'
 import { useCoordinatedLoading } from '@/hooks/use-coordinated-loading'
 import { useHealthIndicator } from '@/hooks/use-health-indicator'
@@ -12,8 +13,15 @@ import { usePageTour } from '@/hooks/use-page-tour'
 import { useOnboardingStore } from '@/stores/onboarding-store'
 import { usePreferencesStore } from '@/stores/preferences-store'
 import { useSnapshotsStore } from '@/stores/snapshots-store'
+import { useFinanceStore } from '@/stores/finance-store'
 import { CashflowChart } from '@/components/cashflow/cashflow-chart'
+import { CashflowAgenda } from '@/components/cashflow/cashflow-agenda'
+import { OccurrenceOverrideDialog } from '@/components/cashflow/occurrence-override-dialog'
+import { getAgendaItems, type AgendaItem } from '@/components/cashflow/agenda-items'
+import { EventConfirmationDialog } from '@/components/cashflow/event-confirmation-dialog'
 import { SummaryPanel } from '@/components/cashflow/summary-panel'
+import { SavingsGoalsProgress } from '@/components/cashflow/savings-goals-progress'
+import { MonthlySummaryTable } from '@/components/cashflow/monthly-summary-table'
 import { HealthIndicator } from '@/components/cashflow/health-indicator'
 import { ProjectionSelector } from '@/components/cashflow/projection-selector'
 import { EmptyState } from '@/components/cashflow/empty-state'
@@ -28,13 +36,24 @@ import { useToast } from '@/hooks/use-toast'
 import { cn } from '@/lib/utils'
 import { getTourDefinition } from '@/lib/tours/definitions'
 import { captureEvent } from '@/lib/analytics/posthog'
-import type { ProjectionDays } from '@/types'
+import type { UnconfirmedEvent } from '@/lib/cashflow'
+import {
+  removeOccurrenceOverride,
+  upsertOccurrenceOverride,
+  type EventConfirmationInput,
+  type OccurrenceOverride,
+  type ProjectionDays,
+} from '@/types'
 import { DEFAULT_LINE_VISIBILITY, type LineVisibility } from '@/components/cashflow/types'
 
 export function Dashboard() {
   const [showQuickUpdate, setShowQuickUpdate] = useState(false)
   const [showSaveSnapshot, setShowSaveSnapshot] = useState(false)
   const [chartVisibility, setChartVisibility] = useState<LineVisibility>(DEFAULT_LINE_VISIBILITY)
+  const [selectedAgendaDate, setSelectedAgendaDate] = useState<Date | null>(null)
+  const [selectedOccurrence, setSelectedOccurrence] = useState<AgendaItem | null>(null)
+  const [reviewedEvent, setReviewedEvent] = useState<UnconfirmedEvent | null>(null)
+  const agendaRef = useRef<HTMLDivElement>(null)
   const hasTrackedProjectionView = useRef(false)
   const { projectionDays, setProjectionDays } = usePreferencesStore()
   const { openWizard } = useOnboardingStore()
@@ -52,7 +71,10 @@ export function Dashboard() {
     estimate,
     chartData,
     dangerRanges,
+    accountLines,
     summaryStats,
+    goalProgress,
+    monthlyStats,
     isLoading,
     hasData,
     error,
@@ -62,6 +84,9 @@ export function Dashboard() {
   // Snapshots store
   const { createSnapshot, isLoading: isSnapshotLoading } = useSnapshotsStore()
 
+  // Occurrence overrides are saved on the recurring item itself
+  const { updateProject, updateExpense, confirmEvent } = useFinanceStore()
+
   // Coordinated loading state for smooth transitions
   const loadingState = useCoordinatedLoading(
     isLoading,
@@ -71,6 +96,14 @@ export function Dashboard() {
 
   const healthIndicator = useHealthIndicator(summaryStats)
 
+  const agendaItems = useMemo(
+    () =>
+      projection
+        ? getAgendaItems(projection.days, financeData.projects, financeData.fixedExpenses)
+        : [],
+    [projection, financeData.projects, financeData.fixedExpenses]
+  )
+
   const activeScenario = useMemo<'optimistic' | 'pessimistic'>(() => {
     if (chartVisibility.optimistic && !chartVisibility.pessimistic) return 'optimistic'
     if (chartVisibility.pessimistic && !chartVisibility.optimistic) return 'pessimistic'
@@ -108,6 +141,11 @@ export function Dashboard() {
         singleShotExpenses: financeData.singleShotExpenses,
         creditCards: financeData.creditCards,
         futureStatements: financeData.futureStatements,
+        installmentPurchases: financeData.installmentPurchases,
+        transfers: financeData.transfers,
+        eventConfirmations: financeData.eventConfirmations,
+        savingsGoals: financeData.savingsGoals,
+        loans: financeData.loans,
         projectionDays: projection.days.length as ProjectionDays,
       },
       projection,
@@ -125,6 +163,60 @@ export function Dashboard() {
     return result
   }
 
+  // Replace the overrides of the selected occurrence's item
+  const saveOccurrenceOverrides = async (
+    item: AgendaItem,
+    getOverrides: (overrides: OccurrenceOverride[]) => OccurrenceOverride[]
+  ) => {
+    const source =
+      item.sourceType === 'project'
+        ? financeData.projects.find((project) => project.id === item.sourceId)
+        : financeData.fixedExpenses.find((expense) => expense.id === item.sourceId)
+    if (!source) {
+      return { success: false, error: 'Item não encontrado' }
+    }
+
+    const input = { occurrenceOverrides: getOverrides(source.occurrenceOverrides ?? []) }
+    const result =
+      item.sourceType === 'project'
+        ? await updateProject(item.sourceId, input)
+        : await updateExpense(item.sourceId, input)
+
+    if (result.success) {
+      showSuccess('Ajuste salvo')
+    }
+    return result
+  }
+
+  // Reconcile a past event (confirmed or not happened)
+  const handleSaveEventConfirmation = async (input: EventConfirmationInput) => {
+    const result = await confirmEvent(input)
+    if (result.success) {
+      showSuccess(input.status === 'confirmed' ? 'Evento confirmado' : 'Evento marcado como não ocorrido')
+    }
+    return result
+  }
+
+  // Quick confirmation with the projected amount and date
+  const handleConfirmEvent = async (event: UnconfirmedEvent) => {
+    const result = await handleSaveEventConfirmation({
+      sourceType: event.sourceType,
+      sourceId: event.sourceId,
+      occurrenceDate: event.occurrenceDate,
+      status: 'confirmed',
+      amount: event.amount,
+      date: event.date,
+    })
+    if (!result.success) {
+      showError(result.error, () => handleConfirmEvent(event))
+    }
+  }
+
+  const handleDayClick = (date: Date) => {
+    setSelectedAgendaDate(date)
+    agendaRef.current?.scrollIntoView?.({ behavior: 'smooth', block: 'start' })
+  }
+
   // Empty state check (after loading complete)
   if (!loadingState.showSkeleton && !loadingState.showError && !hasData) {
     return (
@@ -186,6 +278,7 @@ export function Dashboard() {
             <HealthIndicator
               status={healthIndicator.status}
               message={healthIndicator.message}
+              reason={healthIndicator.reason}
               isStale={healthIndicator.isStale}
               staleCount={healthIndicator.staleEntities.length}
               onStaleClick={() => setShowQuickUpdate(true)}
@@ -220,6 +313,9 @@ export function Dashboard() {
             <EstimatedBalanceIndicator
               base={estimate.base}
               onUpdateBalances={() => setShowQuickUpdate(true)}
+              unconfirmedEvents={estimate.unconfirmedEvents}
+              onConfirmEvent={handleConfirmEvent}
+              onReviewEvent={setReviewedEvent}
             />
           )}
 
@@ -230,12 +326,36 @@ export function Dashboard() {
             </div>
           )}
 
+          {/* Savings goals progress */}
+          {goalProgress.length > 0 && <SavingsGoalsProgress goals={goalProgress} />}
+
           {/* Cashflow Chart */}
           <div data-tour="cashflow-chart">
             <CashflowChart
               chartData={chartData}
               dangerRanges={dangerRanges}
+              accountLines={accountLines}
+              safetyThreshold={summaryStats?.safetyThreshold}
               onVisibilityChange={setChartVisibility}
+              onDayClick={handleDayClick}
+            />
+          </div>
+
+          {/* Month-by-month totals on the 6 and 12-month projections (aggregated chart) */}
+          {chartData[0]?.bucket && monthlyStats.length > 0 && (
+            <MonthlySummaryTable
+              months={monthlyStats}
+              safetyThreshold={summaryStats?.safetyThreshold}
+            />
+          )}
+
+          {/* Recurring occurrences, adjustable one at a time */}
+          <div ref={agendaRef}>
+            <CashflowAgenda
+              items={agendaItems}
+              selectedDate={selectedAgendaDate}
+              onClearSelectedDate={() => setSelectedAgendaDate(null)}
+              onSelectItem={setSelectedOccurrence}
             />
           </div>
         </div>
@@ -257,6 +377,42 @@ export function Dashboard() {
         isLoading={isSnapshotLoading}
       />
 
+      {/* Occurrence Override Dialog */}
+      {selectedOccurrence && (
+        <OccurrenceOverrideDialog
+          key={`${selectedOccurrence.sourceId}-${selectedOccurrence.occurrenceDate.getTime()}`}
+          item={selectedOccurrence}
+          onOpenChange={(open) => {
+            if (!open) setSelectedOccurrence(null)
+          }}
+          onSave={(override) =>
+            saveOccurrenceOverrides(selectedOccurrence, (overrides) =>
+              upsertOccurrenceOverride(overrides, override)
+            )
+          }
+          onRemove={() =>
+            saveOccurrenceOverrides(selectedOccurrence, (overrides) =>
+              removeOccurrenceOverride(
+                overrides,
+                format(selectedOccurrence.occurrenceDate, 'yyyy-MM-dd')
+              )
+            )
+          }
+        />
+      )}
+
+      {/* Event Confirmation Dialog */}
+      {reviewedEvent && (
+        <EventConfirmationDialog
+          key={`${reviewedEvent.sourceId}-${reviewedEvent.occurrenceDate.getTime()}`}
+          event={reviewedEvent}
+          onOpenChange={(open) => {
+            if (!open) setReviewedEvent(null)
+          }}
+          onSave={handleSaveEventConfirmation}
+        />
+      )}
+
       {/* Toast notifications */}
       {toast && (
         <Toast
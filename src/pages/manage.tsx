@@ -25,16 +25,24 @@ import { TourRunner } from '@/components/tours'
 import { getTourDefinition } from '@/lib/tours/definitions'
 import { AccountList } from '@/components/manage/accounts/account-list'
 import { AccountForm } from '@/components/manage/accounts/account-form'
+import { TransferList } from '@/components/manage/accounts/transfer-list'
+import { TransferForm } from '@/components/manage/accounts/transfer-form'
+import { SavingsGoalList } from '@/components/manage/accounts/savings-goal-list'
+import { SavingsGoalForm } from '@/components/manage/accounts/savings-goal-form'
 import { ProjectSection } from '@/components/manage/projects/project-section'
 import { ProjectForm } from '@/components/manage/projects/project-form'
 import { SingleShotIncomeForm } from '@/components/manage/projects/single-shot-income-form'
 import { ExpenseForm } from '@/components/manage/expenses/expense-form'
 import { ExpenseSection } from '@/components/manage/expenses/expense-section'
+import { LoanList } from '@/components/manage/expenses/loan-list'
+import { LoanForm } from '@/components/manage/expenses/loan-form'
+import { LoanSchedule } from '@/components/manage/expenses/loan-schedule'
+import { buildAmortizationSchedule } from '@/lib/cashflow/loans'
 import { SingleShotExpenseForm } from '@/components/manage/expenses/single-shot-expense-form'
 import { CreditCardList } from '@/components/manage/credit-cards/credit-card-list'
 import { CreditCardForm } from '@/components/manage/credit-cards/credit-card-form'
 import { DeleteConfirmation } from '@/components/manage/shared/delete-confirmation'
-import { MembersList } from '@/components/group'
+import { CdiRateCard, MembersList, SafetyThresholdCard } from '@/components/group'
 import { PageLoadingWrapper, ManageSkeleton, SkeletonLine } from '@/components/loading'
 import { BillingManagementCard } from '@/components/billing/billing-management-card'
 import { cn } from '@/lib/utils'
@@ -50,6 +58,15 @@ import type {
   CreditCard,
   CreditCardInput,
   FutureStatementInput,
+  InstallmentPurchaseInput,
+  PaymentDelay,
+  TaxProfile,
+  Transfer,
+  TransferInput,
+  SavingsGoal,
+  SavingsGoalInput,
+  Loan,
+  LoanInput,
 } from '@/types'
 
 type TabValue = 'accounts' | 'projects' | 'expenses' | 'cards' | 'group'
@@ -58,6 +75,10 @@ type DialogState =
   | { type: 'none' }
   | { type: 'add-account' }
   | { type: 'edit-account'; account: BankAccount }
+  | { type: 'add-transfer' }
+  | { type: 'edit-transfer'; transfer: Transfer }
+  | { type: 'add-savings-goal' }
+  | { type: 'edit-savings-goal'; goal: SavingsGoal }
   | { type: 'add-project' }
   | { type: 'edit-project'; project: Project }
   | { type: 'add-single-shot-income' }
@@ -66,16 +87,22 @@ type DialogState =
   | { type: 'edit-expense'; expense: FixedExpense }
   | { type: 'add-single-shot-expense' }
   | { type: 'edit-single-shot-expense'; expense: SingleShotExpense }
+  | { type: 'add-loan' }
+  | { type: 'edit-loan'; loan: Loan }
+  | { type: 'view-loan-schedule'; loan: Loan }
   | { type: 'add-card' }
   | { type: 'edit-card'; card: CreditCard }
 
 type DeleteState =
   | { type: 'none' }
   | { type: 'account'; id: string; name: string }
+  | { type: 'transfer'; id: string; name: string }
+  | { type: 'savings-goal'; id: string; name: string }
   | { type: 'project'; id: string; name: string }
   | { type: 'single-shot-income'; id: string; name: string }
   | { type: 'expense'; id: string; name: string }
   | { type: 'single-shot-expense'; id: string; name: string }
+  | { type: 'loan'; id: string; name: string }
   | { type: 'card'; id: string; name: string }
 
 export function ManagePage() {
@@ -108,7 +135,12 @@ export function ManagePage() {
     singleShotExpenses,
     creditCards,
     futureStatements,
+    installmentPurchases,
+    transfers,
+    savingsGoals,
+    loans,
     profiles,
+    financeSettings,
     isLoading,
     error: fetchError,
     retry,
@@ -292,6 +324,229 @@ export function ManagePage() {
     }
   }
 
+  // Transfer handlers
+  const handleAddTransfer = async (data: TransferInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.addTransfer(data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to add transfer:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUpdateTransfer = async (id: string, data: TransferInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.updateTransfer(id, data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to update transfer:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteTransfer = async () => {
+    if (deleteState.type !== 'transfer') return
+    setIsDeleting(true)
+    setError(null)
+    try {
+      const result = await store.deleteTransfer(deleteState.id, analyticsMeta)
+      if (result.success) {
+        closeDeleteDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to delete transfer:', err)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleToggleTransferActive = async (transfer: Transfer) => {
+    const input: TransferInput = {
+      type: transfer.type,
+      name: transfer.name,
+      sourceAccountId: transfer.sourceAccountId,
+      destinationAccountId: transfer.destinationAccountId,
+      amount: transfer.amount,
+      date: transfer.date,
+      frequency: transfer.frequency,
+      paymentSchedule: transfer.paymentSchedule,
+      isActive: !transfer.isActive,
+    }
+    const result = await store.updateTransfer(transfer.id, input, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to toggle transfer:', result.error)
+    }
+  }
+
+  // Savings goal handlers
+  const handleAddSavingsGoal = async (data: SavingsGoalInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.addSavingsGoal(data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to add savings goal:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUpdateSavingsGoal = async (id: string, data: SavingsGoalInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.updateSavingsGoal(id, data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to update savings goal:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteSavingsGoal = async () => {
+    if (deleteState.type !== 'savings-goal') return
+    setIsDeleting(true)
+    setError(null)
+    try {
+      const result = await store.deleteSavingsGoal(deleteState.id, analyticsMeta)
+      if (result.success) {
+        closeDeleteDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to delete savings goal:', err)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleToggleSavingsGoalActive = async (goal: SavingsGoal) => {
+    const input: SavingsGoalInput = {
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      targetDate: goal.targetDate,
+      accountId: goal.accountId,
+      savedAmount: goal.savedAmount,
+      contributionDay: goal.contributionDay,
+      isActive: !goal.isActive,
+    }
+    const result = await store.updateSavingsGoal(goal.id, input, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to toggle savings goal:', result.error)
+    }
+  }
+
+  // Loan handlers
+  const handleAddLoan = async (data: LoanInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.addLoan(data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to add loan:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleUpdateLoan = async (id: string, data: LoanInput) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const result = await store.updateLoan(id, data, analyticsMeta)
+      if (result.success) {
+        closeDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to update loan:', err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleDeleteLoan = async () => {
+    if (deleteState.type !== 'loan') return
+    setIsDeleting(true)
+    setError(null)
+    try {
+      const result = await store.deleteLoan(deleteState.id, analyticsMeta)
+      if (result.success) {
+        closeDeleteDialog()
+      } else {
+        setError(result.error)
+      }
+    } catch (err) {
+      setError('Ocorreu um erro inesperado')
+      console.error('Failed to delete loan:', err)
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const handleToggleLoanActive = async (loan: Loan) => {
+    const input: LoanInput = {
+      name: loan.name,
+      principal: loan.principal,
+      annualRate: loan.annualRate,
+      termMonths: loan.termMonths,
+      system: loan.system,
+      firstDueDate: loan.firstDueDate,
+      accountId: loan.accountId,
+      prepayments: loan.prepayments,
+      isActive: !loan.isActive,
+    }
+    const result = await store.updateLoan(loan.id, input, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to toggle loan:', result.error)
+    }
+  }
+
   // Project handlers
   const handleAddProject = async (data: ProjectInput) => {
     setIsSubmitting(true)
@@ -356,7 +611,7 @@ export function ManagePage() {
   }
 
   // Single-shot income handlers
-  const handleAddSingleShotIncome = async (data: { name: string; amount: number; date: Date; certainty: 'guaranteed' | 'probable' | 'uncertain' }) => {
+  const handleAddSingleShotIncome = async (data: { name: string; amount: number; date: Date; certainty: 'guaranteed' | 'probable' | 'uncertain'; accountId: string | null; paymentDelay: PaymentDelay | null; taxProfile: TaxProfile | null }) => {
     setIsSubmitting(true)
     setError(null)
     try {
@@ -377,7 +632,7 @@ export function ManagePage() {
     }
   }
 
-  const handleUpdateSingleShotIncome = async (id: string, data: { name: string; amount: number; date: Date; certainty: 'guaranteed' | 'probable' | 'uncertain' }) => {
+  const handleUpdateSingleShotIncome = async (id: string, data: { name: string; amount: number; date: Date; certainty: 'guaranteed' | 'probable' | 'uncertain'; accountId: string | null; paymentDelay: PaymentDelay | null; taxProfile: TaxProfile | null }) => {
     setIsSubmitting(true)
     setError(null)
     try {
@@ -480,7 +735,7 @@ export function ManagePage() {
   }
 
   // Single-shot expense handlers
-  const handleAddSingleShotExpense = async (data: { name: string; amount: number; date: Date }) => {
+  const handleAddSingleShotExpense = async (data: { name: string; amount: number; date: Date; accountId: string | null }) => {
     setIsSubmitting(true)
     setError(null)
     try {
@@ -501,7 +756,7 @@ export function ManagePage() {
     }
   }
 
-  const handleUpdateSingleShotExpense = async (id: string, data: { name: string; amount: number; date: Date }) => {
+  const handleUpdateSingleShotExpense = async (id: string, data: { name: string; amount: number; date: Date; accountId: string | null }) => {
     setIsSubmitting(true)
     setError(null)
     try {
@@ -603,6 +858,13 @@ export function ManagePage() {
     }
   }
 
+  const handleUpdateCreditCardOpenBalance = async (id: string, balance: number) => {
+    const result = await store.updateCreditCard(id, { openStatementBalance: balance }, analyticsMeta)
+    if (!result.success) {
+      console.error('Failed to update open statement balance:', result.error)
+    }
+  }
+
   // Future statement handlers
   const handleAddFutureStatement = async (data: FutureStatementInput) => {
     const result = await store.addFutureStatement(data, analyticsMeta)
@@ -628,11 +890,40 @@ export function ManagePage() {
     }
   }
 
+  // Installment purchase handlers
+  const handleAddInstallmentPurchase = async (data: InstallmentPurchaseInput) => {
+    const result = await store.addInstallmentPurchase(data, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to add installment purchase:', result.error)
+    }
+  }
+
+  const handleUpdateInstallmentPurchase = async (id: string, data: InstallmentPurchaseInput) => {
+    const result = await store.updateInstallmentPurchase(id, data, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to update installment purchase:', result.error)
+    }
+  }
+
+  const handleDeleteInstallmentPurchase = async (id: string) => {
+    const result = await store.deleteInstallmentPurchase(id, analyticsMeta)
+    if (!result.success) {
+      setError(result.error)
+      console.error('Failed to delete installment purchase:', result.error)
+    }
+  }
+
   // Delete confirmation handler
   const handleDeleteConfirm = async () => {
     switch (deleteState.type) {
       case 'account':
         return handleDeleteAccount()
+      case 'transfer':
+        return handleDeleteTransfer()
+      case 'savings-goal':
+        return handleDeleteSavingsGoal()
       case 'project':
         return handleDeleteProject()
       case 'single-shot-income':
@@ -641,6 +932,8 @@ export function ManagePage() {
         return handleDeleteExpense()
       case 'single-shot-expense':
         return handleDeleteSingleShotExpense()
+      case 'loan':
+        return handleDeleteLoan()
       case 'card':
         return handleDeleteCreditCard()
     }
@@ -785,6 +1078,40 @@ export function ManagePage() {
                   onUpdateBalance={handleUpdateAccountBalance}
                   onStartSetup={openWizard}
                 />
+                {accounts.length > 0 && (
+                  <div className="mt-8">
+                    <TransferList
+                      transfers={transfers}
+                      accounts={accounts}
+                      onAdd={() => setDialogState({ type: 'add-transfer' })}
+                      onEdit={(transfer) => setDialogState({ type: 'edit-transfer', transfer })}
+                      onDelete={(id) => {
+                        const transfer = transfers.find((t) => t.id === id)
+                        if (transfer) {
+                          setDeleteState({ type: 'transfer', id, name: transfer.name })
+                        }
+                      }}
+                      onToggleActive={handleToggleTransferActive}
+                    />
+                  </div>
+                )}
+                {accounts.length > 0 && (
+                  <div className="mt-8">
+                    <SavingsGoalList
+                      goals={savingsGoals}
+                      accounts={accounts}
+                      onAdd={() => setDialogState({ type: 'add-savings-goal' })}
+                      onEdit={(goal) => setDialogState({ type: 'edit-savings-goal', goal })}
+                      onDelete={(id) => {
+                        const goal = savingsGoals.find((g) => g.id === id)
+                        if (goal) {
+                          setDeleteState({ type: 'savings-goal', id, name: goal.name })
+                        }
+                      }}
+                      onToggleActive={handleToggleSavingsGoalActive}
+                    />
+                  </div>
+                )}
               </motion.div>
             </AnimatePresence>
           </TabsContent>
@@ -855,6 +1182,21 @@ export function ManagePage() {
                   onToggleFixedActive={handleToggleExpenseActive}
                   onStartSetup={openWizard}
                 />
+                <div className="mt-8">
+                  <LoanList
+                    loans={loans}
+                    onAdd={() => setDialogState({ type: 'add-loan' })}
+                    onEdit={(loan) => setDialogState({ type: 'edit-loan', loan })}
+                    onDelete={(id) => {
+                      const loan = loans.find((l) => l.id === id)
+                      if (loan) {
+                        setDeleteState({ type: 'loan', id, name: loan.name })
+                      }
+                    }}
+                    onToggleActive={handleToggleLoanActive}
+                    onViewSchedule={(loan) => setDialogState({ type: 'view-loan-schedule', loan })}
+                  />
+                </div>
               </motion.div>
             </AnimatePresence>
           </TabsContent>
@@ -871,6 +1213,7 @@ export function ManagePage() {
                 <CreditCardList
                   creditCards={creditCards}
                   futureStatements={futureStatements}
+                  installmentPurchases={installmentPurchases}
                   profiles={profiles}
                   onAdd={() => setDialogState({ type: 'add-card' })}
                   onEdit={(card) => setDialogState({ type: 'edit-card', card })}
@@ -881,9 +1224,13 @@ export function ManagePage() {
                     }
                   }}
                   onUpdateBalance={handleUpdateCreditCardBalance}
+                  onUpdateOpenBalance={handleUpdateCreditCardOpenBalance}
                   onAddFutureStatement={handleAddFutureStatement}
                   onUpdateFutureStatement={handleUpdateFutureStatement}
                   onDeleteFutureStatement={handleDeleteFutureStatement}
+                  onAddInstallmentPurchase={handleAddInstallmentPurchase}
+                  onUpdateInstallmentPurchase={handleUpdateInstallmentPurchase}
+                  onDeleteInstallmentPurchase={handleDeleteInstallmentPurchase}
                   onStartSetup={openWizard}
                 />
               </motion.div>
@@ -901,6 +1248,14 @@ export function ManagePage() {
               >
                 <div className="space-y-4">
                   <BillingManagementCard />
+                  <SafetyThresholdCard
+                    key={financeSettings.safetyThreshold}
+                    safetyThreshold={financeSettings.safetyThreshold}
+                  />
+                  <CdiRateCard
+                    key={financeSettings.cdiAnnualRate}
+                    cdiAnnualRate={financeSettings.cdiAnnualRate}
+                  />
                   <Card>
                     <CardHeader>
                       <CardTitle>Membros do Grupo</CardTitle>
@@ -1008,6 +1363,104 @@ export function ManagePage() {
         </DialogContent>
       </Dialog>
 
+      {/* Transfer Dialog */}
+      <Dialog
+        open={dialogState.type === 'add-transfer' || dialogState.type === 'edit-transfer'}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialogState.type === 'edit-transfer' ? 'Editar Transferência' : 'Adicionar Transferência'}
+            </DialogTitle>
+          </DialogHeader>
+          <TransferForm
+            transfer={dialogState.type === 'edit-transfer' ? dialogState.transfer : undefined}
+            accounts={accounts}
+            onSubmit={async (data) => {
+              if (dialogState.type === 'edit-transfer') {
+                await handleUpdateTransfer(dialogState.transfer.id, data)
+              } else {
+                await handleAddTransfer(data)
+              }
+            }}
+            onCancel={closeDialog}
+            isSubmitting={isSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Savings Goal Dialog */}
+      <Dialog
+        open={dialogState.type === 'add-savings-goal' || dialogState.type === 'edit-savings-goal'}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialogState.type === 'edit-savings-goal' ? 'Editar Meta' : 'Adicionar Meta'}
+            </DialogTitle>
+          </DialogHeader>
+          <SavingsGoalForm
+            goal={dialogState.type === 'edit-savings-goal' ? dialogState.goal : undefined}
+            accounts={accounts}
+            onSubmit={async (data) => {
+              if (dialogState.type === 'edit-savings-goal') {
+                await handleUpdateSavingsGoal(dialogState.goal.id, data)
+              } else {
+                await handleAddSavingsGoal(data)
+              }
+            }}
+            onCancel={closeDialog}
+            isSubmitting={isSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Loan Dialog */}
+      <Dialog
+        open={dialogState.type === 'add-loan' || dialogState.type === 'edit-loan'}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {dialogState.type === 'edit-loan' ? 'Editar Financiamento' : 'Adicionar Financiamento'}
+            </DialogTitle>
+          </DialogHeader>
+          <LoanForm
+            loan={dialogState.type === 'edit-loan' ? dialogState.loan : undefined}
+            accounts={accounts}
+            onSubmit={async (data) => {
+              if (dialogState.type === 'edit-loan') {
+                await handleUpdateLoan(dialogState.loan.id, data)
+              } else {
+                await handleAddLoan(data)
+              }
+            }}
+            onCancel={closeDialog}
+            isSubmitting={isSubmitting}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Loan Schedule Dialog */}
+      <Dialog
+        open={dialogState.type === 'view-loan-schedule'}
+        onOpenChange={(open) => !open && closeDialog()}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              {dialogState.type === 'view-loan-schedule' ? `Parcelas: ${dialogState.loan.name}` : 'Parcelas'}
+            </DialogTitle>
+          </DialogHeader>
+          {dialogState.type === 'view-loan-schedule' && (
+            <LoanSchedule schedule={buildAmortizationSchedule(dialogState.loan)} />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Project Dialog */}
       <Dialog
         open={dialogState.type === 'add-project' || dialogState.type === 'edit-project'}
@@ -1021,6 +1474,7 @@ export function ManagePage() {
           </DialogHeader>
           <ProjectForm
             project={dialogState.type === 'edit-project' ? dialogState.project : undefined}
+            accounts={accounts}
             onSubmit={async (data) => {
               if (dialogState.type === 'edit-project') {
                 await handleUpdateProject(dialogState.project.id, data)
@@ -1047,6 +1501,7 @@ export function ManagePage() {
           </DialogHeader>
           <SingleShotIncomeForm
             income={dialogState.type === 'edit-single-shot-income' ? dialogState.income : undefined}
+            accounts={accounts}
             onSubmit={async (data) => {
               if (dialogState.type === 'edit-single-shot-income') {
                 await handleUpdateSingleShotIncome(dialogState.income.id, data)
@@ -1073,6 +1528,7 @@ export function ManagePage() {
           </DialogHeader>
           <ExpenseForm
             expense={dialogState.type === 'edit-expense' ? dialogState.expense : undefined}
+            accounts={accounts}
             onSubmit={async (data) => {
               if (dialogState.type === 'edit-expense') {
                 await handleUpdateExpense(dialogState.expense.id, data)
@@ -1099,6 +1555,7 @@ export function ManagePage() {
           </DialogHeader>
           <SingleShotExpenseForm
             expense={dialogState.type === 'edit-single-shot-expense' ? dialogState.expense : undefined}
+            accounts={accounts}
             onSubmit={async (data) => {
               if (dialogState.type === 'edit-single-shot-expense') {
                 await handleUpdateSingleShotExpense(dialogState.expense.id, data)
@@ -1126,6 +1583,7 @@ export function ManagePage() {
           <CreditCardForm
             card={dialogState.type === 'edit-card' ? dialogState.card : undefined}
             profiles={profiles}
+            accounts={accounts}
             onSubmit={async (data) => {
               if (dialogState.type === 'edit-card') {
                 await handleUpdateCreditCard(dialogState.card.id, data)
@@ -1157,7 +1615,13 @@ export function ManagePage() {
                     ? 'Despesa Pontual'
                     : deleteState.type === 'card'
                       ? 'Cartão de Crédito'
-                      : ''
+                      : deleteState.type === 'transfer'
+                        ? 'Transferência'
+                        : deleteState.type === 'savings-goal'
+                          ? 'Meta'
+                          : deleteState.type === 'loan'
+                            ? 'Financiamento'
+                            : ''
         }
         onConfirm={handleDeleteConfirm}
         isDeleting={isDeleting}
@@ -52,7 +52,7 @@ export function SnapshotDetailPage() {
   }, [currentSnapshot])
 
   // Transform snapshot data for chart/summary
-  const { chartData, dangerRanges, summaryStats } = useSnapshotProjection(currentSnapshot)
+  const { chartData, dangerRanges, accountLines, summaryStats } = useSnapshotProjection(currentSnapshot)
 
   // Handle delete
   const handleDelete = async () => {
@@ -165,7 +165,12 @@ export function SnapshotDetailPage() {
         {summaryStats && <SummaryPanel stats={summaryStats} />}
 
         {/* Cashflow Chart */}
-        <CashflowChart chartData={chartData} dangerRanges={dangerRanges} />
+        <CashflowChart
+          chartData={chartData}
+          dangerRanges={dangerRanges}
+          accountLines={accountLines}
+          safetyThreshold={summaryStats?.safetyThreshold}
+        />
       </div>
 
       {/* Delete confirmation dialog */}
@@ -19,6 +19,7 @@ import { notifyFinanceDataInvalidated } from '../lib/finance-data-events'
 // Track mock calls for assertions
 const mockInsertCalls: unknown[] = []
 const mockUpdateCalls: unknown[] = []
+const mockUpsertCalls: unknown[] = []
 
 // Mock response state
 let mockInsertResponse: { data: Record<string, unknown>; error: unknown } = {
@@ -41,6 +42,10 @@ function createQueryBuilder() {
       mockUpdateCalls.push(data)
       return builder
     }),
+    upsert: vi.fn((data: unknown) => {
+      mockUpsertCalls.push(data)
+      return Promise.resolve({ error: null })
+    }),
     delete: vi.fn(() => builder),
     select: vi.fn(() => builder),
     eq: vi.fn(() => {
@@ -90,6 +95,7 @@ function resetMocks() {
   vi.clearAllMocks()
   mockInsertCalls.length = 0
   mockUpdateCalls.length = 0
+  mockUpsertCalls.length = 0
   mockInsertResponse = { data: { id: 'test-id' }, error: null }
   mockUpdateResponse = { error: null, count: 1 }
   mockGroupId = 'test-group-id'
@@ -385,6 +391,25 @@ describe('Bank Account Actions - Validation', () => {
       expect(result.success).toBe(true)
     })
 
+    it('stores the yield of an investment account', async () => {
+      const result = await useFinanceStore.getState().addAccount({
+        name: 'CDB',
+        type: 'investment',
+        balance: 500000,
+        ownerId: null,
+        yieldType: 'cdi',
+        yieldRate: 110,
+        yieldIncomeTax: true,
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockInsertCalls[0]).toMatchObject({
+        yield_type: 'cdi',
+        yield_rate: 110,
+        yield_income_tax: true,
+      })
+    })
+
     it('sets balance_updated_at to current time on creation', async () => {
       const beforeCreate = new Date()
       
@@ -421,6 +446,15 @@ describe('Bank Account Actions - Validation', () => {
       }
     })
 
+    it('accepts a negative balance inside the overdraft limit in update', async () => {
+      const result = await useFinanceStore.getState().updateAccount('account-id', {
+        balance: -500,
+        overdraftLimit: 100000,
+      })
+
+      expect(result.success).toBe(true)
+    })
+
     it('returns validation error for empty name in update', async () => {
       const result = await useFinanceStore.getState().updateAccount('account-id', {
         name: '',
@@ -593,6 +627,39 @@ describe('Project Actions - Validation', () => {
       expect(result.success).toBe(true)
     })
 
+    it('stores the tax profile of the income', async () => {
+      const result = await useFinanceStore.getState().addProject({
+        type: 'recurring',
+        name: 'Consultoria',
+        amount: 1000000,
+        frequency: 'monthly',
+        paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+        certainty: 'guaranteed',
+        isActive: true,
+        taxProfile: { type: 'simples', annex: 'III', annualRevenue: 12000000 },
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockInsertCalls[0]).toMatchObject({
+        tax_profile: { type: 'simples', annex: 'III', annualRevenue: 12000000 },
+      })
+    })
+
+    it('validates the flat tax rate range (0-100)', async () => {
+      const result = await useFinanceStore.getState().addProject({
+        type: 'recurring',
+        name: 'Consultoria',
+        amount: 1000000,
+        frequency: 'monthly',
+        paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+        certainty: 'guaranteed',
+        isActive: true,
+        taxProfile: { type: 'flat', rate: 120 },
+      })
+
+      expect(result.success).toBe(false)
+    })
+
     it('validates day of month range (1-31)', async () => {
       const result = await useFinanceStore.getState().addProject({
         type: 'recurring',
@@ -665,6 +732,57 @@ describe('Balance Update Actions - markAllBalancesUpdated', () => {
   })
 })
 
+// =============================================================================
+// GROUP FINANCE SETTINGS ACTIONS
+// =============================================================================
+
+describe('Finance Settings Actions - updateFinanceSettings', () => {
+  beforeEach(resetMocks)
+
+  it('upserts the safety threshold into group_preferences', async () => {
+    const result = await useFinanceStore.getState().updateFinanceSettings({ safetyThreshold: 200000 })
+
+    expect(result.success).toBe(true)
+    expect(mockUpsertCalls).toHaveLength(1)
+    expect(mockUpsertCalls[0]).toEqual([
+      expect.objectContaining({
+        group_id: 'test-group-id',
+        key: 'safety_threshold',
+        value: '200000',
+      }),
+    ])
+    expect(vi.mocked(notifyFinanceDataInvalidated)).toHaveBeenCalledTimes(1)
+  })
+
+  it('upserts the CDI rate without touching the safety threshold', async () => {
+    const result = await useFinanceStore.getState().updateFinanceSettings({ cdiAnnualRate: 10.65 })
+
+    expect(result.success).toBe(true)
+    expect(mockUpsertCalls[0]).toEqual([
+      expect.objectContaining({ key: 'cdi_annual_rate', value: '10.65' }),
+    ])
+  })
+
+  it('rejects a negative safety threshold', async () => {
+    const result = await useFinanceStore.getState().updateFinanceSettings({ safetyThreshold: -100 })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBe('Validation failed')
+    }
+    expect(mockUpsertCalls).toHaveLength(0)
+  })
+
+  it('fails when the group cannot be identified', async () => {
+    mockGroupId = null
+
+    const result = await useFinanceStore.getState().updateFinanceSettings({ safetyThreshold: 100000 })
+
+    expect(result.success).toBe(false)
+    expect(mockUpsertCalls).toHaveLength(0)
+  })
+})
+
 // =============================================================================
 // FIXED EXPENSE VALIDATION TESTS
 // =============================================================================
@@ -886,6 +1004,34 @@ describe('Credit Card Actions - Validation', () => {
       expect(updateData.name).toBe('New Card Name')
       expect(updateData.balance_updated_at).toBeUndefined()
     })
+
+    it('starts the statement cycle when a closing day is set', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date(2025, 5, 10, 12))
+
+      await useFinanceStore.getState().updateCreditCard('card-id', {
+        closingDay: 28,
+        openStatementBalance: 20000,
+      })
+
+      vi.useRealTimers()
+
+      expect(mockUpdateCalls.length).toBe(1)
+      const updateData = mockUpdateCalls[0] as Record<string, unknown>
+      expect(updateData.closing_day).toBe(28)
+      expect(updateData.open_statement_balance).toBe(20000)
+      expect(updateData.statement_closed_on).toBe('2025-05-28')
+    })
+
+    it('clears the statement cycle when the closing day is removed', async () => {
+      await useFinanceStore.getState().updateCreditCard('card-id', {
+        closingDay: null,
+      })
+
+      const updateData = mockUpdateCalls[0] as Record<string, unknown>
+      expect(updateData.closing_day).toBeNull()
+      expect(updateData.statement_closed_on).toBeNull()
+    })
   })
 })
 
@@ -998,6 +1144,287 @@ describe('Single-Shot Expense Actions - Validation', () => {
   })
 })
 
+// =============================================================================
+// TRANSFER VALIDATION TESTS
+// =============================================================================
+
+describe('Transfer Actions - Validation', () => {
+  beforeEach(resetMocks)
+
+  const CHECKING_ID = '123e4567-e89b-12d3-a456-426614174000'
+  const SAVINGS_ID = '123e4567-e89b-12d3-a456-426614174001'
+
+  describe('addTransfer validation', () => {
+    it('returns validation error for transfers to the same account', async () => {
+      const result = await useFinanceStore.getState().addTransfer({
+        type: 'single_shot',
+        name: 'Resgate',
+        sourceAccountId: SAVINGS_ID,
+        destinationAccountId: SAVINGS_ID,
+        amount: 100000,
+        date: new Date(2025, 11, 15),
+        isActive: true,
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Validation failed')
+      }
+      expect(mockInsertCalls).toHaveLength(0)
+    })
+
+    it('stores only the date for one-off transfers', async () => {
+      const result = await useFinanceStore.getState().addTransfer({
+        type: 'single_shot',
+        name: 'Resgate',
+        sourceAccountId: SAVINGS_ID,
+        destinationAccountId: CHECKING_ID,
+        amount: 100000,
+        date: new Date(2025, 11, 15),
+        frequency: 'monthly',
+        paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+        isActive: true,
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockInsertCalls[0]).toMatchObject({
+        type: 'single_shot',
+        source_account_id: SAVINGS_ID,
+        destination_account_id: CHECKING_ID,
+        date: '2025-12-15',
+        frequency: null,
+        payment_schedule: null,
+        group_id: 'test-group-id',
+      })
+    })
+
+    it('stores only the schedule for recurring transfers', async () => {
+      const result = await useFinanceStore.getState().addTransfer({
+        type: 'recurring',
+        name: 'Reserva mensal',
+        sourceAccountId: CHECKING_ID,
+        destinationAccountId: SAVINGS_ID,
+        amount: 50000,
+        frequency: 'monthly',
+        paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+        isActive: true,
+      })
+
+      expect(result.success).toBe(true)
+      expect(mockInsertCalls[0]).toMatchObject({
+        type: 'recurring',
+        date: null,
+        frequency: 'monthly',
+        payment_schedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+      })
+    })
+  })
+
+  describe('updateTransfer', () => {
+    it('returns not found when no row is updated', async () => {
+      mockUpdateResponse = { error: null, count: 0 }
+
+      const result = await useFinanceStore.getState().updateTransfer('transfer-1', {
+        type: 'recurring',
+        name: 'Reserva mensal',
+        sourceAccountId: CHECKING_ID,
+        destinationAccountId: SAVINGS_ID,
+        amount: 50000,
+        frequency: 'monthly',
+        paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+        isActive: true,
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toBe('Transferência não encontrada')
+      }
+    })
+  })
+})
+
+// =============================================================================
+// SAVINGS GOAL TESTS
+// =============================================================================
+
+describe('Savings Goal Actions', () => {
+  beforeEach(resetMocks)
+
+  const SAVINGS_ID = '123e4567-e89b-12d3-a456-426614174001'
+
+  const goal = {
+    name: 'Viagem',
+    targetAmount: 1000000,
+    targetDate: new Date(2025, 11, 20),
+    accountId: SAVINGS_ID,
+    savedAmount: 0,
+    contributionDay: 10,
+    isActive: true,
+  }
+
+  it('stores the target date as a calendar day', async () => {
+    const result = await useFinanceStore.getState().addSavingsGoal(goal)
+
+    expect(result.success).toBe(true)
+    expect(mockInsertCalls[0]).toMatchObject({
+      name: 'Viagem',
+      target_amount: 1000000,
+      target_date: '2025-12-20',
+      account_id: SAVINGS_ID,
+      contribution_day: 10,
+      group_id: 'test-group-id',
+    })
+  })
+
+  it('returns validation error for a contribution day outside the month', async () => {
+    const result = await useFinanceStore.getState().addSavingsGoal({ ...goal, contributionDay: 0 })
+
+    expect(result.success).toBe(false)
+    expect(mockInsertCalls).toHaveLength(0)
+  })
+
+  it('returns not found when no row is updated', async () => {
+    mockUpdateResponse = { error: null, count: 0 }
+
+    const result = await useFinanceStore.getState().updateSavingsGoal('goal-1', goal)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBe('Meta não encontrada')
+    }
+  })
+})
+
+// =============================================================================
+// LOAN TESTS
+// =============================================================================
+
+describe('Loan Actions', () => {
+  beforeEach(resetMocks)
+
+  const loan = {
+    name: 'Financiamento do carro',
+    principal: 4000000,
+    annualRate: 14.5,
+    termMonths: 48,
+    system: 'price' as const,
+    firstDueDate: new Date(2025, 2, 15),
+    accountId: null,
+    prepayments: [
+      { date: '2025-12-01', amount: 300000, mode: 'reduce_installment' as const },
+      { date: '2025-09-01', amount: 500000, mode: 'reduce_term' as const },
+    ],
+    isActive: true,
+  }
+
+  it('stores the first due date as a calendar day and the prepayments in date order', async () => {
+    const result = await useFinanceStore.getState().addLoan(loan)
+
+    expect(result.success).toBe(true)
+    expect(mockInsertCalls[0]).toMatchObject({
+      name: 'Financiamento do carro',
+      principal: 4000000,
+      annual_rate: 14.5,
+      term_months: 48,
+      system: 'price',
+      first_due_date: '2025-03-15',
+      account_id: null,
+      prepayments: [
+        { date: '2025-09-01', amount: 500000, mode: 'reduce_term' },
+        { date: '2025-12-01', amount: 300000, mode: 'reduce_installment' },
+      ],
+      group_id: 'test-group-id',
+    })
+  })
+
+  it('returns validation error for a term of zero months', async () => {
+    const result = await useFinanceStore.getState().addLoan({ ...loan, termMonths: 0 })
+
+    expect(result.success).toBe(false)
+    expect(mockInsertCalls).toHaveLength(0)
+  })
+
+  it('returns not found when no row is updated', async () => {
+    mockUpdateResponse = { error: null, count: 0 }
+
+    const result = await useFinanceStore.getState().updateLoan('loan-1', loan)
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBe('Financiamento não encontrado')
+    }
+  })
+})
+
+// =============================================================================
+// EVENT CONFIRMATION TESTS
+// =============================================================================
+
+describe('Event Confirmation Actions - confirmEvent', () => {
+  beforeEach(resetMocks)
+
+  const PROJECT_ID = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('upserts a confirmed event with its real amount and date', async () => {
+    const result = await useFinanceStore.getState().confirmEvent({
+      sourceType: 'project',
+      sourceId: PROJECT_ID,
+      occurrenceDate: new Date(2025, 11, 5),
+      status: 'confirmed',
+      amount: 480000,
+      date: new Date(2025, 11, 8),
+    })
+
+    expect(result.success).toBe(true)
+    expect(mockUpsertCalls[0]).toMatchObject({
+      group_id: 'test-group-id',
+      source_type: 'project',
+      source_id: PROJECT_ID,
+      occurrence_date: '2025-12-05',
+      status: 'confirmed',
+      amount: 480000,
+      date: '2025-12-08',
+    })
+    expect(vi.mocked(notifyFinanceDataInvalidated)).toHaveBeenCalledTimes(1)
+  })
+
+  it('upserts a missed event without amount or date', async () => {
+    const result = await useFinanceStore.getState().confirmEvent({
+      sourceType: 'expense',
+      sourceId: PROJECT_ID,
+      occurrenceDate: new Date(2025, 11, 10),
+      status: 'missed',
+      amount: null,
+      date: null,
+    })
+
+    expect(result.success).toBe(true)
+    expect(mockUpsertCalls[0]).toMatchObject({
+      source_type: 'expense',
+      status: 'missed',
+      amount: null,
+      date: null,
+    })
+  })
+
+  it('rejects a confirmed event without an amount', async () => {
+    const result = await useFinanceStore.getState().confirmEvent({
+      sourceType: 'project',
+      sourceId: PROJECT_ID,
+      occurrenceDate: new Date(2025, 11, 5),
+      status: 'confirmed',
+      amount: null,
+      date: new Date(2025, 11, 8),
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error).toBe('Validation failed')
+    }
+    expect(mockUpsertCalls).toHaveLength(0)
+  })
+})
+
 // =============================================================================
 // SINGLE-SHOT INCOME VALIDATION TESTS
 // =============================================================================
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { format } from 'date-fns'
 import { z } from 'zod'
 import {
   getSupabase,
@@ -7,10 +8,12 @@ import {
   isSupabaseConfigured,
 } from '../lib/supabase'
 import { notifyFinanceDataInvalidated } from '../lib/finance-data-events'
+import { getLastClosingDate } from '../lib/cashflow/statement-cycle'
 import { captureEvent } from '../lib/analytics/posthog'
 import { captureSentryException, startSentrySpan } from '@/lib/observability/sentry'
 import {
   BankAccountInputSchema,
+  BankAccountUpdateSchema,
   ProjectInputSchema,
   FixedExpenseInputSchema,
   CreditCardInputSchema,
@@ -18,6 +21,15 @@ import {
   SingleShotIncomeInputSchema,
   FutureStatementInputSchema,
   FutureStatementUpdateSchema,
+  InstallmentPurchaseInputSchema,
+  TransferInputSchema,
+  EventConfirmationInputSchema,
+  SavingsGoalInputSchema,
+  LoanInputSchema,
+  FinanceSettingsSchema,
+  SAFETY_THRESHOLD_PREFERENCE_KEY,
+  CDI_ANNUAL_RATE_PREFERENCE_KEY,
+  getFixedExpenseSchedule,
   type BankAccountInput,
   type ProjectInput,
   type FixedExpenseInput,
@@ -26,6 +38,16 @@ import {
   type SingleShotIncomeInput,
   type FutureStatementInput,
   type FutureStatementUpdate,
+  type InstallmentPurchaseInput,
+  type TransferInput,
+  type EventConfirmationInput,
+  type SavingsGoalInput,
+  type LoanInput,
+  type FinanceSettings,
+  type PaymentDelay,
+  type ExpenseAmountRange,
+  type AmountChange,
+  type OccurrenceOverride,
 } from '../types'
 
 // Result type for explicit error handling
@@ -100,6 +122,45 @@ interface FinanceStore {
   ) => Promise<Result<void>>
   deleteFutureStatement: (id: string, meta?: AnalyticsMeta) => Promise<Result<void>>
 
+  // Installment Purchase Actions
+  addInstallmentPurchase: (
+    input: InstallmentPurchaseInput,
+    meta?: AnalyticsMeta
+  ) => Promise<Result<string>>
+  updateInstallmentPurchase: (
+    id: string,
+    input: InstallmentPurchaseInput,
+    meta?: AnalyticsMeta
+  ) => Promise<Result<void>>
+  deleteInstallmentPurchase: (id: string, meta?: AnalyticsMeta) => Promise<Result<void>>
+
+  // Transfer Actions
+  addTransfer: (input: TransferInput, meta?: AnalyticsMeta) => Promise<Result<string>>
+  updateTransfer: (
+    id: string,
+    input: TransferInput,
+    meta?: AnalyticsMeta
+  ) => Promise<Result<void>>
+  deleteTransfer: (id: string, meta?: AnalyticsMeta) => Promise<Result<void>>
+
+  // Event Confirmation Actions
+  /** Confirm a past event as paid/received or mark it as not happened (replaces an earlier answer) */
+  confirmEvent: (input: EventConfirmationInput, meta?: AnalyticsMeta) => Promise<Result<void>>
+
+  // Savings Goal Actions
+  addSavingsGoal: (input: SavingsGoalInput, meta?: AnalyticsMeta) => Promise<Result<string>>
+  updateSavingsGoal: (
+    id: string,
+    input: SavingsGoalInput,
+    meta?: AnalyticsMeta
+  ) => Promise<Result<void>>
+  deleteSavingsGoal: (id: string, meta?: AnalyticsMeta) => Promise<Result<void>>
+
+  // Loan Actions
+  addLoan: (input: LoanInput, meta?: AnalyticsMeta) => Promise<Result<string>>
+  updateLoan: (id: string, input: LoanInput, meta?: AnalyticsMeta) => Promise<Result<void>>
+  deleteLoan: (id: string, meta?: AnalyticsMeta) => Promise<Result<void>>
+
   // Balance Update Actions (for Quick Balance Update feature)
   updateAccountBalance: (id: string, balance: number, meta?: AnalyticsMeta) => Promise<Result<void>>
   updateCreditCardBalance: (
@@ -110,6 +171,9 @@ interface FinanceStore {
   
   // Mark all balances as updated (for Quick Update "Concluir" action)
   markAllBalancesUpdated: (meta?: AnalyticsMeta) => Promise<Result<void>>
+
+  // Group Finance Settings Actions (stored in group_preferences)
+  updateFinanceSettings: (input: Partial<FinanceSettings>, meta?: AnalyticsMeta) => Promise<Result<void>>
 }
 
 type AnalyticsSource = 'app' | 'manage' | 'onboarding' | 'quick_update'
@@ -153,6 +217,122 @@ function captureFinanceEvent(
   })
 }
 
+/**
+ * Closing date of the statement held in statement_balance when a card's
+ * balances are saved with a closing day (the balances describe the current cycle).
+ */
+function getStatementClosedOn(closingDay: number | null | undefined): string | null {
+  if (!closingDay) return null
+  return format(getLastClosingDate(new Date(), closingDay), 'yyyy-MM-dd')
+}
+
+/**
+ * Transfer columns for insert/update. One-off transfers keep only their date;
+ * recurring transfers keep only their schedule.
+ */
+function getTransferColumns(validated: TransferInput) {
+  const isSingleShot = validated.type === 'single_shot'
+  return {
+    name: validated.name,
+    type: validated.type,
+    source_account_id: validated.sourceAccountId,
+    destination_account_id: validated.destinationAccountId,
+    amount: validated.amount,
+    date: isSingleShot && validated.date ? format(validated.date, 'yyyy-MM-dd') : null,
+    frequency: isSingleShot ? null : validated.frequency ?? null,
+    payment_schedule: isSingleShot ? null : validated.paymentSchedule ?? null,
+    is_active: validated.isActive,
+  }
+}
+
+/**
+ * Savings goal columns for insert/update.
+ */
+function getSavingsGoalColumns(validated: SavingsGoalInput) {
+  return {
+    name: validated.name,
+    target_amount: validated.targetAmount,
+    target_date: format(validated.targetDate, 'yyyy-MM-dd'),
+    account_id: validated.accountId ?? null,
+    saved_amount: validated.savedAmount,
+    contribution_day: validated.contributionDay,
+    is_active: validated.isActive,
+  }
+}
+
+/**
+ * Loan columns for insert/update (prepayments stored in date order).
+ */
+function getLoanColumns(validated: LoanInput) {
+  return {
+    name: validated.name,
+    principal: validated.principal,
+    annual_rate: validated.annualRate,
+    term_months: validated.termMonths,
+    system: validated.system,
+    first_due_date: format(validated.firstDueDate, 'yyyy-MM-dd'),
+    account_id: validated.accountId ?? null,
+    prepayments: [...validated.prepayments].sort((a, b) => a.date.localeCompare(b.date)),
+    is_active: validated.isActive,
+  }
+}
+
+/**
+ * Payment delay columns for insert/update (both null when the income pays on time).
+ */
+function getPaymentDelayColumns(paymentDelay: PaymentDelay | null | undefined) {
+  return {
+    payment_delay_min_days: paymentDelay?.minDays ?? null,
+    payment_delay_max_days: paymentDelay?.maxDays ?? null,
+  }
+}
+
+/**
+ * Amount range columns for insert/update (both null when the expense amount is fixed).
+ */
+function getAmountRangeColumns(amountRange: ExpenseAmountRange | null | undefined) {
+  return {
+    amount_min: amountRange?.min ?? null,
+    amount_max: amountRange?.max ?? null,
+  }
+}
+
+/**
+ * Amount changes stored in effective date order (empty when there are none).
+ */
+function sortAmountChanges(amountChanges: AmountChange[] | undefined): AmountChange[] {
+  return [...(amountChanges ?? [])].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate))
+}
+
+/**
+ * Occurrence overrides stored in occurrence date order (empty when there are none).
+ */
+function sortOccurrenceOverrides(overrides: OccurrenceOverride[] | undefined): OccurrenceOverride[] {
+  return [...(overrides ?? [])].sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate))
+}
+
+/**
+ * Active period date for a DATE column (null when open-ended).
+ */
+function formatOptionalDate(date: Date | null | undefined): string | null {
+  return date ? format(date, 'yyyy-MM-dd') : null
+}
+
+/**
+ * Unflag the group's current default account. Only one account per group can
+ * be the default (enforced by a unique index), so this runs before flagging
+ * another one.
+ */
+async function clearDefaultAccount(groupId: string): Promise<Result<never> | null> {
+  const { error } = await getSupabase()
+    .from('accounts')
+    .update({ is_default: false })
+    .eq('group_id', groupId)
+    .eq('is_default', true)
+
+  return error ? handleSupabaseError(error) : null
+}
+
 function reportMutationError(action: string, error: unknown): void {
   captureSentryException(error, { tags: { action } })
 }
@@ -180,6 +360,11 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
         return { success: false, error: 'Não foi possível identificar seu grupo' }
       }
 
+      if (validated.isDefault) {
+        const clearError = await clearDefaultAccount(groupId)
+        if (clearError) return clearError
+      }
+
       const { data, error } = await getSupabase()
         .from('accounts')
         .insert({
@@ -187,6 +372,12 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           type: validated.type,
           balance: validated.balance,
           owner_id: validated.ownerId ?? null,
+          is_default: validated.isDefault ?? false,
+          overdraft_limit: validated.overdraftLimit ?? null,
+          overdraft_monthly_rate: validated.overdraftMonthlyRate ?? null,
+          yield_type: validated.yieldType ?? null,
+          yield_rate: validated.yieldRate ?? null,
+          yield_income_tax: validated.yieldIncomeTax ?? false,
           group_id: groupId,
           // Set balance_updated_at to now so new accounts show as "fresh"
           balance_updated_at: new Date().toISOString(),
@@ -202,6 +393,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
       captureFinanceEvent('account_created', meta, {
         entity_type: 'account',
         owner_assigned: Boolean(validated.ownerId),
+        is_default: validated.isDefault ?? false,
       })
       return { success: true, data: data.id }
     } catch (error) {
@@ -217,7 +409,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
     if (configError) return configError
 
     try {
-      const validated = BankAccountInputSchema.partial().parse(input)
+      const validated = BankAccountUpdateSchema.parse(input)
       
       // Build update object with snake_case keys
       const updateData: Record<string, unknown> = {}
@@ -229,6 +421,23 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
         updateData.balance_updated_at = new Date().toISOString()
       }
       if (validated.ownerId !== undefined) updateData.owner_id = validated.ownerId
+      if (validated.isDefault !== undefined) updateData.is_default = validated.isDefault
+      if (validated.overdraftLimit !== undefined) updateData.overdraft_limit = validated.overdraftLimit
+      if (validated.overdraftMonthlyRate !== undefined) {
+        updateData.overdraft_monthly_rate = validated.overdraftMonthlyRate
+      }
+      if (validated.yieldType !== undefined) updateData.yield_type = validated.yieldType
+      if (validated.yieldRate !== undefined) updateData.yield_rate = validated.yieldRate
+      if (validated.yieldIncomeTax !== undefined) updateData.yield_income_tax = validated.yieldIncomeTax
+
+      if (validated.isDefault) {
+        const groupId = await getGroupId()
+        if (!groupId) {
+          return { success: false, error: 'Não foi possível identificar seu grupo' }
+        }
+        const clearError = await clearDefaultAccount(groupId)
+        if (clearError) return clearError
+      }
 
       const { error, count } = await getSupabase()
         .from('accounts')
@@ -248,6 +457,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
         entity_type: 'account',
         owner_assigned: validated.ownerId !== undefined ? validated.ownerId !== null : undefined,
         balance_updated: validated.balance !== undefined,
+        is_default: validated.isDefault,
       })
       return { success: true, data: undefined }
     } catch (error) {
@@ -312,6 +522,14 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           payment_schedule: validated.paymentSchedule,
           certainty: validated.certainty,
           is_active: validated.isActive,
+          business_day_rollover: validated.businessDayRollover ?? 'none',
+          account_id: validated.accountId ?? null,
+          ...getPaymentDelayColumns(validated.paymentDelay),
+          amount_changes: sortAmountChanges(validated.amountChanges),
+          start_date: formatOptionalDate(validated.startDate),
+          end_date: formatOptionalDate(validated.endDate),
+          occurrence_overrides: sortOccurrenceOverrides(validated.occurrenceOverrides),
+          tax_profile: validated.taxProfile ?? null,
           group_id: groupId,
         })
         .select('id')
@@ -350,6 +568,20 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
       if (validated.paymentSchedule !== undefined) updateData.payment_schedule = validated.paymentSchedule
       if (validated.certainty !== undefined) updateData.certainty = validated.certainty
       if (validated.isActive !== undefined) updateData.is_active = validated.isActive
+      if (validated.businessDayRollover !== undefined) updateData.business_day_rollover = validated.businessDayRollover
+      if (validated.accountId !== undefined) updateData.account_id = validated.accountId
+      if (validated.paymentDelay !== undefined) {
+        Object.assign(updateData, getPaymentDelayColumns(validated.paymentDelay))
+      }
+      if (validated.amountChanges !== undefined) {
+        updateData.amount_changes = sortAmountChanges(validated.amountChanges)
+      }
+      if (validated.startDate !== undefined) updateData.start_date = formatOptionalDate(validated.startDate)
+      if (validated.endDate !== undefined) updateData.end_date = formatOptionalDate(validated.endDate)
+      if (validated.occurrenceOverrides !== undefined) {
+        updateData.occurrence_overrides = sortOccurrenceOverrides(validated.occurrenceOverrides)
+      }
+      if (validated.taxProfile !== undefined) updateData.tax_profile = validated.taxProfile
 
       const { error, count } = await getSupabase()
         .from('projects')
@@ -459,6 +691,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
 
     try {
       const validated = FixedExpenseInputSchema.parse(input)
+      const schedule = getFixedExpenseSchedule(validated)
       
       // Get current user's group_id
       const groupId = await getGroupId()
@@ -472,9 +705,18 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           name: validated.name,
           amount: validated.amount,
           type: 'fixed',
-          due_day: validated.dueDay,
+          due_day: validated.dueDay ?? null,
+          frequency: schedule.frequency,
+          payment_schedule: schedule.paymentSchedule,
           date: null,
           is_active: validated.isActive,
+          business_day_rollover: validated.businessDayRollover ?? 'none',
+          account_id: validated.accountId ?? null,
+          ...getAmountRangeColumns(validated.amountRange),
+          amount_changes: sortAmountChanges(validated.amountChanges),
+          start_date: formatOptionalDate(validated.startDate),
+          end_date: formatOptionalDate(validated.endDate),
+          occurrence_overrides: sortOccurrenceOverrides(validated.occurrenceOverrides),
           group_id: groupId,
         })
         .select('id')
@@ -509,8 +751,31 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
       const updateData: Record<string, unknown> = {}
       if (validated.name !== undefined) updateData.name = validated.name
       if (validated.amount !== undefined) updateData.amount = validated.amount
-      if (validated.dueDay !== undefined) updateData.due_day = validated.dueDay
+      if (validated.paymentSchedule !== undefined) {
+        // A new schedule replaces the legacy monthly due day
+        const schedule = getFixedExpenseSchedule(validated)
+        updateData.frequency = schedule.frequency
+        updateData.payment_schedule = schedule.paymentSchedule
+        updateData.due_day = validated.dueDay ?? null
+      } else if (validated.dueDay !== undefined) {
+        updateData.due_day = validated.dueDay
+        updateData.frequency = 'monthly'
+        updateData.payment_schedule = { type: 'dayOfMonth', dayOfMonth: validated.dueDay }
+      }
       if (validated.isActive !== undefined) updateData.is_active = validated.isActive
+      if (validated.businessDayRollover !== undefined) updateData.business_day_rollover = validated.businessDayRollover
+      if (validated.accountId !== undefined) updateData.account_id = validated.accountId
+      if (validated.amountRange !== undefined) {
+        Object.assign(updateData, getAmountRangeColumns(validated.amountRange))
+      }
+      if (validated.amountChanges !== undefined) {
+        updateData.amount_changes = sortAmountChanges(validated.amountChanges)
+      }
+      if (validated.startDate !== undefined) updateData.start_date = formatOptionalDate(validated.startDate)
+      if (validated.endDate !== undefined) updateData.end_date = formatOptionalDate(validated.endDate)
+      if (validated.occurrenceOverrides !== undefined) {
+        updateData.occurrence_overrides = sortOccurrenceOverrides(validated.occurrenceOverrides)
+      }
 
       const { error, count } = await getSupabase()
         .from('expenses')
@@ -636,6 +901,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           date: validated.date.toISOString().split('T')[0],
           due_day: null,
           is_active: true,
+          account_id: validated.accountId ?? null,
           group_id: groupId,
         })
         .select('id')
@@ -667,6 +933,7 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
       if (input.name !== undefined) updateData.name = input.name
       if (input.amount !== undefined) updateData.amount = input.amount
       if (input.date !== undefined) updateData.date = input.date.toISOString().split('T')[0]
+      if (input.accountId !== undefined) updateData.account_id = input.accountId
 
       const { error, count } = await getSupabase()
         .from('expenses')
@@ -752,6 +1019,9 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           frequency: null,
           payment_schedule: null,
           is_active: null,
+          account_id: validated.accountId ?? null,
+          ...getPaymentDelayColumns(validated.paymentDelay),
+          tax_profile: validated.taxProfile ?? null,
           group_id: groupId,
         })
         .select('id')
@@ -784,6 +1054,11 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
       if (input.amount !== undefined) updateData.amount = input.amount
       if (input.date !== undefined) updateData.date = input.date.toISOString().split('T')[0]
       if (input.certainty !== undefined) updateData.certainty = input.certainty
+      if (input.accountId !== undefined) updateData.account_id = input.accountId
+      if (input.paymentDelay !== undefined) {
+        Object.assign(updateData, getPaymentDelayColumns(input.paymentDelay))
+      }
+      if (input.taxProfile !== undefined) updateData.tax_profile = input.taxProfile
 
       const { error, count } = await getSupabase()
         .from('projects')
@@ -864,7 +1139,11 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
           name: validated.name,
           statement_balance: validated.statementBalance,
           due_day: validated.dueDay,
+          closing_day: validated.closingDay ?? null,
+          open_statement_balance: validated.openStatementBalance ?? 0,
+          statement_closed_on: getStatementClosedOn(validated.closingDay),
           owner_id: validated.ownerId ?? null,
+          account_id: validated.accountId ?? null,
           group_id: groupId,
           // Set balance_updated_at to now so new cards show as "fresh"
           balance_updated_at: new Date().toISOString(),
@@ -906,7 +1185,16 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
         updateData.balance_updated_at = new Date().toISOString()
       }
       if (validated.dueDay !== undefined) updateData.due_day = validated.dueDay
+      if (validated.closingDay !== undefined) {
+        updateData.closing_day = validated.closingDay
+        updateData.statement_closed_on = getStatementClosedOn(validated.closingDay)
+      }
+      if (validated.openStatementBalance !== undefined) {
+        updateData.open_statement_balance = validated.openStatementBalance
+        updateData.balance_updated_at = new Date().toISOString()
+      }
       if (validated.ownerId !== undefined) updateData.owner_id = validated.ownerId
+      if (validated.accountId !== undefined) updateData.account_id = validated.accountId
 
       const { error, count } = await getSupabase()
         .from('credit_cards')
@@ -1087,6 +1375,493 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
     })
   },
 
+  // === Installment Purchase Actions ===
+  addInstallmentPurchase: async (input, meta) => {
+    return withMutationSpan('installment_purchase.add', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = InstallmentPurchaseInputSchema.parse(input)
+
+      // Get current user's group_id
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      const { data, error } = await getSupabase()
+        .from('installment_purchases')
+        .insert({
+          credit_card_id: validated.creditCardId,
+          group_id: groupId,
+          description: validated.description,
+          total_amount: validated.totalAmount,
+          installment_count: validated.installmentCount,
+          first_month: validated.firstMonth,
+          first_year: validated.firstYear,
+        })
+        .select('id')
+        .single()
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('installment_purchase_created', meta, {
+        entity_type: 'installment_purchase',
+        installment_count: validated.installmentCount,
+      })
+      return { success: true, data: data.id }
+    } catch (error) {
+      reportMutationError('installment_purchase.add', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  updateInstallmentPurchase: async (id, input, meta) => {
+    return withMutationSpan('installment_purchase.update', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = InstallmentPurchaseInputSchema.parse(input)
+
+      const { error, count } = await getSupabase()
+        .from('installment_purchases')
+        .update({
+          credit_card_id: validated.creditCardId,
+          description: validated.description,
+          total_amount: validated.totalAmount,
+          installment_count: validated.installmentCount,
+          first_month: validated.firstMonth,
+          first_year: validated.firstYear,
+        })
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Compra parcelada não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('installment_purchase_updated', meta, {
+        entity_type: 'installment_purchase',
+        installment_count: validated.installmentCount,
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('installment_purchase.update', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  deleteInstallmentPurchase: async (id, meta) => {
+    return withMutationSpan('installment_purchase.delete', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const { error, count } = await getSupabase()
+        .from('installment_purchases')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Compra parcelada não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('installment_purchase_deleted', meta, {
+        entity_type: 'installment_purchase',
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('installment_purchase.delete', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  // === Transfer Actions ===
+  addTransfer: async (input, meta) => {
+    return withMutationSpan('transfer.add', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = TransferInputSchema.parse(input)
+
+      // Get current user's group_id
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      const { data, error } = await getSupabase()
+        .from('transfers')
+        .insert({
+          ...getTransferColumns(validated),
+          group_id: groupId,
+        })
+        .select('id')
+        .single()
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('transfer_created', meta, {
+        entity_type: 'transfer',
+        transfer_type: validated.type,
+        frequency: validated.frequency ?? null,
+      })
+      return { success: true, data: data.id }
+    } catch (error) {
+      reportMutationError('transfer.add', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  updateTransfer: async (id, input, meta) => {
+    return withMutationSpan('transfer.update', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = TransferInputSchema.parse(input)
+
+      const { error, count } = await getSupabase()
+        .from('transfers')
+        .update(getTransferColumns(validated))
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Transferência não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('transfer_updated', meta, {
+        entity_type: 'transfer',
+        transfer_type: validated.type,
+        frequency: validated.frequency ?? null,
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('transfer.update', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  deleteTransfer: async (id, meta) => {
+    return withMutationSpan('transfer.delete', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const { error, count } = await getSupabase()
+        .from('transfers')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Transferência não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('transfer_deleted', meta, {
+        entity_type: 'transfer',
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('transfer.delete', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  // === Event Confirmation Actions ===
+  confirmEvent: async (input, meta) => {
+    return withMutationSpan('event_confirmation.upsert', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = EventConfirmationInputSchema.parse(input)
+
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      const { error } = await getSupabase()
+        .from('event_confirmations')
+        .upsert(
+          {
+            group_id: groupId,
+            source_type: validated.sourceType,
+            source_id: validated.sourceId,
+            occurrence_date: format(validated.occurrenceDate, 'yyyy-MM-dd'),
+            status: validated.status,
+            amount: validated.amount,
+            date: formatOptionalDate(validated.date),
+          },
+          { onConflict: 'group_id,source_type,source_id,occurrence_date' }
+        )
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('event_confirmed', meta, {
+        entity_type: 'event_confirmation',
+        source_type: validated.sourceType,
+        status: validated.status,
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('event_confirmation.upsert', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  // === Savings Goal Actions ===
+  addSavingsGoal: async (input, meta) => {
+    return withMutationSpan('savings_goal.add', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = SavingsGoalInputSchema.parse(input)
+
+      // Get current user's group_id
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      const { data, error } = await getSupabase()
+        .from('savings_goals')
+        .insert({
+          ...getSavingsGoalColumns(validated),
+          group_id: groupId,
+        })
+        .select('id')
+        .single()
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('savings_goal_created', meta, {
+        entity_type: 'savings_goal',
+        has_account: Boolean(validated.accountId),
+      })
+      return { success: true, data: data.id }
+    } catch (error) {
+      reportMutationError('savings_goal.add', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  updateSavingsGoal: async (id, input, meta) => {
+    return withMutationSpan('savings_goal.update', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = SavingsGoalInputSchema.parse(input)
+
+      const { error, count } = await getSupabase()
+        .from('savings_goals')
+        .update(getSavingsGoalColumns(validated))
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Meta não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('savings_goal_updated', meta, {
+        entity_type: 'savings_goal',
+        has_account: Boolean(validated.accountId),
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('savings_goal.update', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  deleteSavingsGoal: async (id, meta) => {
+    return withMutationSpan('savings_goal.delete', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const { error, count } = await getSupabase()
+        .from('savings_goals')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Meta não encontrada' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('savings_goal_deleted', meta, {
+        entity_type: 'savings_goal',
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('savings_goal.delete', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  // === Loan Actions ===
+  addLoan: async (input, meta) => {
+    return withMutationSpan('loan.add', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = LoanInputSchema.parse(input)
+
+      // Get current user's group_id
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      const { data, error } = await getSupabase()
+        .from('loans')
+        .insert({
+          ...getLoanColumns(validated),
+          group_id: groupId,
+        })
+        .select('id')
+        .single()
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('loan_created', meta, {
+        entity_type: 'loan',
+        system: validated.system,
+        has_prepayments: validated.prepayments.length > 0,
+      })
+      return { success: true, data: data.id }
+    } catch (error) {
+      reportMutationError('loan.add', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  updateLoan: async (id, input, meta) => {
+    return withMutationSpan('loan.update', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = LoanInputSchema.parse(input)
+
+      const { error, count } = await getSupabase()
+        .from('loans')
+        .update(getLoanColumns(validated))
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Financiamento não encontrado' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('loan_updated', meta, {
+        entity_type: 'loan',
+        system: validated.system,
+        has_prepayments: validated.prepayments.length > 0,
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('loan.update', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
+  deleteLoan: async (id, meta) => {
+    return withMutationSpan('loan.delete', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const { error, count } = await getSupabase()
+        .from('loans')
+        .delete()
+        .eq('id', id)
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      if (count === 0) {
+        return { success: false, error: 'Financiamento não encontrado' }
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('loan_deleted', meta, {
+        entity_type: 'loan',
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('loan.delete', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
+
   // === Balance Update Actions ===
   updateAccountBalance: async (id, balance, meta) => {
     return withMutationSpan('account.balance_update', async () => {
@@ -1208,4 +1983,55 @@ export const useFinanceStore = create<FinanceStore>()(() => ({
     }
     })
   },
+
+  // === Group Finance Settings Actions ===
+  updateFinanceSettings: async (input, meta) => {
+    return withMutationSpan('finance_settings.update', async () => {
+    const configError = checkSupabaseConfigured()
+    if (configError) return configError
+
+    try {
+      const validated = FinanceSettingsSchema.partial().parse(input)
+
+      const groupId = await getGroupId()
+      if (!groupId) {
+        return { success: false, error: 'Não foi possível identificar seu grupo' }
+      }
+
+      // Only the settings provided are written
+      const updatedAt = new Date().toISOString()
+      const rows = [
+        [SAFETY_THRESHOLD_PREFERENCE_KEY, validated.safetyThreshold],
+        [CDI_ANNUAL_RATE_PREFERENCE_KEY, validated.cdiAnnualRate],
+      ].flatMap(([key, value]) =>
+        value === undefined
+          ? []
+          : [{ group_id: groupId, key, value: String(value), updated_at: updatedAt }]
+      )
+
+      const { error } = await getSupabase()
+        .from('group_preferences')
+        .upsert(rows, { onConflict: 'group_id,key' })
+
+      if (error) {
+        return handleSupabaseError(error)
+      }
+
+      notifyFinanceDataInvalidated()
+      captureFinanceEvent('finance_settings_updated', meta, {
+        entity_type: 'finance_settings',
+        ...(validated.safetyThreshold !== undefined && {
+          has_safety_threshold: validated.safetyThreshold > 0,
+        }),
+        ...(validated.cdiAnnualRate !== undefined && {
+          has_cdi_rate: validated.cdiAnnualRate > 0,
+        }),
+      })
+      return { success: true, data: undefined }
+    } catch (error) {
+      reportMutationError('finance_settings.update', error)
+      return handleDatabaseError(error)
+    }
+    })
+  },
 }))
@@ -185,6 +185,7 @@ export const useSnapshotsStore = create<SnapshotsStore>()((set) => ({
         summaryMetrics: {
           startingBalance: input.projection.startingBalance,
           endBalanceOptimistic: input.projection.optimistic.endBalance,
+          endBalanceRealistic: input.projection.realistic?.endBalance,
           dangerDayCount: input.projection.optimistic.dangerDayCount,
         },
       }
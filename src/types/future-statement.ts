@@ -118,7 +118,7 @@ export function transformFutureStatementRow(row: FutureStatementRow): FutureStat
 /**
  * Portuguese month names for localized display.
  */
-const MONTH_NAMES = [
+export const MONTH_NAMES = [
   'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
   'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
 ] as const
@@ -7,11 +7,28 @@
 import { describe, expect, it } from 'vitest'
 import {
   TwiceMonthlyScheduleSchema,
+  YearlyScheduleSchema,
   BankAccountInputSchema,
   FixedExpenseInputSchema,
   SingleShotExpenseInputSchema,
   CreditCardInputSchema,
+  TransferInputSchema,
+  EventConfirmationInputSchema,
+  SavingsGoalInputSchema,
+  LoanInputSchema,
+  TaxProfileSchema,
+  findEventConfirmation,
   validateFrequencyScheduleMatch,
+  getFixedExpenseSchedule,
+  getAmountInEffect,
+  isWithinActivePeriod,
+  AmountChangesSchema,
+  OccurrenceOverridesSchema,
+  findOccurrenceOverride,
+  upsertOccurrenceOverride,
+  removeOccurrenceOverride,
+  createBiweeklySchedule,
+  PaymentScheduleSchema,
   isFixedExpense,
   isSingleShotExpense,
   isRecurringProject,
@@ -207,6 +224,13 @@ describe('BankAccountInputSchema', () => {
     expect(result.success).toBe(false)
   })
 
+  it('accepts a negative balance inside the overdraft limit', () => {
+    const account = { name: 'Account', type: 'checking', overdraftLimit: 50000 }
+
+    expect(BankAccountInputSchema.safeParse({ ...account, balance: -50000 }).success).toBe(true)
+    expect(BankAccountInputSchema.safeParse({ ...account, balance: -50001 }).success).toBe(false)
+  })
+
   it('accepts zero balance', () => {
     const result = BankAccountInputSchema.safeParse({
       name: 'Account',
@@ -310,6 +334,332 @@ describe('FixedExpenseInputSchema', () => {
     })
     expect(resultMax.success).toBe(true)
   })
+
+  it('accepts a payment schedule without dueDay', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      type: 'fixed',
+      name: 'IPVA',
+      amount: 120000,
+      frequency: 'yearly',
+      paymentSchedule: { type: 'yearly', dates: [{ month: 1, day: 20 }] },
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects missing dueDay and payment schedule', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      type: 'fixed',
+      name: 'Rent',
+      amount: 150000,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects a schedule that does not match the frequency', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      type: 'fixed',
+      name: 'Gym',
+      amount: 10000,
+      frequency: 'weekly',
+      paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 5 },
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('accepts a variable amount range', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      type: 'fixed',
+      name: 'Luz',
+      amount: 25000,
+      dueDay: 10,
+      amountRange: { min: 20000, max: 30000 },
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an amount range whose maximum is not above the minimum', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      type: 'fixed',
+      name: 'Luz',
+      amount: 25000,
+      dueDay: 10,
+      amountRange: { min: 30000, max: 20000 },
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['amountRange', 'max'])
+  })
+})
+
+// =============================================================================
+// YearlyScheduleSchema TESTS
+// =============================================================================
+
+describe('YearlyScheduleSchema', () => {
+  it('accepts multiple distinct dates', () => {
+    const result = YearlyScheduleSchema.safeParse({
+      type: 'yearly',
+      dates: [
+        { month: 1, day: 20 },
+        { month: 7, day: 20 },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('accepts optional per-date amounts', () => {
+    const result = YearlyScheduleSchema.safeParse({
+      type: 'yearly',
+      dates: [
+        { month: 11, day: 30, amount: 250000 },
+        { month: 12, day: 20 },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects non-positive per-date amounts', () => {
+    const result = YearlyScheduleSchema.safeParse({
+      type: 'yearly',
+      dates: [{ month: 11, day: 30, amount: 0 }],
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects an empty date list', () => {
+    const result = YearlyScheduleSchema.safeParse({ type: 'yearly', dates: [] })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects duplicate dates', () => {
+    const result = YearlyScheduleSchema.safeParse({
+      type: 'yearly',
+      dates: [
+        { month: 3, day: 10 },
+        { month: 3, day: 10 },
+      ],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+// =============================================================================
+// Biweekly anchor TESTS
+// =============================================================================
+
+describe('createBiweeklySchedule', () => {
+  it('derives the weekday from the anchor date', () => {
+    expect(createBiweeklySchedule('2025-01-10')).toEqual({
+      type: 'dayOfWeek',
+      dayOfWeek: 5, // Friday
+      anchorDate: '2025-01-10',
+    })
+  })
+})
+
+describe('dayOfWeek schedule anchorDate', () => {
+  it('accepts an anchor date on the payment weekday', () => {
+    const result = PaymentScheduleSchema.safeParse({
+      type: 'dayOfWeek',
+      dayOfWeek: 5,
+      anchorDate: '2025-01-10',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an anchor date on another weekday', () => {
+    const result = PaymentScheduleSchema.safeParse({
+      type: 'dayOfWeek',
+      dayOfWeek: 1,
+      anchorDate: '2025-01-10',
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects malformed anchor dates', () => {
+    const result = PaymentScheduleSchema.safeParse({
+      type: 'dayOfWeek',
+      dayOfWeek: 5,
+      anchorDate: '10/01/2025',
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+// =============================================================================
+// getFixedExpenseSchedule TESTS
+// =============================================================================
+
+describe('getFixedExpenseSchedule', () => {
+  it('falls back to a monthly schedule on dueDay for legacy expenses', () => {
+    expect(getFixedExpenseSchedule({ dueDay: 12 })).toEqual({
+      frequency: 'monthly',
+      paymentSchedule: { type: 'dayOfMonth', dayOfMonth: 12 },
+    })
+  })
+
+  it('returns the stored schedule when present', () => {
+    const paymentSchedule = { type: 'dayOfWeek' as const, dayOfWeek: 1 }
+    expect(
+      getFixedExpenseSchedule({ dueDay: undefined, frequency: 'weekly', paymentSchedule })
+    ).toEqual({ frequency: 'weekly', paymentSchedule })
+  })
+})
+
+// =============================================================================
+// AMOUNT CHANGES TESTS
+// =============================================================================
+
+describe('AmountChangesSchema', () => {
+  it('accepts changes on distinct dates', () => {
+    const result = AmountChangesSchema.safeParse([
+      { effectiveDate: '2026-03-01', amount: 550000 },
+      { effectiveDate: '2026-09-01', amount: 600000 },
+    ])
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects two changes on the same date', () => {
+    const result = AmountChangesSchema.safeParse([
+      { effectiveDate: '2026-03-01', amount: 550000 },
+      { effectiveDate: '2026-03-01', amount: 600000 },
+    ])
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects a missing effective date', () => {
+    const result = AmountChangesSchema.safeParse([{ effectiveDate: '', amount: 550000 }])
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('getAmountInEffect', () => {
+  const item = {
+    amount: 500000,
+    amountChanges: [
+      { effectiveDate: '2026-09-01', amount: 600000 },
+      { effectiveDate: '2026-03-01', amount: 550000 },
+    ],
+  }
+
+  it('uses the base amount before the first change', () => {
+    expect(getAmountInEffect(item, new Date(2026, 1, 28))).toBe(500000)
+  })
+
+  it('uses the latest change effective on or before the date', () => {
+    expect(getAmountInEffect(item, new Date(2026, 2, 1))).toBe(550000)
+    expect(getAmountInEffect(item, new Date(2026, 11, 1))).toBe(600000)
+  })
+
+  it('uses the base amount without changes', () => {
+    expect(getAmountInEffect({ amount: 500000 }, new Date(2026, 2, 1))).toBe(500000)
+  })
+})
+
+// =============================================================================
+// ACTIVE PERIOD TESTS
+// =============================================================================
+
+describe('active period', () => {
+  const expense = {
+    type: 'fixed' as const,
+    name: 'Mensalidade escolar',
+    amount: 120000,
+    dueDay: 10,
+    isActive: true,
+  }
+
+  it('accepts an end date on or after the start date', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      ...expense,
+      startDate: new Date(2026, 1, 1),
+      endDate: new Date(2026, 11, 31),
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an end date before the start date', () => {
+    const result = FixedExpenseInputSchema.safeParse({
+      ...expense,
+      startDate: new Date(2026, 1, 1),
+      endDate: new Date(2026, 0, 31),
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0].path).toEqual(['endDate'])
+  })
+
+  it('includes both boundary days', () => {
+    const period = { startDate: new Date(2026, 1, 1), endDate: new Date(2026, 5, 30) }
+    expect(isWithinActivePeriod(period, new Date(2026, 1, 1, 9))).toBe(true)
+    expect(isWithinActivePeriod(period, new Date(2026, 5, 30, 23))).toBe(true)
+    expect(isWithinActivePeriod(period, new Date(2026, 0, 31))).toBe(false)
+    expect(isWithinActivePeriod(period, new Date(2026, 6, 1))).toBe(false)
+  })
+
+  it('treats missing dates as open-ended', () => {
+    expect(isWithinActivePeriod({}, new Date(2030, 0, 1))).toBe(true)
+    expect(isWithinActivePeriod({ startDate: null, endDate: null }, new Date(2000, 0, 1))).toBe(true)
+  })
+})
+
+// =============================================================================
+// OCCURRENCE OVERRIDE TESTS
+// =============================================================================
+
+describe('OccurrenceOverridesSchema', () => {
+  it('accepts skip, reschedule and amount overrides', () => {
+    const result = OccurrenceOverridesSchema.safeParse([
+      { type: 'skip', occurrenceDate: '2026-03-05' },
+      { type: 'reschedule', occurrenceDate: '2026-04-05', date: '2026-04-02' },
+      { type: 'amount', occurrenceDate: '2026-05-05', amount: 150000 },
+    ])
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects two overrides of the same occurrence', () => {
+    const result = OccurrenceOverridesSchema.safeParse([
+      { type: 'skip', occurrenceDate: '2026-03-05' },
+      { type: 'amount', occurrenceDate: '2026-03-05', amount: 150000 },
+    ])
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects moving an occurrence to its own date', () => {
+    const result = OccurrenceOverridesSchema.safeParse([
+      { type: 'reschedule', occurrenceDate: '2026-03-05', date: '2026-03-05' },
+    ])
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('occurrence override helpers', () => {
+  const overrides = [
+    { type: 'skip' as const, occurrenceDate: '2026-03-05' },
+    { type: 'amount' as const, occurrenceDate: '2026-05-05', amount: 150000 },
+  ]
+
+  it('finds the override of an occurrence by its scheduled date', () => {
+    expect(findOccurrenceOverride({ occurrenceOverrides: overrides }, new Date(2026, 4, 5))).toEqual(
+      overrides[1]
+    )
+    expect(findOccurrenceOverride({ occurrenceOverrides: overrides }, new Date(2026, 3, 5))).toBeUndefined()
+    expect(findOccurrenceOverride({}, new Date(2026, 2, 5))).toBeUndefined()
+  })
+
+  it('replaces an existing override and keeps date order', () => {
+    const result = upsertOccurrenceOverride(overrides, {
+      type: 'reschedule',
+      occurrenceDate: '2026-03-05',
+      date: '2026-03-02',
+    })
+    expect(result.map((override) => override.type)).toEqual(['reschedule', 'amount'])
+
+    const added = upsertOccurrenceOverride(undefined, { type: 'skip', occurrenceDate: '2026-01-05' })
+    expect(added).toEqual([{ type: 'skip', occurrenceDate: '2026-01-05' }])
+  })
+
+  it('removes the override of an occurrence', () => {
+    expect(removeOccurrenceOverride(overrides, '2026-03-05')).toEqual([overrides[1]])
+  })
 })
 
 // =============================================================================
@@ -422,6 +772,234 @@ describe('CreditCardInputSchema', () => {
   })
 })
 
+describe('TransferInputSchema', () => {
+  const SAVINGS_ID = '123e4567-e89b-12d3-a456-426614174000'
+  const CHECKING_ID = '123e4567-e89b-12d3-a456-426614174001'
+
+  const recurringTransfer = {
+    type: 'recurring' as const,
+    name: 'Reserva mensal',
+    sourceAccountId: CHECKING_ID,
+    destinationAccountId: SAVINGS_ID,
+    amount: 50000,
+    frequency: 'monthly' as const,
+    paymentSchedule: { type: 'dayOfMonth' as const, dayOfMonth: 5 },
+  }
+
+  it('accepts a recurring transfer with a matching schedule', () => {
+    const result = TransferInputSchema.safeParse(recurringTransfer)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.isActive).toBe(true)
+    }
+  })
+
+  it('accepts a one-off transfer with a date', () => {
+    const result = TransferInputSchema.safeParse({
+      type: 'single_shot',
+      name: 'Resgate',
+      sourceAccountId: SAVINGS_ID,
+      destinationAccountId: CHECKING_ID,
+      amount: 100000,
+      date: new Date(2025, 5, 10),
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects a one-off transfer without a date', () => {
+    const result = TransferInputSchema.safeParse({
+      ...recurringTransfer,
+      type: 'single_shot',
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects a recurring transfer whose schedule does not match the frequency', () => {
+    const result = TransferInputSchema.safeParse({ ...recurringTransfer, frequency: 'weekly' })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects transfers to the same account', () => {
+    const result = TransferInputSchema.safeParse({
+      ...recurringTransfer,
+      destinationAccountId: CHECKING_ID,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['destinationAccountId'])
+    }
+  })
+})
+
+describe('EventConfirmationInputSchema', () => {
+  const PROJECT_ID = '123e4567-e89b-12d3-a456-426614174000'
+
+  const confirmed = {
+    sourceType: 'project' as const,
+    sourceId: PROJECT_ID,
+    occurrenceDate: new Date(2025, 5, 5),
+    status: 'confirmed' as const,
+    amount: 480000,
+    date: new Date(2025, 5, 6),
+  }
+
+  it('accepts a confirmed event with its amount and date', () => {
+    expect(EventConfirmationInputSchema.safeParse(confirmed).success).toBe(true)
+  })
+
+  it('accepts a missed event without amount or date', () => {
+    const result = EventConfirmationInputSchema.safeParse({
+      ...confirmed,
+      status: 'missed',
+      amount: null,
+      date: null,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects a confirmed event without an amount', () => {
+    const result = EventConfirmationInputSchema.safeParse({ ...confirmed, amount: null })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Informe o valor e a data do pagamento')
+    }
+  })
+
+  it('rejects a missed event with an amount', () => {
+    const result = EventConfirmationInputSchema.safeParse({ ...confirmed, status: 'missed', date: null })
+    expect(result.success).toBe(false)
+  })
+
+  it('finds the confirmation of an event by source and scheduled day', () => {
+    const confirmations = [confirmed]
+    expect(findEventConfirmation(confirmations, 'project', PROJECT_ID, new Date(2025, 5, 5, 14))).toBe(confirmed)
+    expect(findEventConfirmation(confirmations, 'expense', PROJECT_ID, new Date(2025, 5, 5))).toBeUndefined()
+    expect(findEventConfirmation(confirmations, 'project', PROJECT_ID, new Date(2025, 6, 5))).toBeUndefined()
+  })
+})
+
+describe('SavingsGoalInputSchema', () => {
+  const goal = {
+    name: 'Viagem de férias',
+    targetAmount: 1000000,
+    targetDate: '2025-12-20',
+    contributionDay: 10,
+  }
+
+  it('accepts a goal kept in checking and applies defaults', () => {
+    const result = SavingsGoalInputSchema.safeParse(goal)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.targetDate).toBeInstanceOf(Date)
+      expect(result.data.savedAmount).toBe(0)
+      expect(result.data.isActive).toBe(true)
+    }
+  })
+
+  it('accepts a goal linked to an account', () => {
+    const result = SavingsGoalInputSchema.safeParse({
+      ...goal,
+      accountId: '123e4567-e89b-12d3-a456-426614174000',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects a goal without a name', () => {
+    const result = SavingsGoalInputSchema.safeParse({ ...goal, name: '' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Nome da meta é obrigatório')
+    }
+  })
+
+  it('rejects a contribution day outside the month', () => {
+    expect(SavingsGoalInputSchema.safeParse({ ...goal, contributionDay: 32 }).success).toBe(false)
+  })
+
+  it('rejects a negative saved amount', () => {
+    expect(SavingsGoalInputSchema.safeParse({ ...goal, savedAmount: -1 }).success).toBe(false)
+  })
+})
+
+describe('LoanInputSchema', () => {
+  const loan = {
+    name: 'Financiamento do carro',
+    principal: 4000000,
+    annualRate: 14.5,
+    termMonths: 48,
+    system: 'price',
+    firstDueDate: '2025-03-15',
+  }
+
+  it('accepts a loan and applies defaults', () => {
+    const result = LoanInputSchema.safeParse(loan)
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.firstDueDate).toBeInstanceOf(Date)
+      expect(result.data.prepayments).toEqual([])
+      expect(result.data.isActive).toBe(true)
+    }
+  })
+
+  it('accepts prepayments in both modes', () => {
+    const result = LoanInputSchema.safeParse({
+      ...loan,
+      prepayments: [
+        { date: '2025-09-01', amount: 500000, mode: 'reduce_term' },
+        { date: '2025-12-01', amount: 300000, mode: 'reduce_installment' },
+      ],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects two prepayments on the same date', () => {
+    const result = LoanInputSchema.safeParse({
+      ...loan,
+      prepayments: [
+        { date: '2025-09-01', amount: 500000, mode: 'reduce_term' },
+        { date: '2025-09-01', amount: 300000, mode: 'reduce_installment' },
+      ],
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Cada data só pode ter uma amortização extra')
+    }
+  })
+
+  it('rejects an unknown amortization system', () => {
+    expect(LoanInputSchema.safeParse({ ...loan, system: 'sam' }).success).toBe(false)
+  })
+
+  it('rejects a term outside 1-600 months', () => {
+    expect(LoanInputSchema.safeParse({ ...loan, termMonths: 0 }).success).toBe(false)
+    expect(LoanInputSchema.safeParse({ ...loan, termMonths: 601 }).success).toBe(false)
+  })
+})
+
+describe('TaxProfileSchema', () => {
+  it('accepts each kind of tax profile', () => {
+    expect(TaxProfileSchema.safeParse({ type: 'flat', rate: 6 }).success).toBe(true)
+    expect(
+      TaxProfileSchema.safeParse({ type: 'simples', annex: 'V', annualRevenue: 18000000 }).success
+    ).toBe(true)
+    expect(TaxProfileSchema.safeParse({ type: 'carne_leao' }).success).toBe(true)
+  })
+
+  it('rejects a flat rate above 100%', () => {
+    const result = TaxProfileSchema.safeParse({ type: 'flat', rate: 101 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Alíquota deve ser no máximo 100%')
+    }
+  })
+
+  it('rejects an unsupported Simples Nacional annex', () => {
+    expect(
+      TaxProfileSchema.safeParse({ type: 'simples', annex: 'I', annualRevenue: 0 }).success
+    ).toBe(false)
+  })
+})
+
 // =============================================================================
 // validateFrequencyScheduleMatch TESTS
 // =============================================================================
@@ -448,12 +1026,22 @@ describe('validateFrequencyScheduleMatch', () => {
   })
 
   describe('biweekly frequency', () => {
-    it('returns true for dayOfWeek schedule', () => {
+    it('returns true for anchored dayOfWeek schedule', () => {
       expect(
-        validateFrequencyScheduleMatch('biweekly', { type: 'dayOfWeek', dayOfWeek: 5 })
+        validateFrequencyScheduleMatch('biweekly', {
+          type: 'dayOfWeek',
+          dayOfWeek: 5,
+          anchorDate: '2025-01-10',
+        })
       ).toBe(true)
     })
 
+    it('returns false for dayOfWeek schedule without anchor date', () => {
+      expect(
+        validateFrequencyScheduleMatch('biweekly', { type: 'dayOfWeek', dayOfWeek: 5 })
+      ).toBe(false)
+    })
+
     it('returns false for dayOfMonth schedule', () => {
       expect(
         validateFrequencyScheduleMatch('biweekly', { type: 'dayOfMonth', dayOfMonth: 15 })
@@ -500,6 +1088,40 @@ describe('validateFrequencyScheduleMatch', () => {
       ).toBe(false)
     })
   })
+
+  describe('every-n-months frequency', () => {
+    it('returns true for everyNMonths schedule', () => {
+      expect(
+        validateFrequencyScheduleMatch('every-n-months', {
+          type: 'everyNMonths',
+          intervalMonths: 3,
+          dayOfMonth: 10,
+          anchorMonth: 1,
+          anchorYear: 2025,
+        })
+      ).toBe(true)
+    })
+
+    it('returns false for dayOfMonth schedule', () => {
+      expect(
+        validateFrequencyScheduleMatch('every-n-months', { type: 'dayOfMonth', dayOfMonth: 10 })
+      ).toBe(false)
+    })
+  })
+
+  describe('yearly frequency', () => {
+    it('returns true for yearly schedule', () => {
+      expect(
+        validateFrequencyScheduleMatch('yearly', { type: 'yearly', dates: [{ month: 12, day: 20 }] })
+      ).toBe(true)
+    })
+
+    it('returns false for dayOfMonth schedule', () => {
+      expect(
+        validateFrequencyScheduleMatch('yearly', { type: 'dayOfMonth', dayOfMonth: 20 })
+      ).toBe(false)
+    })
+  })
 })
 
 // =============================================================================
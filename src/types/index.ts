@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { format, getISODay, isSameDay, parse, startOfDay } from 'date-fns'
 
 // === Profile (Owner) ===
 export const ProfileSchema = z.object({
@@ -16,14 +17,57 @@ const OwnerSchema = z.object({
 }).nullable()
 
 // === Bank Account ===
-export const BankAccountInputSchema = z.object({
+const BankAccountInputBaseSchema = z.object({
   name: z.string().min(1, 'Account name is required').max(100),
   type: z.enum(['checking', 'savings', 'investment']),
-  balance: z.number().min(0, 'Balance cannot be negative'),
+  /** Negative only for checking accounts overdrawn into their cheque especial */
+  balance: z.number(),
   ownerId: z.string().uuid().nullable().optional(),
+  /** Receives income and expenses without an assigned account (checking accounts only) */
+  isDefault: z.boolean().optional(),
+  /** Cheque especial limit in cents (checking accounts only); null when the account has none */
+  overdraftLimit: z.number().int().min(0, 'Overdraft limit cannot be negative').nullable().optional(),
+  /** Monthly overdraft interest rate in percent (e.g. 8 = 8% a.m.) */
+  overdraftMonthlyRate: z
+    .number()
+    .min(0, 'Interest rate cannot be negative')
+    .max(100, 'Interest rate must be at most 100%')
+    .nullable()
+    .optional(),
+  /**
+   * How the balance yields (savings and investment accounts only): a fixed annual
+   * rate or a percentage of the group's CDI rate; null when it does not yield
+   */
+  yieldType: z.enum(['fixed', 'cdi']).nullable().optional(),
+  /** Annual rate in percent for fixed yield (e.g. 12 = 12% a.a.), percent of the CDI otherwise (e.g. 110) */
+  yieldRate: z
+    .number()
+    .min(0, 'Yield rate cannot be negative')
+    .max(500, 'Yield rate must be at most 500%')
+    .nullable()
+    .optional(),
+  /** Withhold income tax on the yield using the regressive table */
+  yieldIncomeTax: z.boolean().optional(),
 })
 
-export const BankAccountSchema = BankAccountInputSchema.extend({
+// An overdrawn account can only go as far as its cheque especial limit
+const BANK_ACCOUNT_BALANCE_ERROR = {
+  message: 'Balance cannot be below the overdraft limit',
+  path: ['balance'],
+}
+
+export const BankAccountInputSchema = BankAccountInputBaseSchema.refine(
+  (data) => data.balance >= -(data.overdraftLimit ?? 0),
+  BANK_ACCOUNT_BALANCE_ERROR
+)
+
+// Partial updates: a negative balance needs the overdraft limit sent along
+export const BankAccountUpdateSchema = BankAccountInputBaseSchema.partial().refine(
+  (data) => data.balance === undefined || data.balance >= -(data.overdraftLimit ?? 0),
+  BANK_ACCOUNT_BALANCE_ERROR
+)
+
+export const BankAccountSchema = BankAccountInputBaseSchema.extend({
   id: z.string().uuid(),
   owner: OwnerSchema,
   createdAt: z.date(),
@@ -39,11 +83,28 @@ export type BankAccount = z.infer<typeof BankAccountSchema>
 /**
  * Payment schedule for weekly/biweekly frequencies.
  * Uses ISO 8601 day numbering: 1 = Monday, 7 = Sunday
+ *
+ * `anchorDate` is a real reference payday (yyyy-MM-dd) that fixes the 14-day
+ * biweekly cadence independently of the projection start date.
  */
-const DayOfWeekScheduleSchema = z.object({
-  type: z.literal('dayOfWeek'),
-  dayOfWeek: z.number().int().min(1).max(7, 'Day of week must be 1-7 (Monday-Sunday)'),
-})
+const DayOfWeekScheduleSchema = z
+  .object({
+    type: z.literal('dayOfWeek'),
+    dayOfWeek: z.number().int().min(1).max(7, 'Day of week must be 1-7 (Monday-Sunday)'),
+    anchorDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, 'Anchor date must be in yyyy-MM-dd format')
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      data.anchorDate === undefined ||
+      getISODay(parse(data.anchorDate, 'yyyy-MM-dd', new Date())) === data.dayOfWeek,
+    {
+      message: 'Anchor date must fall on the payment day of week',
+      path: ['anchorDate'],
+    }
+  )
 
 /**
  * Payment schedule for monthly frequency.
@@ -85,6 +146,50 @@ export const TwiceMonthlyScheduleSchema = z
     }
   )
 
+/**
+ * Payment schedule for every-N-months frequency (e.g. quarterly, semiannual).
+ * Anchored to a reference month so the cadence does not depend on the projection start.
+ */
+export const EveryNMonthsScheduleSchema = z.object({
+  type: z.literal('everyNMonths'),
+  intervalMonths: z.number().int().min(2, 'Interval must be 2-12 months').max(12, 'Interval must be 2-12 months'),
+  dayOfMonth: z.number().int().min(1).max(31, 'Day of month must be 1-31'),
+  anchorMonth: z.number().int().min(1).max(12, 'Month must be 1-12'),
+  anchorYear: z.number().int().min(2020, 'Year must be 2020 or later'),
+})
+
+/**
+ * A single month/day pair within a yearly schedule.
+ * Optionally overrides the base amount for that date (e.g. 13º salário installments).
+ */
+const YearlyDateSchema = z.object({
+  month: z.number().int().min(1).max(12, 'Month must be 1-12'),
+  day: z.number().int().min(1).max(31, 'Day must be 1-31'),
+  // Optional amount for this date (in cents, matching project.amount format)
+  amount: z.number().positive('Amount must be positive').optional(),
+})
+
+/**
+ * Payment schedule for yearly frequency.
+ * One or more month/day pairs per year (e.g. IPVA in January, 13º salário in
+ * November and December).
+ */
+export const YearlyScheduleSchema = z
+  .object({
+    type: z.literal('yearly'),
+    dates: z.array(YearlyDateSchema).min(1, 'At least one date is required').max(12),
+  })
+  .refine(
+    (data) => {
+      const keys = data.dates.map((d) => `${d.month}-${d.day}`)
+      return new Set(keys).size === keys.length
+    },
+    {
+      message: 'Dates must be different',
+      path: ['dates'],
+    }
+  )
+
 /**
  * Discriminated union for all payment schedule types.
  */
@@ -92,6 +197,8 @@ export const PaymentScheduleSchema = z.discriminatedUnion('type', [
   DayOfWeekScheduleSchema,
   DayOfMonthScheduleSchema,
   TwiceMonthlyScheduleSchema,
+  EveryNMonthsScheduleSchema,
+  YearlyScheduleSchema,
 ])
 
 export type PaymentSchedule = z.infer<typeof PaymentScheduleSchema>
@@ -99,7 +206,14 @@ export type PaymentSchedule = z.infer<typeof PaymentScheduleSchema>
 /**
  * Frequency options ordered by occurrence rate (most frequent first).
  */
-export const FrequencySchema = z.enum(['weekly', 'biweekly', 'twice-monthly', 'monthly'])
+export const FrequencySchema = z.enum([
+  'weekly',
+  'biweekly',
+  'twice-monthly',
+  'monthly',
+  'every-n-months',
+  'yearly',
+])
 export type Frequency = z.infer<typeof FrequencySchema>
 
 /**
@@ -112,15 +226,245 @@ export function validateFrequencyScheduleMatch(
 ): boolean {
   switch (frequency) {
     case 'weekly':
-    case 'biweekly':
       return schedule.type === 'dayOfWeek'
+    case 'biweekly':
+      // Biweekly needs a reference payday to fix its 14-day cadence
+      return schedule.type === 'dayOfWeek' && schedule.anchorDate !== undefined
     case 'twice-monthly':
       return schedule.type === 'twiceMonthly'
     case 'monthly':
       return schedule.type === 'dayOfMonth'
+    case 'every-n-months':
+      return schedule.type === 'everyNMonths'
+    case 'yearly':
+      return schedule.type === 'yearly'
   }
 }
 
+/**
+ * How a payment moves when it falls on a weekend or national holiday.
+ * - none: keep the scheduled date
+ * - previous: previous business day (e.g. salaries)
+ * - next: next business day (e.g. boletos)
+ */
+export const BusinessDayRolloverSchema = z.enum(['none', 'previous', 'next'])
+export type BusinessDayRollover = z.infer<typeof BusinessDayRolloverSchema>
+
+/**
+ * Build a biweekly schedule from a reference payday (yyyy-MM-dd).
+ * The weekday is derived from the date so both always agree.
+ */
+export function createBiweeklySchedule(anchorDate: string): PaymentSchedule {
+  const dayOfWeek = getISODay(parse(anchorDate, 'yyyy-MM-dd', new Date()))
+  return { type: 'dayOfWeek', dayOfWeek, anchorDate }
+}
+
+/**
+ * Checking account an income or expense is booked to.
+ * null/undefined books it to the group's default account.
+ */
+const TargetAccountIdSchema = z.string().uuid().nullable().optional()
+
+/** Longest typical payment delay accepted, in days */
+export const MAX_PAYMENT_DELAY_DAYS = 90
+
+/**
+ * Typical delay between an income's scheduled date and the day the money
+ * arrives (e.g. clients paying 5–15 days after the invoice).
+ * A fixed delay has minDays equal to maxDays.
+ */
+export const PaymentDelaySchema = z
+  .object({
+    minDays: z.number().int().min(0, 'Atraso não pode ser negativo').max(MAX_PAYMENT_DELAY_DAYS),
+    maxDays: z
+      .number()
+      .int()
+      .min(1, 'Atraso máximo deve ser de pelo menos 1 dia')
+      .max(MAX_PAYMENT_DELAY_DAYS, `Atraso máximo é de ${MAX_PAYMENT_DELAY_DAYS} dias`),
+  })
+  .refine((data) => data.minDays <= data.maxDays, {
+    message: 'Atraso mínimo não pode ser maior que o máximo',
+    path: ['maxDays'],
+  })
+
+export type PaymentDelay = z.infer<typeof PaymentDelaySchema>
+
+/**
+ * A scheduled change of a recurring item's amount (a raise, a rent
+ * readjustment): from `effectiveDate` (yyyy-MM-dd) on, the item pays `amount`.
+ */
+export const AmountChangeSchema = z.object({
+  effectiveDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data de vigência é obrigatória'),
+  amount: z.number().positive('Valor deve ser positivo'),
+})
+
+export type AmountChange = z.infer<typeof AmountChangeSchema>
+
+export const AmountChangesSchema = z
+  .array(AmountChangeSchema)
+  .max(24, 'Máximo de 24 alterações de valor')
+  .refine(
+    (changes) => new Set(changes.map((change) => change.effectiveDate)).size === changes.length,
+    { message: 'Cada data de vigência só pode ter uma alteração' }
+  )
+
+/**
+ * Resolve the amount of a recurring item in effect on a date: the latest
+ * change effective on or before it, or the item's own amount before any change.
+ */
+export function getAmountInEffect(
+  item: { amount: number; amountChanges?: AmountChange[] },
+  date: Date
+): number {
+  const day = format(date, 'yyyy-MM-dd')
+  let inEffect: AmountChange | undefined
+  for (const change of item.amountChanges ?? []) {
+    if (change.effectiveDate <= day && (!inEffect || change.effectiveDate > inEffect.effectiveDate)) {
+      inEffect = change
+    }
+  }
+  return inEffect?.amount ?? item.amount
+}
+
+/**
+ * Optional start and end dates of a recurring item (a contract ending, a gym
+ * membership starting next month). Payments due outside them are skipped.
+ */
+const ActivePeriodFields = {
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+}
+
+function isValidActivePeriod(data: { startDate?: Date | null; endDate?: Date | null }): boolean {
+  return !data.startDate || !data.endDate || data.startDate <= data.endDate
+}
+
+const ACTIVE_PERIOD_ERROR = {
+  message: 'Data de término não pode ser anterior à data de início',
+  path: ['endDate'],
+}
+
+/**
+ * Check if a date falls inside a recurring item's start and end dates (inclusive).
+ */
+export function isWithinActivePeriod(
+  item: { startDate?: Date | null; endDate?: Date | null },
+  date: Date
+): boolean {
+  const day = startOfDay(date)
+  return (
+    (!item.startDate || day >= startOfDay(item.startDate)) &&
+    (!item.endDate || day <= startOfDay(item.endDate))
+  )
+}
+
+const OccurrenceDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data da ocorrência é obrigatória')
+
+/**
+ * A change to a single occurrence of a recurring item, keyed by the date it is
+ * scheduled for (yyyy-MM-dd): skip it, move it to `date`, or pay `amount` instead.
+ */
+export const OccurrenceOverrideSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('skip'),
+    occurrenceDate: OccurrenceDateSchema,
+  }),
+  z
+    .object({
+      type: z.literal('reschedule'),
+      occurrenceDate: OccurrenceDateSchema,
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Nova data é obrigatória'),
+    })
+    .refine((data) => data.date !== data.occurrenceDate, {
+      message: 'Nova data deve ser diferente da data prevista',
+      path: ['date'],
+    }),
+  z.object({
+    type: z.literal('amount'),
+    occurrenceDate: OccurrenceDateSchema,
+    amount: z.number().positive('Valor deve ser positivo'),
+  }),
+])
+
+export type OccurrenceOverride = z.infer<typeof OccurrenceOverrideSchema>
+
+export const OccurrenceOverridesSchema = z
+  .array(OccurrenceOverrideSchema)
+  .max(100, 'Máximo de 100 ajustes de ocorrência')
+  .refine(
+    (overrides) =>
+      new Set(overrides.map((override) => override.occurrenceDate)).size === overrides.length,
+    { message: 'Cada ocorrência só pode ter um ajuste' }
+  )
+
+/**
+ * Find the override of the occurrence scheduled on a date, if any.
+ */
+export function findOccurrenceOverride(
+  item: { occurrenceOverrides?: OccurrenceOverride[] },
+  occurrenceDate: Date
+): OccurrenceOverride | undefined {
+  const day = format(occurrenceDate, 'yyyy-MM-dd')
+  return item.occurrenceOverrides?.find((override) => override.occurrenceDate === day)
+}
+
+/**
+ * Add an override, replacing any existing one for the same occurrence.
+ */
+export function upsertOccurrenceOverride(
+  overrides: OccurrenceOverride[] | undefined,
+  override: OccurrenceOverride
+): OccurrenceOverride[] {
+  return [
+    ...(overrides ?? []).filter((existing) => existing.occurrenceDate !== override.occurrenceDate),
+    override,
+  ].sort((a, b) => a.occurrenceDate.localeCompare(b.occurrenceDate))
+}
+
+/**
+ * Remove the override of an occurrence (yyyy-MM-dd), restoring its schedule.
+ */
+export function removeOccurrenceOverride(
+  overrides: OccurrenceOverride[] | undefined,
+  occurrenceDate: string
+): OccurrenceOverride[] {
+  return (overrides ?? []).filter((override) => override.occurrenceDate !== occurrenceDate)
+}
+
+// === Tax Profile (self-employed income) ===
+
+/**
+ * How the taxes on an income are provisioned: a flat percentage of each
+ * payment, the Simples Nacional effective rate (DAS) of an annex and the
+ * revenue of the last 12 months, or the carnê-leão progressive table on the
+ * month's total. Taxes are paid in the month after the income is received.
+ */
+export const TaxProfileSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('flat'),
+    /** Percentage of each payment (e.g. 6 = 6%) */
+    rate: z
+      .number()
+      .min(0, 'Alíquota não pode ser negativa')
+      .max(100, 'Alíquota deve ser no máximo 100%'),
+  }),
+  z.object({
+    type: z.literal('simples'),
+    annex: z.enum(['III', 'V']),
+    /** Gross revenue of the last 12 months in cents (RBT12), which sets the bracket */
+    annualRevenue: z.number().int().min(0, 'Receita bruta não pode ser negativa'),
+  }),
+  z.object({
+    type: z.literal('carne_leao'),
+  }),
+])
+
+export type TaxProfile = z.infer<typeof TaxProfileSchema>
+
 // === Recurring Project (Income Source) ===
 
 // Base schema without refinement (for extension)
@@ -132,6 +476,16 @@ const RecurringProjectInputBaseSchema = z.object({
   paymentSchedule: PaymentScheduleSchema,
   certainty: z.enum(['guaranteed', 'probable', 'uncertain']),
   isActive: z.boolean().default(true),
+  businessDayRollover: BusinessDayRolloverSchema.optional(),
+  accountId: TargetAccountIdSchema,
+  /** Typical payment delay; null when the income arrives on the scheduled date */
+  paymentDelay: PaymentDelaySchema.nullable().optional(),
+  /** Taxes provisioned on each payment; null when the income is not taxed here */
+  taxProfile: TaxProfileSchema.nullable().optional(),
+  /** Scheduled amount changes; `amount` applies before the first one */
+  amountChanges: AmountChangesSchema.optional(),
+  ...ActivePeriodFields,
+  occurrenceOverrides: OccurrenceOverridesSchema.optional(),
 })
 
 // Input schema with frequency-schedule validation
@@ -141,7 +495,7 @@ const RecurringProjectInputSchema = RecurringProjectInputBaseSchema.refine(
     message: 'Payment schedule type must match frequency',
     path: ['paymentSchedule'],
   }
-)
+).refine(isValidActivePeriod, ACTIVE_PERIOD_ERROR)
 
 // Full schema with system fields
 export const RecurringProjectSchema = RecurringProjectInputBaseSchema.extend({
@@ -154,7 +508,7 @@ export const RecurringProjectSchema = RecurringProjectInputBaseSchema.extend({
     message: 'Payment schedule type must match frequency',
     path: ['paymentSchedule'],
   }
-)
+).refine(isValidActivePeriod, ACTIVE_PERIOD_ERROR)
 
 export type RecurringProjectInput = z.infer<typeof RecurringProjectInputSchema>
 export type RecurringProject = z.infer<typeof RecurringProjectSchema>
@@ -173,6 +527,11 @@ export const SingleShotIncomeInputSchema = z.object({
   amount: z.number().positive('Valor deve ser positivo'),
   date: z.coerce.date(),
   certainty: z.enum(['guaranteed', 'probable', 'uncertain']),
+  accountId: TargetAccountIdSchema,
+  /** Typical payment delay; null when the income arrives on the scheduled date */
+  paymentDelay: PaymentDelaySchema.nullable().optional(),
+  /** Taxes provisioned on the payment; null when the income is not taxed here */
+  taxProfile: TaxProfileSchema.nullable().optional(),
 })
 
 export const SingleShotIncomeSchema = SingleShotIncomeInputSchema.extend({
@@ -197,29 +556,104 @@ export function isRecurringProject(project: unknown): project is RecurringProjec
 }
 
 // === Fixed Expense ===
-export const FixedExpenseInputSchema = z.object({
+
+/**
+ * Validation helper for fixed expense schedules.
+ * Expenses without an explicit schedule fall back to monthly on `dueDay`.
+ */
+function isValidFixedExpenseSchedule(data: {
+  dueDay?: number
+  frequency?: Frequency
+  paymentSchedule?: PaymentSchedule
+}): boolean {
+  if (data.paymentSchedule) {
+    return (
+      data.frequency !== undefined &&
+      validateFrequencyScheduleMatch(data.frequency, data.paymentSchedule)
+    )
+  }
+  return data.dueDay !== undefined && (data.frequency === undefined || data.frequency === 'monthly')
+}
+
+/**
+ * Minimum and maximum amount of a variable expense (utility bills, groceries,
+ * fuel), in cents. The expense's `amount` holds their average.
+ */
+export const ExpenseAmountRangeSchema = z
+  .object({
+    min: z.number().positive('Valor mínimo deve ser positivo'),
+    max: z.number().positive('Valor máximo deve ser positivo'),
+  })
+  .refine((data) => data.min < data.max, {
+    message: 'Valor máximo deve ser maior que o mínimo',
+    path: ['max'],
+  })
+
+export type ExpenseAmountRange = z.infer<typeof ExpenseAmountRangeSchema>
+
+// Base schema without refinement (for extension)
+const FixedExpenseInputBaseSchema = z.object({
   type: z.literal('fixed'),
   name: z.string().min(1, 'Nome da despesa é obrigatório').max(100),
   amount: z.number().positive('Valor deve ser positivo'),
-  dueDay: z.number().int().min(1).max(31, 'Dia deve ser entre 1 e 31'),
+  /** Monthly due day (legacy shape; used when no paymentSchedule is set) */
+  dueDay: z.number().int().min(1).max(31, 'Dia deve ser entre 1 e 31').optional(),
+  frequency: FrequencySchema.optional(),
+  paymentSchedule: PaymentScheduleSchema.optional(),
   isActive: z.boolean().default(true),
+  businessDayRollover: BusinessDayRolloverSchema.optional(),
+  accountId: TargetAccountIdSchema,
+  /** Amount range of a variable expense; null when the amount is fixed */
+  amountRange: ExpenseAmountRangeSchema.nullable().optional(),
+  /** Scheduled amount changes; `amount` applies before the first one */
+  amountChanges: AmountChangesSchema.optional(),
+  ...ActivePeriodFields,
+  occurrenceOverrides: OccurrenceOverridesSchema.optional(),
 })
 
-export const FixedExpenseSchema = FixedExpenseInputSchema.extend({
+export const FixedExpenseInputSchema = FixedExpenseInputBaseSchema.refine(
+  isValidFixedExpenseSchedule,
+  {
+    message: 'Dia de vencimento ou agenda de pagamento é obrigatório',
+    path: ['dueDay'],
+  }
+).refine(isValidActivePeriod, ACTIVE_PERIOD_ERROR)
+
+export const FixedExpenseSchema = FixedExpenseInputBaseSchema.extend({
   id: z.string().uuid(),
   createdAt: z.date(),
   updatedAt: z.date(),
-})
+}).refine(isValidFixedExpenseSchedule, {
+  message: 'Dia de vencimento ou agenda de pagamento é obrigatório',
+  path: ['dueDay'],
+}).refine(isValidActivePeriod, ACTIVE_PERIOD_ERROR)
 
 export type FixedExpenseInput = z.infer<typeof FixedExpenseInputSchema>
 export type FixedExpense = z.infer<typeof FixedExpenseSchema>
 
+/**
+ * Resolve the effective frequency and payment schedule of a fixed expense.
+ * Expenses created before schedules existed only have a monthly `dueDay`.
+ */
+export function getFixedExpenseSchedule(
+  expense: Pick<FixedExpense, 'dueDay' | 'frequency' | 'paymentSchedule'>
+): { frequency: Frequency; paymentSchedule: PaymentSchedule } {
+  if (expense.frequency && expense.paymentSchedule) {
+    return { frequency: expense.frequency, paymentSchedule: expense.paymentSchedule }
+  }
+  return {
+    frequency: 'monthly',
+    paymentSchedule: { type: 'dayOfMonth', dayOfMonth: expense.dueDay ?? 1 },
+  }
+}
+
 // === Single-Shot Expense ===
 export const SingleShotExpenseInputSchema = z.object({
   type: z.literal('single_shot'),
   name: z.string().min(1, 'Nome da despesa é obrigatório').max(100),
   amount: z.number().positive('Valor deve ser positivo'),
   date: z.coerce.date(),
+  accountId: TargetAccountIdSchema,
 })
 
 export const SingleShotExpenseSchema = SingleShotExpenseInputSchema.extend({
@@ -252,7 +686,13 @@ export const CreditCardInputSchema = z.object({
   name: z.string().min(1, 'Card name is required').max(100),
   statementBalance: z.number().min(0, 'Balance cannot be negative'),
   dueDay: z.number().int().min(1).max(31, 'Due day must be 1-31'),
+  /** Day the statement closes; null for cards without statement cycle modeling */
+  closingDay: z.number().int().min(1).max(31, 'Closing day must be 1-31').nullable().optional(),
+  /** Purchases on the open statement (billed on the due date after the next closing) */
+  openStatementBalance: z.number().min(0, 'Balance cannot be negative').optional(),
   ownerId: z.string().uuid().nullable().optional(),
+  /** Checking account the bill is paid from (null = default account) */
+  accountId: TargetAccountIdSchema,
 })
 
 export const CreditCardSchema = CreditCardInputSchema.extend({
@@ -266,6 +706,224 @@ export const CreditCardSchema = CreditCardInputSchema.extend({
 export type CreditCardInput = z.infer<typeof CreditCardInputSchema>
 export type CreditCard = z.infer<typeof CreditCardSchema>
 
+// === Transfer ===
+
+/**
+ * Validation helper for transfer schedules.
+ * One-off transfers need a date; recurring transfers need a matching schedule.
+ */
+function isValidTransferSchedule(data: {
+  type: 'single_shot' | 'recurring'
+  date?: Date
+  frequency?: Frequency
+  paymentSchedule?: PaymentSchedule
+}): boolean {
+  if (data.type === 'single_shot') {
+    return data.date !== undefined
+  }
+  return (
+    data.frequency !== undefined &&
+    data.paymentSchedule !== undefined &&
+    validateFrequencyScheduleMatch(data.frequency, data.paymentSchedule)
+  )
+}
+
+const TRANSFER_SCHEDULE_ERROR = {
+  message: 'Data ou agenda da transferência é obrigatória',
+  path: ['paymentSchedule'],
+}
+
+const TRANSFER_ACCOUNTS_ERROR = {
+  message: 'Conta de destino deve ser diferente da conta de origem',
+  path: ['destinationAccountId'],
+}
+
+// Base schema without refinement (for extension)
+const TransferInputBaseSchema = z.object({
+  /** single_shot transfers happen once on `date`; recurring ones follow `paymentSchedule` */
+  type: z.enum(['single_shot', 'recurring']),
+  name: z.string().min(1, 'Nome da transferência é obrigatório').max(100),
+  sourceAccountId: z.string().uuid('Selecione a conta de origem'),
+  destinationAccountId: z.string().uuid('Selecione a conta de destino'),
+  amount: z.number().positive('Valor deve ser positivo'),
+  date: z.coerce.date().optional(),
+  frequency: FrequencySchema.optional(),
+  paymentSchedule: PaymentScheduleSchema.optional(),
+  isActive: z.boolean().default(true),
+})
+
+export const TransferInputSchema = TransferInputBaseSchema
+  .refine((data) => data.sourceAccountId !== data.destinationAccountId, TRANSFER_ACCOUNTS_ERROR)
+  .refine(isValidTransferSchedule, TRANSFER_SCHEDULE_ERROR)
+
+export const TransferSchema = TransferInputBaseSchema.extend({
+  id: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+  .refine((data) => data.sourceAccountId !== data.destinationAccountId, TRANSFER_ACCOUNTS_ERROR)
+  .refine(isValidTransferSchedule, TRANSFER_SCHEDULE_ERROR)
+
+export type TransferInput = z.infer<typeof TransferInputSchema>
+export type Transfer = z.infer<typeof TransferSchema>
+
+// === Event Confirmation ===
+
+/**
+ * Reconciliation of a past projected event against reality: it was paid or
+ * received (`confirmed`, with the real amount and date) or did not happen
+ * (`missed`). Keyed by its source and the date it was scheduled for.
+ */
+const EventConfirmationInputBaseSchema = z.object({
+  /** Table of the source: projects (income), expenses or credit_cards */
+  sourceType: z.enum(['project', 'expense', 'credit_card']),
+  sourceId: z.string().uuid(),
+  /** Date the event was scheduled for */
+  occurrenceDate: z.coerce.date(),
+  status: z.enum(['confirmed', 'missed']),
+  /** Amount actually paid or received in cents (confirmed only) */
+  amount: z.number().int().positive('Valor deve ser positivo').nullable(),
+  /** Date the payment actually happened (confirmed only) */
+  date: z.coerce.date().nullable(),
+})
+
+const EVENT_CONFIRMATION_ERROR = {
+  message: 'Informe o valor e a data do pagamento',
+  path: ['amount'],
+}
+
+function isValidEventConfirmation(data: {
+  status: 'confirmed' | 'missed'
+  amount: number | null
+  date: Date | null
+}): boolean {
+  return data.status === 'confirmed'
+    ? data.amount !== null && data.date !== null
+    : data.amount === null && data.date === null
+}
+
+export const EventConfirmationInputSchema = EventConfirmationInputBaseSchema.refine(
+  isValidEventConfirmation,
+  EVENT_CONFIRMATION_ERROR
+)
+
+export const EventConfirmationSchema = EventConfirmationInputBaseSchema.extend({
+  id: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+}).refine(isValidEventConfirmation, EVENT_CONFIRMATION_ERROR)
+
+export type EventConfirmationInput = z.infer<typeof EventConfirmationInputSchema>
+export type EventConfirmation = z.infer<typeof EventConfirmationSchema>
+
+/**
+ * Find the confirmation of a source's event scheduled for a date.
+ */
+export function findEventConfirmation<T extends EventConfirmationInput>(
+  confirmations: T[],
+  sourceType: EventConfirmationInput['sourceType'],
+  sourceId: string,
+  occurrenceDate: Date
+): T | undefined {
+  return confirmations.find(
+    (confirmation) =>
+      confirmation.sourceType === sourceType &&
+      confirmation.sourceId === sourceId &&
+      isSameDay(confirmation.occurrenceDate, occurrenceDate)
+  )
+}
+
+// === Savings Goal ===
+
+/**
+ * Money set aside for a future expense (vacations, car maintenance, annual
+ * taxes): `targetAmount` saved by `targetDate` through monthly contributions
+ * on `contributionDay`.
+ */
+export const SavingsGoalInputSchema = z.object({
+  name: z.string().min(1, 'Nome da meta é obrigatório').max(100),
+  targetAmount: z.number().int().positive('Valor da meta deve ser positivo'),
+  targetDate: z.coerce.date(),
+  /**
+   * Savings or investment account the contributions are transferred to; its
+   * balance counts as saved. Null keeps the money reserved in checking.
+   */
+  accountId: z.string().uuid().nullable().optional(),
+  /** Amount already set aside in cents (goals without a linked account) */
+  savedAmount: z.number().int().min(0, 'Valor guardado não pode ser negativo').default(0),
+  /** Day of month the contribution is set aside (1-31) */
+  contributionDay: z.number().int().min(1).max(31, 'Dia deve ser entre 1 e 31'),
+  isActive: z.boolean().default(true),
+})
+
+export const SavingsGoalSchema = SavingsGoalInputSchema.extend({
+  id: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type SavingsGoalInput = z.infer<typeof SavingsGoalInputSchema>
+export type SavingsGoal = z.infer<typeof SavingsGoalSchema>
+
+// === Loan ===
+
+/**
+ * An extra payment made on a loan (yyyy-MM-dd `date`, in cents), either to
+ * shorten the term or to lower the remaining installments.
+ */
+export const LoanPrepaymentSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Data da amortização é obrigatória'),
+  amount: z.number().int().positive('Valor deve ser positivo'),
+  mode: z.enum(['reduce_term', 'reduce_installment']),
+})
+
+export type LoanPrepayment = z.infer<typeof LoanPrepaymentSchema>
+
+/**
+ * A loan or financing paid in `termMonths` monthly installments from
+ * `firstDueDate`, amortized with the SAC (constant amortization) or Price
+ * (constant installment) system.
+ */
+export const LoanInputSchema = z.object({
+  name: z.string().min(1, 'Nome do financiamento é obrigatório').max(100),
+  /** Amount borrowed in cents */
+  principal: z.number().int().positive('Valor financiado deve ser positivo'),
+  /** Effective annual interest rate in percent (e.g. 12 = 12% a.a.) */
+  annualRate: z
+    .number()
+    .min(0, 'Taxa de juros não pode ser negativa')
+    .max(100, 'Taxa de juros deve ser no máximo 100%'),
+  termMonths: z
+    .number()
+    .int()
+    .min(1, 'Prazo deve ser de pelo menos 1 mês')
+    .max(600, 'Prazo deve ser de no máximo 600 meses'),
+  system: z.enum(['sac', 'price']),
+  firstDueDate: z.coerce.date(),
+  /** Checking account the installments are paid from (null = default account) */
+  accountId: TargetAccountIdSchema,
+  prepayments: z
+    .array(LoanPrepaymentSchema)
+    .max(24, 'Máximo de 24 amortizações extras')
+    .refine(
+      (prepayments) => new Set(prepayments.map((prepayment) => prepayment.date)).size === prepayments.length,
+      { message: 'Cada data só pode ter uma amortização extra' }
+    )
+    .default([]),
+  isActive: z.boolean().default(true),
+})
+
+export const LoanSchema = LoanInputSchema.extend({
+  id: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
+
+export type LoanInput = z.infer<typeof LoanInputSchema>
+export type Loan = z.infer<typeof LoanSchema>
+
 // === Projection Days ===
 export const ProjectionDaysSchema = z.union([
   z.literal(7),
@@ -273,10 +931,34 @@ export const ProjectionDaysSchema = z.union([
   z.literal(30),
   z.literal(60),
   z.literal(90),
+  z.literal(180),
+  z.literal(365),
 ])
 
 export type ProjectionDays = z.infer<typeof ProjectionDaysSchema>
 
+// === Finance Settings (group preferences) ===
+export const FinanceSettingsSchema = z.object({
+  // Minimum balance in cents the group wants to keep; days below it count as danger
+  safetyThreshold: z.number().int().min(0, 'Safety threshold cannot be negative'),
+  // Annual CDI rate in percent, the base of accounts yielding a percentage of the CDI
+  cdiAnnualRate: z
+    .number()
+    .min(0, 'CDI rate cannot be negative')
+    .max(100, 'CDI rate must be at most 100%'),
+})
+
+export type FinanceSettings = z.infer<typeof FinanceSettingsSchema>
+
+export const DEFAULT_FINANCE_SETTINGS: FinanceSettings = {
+  safetyThreshold: 0,
+  cdiAnnualRate: 0,
+}
+
+// group_preferences keys holding the finance settings (values stored as text)
+export const SAFETY_THRESHOLD_PREFERENCE_KEY = 'safety_threshold'
+export const CDI_ANNUAL_RATE_PREFERENCE_KEY = 'cdi_annual_rate'
+
 // === Future Statement ===
 export {
   FutureStatementInputSchema,
@@ -288,10 +970,26 @@ export {
   transformFutureStatementRow,
   getAvailableMonthOptions,
   formatMonthYear,
+  MONTH_NAMES,
   isMonthInPast,
   isCurrentMonth,
 } from './future-statement'
 
+// === Installment Purchase ===
+export {
+  InstallmentPurchaseInputSchema,
+  InstallmentPurchaseSchema,
+  type InstallmentPurchaseInput,
+  type InstallmentPurchase,
+  type InstallmentPurchaseRow,
+  transformInstallmentPurchaseRow,
+  MAX_INSTALLMENTS,
+  getInstallmentAmount,
+  getInstallmentNumberForMonth,
+  getInstallmentsTotalForMonth,
+  getRemainingInstallments,
+} from './installment-purchase'
+
 // === Onboarding ===
 
 /**
@@ -0,0 +1,169 @@
+/**
+ * Installment Purchase Type Tests
+ *
+ * Unit tests for installment purchase schemas and installment helpers.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  InstallmentPurchaseInputSchema,
+  getInstallmentAmount,
+  getInstallmentNumberForMonth,
+  getInstallmentsTotalForMonth,
+  getRemainingInstallments,
+  type InstallmentPurchase,
+} from './installment-purchase'
+
+const CARD_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+function createTestPurchase(overrides: Partial<InstallmentPurchase> = {}): InstallmentPurchase {
+  return {
+    id: overrides.id ?? crypto.randomUUID(),
+    groupId: overrides.groupId ?? 'test-group-1',
+    creditCardId: overrides.creditCardId ?? CARD_ID,
+    description: overrides.description ?? 'Geladeira',
+    totalAmount: overrides.totalAmount ?? 100000,
+    installmentCount: overrides.installmentCount ?? 10,
+    firstMonth: overrides.firstMonth ?? 3,
+    firstYear: overrides.firstYear ?? 2025,
+    createdAt: overrides.createdAt ?? new Date(),
+    updatedAt: overrides.updatedAt ?? new Date(),
+  }
+}
+
+// =============================================================================
+// SCHEMA VALIDATION TESTS
+// =============================================================================
+
+describe('InstallmentPurchaseInputSchema', () => {
+  const validInput = {
+    creditCardId: CARD_ID,
+    description: 'Geladeira',
+    totalAmount: 300000,
+    installmentCount: 10,
+    firstMonth: 11,
+    firstYear: 2025,
+  }
+
+  it('validates a correct installment purchase', () => {
+    expect(InstallmentPurchaseInputSchema.safeParse(validInput).success).toBe(true)
+  })
+
+  it('rejects fewer than 2 installments', () => {
+    const result = InstallmentPurchaseInputSchema.safeParse({ ...validInput, installmentCount: 1 })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects more than 48 installments', () => {
+    const result = InstallmentPurchaseInputSchema.safeParse({ ...validInput, installmentCount: 49 })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects empty description', () => {
+    const result = InstallmentPurchaseInputSchema.safeParse({ ...validInput, description: '' })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects a total that cannot cover one cent per installment', () => {
+    const result = InstallmentPurchaseInputSchema.safeParse({
+      ...validInput,
+      totalAmount: 5,
+      installmentCount: 6,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['totalAmount'])
+    }
+  })
+})
+
+// =============================================================================
+// HELPER TESTS
+// =============================================================================
+
+describe('getInstallmentAmount', () => {
+  it('splits evenly divisible totals', () => {
+    const purchase = createTestPurchase({ totalAmount: 100000, installmentCount: 10 })
+    expect(getInstallmentAmount(purchase, 1)).toBe(10000)
+    expect(getInstallmentAmount(purchase, 10)).toBe(10000)
+  })
+
+  it('charges leftover cents on the first installment', () => {
+    const purchase = createTestPurchase({ totalAmount: 10000, installmentCount: 3 })
+    expect(getInstallmentAmount(purchase, 1)).toBe(3334)
+    expect(getInstallmentAmount(purchase, 2)).toBe(3333)
+    expect(getInstallmentAmount(purchase, 3)).toBe(3333)
+  })
+})
+
+describe('getInstallmentNumberForMonth', () => {
+  const purchase = createTestPurchase({ installmentCount: 4, firstMonth: 11, firstYear: 2025 })
+
+  it('returns null before the first installment', () => {
+    expect(getInstallmentNumberForMonth(purchase, 10, 2025)).toBeNull()
+  })
+
+  it('counts installments across the year boundary', () => {
+    expect(getInstallmentNumberForMonth(purchase, 11, 2025)).toBe(1)
+    expect(getInstallmentNumberForMonth(purchase, 12, 2025)).toBe(2)
+    expect(getInstallmentNumberForMonth(purchase, 1, 2026)).toBe(3)
+    expect(getInstallmentNumberForMonth(purchase, 2, 2026)).toBe(4)
+  })
+
+  it('returns null after the last installment', () => {
+    expect(getInstallmentNumberForMonth(purchase, 3, 2026)).toBeNull()
+  })
+})
+
+describe('getInstallmentsTotalForMonth', () => {
+  it('sums installments of the given card only', () => {
+    const purchases = [
+      createTestPurchase({ totalAmount: 60000, installmentCount: 6, firstMonth: 1, firstYear: 2026 }),
+      createTestPurchase({ totalAmount: 30000, installmentCount: 3, firstMonth: 2, firstYear: 2026 }),
+      createTestPurchase({
+        creditCardId: 'other-card',
+        totalAmount: 50000,
+        installmentCount: 2,
+        firstMonth: 2,
+        firstYear: 2026,
+      }),
+    ]
+
+    expect(getInstallmentsTotalForMonth(purchases, CARD_ID, 1, 2026)).toBe(10000)
+    expect(getInstallmentsTotalForMonth(purchases, CARD_ID, 2, 2026)).toBe(20000)
+    expect(getInstallmentsTotalForMonth(purchases, CARD_ID, 7, 2026)).toBe(0)
+  })
+})
+
+describe('getRemainingInstallments', () => {
+  const purchase = createTestPurchase({
+    totalAmount: 10000,
+    installmentCount: 3,
+    firstMonth: 1,
+    firstYear: 2026,
+  })
+
+  it('includes every installment before the purchase starts', () => {
+    expect(getRemainingInstallments(purchase, new Date(2025, 11, 10))).toEqual({
+      currentInstallment: null,
+      remainingCount: 3,
+      remainingAmount: 10000,
+    })
+  })
+
+  it('includes the current month installment', () => {
+    expect(getRemainingInstallments(purchase, new Date(2026, 1, 10))).toEqual({
+      currentInstallment: 2,
+      remainingCount: 2,
+      remainingAmount: 6666,
+    })
+  })
+
+  it('reports nothing left after the last installment', () => {
+    expect(getRemainingInstallments(purchase, new Date(2026, 3, 1))).toEqual({
+      currentInstallment: null,
+      remainingCount: 0,
+      remainingAmount: 0,
+    })
+  })
+})
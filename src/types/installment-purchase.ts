@@ -0,0 +1,214 @@
+/**
+ * Installment Purchase Contracts
+ *
+ * Zod schemas, types and helpers for credit card purchases split into
+ * monthly installments (compras parceladas). Each installment is added on
+ * top of the card's projected statement for its month.
+ */
+
+import { z } from 'zod'
+
+// =============================================================================
+// CORE SCHEMAS
+// =============================================================================
+
+/** Maximum number of installments accepted for a single purchase. */
+export const MAX_INSTALLMENTS = 48
+
+// Base schema without refinement (for extension)
+const InstallmentPurchaseInputBaseSchema = z.object({
+  creditCardId: z.string().uuid('ID do cartão inválido'),
+  description: z
+    .string()
+    .min(1, 'Descrição é obrigatória')
+    .max(100, 'Descrição deve ter no máximo 100 caracteres'),
+  totalAmount: z
+    .number()
+    .int('Valor deve ser um número inteiro (centavos)')
+    .positive('Valor deve ser positivo'),
+  installmentCount: z
+    .number()
+    .int('Número de parcelas deve ser inteiro')
+    .min(2, 'Mínimo de 2 parcelas')
+    .max(MAX_INSTALLMENTS, `Máximo de ${MAX_INSTALLMENTS} parcelas`),
+  firstMonth: z
+    .number()
+    .int('Mês deve ser um número inteiro')
+    .min(1, 'Mês deve ser entre 1 e 12')
+    .max(12, 'Mês deve ser entre 1 e 12'),
+  firstYear: z
+    .number()
+    .int('Ano deve ser um número inteiro')
+    .min(2020, 'Ano deve ser 2020 ou posterior'),
+})
+
+/**
+ * Every installment must be at least one cent.
+ */
+function coversAllInstallments(data: { totalAmount: number; installmentCount: number }): boolean {
+  return data.totalAmount >= data.installmentCount
+}
+
+const COVERS_ALL_INSTALLMENTS_ERROR = {
+  message: 'Valor total deve cobrir todas as parcelas',
+  path: ['totalAmount'],
+}
+
+/**
+ * Input schema for creating/updating an installment purchase.
+ * Used in forms and store actions.
+ */
+export const InstallmentPurchaseInputSchema = InstallmentPurchaseInputBaseSchema.refine(
+  coversAllInstallments,
+  COVERS_ALL_INSTALLMENTS_ERROR
+)
+
+/**
+ * Full schema including server-generated fields.
+ */
+export const InstallmentPurchaseSchema = InstallmentPurchaseInputBaseSchema.extend({
+  id: z.string().uuid(),
+  groupId: z.string().uuid(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+}).refine(coversAllInstallments, COVERS_ALL_INSTALLMENTS_ERROR)
+
+// =============================================================================
+// TYPE EXPORTS
+// =============================================================================
+
+export type InstallmentPurchaseInput = z.infer<typeof InstallmentPurchaseInputSchema>
+export type InstallmentPurchase = z.infer<typeof InstallmentPurchaseSchema>
+
+// =============================================================================
+// DATABASE ROW TRANSFORMATION
+// =============================================================================
+
+/**
+ * Database row (snake_case) for installment_purchases.
+ */
+export interface InstallmentPurchaseRow {
+  id: string
+  credit_card_id: string
+  group_id: string
+  description: string
+  total_amount: number
+  installment_count: number
+  first_month: number
+  first_year: number
+  created_at: string
+  updated_at: string
+}
+
+export function transformInstallmentPurchaseRow(row: InstallmentPurchaseRow): InstallmentPurchase {
+  return {
+    id: row.id,
+    creditCardId: row.credit_card_id,
+    groupId: row.group_id,
+    description: row.description,
+    totalAmount: row.total_amount,
+    installmentCount: row.installment_count,
+    firstMonth: row.first_month,
+    firstYear: row.first_year,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  }
+}
+
+// =============================================================================
+// INSTALLMENT HELPERS
+// =============================================================================
+
+type InstallmentPlan = Pick<
+  InstallmentPurchase,
+  'totalAmount' | 'installmentCount' | 'firstMonth' | 'firstYear'
+>
+
+/**
+ * Get the amount of a specific installment in cents.
+ * Cents that do not divide evenly are charged on the first installment,
+ * as card issuers do.
+ *
+ * @param purchase - The installment purchase
+ * @param installmentNumber - 1-based installment number
+ */
+export function getInstallmentAmount(
+  purchase: Pick<InstallmentPurchase, 'totalAmount' | 'installmentCount'>,
+  installmentNumber: number
+): number {
+  const baseAmount = Math.floor(purchase.totalAmount / purchase.installmentCount)
+  const remainder = purchase.totalAmount - baseAmount * purchase.installmentCount
+  return installmentNumber === 1 ? baseAmount + remainder : baseAmount
+}
+
+/**
+ * Get which installment (1-based) falls on a statement month.
+ *
+ * @returns The installment number, or null if the purchase has no installment that month
+ */
+export function getInstallmentNumberForMonth(
+  purchase: InstallmentPlan,
+  month: number,
+  year: number
+): number | null {
+  const monthsSinceFirst = (year * 12 + month) - (purchase.firstYear * 12 + purchase.firstMonth)
+  if (monthsSinceFirst < 0 || monthsSinceFirst >= purchase.installmentCount) {
+    return null
+  }
+  return monthsSinceFirst + 1
+}
+
+/**
+ * Sum the installments of a card's purchases that fall on a statement month.
+ *
+ * @param purchases - Installment purchases for all cards
+ * @param creditCardId - The card to sum installments for
+ * @param month - Statement month (1-12)
+ * @param year - Statement year
+ * @returns The total in cents (0 if no installment falls on that month)
+ */
+export function getInstallmentsTotalForMonth(
+  purchases: InstallmentPurchase[],
+  creditCardId: string,
+  month: number,
+  year: number
+): number {
+  let total = 0
+  for (const purchase of purchases) {
+    if (purchase.creditCardId !== creditCardId) continue
+    const installmentNumber = getInstallmentNumberForMonth(purchase, month, year)
+    if (installmentNumber !== null) {
+      total += getInstallmentAmount(purchase, installmentNumber)
+    }
+  }
+  return total
+}
+
+/**
+ * Summarize the installments still to be billed from a reference month onwards
+ * (the reference month's installment included).
+ *
+ * @param purchase - The installment purchase
+ * @param today - Reference date (defaults to now)
+ */
+export function getRemainingInstallments(
+  purchase: InstallmentPlan,
+  today: Date = new Date()
+): { currentInstallment: number | null; remainingCount: number; remainingAmount: number } {
+  const month = today.getMonth() + 1
+  const year = today.getFullYear()
+  const monthsSinceFirst = (year * 12 + month) - (purchase.firstYear * 12 + purchase.firstMonth)
+  const alreadyBilled = Math.min(Math.max(monthsSinceFirst, 0), purchase.installmentCount)
+  const remainingCount = purchase.installmentCount - alreadyBilled
+
+  let remainingAmount = 0
+  for (let n = alreadyBilled + 1; n <= purchase.installmentCount; n++) {
+    remainingAmount += getInstallmentAmount(purchase, n)
+  }
+
+  return {
+    currentInstallment: getInstallmentNumberForMonth(purchase, month, year),
+    remainingCount,
+    remainingAmount,
+  }
+}
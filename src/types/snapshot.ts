@@ -8,6 +8,11 @@ import type {
   SingleShotExpense,
   CreditCard,
   FutureStatement,
+  InstallmentPurchase,
+  Transfer,
+  EventConfirmation,
+  SavingsGoal,
+  Loan,
   ProjectionDays,
 } from '@/types'
 
@@ -26,6 +31,16 @@ export interface SnapshotInputState {
   singleShotExpenses: SingleShotExpense[]
   creditCards: CreditCard[]
   futureStatements: FutureStatement[]
+  /** Absent on snapshots saved before installment purchases existed */
+  installmentPurchases?: InstallmentPurchase[]
+  /** Absent on snapshots saved before transfers existed */
+  transfers?: Transfer[]
+  /** Absent on snapshots saved before event confirmations existed */
+  eventConfirmations?: EventConfirmation[]
+  /** Absent on snapshots saved before savings goals existed */
+  savingsGoals?: SavingsGoal[]
+  /** Absent on snapshots saved before loans existed */
+  loans?: Loan[]
   projectionDays: ProjectionDays
 }
 
@@ -37,6 +52,8 @@ export interface SnapshotSummaryMetrics {
   startingBalance: number
   /** End balance (optimistic) in cents */
   endBalanceOptimistic: number
+  /** End balance (realistic) in cents; absent on snapshots saved before it existed */
+  endBalanceRealistic?: number
   /** Number of danger days in optimistic scenario */
   dangerDayCount: number
 }
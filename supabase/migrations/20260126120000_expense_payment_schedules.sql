@@ -0,0 +1,45 @@
+-- Migration: 20260126120000_expense_payment_schedules
+-- Feature: recurring-expense-schedules
+-- Date: 2026-01-26
+-- Description: Allow fixed expenses to use the same frequency + payment schedule
+--              model as projects (weekly, biweekly, twice-monthly, monthly,
+--              every N months and yearly).
+--
+-- This migration:
+-- 1. Adds frequency and payment_schedule columns to expenses
+-- 2. Backfills existing fixed expenses as monthly on their due_day
+-- 3. Relaxes expense_type_fields so fixed expenses need either due_day or a schedule
+
+-- ============================================================================
+-- STEP 1: Add schedule columns
+-- ============================================================================
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS frequency TEXT
+  CHECK (frequency IN ('weekly', 'biweekly', 'twice-monthly', 'monthly', 'every-n-months', 'yearly'));
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS payment_schedule JSONB;
+
+-- ============================================================================
+-- STEP 2: Backfill existing fixed expenses (monthly on due_day)
+-- ============================================================================
+
+UPDATE expenses
+SET
+  frequency = 'monthly',
+  payment_schedule = jsonb_build_object('type', 'dayOfMonth', 'dayOfMonth', due_day)
+WHERE type = 'fixed'
+  AND due_day IS NOT NULL
+  AND payment_schedule IS NULL;
+
+-- ============================================================================
+-- STEP 3: Replace type-specific field constraint
+-- ============================================================================
+
+-- due_day is kept for legacy rows; non-monthly fixed expenses only have a schedule
+ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expense_type_fields;
+
+ALTER TABLE expenses ADD CONSTRAINT expense_type_fields CHECK (
+  (type = 'fixed' AND (due_day IS NOT NULL OR (frequency IS NOT NULL AND payment_schedule IS NOT NULL))) OR
+  (type = 'single_shot' AND date IS NOT NULL)
+);
@@ -0,0 +1,14 @@
+-- Migration: 20260127120000_project_yearly_schedules
+-- Feature: annual-income-events
+-- Date: 2026-01-27
+-- Description: Allow recurring projects (income) to use the every-N-months and
+--              yearly frequencies (13º salário, férias, yearly bonus).
+--
+-- The payment_schedule JSONB column needs no change; only the frequency CHECK
+-- constraint from the initial schema has to accept the new values.
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_frequency_check;
+
+ALTER TABLE projects ADD CONSTRAINT projects_frequency_check CHECK (
+  frequency IN ('weekly', 'biweekly', 'twice-monthly', 'monthly', 'every-n-months', 'yearly')
+);
@@ -0,0 +1,16 @@
+-- Migration: 20260128120000_business_day_rollover
+-- Feature: business-day-rollover
+-- Date: 2026-01-28
+-- Description: Per-item rule for payments that fall on weekends or national
+--              holidays: keep the date, move to the previous business day
+--              (e.g. salaries) or to the next business day (e.g. boletos).
+--
+-- Existing rows default to 'none', which keeps the previous behavior.
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS business_day_rollover TEXT NOT NULL DEFAULT 'none'
+  CHECK (business_day_rollover IN ('none', 'previous', 'next'));
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS business_day_rollover TEXT NOT NULL DEFAULT 'none'
+  CHECK (business_day_rollover IN ('none', 'previous', 'next'));
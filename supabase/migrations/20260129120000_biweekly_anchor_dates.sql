@@ -0,0 +1,44 @@
+-- Migration: 20260129120000_biweekly_anchor_dates
+-- Feature: biweekly-anchor-dates
+-- Date: 2026-01-29
+-- Description: Biweekly dayOfWeek schedules now carry an anchorDate (a real
+--              reference payday, yyyy-MM-dd) so the 14-day cadence no longer
+--              depends on the projection start date.
+--
+-- Existing biweekly schedules are anchored on the next occurrence of their
+-- weekday (today included). This matches what the engine projected for them
+-- when the projection started today; users can adjust it in the form.
+
+-- ============================================================================
+-- STEP 1: Anchor biweekly recurring projects
+-- ============================================================================
+
+UPDATE projects
+SET payment_schedule = payment_schedule || jsonb_build_object(
+  'anchorDate',
+  to_char(
+    current_date + (((payment_schedule->>'dayOfWeek')::int - EXTRACT(ISODOW FROM current_date)::int + 7) % 7),
+    'YYYY-MM-DD'
+  )
+)
+WHERE type = 'recurring'
+  AND frequency = 'biweekly'
+  AND payment_schedule->>'type' = 'dayOfWeek'
+  AND NOT (payment_schedule ? 'anchorDate');
+
+-- ============================================================================
+-- STEP 2: Anchor biweekly fixed expenses
+-- ============================================================================
+
+UPDATE expenses
+SET payment_schedule = payment_schedule || jsonb_build_object(
+  'anchorDate',
+  to_char(
+    current_date + (((payment_schedule->>'dayOfWeek')::int - EXTRACT(ISODOW FROM current_date)::int + 7) % 7),
+    'YYYY-MM-DD'
+  )
+)
+WHERE type = 'fixed'
+  AND frequency = 'biweekly'
+  AND payment_schedule->>'type' = 'dayOfWeek'
+  AND NOT (payment_schedule ? 'anchorDate');
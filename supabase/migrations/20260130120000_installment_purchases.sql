@@ -0,0 +1,85 @@
+-- Migration: 20260130120000_installment_purchases
+-- Feature: installment-purchases
+-- Date: 2026-01-30
+-- Description: Create installment_purchases table for credit card purchases
+--              split into monthly installments (compras parceladas).
+--
+-- Each installment is added on top of the card's projected statement for its
+-- month, starting at first_month/first_year.
+
+-- ============================================================================
+-- TABLE CREATION
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS installment_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_card_id UUID NOT NULL REFERENCES credit_cards(id) ON DELETE CASCADE,
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE RESTRICT,
+  description TEXT NOT NULL CHECK (length(description) BETWEEN 1 AND 100),
+  total_amount INTEGER NOT NULL CHECK (total_amount > 0),
+  installment_count SMALLINT NOT NULL CHECK (installment_count BETWEEN 2 AND 48),
+  first_month SMALLINT NOT NULL CHECK (first_month BETWEEN 1 AND 12),
+  first_year SMALLINT NOT NULL CHECK (first_year >= 2020),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (total_amount >= installment_count)
+);
+
+COMMENT ON TABLE installment_purchases IS 'Credit card purchases split into monthly installments';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS installment_purchases_credit_card_id_idx ON installment_purchases(credit_card_id);
+CREATE INDEX IF NOT EXISTS installment_purchases_group_id_idx ON installment_purchases(group_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE installment_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read group installment_purchases"
+ON installment_purchases FOR SELECT
+TO authenticated
+USING (group_id = get_user_group_id());
+
+CREATE POLICY "Users can insert group installment_purchases"
+ON installment_purchases FOR INSERT
+TO authenticated
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can update group installment_purchases"
+ON installment_purchases FOR UPDATE
+TO authenticated
+USING (group_id = get_user_group_id())
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can delete group installment_purchases"
+ON installment_purchases FOR DELETE
+TO authenticated
+USING (group_id = get_user_group_id());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'installment_purchases'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE installment_purchases;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_installment_purchases_updated_at
+  BEFORE UPDATE ON installment_purchases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
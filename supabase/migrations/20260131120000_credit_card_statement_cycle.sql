@@ -0,0 +1,27 @@
+-- Migration: 20260131120000_credit_card_statement_cycle
+-- Feature: credit-card-statement-cycle
+-- Date: 2026-01-31
+-- Description: Model the credit card statement cycle from a closing day.
+--              statement_balance holds the closed statement (paid on the next
+--              due date) and open_statement_balance the statement still
+--              accumulating purchases (paid on the due date after the next
+--              closing). statement_closed_on records the closing date of the
+--              statement held in statement_balance, so month progression can
+--              roll statements over on each closing date exactly once.
+--
+-- Existing cards keep closing_day NULL, which keeps the calendar-month behavior.
+
+ALTER TABLE credit_cards
+  ADD COLUMN IF NOT EXISTS closing_day SMALLINT
+  CHECK (closing_day BETWEEN 1 AND 31);
+
+ALTER TABLE credit_cards
+  ADD COLUMN IF NOT EXISTS open_statement_balance INTEGER NOT NULL DEFAULT 0
+  CHECK (open_statement_balance >= 0);
+
+ALTER TABLE credit_cards
+  ADD COLUMN IF NOT EXISTS statement_closed_on DATE;
+
+COMMENT ON COLUMN credit_cards.closing_day IS 'Day of the month the statement closes (NULL = no statement cycle modeling)';
+COMMENT ON COLUMN credit_cards.open_statement_balance IS 'Open statement amount in cents';
+COMMENT ON COLUMN credit_cards.statement_closed_on IS 'Closing date of the statement held in statement_balance';
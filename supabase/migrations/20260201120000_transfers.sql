@@ -0,0 +1,96 @@
+-- Migration: 20260201120000_transfers
+-- Feature: account-transfers
+-- Date: 2026-02-01
+-- Description: Create transfers table for moving money between bank accounts
+--              (e.g. pulling from savings to cover a danger day, or sweeping
+--              surplus into investments on payday).
+--
+-- A transfer is either single_shot (happens once on `date`) or recurring
+-- (follows `frequency`/`payment_schedule`, same shapes as projects/expenses).
+
+-- ============================================================================
+-- TABLE CREATION
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  type TEXT NOT NULL CHECK (type IN ('single_shot', 'recurring')),
+  source_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  destination_account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  date DATE,
+  frequency TEXT CHECK (
+    frequency IN ('weekly', 'biweekly', 'twice-monthly', 'monthly', 'every-n-months', 'yearly')
+  ),
+  payment_schedule JSONB,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (source_account_id <> destination_account_id),
+  CHECK (
+    (type = 'single_shot' AND date IS NOT NULL AND frequency IS NULL AND payment_schedule IS NULL)
+    OR (type = 'recurring' AND date IS NULL AND frequency IS NOT NULL AND payment_schedule IS NOT NULL)
+  )
+);
+
+COMMENT ON TABLE transfers IS 'Scheduled money movements between bank accounts';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS transfers_group_id_idx ON transfers(group_id);
+CREATE INDEX IF NOT EXISTS transfers_source_account_id_idx ON transfers(source_account_id);
+CREATE INDEX IF NOT EXISTS transfers_destination_account_id_idx ON transfers(destination_account_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read group transfers"
+ON transfers FOR SELECT
+TO authenticated
+USING (group_id = get_user_group_id());
+
+CREATE POLICY "Users can insert group transfers"
+ON transfers FOR INSERT
+TO authenticated
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can update group transfers"
+ON transfers FOR UPDATE
+TO authenticated
+USING (group_id = get_user_group_id())
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can delete group transfers"
+ON transfers FOR DELETE
+TO authenticated
+USING (group_id = get_user_group_id());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'transfers'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE transfers;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_transfers_updated_at
+  BEFORE UPDATE ON transfers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
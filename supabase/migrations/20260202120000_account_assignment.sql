@@ -0,0 +1,43 @@
+-- Migration: 20260202120000_account_assignment
+-- Feature: per-account-projection
+-- Date: 2026-02-02
+-- Description: Assign income, expenses and credit card bills to a target
+--              checking account so the projection can track each account's
+--              balance separately (e.g. two members with their own accounts).
+--
+-- Items with account_id NULL land in the group's default account. At most one
+-- account per group is flagged is_default; when none is, the projection falls
+-- back to the first checking account.
+
+-- ============================================================================
+-- DEFAULT ACCOUNT
+-- ============================================================================
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS is_default BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS accounts_one_default_per_group_idx
+  ON accounts(group_id) WHERE is_default;
+
+COMMENT ON COLUMN accounts.is_default IS 'Receives income and expenses without an assigned account';
+
+-- ============================================================================
+-- TARGET ACCOUNTS
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE credit_cards
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS projects_account_id_idx ON projects(account_id);
+CREATE INDEX IF NOT EXISTS expenses_account_id_idx ON expenses(account_id);
+CREATE INDEX IF NOT EXISTS credit_cards_account_id_idx ON credit_cards(account_id);
+
+COMMENT ON COLUMN projects.account_id IS 'Checking account the income lands in (NULL = default account)';
+COMMENT ON COLUMN expenses.account_id IS 'Checking account the expense is paid from (NULL = default account)';
+COMMENT ON COLUMN credit_cards.account_id IS 'Checking account the bill is paid from (NULL = default account)';
@@ -0,0 +1,24 @@
+-- Migration: 20260203120000_overdraft_limit
+-- Feature: overdraft-limit
+-- Date: 2026-02-03
+-- Description: Optional cheque especial (overdraft) limit and monthly interest
+--              rate on checking accounts. The projection treats negative
+--              balances inside the limit as a milder danger tier and estimates
+--              the interest the bank will charge.
+--
+-- Both columns are NULL for accounts without a cheque especial.
+
+-- ============================================================================
+-- OVERDRAFT LIMIT
+-- ============================================================================
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS overdraft_limit INTEGER
+    CHECK (overdraft_limit IS NULL OR overdraft_limit >= 0);
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS overdraft_monthly_rate NUMERIC(5, 2)
+    CHECK (overdraft_monthly_rate IS NULL OR (overdraft_monthly_rate >= 0 AND overdraft_monthly_rate <= 100));
+
+COMMENT ON COLUMN accounts.overdraft_limit IS 'Cheque especial limit in cents (NULL = no overdraft)';
+COMMENT ON COLUMN accounts.overdraft_monthly_rate IS 'Monthly overdraft interest rate in percent (e.g. 8.00 = 8% a.m.)';
@@ -0,0 +1,16 @@
+-- Migration: 20260203130000_overdraft_negative_balance
+-- Feature: overdraft-limit
+-- Date: 2026-02-03
+-- Description: Let checking accounts record a negative balance inside their
+--              cheque especial limit, so an account that is already overdrawn
+--              can be projected from its real balance.
+
+-- ============================================================================
+-- ACCOUNT BALANCE
+-- ============================================================================
+
+ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_balance_check;
+
+ALTER TABLE accounts
+  ADD CONSTRAINT accounts_balance_check
+    CHECK (balance >= -COALESCE(overdraft_limit, 0));
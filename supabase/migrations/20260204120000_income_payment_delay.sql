@@ -0,0 +1,36 @@
+-- Migration: 20260204120000_income_payment_delay
+-- Feature: income-payment-delay
+-- Date: 2026-02-04
+-- Description: Optional typical payment delay on income sources (recurring
+--              projects and single-shot income), for clients that pay some
+--              days after the invoice date. The projection posts the income on
+--              time in the optimistic scenario, after the shortest delay in the
+--              realistic one and after the longest delay in the pessimistic one.
+--
+-- Both columns are NULL for income that arrives on the scheduled date. A fixed
+-- delay stores the same value in both columns.
+
+-- ============================================================================
+-- PAYMENT DELAY
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS payment_delay_min_days INTEGER
+    CHECK (payment_delay_min_days IS NULL OR payment_delay_min_days BETWEEN 0 AND 90);
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS payment_delay_max_days INTEGER
+    CHECK (payment_delay_max_days IS NULL OR payment_delay_max_days BETWEEN 1 AND 90);
+
+ALTER TABLE projects
+  ADD CONSTRAINT projects_payment_delay_range_check CHECK (
+    (payment_delay_min_days IS NULL AND payment_delay_max_days IS NULL)
+    OR (
+      payment_delay_min_days IS NOT NULL
+      AND payment_delay_max_days IS NOT NULL
+      AND payment_delay_min_days <= payment_delay_max_days
+    )
+  );
+
+COMMENT ON COLUMN projects.payment_delay_min_days IS 'Shortest typical delay in days after the scheduled date (NULL = pays on time)';
+COMMENT ON COLUMN projects.payment_delay_max_days IS 'Longest typical delay in days after the scheduled date (NULL = pays on time)';
@@ -0,0 +1,37 @@
+-- Migration: 20260205120000_expense_amount_range
+-- Feature: expense-amount-range
+-- Date: 2026-02-05
+-- Description: Optional minimum and maximum amount on fixed expenses, for
+--              bills that change every month (utilities, groceries, fuel).
+--              The projection charges the minimum in the optimistic scenario,
+--              the average (stored in amount) in the realistic one and the
+--              maximum in the pessimistic one.
+--
+-- Both columns are NULL for expenses with a fixed amount and for single-shot
+-- expenses.
+
+-- ============================================================================
+-- AMOUNT RANGE
+-- ============================================================================
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS amount_min INTEGER
+    CHECK (amount_min IS NULL OR amount_min > 0);
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS amount_max INTEGER
+    CHECK (amount_max IS NULL OR amount_max > 0);
+
+ALTER TABLE expenses
+  ADD CONSTRAINT expenses_amount_range_check CHECK (
+    (amount_min IS NULL AND amount_max IS NULL)
+    OR (
+      type = 'fixed'
+      AND amount_min IS NOT NULL
+      AND amount_max IS NOT NULL
+      AND amount_min < amount_max
+    )
+  );
+
+COMMENT ON COLUMN expenses.amount_min IS 'Minimum amount in cents of a variable fixed expense (NULL = fixed amount)';
+COMMENT ON COLUMN expenses.amount_max IS 'Maximum amount in cents of a variable fixed expense (NULL = fixed amount)';
@@ -0,0 +1,26 @@
+-- Migration: 20260206120000_amount_changes
+-- Feature: amount-changes
+-- Date: 2026-02-06
+-- Description: Effective-dated amount changes on recurring income (projects)
+--              and fixed expenses, e.g. a raise next month or rent readjusted
+--              by IGP-M in March. The projection charges each payment with the
+--              amount in effect on its due date; `amount` applies before the
+--              first change.
+--
+-- Each entry is { "effectiveDate": "yyyy-MM-dd", "amount": <cents> }, stored in
+-- effective date order. Single-shot rows keep an empty array.
+
+-- ============================================================================
+-- AMOUNT CHANGES
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS amount_changes JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(amount_changes) = 'array');
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS amount_changes JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(amount_changes) = 'array');
+
+COMMENT ON COLUMN projects.amount_changes IS 'Scheduled amount changes [{effectiveDate, amount}] of recurring income';
+COMMENT ON COLUMN expenses.amount_changes IS 'Scheduled amount changes [{effectiveDate, amount}] of fixed expenses';
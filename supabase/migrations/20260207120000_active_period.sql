@@ -0,0 +1,32 @@
+-- Migration: 20260207120000_active_period
+-- Feature: active-period
+-- Date: 2026-02-07
+-- Description: Optional start and end dates on recurring income (projects)
+--              and fixed expenses, e.g. a contract that ends in June or a
+--              school fee that starts in February. Payments due outside the
+--              period are left out of the projection; null means open-ended.
+
+-- ============================================================================
+-- ACTIVE PERIOD
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS end_date DATE;
+
+ALTER TABLE projects
+  ADD CONSTRAINT projects_active_period_check
+    CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS end_date DATE;
+
+ALTER TABLE expenses
+  ADD CONSTRAINT expenses_active_period_check
+    CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date);
+
+COMMENT ON COLUMN projects.start_date IS 'First day recurring income is paid (null = already active)';
+COMMENT ON COLUMN projects.end_date IS 'Last day recurring income is paid (null = no end)';
+COMMENT ON COLUMN expenses.start_date IS 'First day a fixed expense is charged (null = already active)';
+COMMENT ON COLUMN expenses.end_date IS 'Last day a fixed expense is charged (null = no end)';
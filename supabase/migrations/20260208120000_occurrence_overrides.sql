@@ -0,0 +1,28 @@
+-- Migration: 20260208120000_occurrence_overrides
+-- Feature: occurrence-overrides
+-- Date: 2026-02-08
+-- Description: Per-occurrence overrides on recurring income (projects) and
+--              fixed expenses: skip one payment, move it to another date or
+--              change its amount (e.g. rent paid early this month, a client
+--              skipping one invoice) without deactivating the whole item.
+--
+-- Each entry is keyed by the date the occurrence is scheduled for:
+--   { "type": "skip", "occurrenceDate": "yyyy-MM-dd" }
+--   { "type": "reschedule", "occurrenceDate": "yyyy-MM-dd", "date": "yyyy-MM-dd" }
+--   { "type": "amount", "occurrenceDate": "yyyy-MM-dd", "amount": <cents> }
+-- stored in occurrence date order. Single-shot rows keep an empty array.
+
+-- ============================================================================
+-- OCCURRENCE OVERRIDES
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS occurrence_overrides JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(occurrence_overrides) = 'array');
+
+ALTER TABLE expenses
+  ADD COLUMN IF NOT EXISTS occurrence_overrides JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(occurrence_overrides) = 'array');
+
+COMMENT ON COLUMN projects.occurrence_overrides IS 'Per-occurrence overrides [{type, occurrenceDate, date?, amount?}] of recurring income';
+COMMENT ON COLUMN expenses.occurrence_overrides IS 'Per-occurrence overrides [{type, occurrenceDate, date?, amount?}] of fixed expenses';
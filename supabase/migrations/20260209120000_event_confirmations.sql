@@ -0,0 +1,96 @@
+-- Migration: 20260209120000_event_confirmations
+-- Feature: event-reconciliation
+-- Date: 2026-02-09
+-- Description: Create event_confirmations table for reconciling past projected
+--              events against reality. Since the last balance update, each
+--              income or expense event can be confirmed as paid/received (with
+--              the real amount and date) or marked as not happened.
+--
+-- An event is keyed by its source (project, expense or credit card) and the
+-- date it was scheduled for. The estimated balance of today posts confirmed
+-- events on `date` and drops missed ones instead of assuming the schedule.
+
+-- ============================================================================
+-- TABLE CREATION
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS event_confirmations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE RESTRICT,
+  source_type TEXT NOT NULL CHECK (source_type IN ('project', 'expense', 'credit_card')),
+  source_id UUID NOT NULL,
+  occurrence_date DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('confirmed', 'missed')),
+  amount INTEGER CHECK (amount > 0),
+  date DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (group_id, source_type, source_id, occurrence_date),
+  CHECK (
+    (status = 'confirmed' AND amount IS NOT NULL AND date IS NOT NULL)
+    OR (status = 'missed' AND amount IS NULL AND date IS NULL)
+  )
+);
+
+COMMENT ON TABLE event_confirmations IS 'Past projected events confirmed as paid/received or marked as not happened';
+COMMENT ON COLUMN event_confirmations.source_id IS 'projects.id, expenses.id or credit_cards.id depending on source_type';
+COMMENT ON COLUMN event_confirmations.occurrence_date IS 'Date the event was scheduled for';
+COMMENT ON COLUMN event_confirmations.amount IS 'Amount actually paid or received in cents (confirmed only)';
+COMMENT ON COLUMN event_confirmations.date IS 'Date the payment actually happened (confirmed only)';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS event_confirmations_group_id_idx ON event_confirmations(group_id);
+CREATE INDEX IF NOT EXISTS event_confirmations_source_id_idx ON event_confirmations(source_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE event_confirmations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read group event confirmations"
+ON event_confirmations FOR SELECT
+TO authenticated
+USING (group_id = get_user_group_id());
+
+CREATE POLICY "Users can insert group event confirmations"
+ON event_confirmations FOR INSERT
+TO authenticated
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can update group event confirmations"
+ON event_confirmations FOR UPDATE
+TO authenticated
+USING (group_id = get_user_group_id())
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can delete group event confirmations"
+ON event_confirmations FOR DELETE
+TO authenticated
+USING (group_id = get_user_group_id());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'event_confirmations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE event_confirmations;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_event_confirmations_updated_at
+  BEFORE UPDATE ON event_confirmations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
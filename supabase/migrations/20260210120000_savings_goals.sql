@@ -0,0 +1,89 @@
+-- Migration: 20260210120000_savings_goals
+-- Feature: savings-goals
+-- Date: 2026-02-10
+-- Description: Create savings_goals table for money set aside for a future
+--              expense (vacations, car maintenance, annual taxes).
+--
+-- The projection sets aside the monthly contribution needed to reach
+-- `target_amount` by `target_date` on `contribution_day`. Goals linked to a
+-- savings/investment account transfer it there and count that account's
+-- balance as saved; other goals reserve it in checking and use `saved_amount`.
+
+-- ============================================================================
+-- TABLE CREATION
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS savings_goals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  target_amount INTEGER NOT NULL CHECK (target_amount > 0),
+  target_date DATE NOT NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  saved_amount INTEGER NOT NULL DEFAULT 0 CHECK (saved_amount >= 0),
+  contribution_day INTEGER NOT NULL CHECK (contribution_day BETWEEN 1 AND 31),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE savings_goals IS 'Savings goals and sinking funds with a target amount and date';
+COMMENT ON COLUMN savings_goals.account_id IS 'Savings/investment account receiving the contributions; NULL reserves them in checking';
+COMMENT ON COLUMN savings_goals.saved_amount IS 'Amount already set aside in cents, for goals without a linked account';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS savings_goals_group_id_idx ON savings_goals(group_id);
+CREATE INDEX IF NOT EXISTS savings_goals_account_id_idx ON savings_goals(account_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE savings_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read group savings goals"
+ON savings_goals FOR SELECT
+TO authenticated
+USING (group_id = get_user_group_id());
+
+CREATE POLICY "Users can insert group savings goals"
+ON savings_goals FOR INSERT
+TO authenticated
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can update group savings goals"
+ON savings_goals FOR UPDATE
+TO authenticated
+USING (group_id = get_user_group_id())
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can delete group savings goals"
+ON savings_goals FOR DELETE
+TO authenticated
+USING (group_id = get_user_group_id());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'savings_goals'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE savings_goals;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_savings_goals_updated_at
+  BEFORE UPDATE ON savings_goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
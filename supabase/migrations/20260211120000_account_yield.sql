@@ -0,0 +1,29 @@
+-- Migration: 20260211120000_account_yield
+-- Feature: account-yield
+-- Date: 2026-02-11
+-- Description: Optional yield on savings and investment accounts, either a
+--              fixed annual rate or a percentage of the CDI. The projection
+--              compounds it on business days, optionally net of income tax
+--              (regressive table).
+--
+-- The CDI rate itself is a group setting stored in group_preferences under
+-- the 'cdi_annual_rate' key, next to 'safety_threshold'.
+
+-- ============================================================================
+-- ACCOUNT YIELD
+-- ============================================================================
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS yield_type TEXT
+    CHECK (yield_type IS NULL OR yield_type IN ('fixed', 'cdi'));
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS yield_rate NUMERIC(5, 2)
+    CHECK (yield_rate IS NULL OR (yield_rate >= 0 AND yield_rate <= 500));
+
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS yield_income_tax BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN accounts.yield_type IS 'fixed = annual rate, cdi = percent of the group CDI rate (NULL = no yield)';
+COMMENT ON COLUMN accounts.yield_rate IS 'Annual yield rate in percent, or percent of the CDI (e.g. 110.00)';
+COMMENT ON COLUMN accounts.yield_income_tax IS 'Withhold income tax on the yield using the regressive table';
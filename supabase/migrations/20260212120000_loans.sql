@@ -0,0 +1,96 @@
+-- Migration: 20260212120000_loans
+-- Feature: loans
+-- Date: 2026-02-12
+-- Description: Create loans table for loans and financings paid in monthly
+--              installments (SAC or Price amortization).
+--
+-- The projection builds the amortization schedule from `principal`,
+-- `annual_rate` and `term_months` starting on `first_due_date` and pays each
+-- installment from `account_id` (NULL = default checking account).
+-- `prepayments` holds extra payments that shorten the term or lower the
+-- remaining installments.
+
+-- ============================================================================
+-- TABLE CREATION
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS loans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 100),
+  principal INTEGER NOT NULL CHECK (principal > 0),
+  annual_rate NUMERIC(7, 4) NOT NULL CHECK (annual_rate BETWEEN 0 AND 100),
+  term_months INTEGER NOT NULL CHECK (term_months BETWEEN 1 AND 600),
+  system TEXT NOT NULL CHECK (system IN ('sac', 'price')),
+  first_due_date DATE NOT NULL,
+  account_id UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  prepayments JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(prepayments) = 'array'),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE loans IS 'Loans and financings amortized in monthly installments';
+COMMENT ON COLUMN loans.principal IS 'Amount borrowed in cents';
+COMMENT ON COLUMN loans.annual_rate IS 'Effective annual interest rate in percent';
+COMMENT ON COLUMN loans.system IS 'Amortization system: sac (constant amortization) or price (constant installment)';
+COMMENT ON COLUMN loans.account_id IS 'Checking account the installments are paid from; NULL uses the default account';
+COMMENT ON COLUMN loans.prepayments IS 'Extra payments: [{ date: yyyy-MM-dd, amount: cents, mode: reduce_term | reduce_installment }]';
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS loans_group_id_idx ON loans(group_id);
+CREATE INDEX IF NOT EXISTS loans_account_id_idx ON loans(account_id);
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE loans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read group loans"
+ON loans FOR SELECT
+TO authenticated
+USING (group_id = get_user_group_id());
+
+CREATE POLICY "Users can insert group loans"
+ON loans FOR INSERT
+TO authenticated
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can update group loans"
+ON loans FOR UPDATE
+TO authenticated
+USING (group_id = get_user_group_id())
+WITH CHECK (group_id = get_user_group_id());
+
+CREATE POLICY "Users can delete group loans"
+ON loans FOR DELETE
+TO authenticated
+USING (group_id = get_user_group_id());
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'loans'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE loans;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE TRIGGER update_loans_updated_at
+  BEFORE UPDATE ON loans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
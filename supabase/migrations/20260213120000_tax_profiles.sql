@@ -0,0 +1,24 @@
+-- Migration: 20260213120000_tax_profiles
+-- Feature: tax-provisioning
+-- Date: 2026-02-13
+-- Description: Optional tax profile on income (recurring projects and
+--              single-shot income) so the projection provisions the taxes
+--              paid in the following month.
+--
+-- `tax_profile` is one of:
+--   { "type": "flat", "rate": 6 }                                 -- percent of each payment
+--   { "type": "simples", "annex": "III", "annualRevenue": 18000000 } -- DAS, RBT12 in cents
+--   { "type": "carne_leao" }                                      -- progressive monthly table
+
+-- ============================================================================
+-- TAX PROFILE
+-- ============================================================================
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS tax_profile JSONB
+    CHECK (
+      tax_profile IS NULL
+      OR tax_profile->>'type' IN ('flat', 'simples', 'carne_leao')
+    );
+
+COMMENT ON COLUMN projects.tax_profile IS 'Taxes provisioned on the income: flat rate, Simples Nacional (DAS) or carnê-leão (NULL = none)';